@@ -19,7 +19,6 @@ const CORS_ORIGIN = process.env.VITE_CORS_ORIGIN || '*';
 // Define backend API URLs
 const DEFAULT_API_URL = process.env.VITE_API_URL || 'https://backend-server.7za6uc.easypanel.host/api';
 const DEFAULT_EMAIL_API_URL = process.env.VITE_EMAIL_API_URL || 'https://backend-server.7za6uc.easypanel.host/email-api';
-const DEFAULT_WHATSAPP_API_URL = process.env.VITE_WHATSAPP_API_URL || 'https://backend-whatsappapi.7za6uc.easypanel.host';
 const DEFAULT_POCKETBASE_URL = process.env.VITE_POCKETBASE_URL || 'https://backend-pocketbase.7za6uc.easypanel.host';
 
 // Log environment settings if debugging is enabled
@@ -30,7 +29,6 @@ if (DEBUG) {
   console.log('CORS_ORIGIN:', CORS_ORIGIN);
   console.log('DEFAULT_API_URL:', DEFAULT_API_URL);
   console.log('DEFAULT_EMAIL_API_URL:', DEFAULT_EMAIL_API_URL);
-  console.log('DEFAULT_WHATSAPP_API_URL:', DEFAULT_WHATSAPP_API_URL);
   console.log('DEFAULT_POCKETBASE_URL:', DEFAULT_POCKETBASE_URL);
 }
 
@@ -106,7 +104,6 @@ const createProxyOptions = (target, pathPrefix) => ({
 // Use the proxy middleware for API routes
 app.use('/api', createProxyMiddleware(createProxyOptions(DEFAULT_API_URL, '/api')));
 app.use('/email-api', createProxyMiddleware(createProxyOptions(DEFAULT_EMAIL_API_URL, '/email-api')));
-app.use('/whatsapp-api', createProxyMiddleware(createProxyOptions(DEFAULT_WHATSAPP_API_URL, '/whatsapp-api')));
 
 // Add PocketBase proxy
 app.use('/pocketbase', createProxyMiddleware({
@@ -175,49 +172,8 @@ app.get('/pocketbase-status', async (req, res) => {
   }
 });
 
-// Special health check endpoint for WhatsApp API (as a fallback)
-app.get('/whatsapp-status', async (req, res) => {
-  try {
-    const apiUrl = `${DEFAULT_WHATSAPP_API_URL}/status`;
-    console.log(`Direct health check for WhatsApp API at ${apiUrl}`);
-    
-    // Import fetch dynamically to avoid polyfill issues
-    const fetch = (await import('node-fetch')).default;
-    
-    const response = await fetch(apiUrl, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'Origin': DEFAULT_WHATSAPP_API_URL,
-        'Referer': DEFAULT_WHATSAPP_API_URL
-      },
-      timeout: 5000
-    });
-    
-    const data = await response.json();
-    console.log('WhatsApp API status response:', data);
-    
-    // Set CORS headers
-    res.setHeader('Access-Control-Allow-Origin', CORS_ORIGIN);
-    res.status(200).json({
-      success: true,
-      message: 'WhatsApp API is connected',
-      status: data.status || 'ok',
-      data
-    });
-  } catch (error) {
-    console.error('Error checking WhatsApp API status:', error);
-    
-    // Set CORS headers
-    res.setHeader('Access-Control-Allow-Origin', CORS_ORIGIN);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to connect to WhatsApp API',
-      error: error.message
-    });
-  }
-});
+// WhatsApp is only reachable through the backend server's /api/messages routes,
+// which check the operator's token before anything is sent
 
 // Serve static files from the 'dist' directory
 const distPath = path.join(__dirname, 'dist');
@@ -236,6 +192,5 @@ app.listen(PORT, () => {
   console.log(`Frontend domain: ${APP_DOMAIN}`);
   console.log(`API Proxy: ${DEFAULT_API_URL}`);
   console.log(`Email API Proxy: ${DEFAULT_EMAIL_API_URL}`);
-  console.log(`WhatsApp API Proxy: ${DEFAULT_WHATSAPP_API_URL}`);
   console.log(`PocketBase URL: ${DEFAULT_POCKETBASE_URL}`);
 }); 
\ No newline at end of file
@@ -7,8 +7,14 @@ import { ThemeProvider } from "@/components/theme/theme-provider";
 import DashboardPage from "./pages/admin/DashboardPage";
 import OrdersPage from "./pages/admin/OrdersPage";
 import CustomersPage from "./pages/admin/CustomersPage";
+import CustomerProfilePage from "./pages/admin/CustomerProfilePage";
+import CustomerDuplicatesPage from "./pages/admin/CustomerDuplicatesPage";
+import SegmentsPage from "./pages/admin/SegmentsPage";
 import ProductsPage from "./pages/admin/ProductsPage";
 import PaymentsPage from "./pages/admin/PaymentsPage";
+import CouponsPage from "./pages/admin/CouponsPage";
+import CampaignsPage from "./pages/admin/CampaignsPage";
+import InboxPage from "./pages/admin/InboxPage";
 import SettingsPage from "./pages/admin/SettingsPage";
 import WhatsAppActivitiesPage from "./pages/admin/WhatsAppActivitiesPage";
 import WhatsAppTemplatesPage from "./pages/admin/WhatsAppTemplatesPage";
@@ -17,6 +23,7 @@ import EmailTemplatesPage from "./pages/admin/EmailTemplatesPage";
 import LoginPage from "./pages/LoginPage";
 import NotFound from "./pages/NotFound";
 import FeedbackPage from "./pages/FeedbackPage";
+import { RequireAuth } from "@/components/auth/RequireAuth";
 
 // Set PocketBase URL from environment variable
 if (import.meta.env.VITE_POCKETBASE_URL) {
@@ -50,16 +57,22 @@ const App = () => (
             <Route path="/feedback" element={<FeedbackPage />} />
             
             {/* Admin routes */}
-            <Route path="/admin" element={<DashboardPage />} />
-            <Route path="/admin/orders" element={<OrdersPage />} />
-            <Route path="/admin/customers" element={<CustomersPage />} />
-            <Route path="/admin/products" element={<ProductsPage />} />
-            <Route path="/admin/payments" element={<PaymentsPage />} />
-            <Route path="/admin/settings" element={<SettingsPage />} />
-            <Route path="/admin/whatsapp" element={<WhatsAppActivitiesPage />} />
-            <Route path="/admin/whatsapp-templates" element={<WhatsAppTemplatesPage />} />
-            <Route path="/admin/email" element={<EmailActivitiesPage />} />
-            <Route path="/admin/email-templates" element={<EmailTemplatesPage />} />
+            <Route path="/admin" element={<RequireAuth permission="dashboard.view"><DashboardPage /></RequireAuth>} />
+            <Route path="/admin/orders" element={<RequireAuth permission="orders.view"><OrdersPage /></RequireAuth>} />
+            <Route path="/admin/customers" element={<RequireAuth permission="customers.view"><CustomersPage /></RequireAuth>} />
+            <Route path="/admin/customers/duplicates" element={<RequireAuth permission="customers.view"><CustomerDuplicatesPage /></RequireAuth>} />
+            <Route path="/admin/customers/:id" element={<RequireAuth permission="customers.view"><CustomerProfilePage /></RequireAuth>} />
+            <Route path="/admin/segments" element={<RequireAuth permission="customers.view"><SegmentsPage /></RequireAuth>} />
+            <Route path="/admin/products" element={<RequireAuth permission="products.view"><ProductsPage /></RequireAuth>} />
+            <Route path="/admin/payments" element={<RequireAuth permission="payments.view"><PaymentsPage /></RequireAuth>} />
+            <Route path="/admin/coupons" element={<RequireAuth permission="coupons.view"><CouponsPage /></RequireAuth>} />
+            <Route path="/admin/settings" element={<RequireAuth permission="settings.view"><SettingsPage /></RequireAuth>} />
+            <Route path="/admin/inbox" element={<RequireAuth permission="messages.view"><InboxPage /></RequireAuth>} />
+            <Route path="/admin/campaigns" element={<RequireAuth permission="messages.view"><CampaignsPage /></RequireAuth>} />
+            <Route path="/admin/whatsapp" element={<RequireAuth permission="messages.view"><WhatsAppActivitiesPage /></RequireAuth>} />
+            <Route path="/admin/whatsapp-templates" element={<RequireAuth permission="templates.view"><WhatsAppTemplatesPage /></RequireAuth>} />
+            <Route path="/admin/email" element={<RequireAuth permission="messages.view"><EmailActivitiesPage /></RequireAuth>} />
+            <Route path="/admin/email-templates" element={<RequireAuth permission="templates.view"><EmailTemplatesPage /></RequireAuth>} />
             
             {/* Catch-all route */}
             <Route path="*" element={<NotFound />} />
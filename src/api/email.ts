@@ -1,6 +1,7 @@
 import express from 'express';
 import { sendEmail, sendEmailWithAttachment, checkEmailConnection } from '../server/emailService';
-import PocketBase from 'pocketbase';
+import { pb, ensureAdminAuth } from '../server/pocketbase';
+import { requirePermission } from '../server/auth';
 
 // Define EmailActivity interface here to avoid import issues
 interface EmailActivity {
@@ -16,30 +17,6 @@ interface EmailActivity {
 
 const router = express.Router();
 
-// Initialize PocketBase for logging activities
-const pb = new PocketBase(process.env.VITE_POCKETBASE_URL || 'https://backend-pocketbase.7za6uc.easypanel.host');
-
-// Ensure admin authentication for PocketBase
-async function ensureAdminAuth() {
-  try {
-    // Check if already authenticated
-    if (pb.authStore.isValid) {
-      return;
-    }
-    
-    // Authenticate with admin credentials
-    await pb.admins.authWithPassword(
-      process.env.POCKETBASE_ADMIN_EMAIL || 'admin@example.com',
-      process.env.POCKETBASE_ADMIN_PASSWORD || 'password123'
-    );
-    
-    console.log('Admin authenticated successfully in email API');
-  } catch (error) {
-    console.error('Error authenticating admin in email API:', error);
-    throw error;
-  }
-}
-
 // Ensure the email_activities collection exists
 async function ensureEmailActivitiesCollection() {
   try {
@@ -107,7 +84,7 @@ async function logEmailActivity(activity: EmailActivity) {
 }
 
 // Health check endpoint
-router.get('/status', async (req, res) => {
+router.get('/status', requirePermission('messages.view'), async (req, res) => {
   try {
     const status = await checkEmailConnection();
     return res.status(status.connected ? 200 : 500).json(status);
@@ -122,9 +99,9 @@ router.get('/status', async (req, res) => {
 });
 
 // Send email endpoint
-router.post('/send-email', async (req, res) => {
+router.post('/send-email', requirePermission('messages.send'), async (req, res) => {
   try {
-    const { to, subject, message, variables } = req.body;
+    const { to, subject, message, variables, sender } = req.body;
     
     // Validate required fields
     if (!to || !subject || !message) {
@@ -135,7 +112,7 @@ router.post('/send-email', async (req, res) => {
     }
     
     // Send the email
-    const result = await sendEmail(to, subject, message, variables);
+    const result = await sendEmail(to, subject, message, variables, sender);
     
     // Log the activity if successful
     if (result.success) {
@@ -163,9 +140,9 @@ router.post('/send-email', async (req, res) => {
 });
 
 // Send email with attachment endpoint
-router.post('/send-email-with-attachment', async (req, res) => {
+router.post('/send-email-with-attachment', requirePermission('messages.send'), async (req, res) => {
   try {
-    const { to, subject, message, attachments, variables } = req.body;
+    const { to, subject, message, attachments, variables, sender } = req.body;
     
     // Validate required fields
     if (!to || !subject || !message || !attachments || !Array.isArray(attachments)) {
@@ -176,7 +153,7 @@ router.post('/send-email-with-attachment', async (req, res) => {
     }
     
     // Send the email with attachment
-    const result = await sendEmailWithAttachment(to, subject, message, attachments, variables);
+    const result = await sendEmailWithAttachment(to, subject, message, attachments, variables, sender);
     
     // Log the activity if successful
     if (result.success) {
@@ -204,7 +181,7 @@ router.post('/send-email-with-attachment', async (req, res) => {
 });
 
 // Log email activity endpoint
-router.post('/log-activity', async (req, res) => {
+router.post('/log-activity', requirePermission('messages.send'), async (req, res) => {
   try {
     const activity: EmailActivity = req.body;
     
@@ -233,7 +210,7 @@ router.post('/log-activity', async (req, res) => {
 });
 
 // Check email connection status endpoint
-router.get('/connection-status', async (req, res) => {
+router.get('/connection-status', requirePermission('messages.view'), async (req, res) => {
   try {
     const status = await checkEmailConnection();
     return res.status(200).json(status);
@@ -0,0 +1,220 @@
+import express from 'express';
+import { requirePermission } from '../server/auth';
+import {
+  EnqueueOptions,
+  QueueStateError,
+  cancelQueuedMessage,
+  enqueueMessage,
+  retryQueuedMessage,
+} from '../server/messageQueue';
+import { checkWhatsAppConnection, formatPhoneNumber, isWhatsAppMessageKind } from '../server/whatsappService';
+import { loadEmailDefaults, loadOrder, loadOrderContext, loadTemplate } from '../server/messageTemplates';
+import { renderTemplate, TemplateRenderError } from '../lib/templateEngine';
+import { CampaignStateError, cancelCampaign, launchCampaign } from '../server/campaigns';
+
+// Outbound WhatsApp and email for the admin app. Every route needs a signed-in
+// operator; messages go onto the durable queue and are logged as activities.
+const router = express.Router();
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function readOptions(body: Record<string, unknown>): EnqueueOptions {
+  return {
+    orderId: typeof body.orderId === 'string' ? body.orderId : undefined,
+    templateName: typeof body.templateName === 'string' ? body.templateName : undefined,
+    idempotencyKey: typeof body.idempotencyKey === 'string' ? body.idempotencyKey : undefined,
+  };
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+// A template that can't be rendered is the sender's to fix, not a server fault
+const errorStatus = (error: unknown) => (error instanceof TemplateRenderError ? 400 : 500);
+
+// WhatsApp API connection status
+router.get('/whatsapp/status', requirePermission('messages.view'), async (req, res) => {
+  const status = await checkWhatsAppConnection();
+  return res.status(200).json(status);
+});
+
+// Queue a WhatsApp text, image, video or document message
+router.post('/whatsapp/send', requirePermission('messages.send'), async (req, res) => {
+  try {
+    const { kind = 'text', to, message, caption, mediaUrl, filename, variables } = req.body;
+
+    if (!to || !isWhatsAppMessageKind(kind)) {
+      return res.status(400).json({ success: false, message: 'Recipient and a valid message kind are required' });
+    }
+    if (kind === 'text' && !message) {
+      return res.status(400).json({ success: false, message: 'Message is required' });
+    }
+    if (kind !== 'text' && !mediaUrl) {
+      return res.status(400).json({ success: false, message: 'Media URL is required' });
+    }
+    if (kind === 'document' && !filename) {
+      return res.status(400).json({ success: false, message: 'Filename is required for documents' });
+    }
+
+    // Placeholders are filled here, so the WhatsApp API only ever gets finished text
+    const fill = (text?: string) => (text && variables ? renderTemplate(text, variables) : text);
+    const number = formatPhoneNumber(to);
+    const payload: Record<string, unknown> = { number };
+    if (kind === 'text') payload.message = fill(message);
+    if (kind === 'image') payload.imageUrl = mediaUrl;
+    if (kind === 'video') payload.videoUrl = mediaUrl;
+    if (kind === 'document') {
+      payload.documentUrl = mediaUrl;
+      payload.filename = filename;
+    }
+    if (caption) payload.caption = fill(caption);
+
+    const result = await enqueueMessage('whatsapp', kind, number, payload, readOptions(req.body));
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('Error in whatsapp/send endpoint:', error);
+    return res.status(errorStatus(error)).json({ success: false, message: errorMessage(error, 'Failed to queue WhatsApp message') });
+  }
+});
+
+// Render a saved WhatsApp template for an order and queue it
+router.post('/whatsapp/template', requirePermission('messages.send'), async (req, res) => {
+  try {
+    const { orderId, templateName } = req.body;
+    if (!orderId || !templateName) {
+      return res.status(400).json({ success: false, message: 'Order and template name are required' });
+    }
+
+    const [order, template] = await Promise.all([
+      loadOrder(orderId),
+      loadTemplate('whatsapp_templates', templateName),
+    ]);
+    if (!order.customer_phone) {
+      return res.status(400).json({ success: false, message: 'No phone number on this order' });
+    }
+
+    const number = formatPhoneNumber(order.customer_phone);
+    const context = await loadOrderContext(order);
+    const result = await enqueueMessage('whatsapp', 'text', number, {
+      number,
+      message: renderTemplate(template.content, context),
+    }, { orderId, templateName });
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('Error in whatsapp/template endpoint:', error);
+    return res.status(errorStatus(error)).json({ success: false, message: errorMessage(error, 'Failed to queue WhatsApp template') });
+  }
+});
+
+// Queue an email, with optional attachments. Sender details come from the store settings.
+router.post('/email/send', requirePermission('messages.send'), async (req, res) => {
+  try {
+    const { to, subject, message, text, variables, attachments } = req.body;
+
+    if (!to || !subject || !message) {
+      return res.status(400).json({ success: false, message: 'Recipient email, subject, and message are required' });
+    }
+    if (!EMAIL_PATTERN.test(to)) {
+      return res.status(400).json({ success: false, message: 'Invalid email address format' });
+    }
+    if (attachments !== undefined && !Array.isArray(attachments)) {
+      return res.status(400).json({ success: false, message: 'Attachments must be a list' });
+    }
+
+    const defaults = await loadEmailDefaults();
+    // Rendered before queueing, so a bad placeholder is reported now rather than by a failed send
+    const values = { ...defaults.variables, ...variables };
+    const result = await enqueueMessage('email', 'email', to, {
+      to,
+      subject: renderTemplate(subject, values),
+      message: renderTemplate(message, values, { format: 'html' }),
+      ...(text ? { text: renderTemplate(text, values) } : {}),
+      sender: defaults.sender,
+      ...(attachments?.length ? { attachments } : {}),
+    }, readOptions(req.body));
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('Error in email/send endpoint:', error);
+    return res.status(errorStatus(error)).json({ success: false, message: errorMessage(error, 'Failed to queue email') });
+  }
+});
+
+// Render a saved email template for an order and queue it
+router.post('/email/template', requirePermission('messages.send'), async (req, res) => {
+  try {
+    const { orderId, templateName } = req.body;
+    if (!orderId || !templateName) {
+      return res.status(400).json({ success: false, message: 'Order and template name are required' });
+    }
+
+    const [order, template, defaults] = await Promise.all([
+      loadOrder(orderId),
+      loadTemplate('email_templates', templateName),
+      loadEmailDefaults(),
+    ]);
+    if (!order.customer_email) {
+      return res.status(400).json({ success: false, message: 'No email address on this order' });
+    }
+
+    const context = await loadOrderContext(order);
+    const result = await enqueueMessage('email', 'email', order.customer_email, {
+      to: order.customer_email,
+      subject: renderTemplate(template.subject || templateName, context),
+      message: renderTemplate(template.content, context, { format: 'html' }),
+      ...(template.text_content ? { text: renderTemplate(template.text_content, context) } : {}),
+      sender: defaults.sender,
+    }, { orderId, templateName });
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('Error in email/template endpoint:', error);
+    return res.status(errorStatus(error)).json({ success: false, message: errorMessage(error, 'Failed to queue email template') });
+  }
+});
+
+// Retry or cancel a queued message from either channel
+router.post('/:channel(whatsapp|email)/queue/:id/retry', requirePermission('messages.send'), async (req, res) => {
+  try {
+    await retryQueuedMessage(req.params.id);
+    return res.status(200).json({ success: true, message: 'Message queued for another attempt' });
+  } catch (error) {
+    console.error('Error retrying queued message:', error);
+    return res.status(error instanceof QueueStateError ? 409 : 500).json({ success: false, message: errorMessage(error, 'Failed to retry message') });
+  }
+});
+
+router.post('/:channel(whatsapp|email)/queue/:id/cancel', requirePermission('messages.send'), async (req, res) => {
+  try {
+    await cancelQueuedMessage(req.params.id);
+    return res.status(200).json({ success: true, message: 'Message cancelled' });
+  } catch (error) {
+    console.error('Error cancelling queued message:', error);
+    return res.status(409).json({ success: false, message: errorMessage(error, 'Failed to cancel message') });
+  }
+});
+
+// Queue a WhatsApp campaign's messages at its send time and throttle rate
+router.post('/whatsapp/campaigns/:id/launch', requirePermission('campaigns.manage'), async (req, res) => {
+  try {
+    const result = await launchCampaign(req.params.id, res.locals.staff);
+    return res.status(200).json({
+      success: true,
+      message: `${result.queued} messages scheduled, ${result.skipped} skipped, ${result.failed} failed`,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error launching campaign:', error);
+    return res.status(error instanceof CampaignStateError ? 409 : errorStatus(error)).json({ success: false, message: errorMessage(error, 'Failed to launch campaign') });
+  }
+});
+
+router.post('/whatsapp/campaigns/:id/cancel', requirePermission('campaigns.manage'), async (req, res) => {
+  try {
+    const cancelled = await cancelCampaign(req.params.id);
+    return res.status(200).json({ success: true, message: `${cancelled} unsent messages cancelled`, cancelled });
+  } catch (error) {
+    console.error('Error cancelling campaign:', error);
+    return res.status(500).json({ success: false, message: errorMessage(error, 'Failed to cancel campaign') });
+  }
+});
+
+export default router;
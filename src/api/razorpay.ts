@@ -0,0 +1,53 @@
+import express from 'express';
+import {
+  RazorpayWebhookBody,
+  getRazorpayWebhookSecret,
+  processRazorpayWebhook,
+  verifyRazorpaySignature,
+  webhookEventId,
+} from '../server/razorpay';
+
+// Razorpay webhooks (payment.captured, payment.failed, refund.processed).
+// Authenticated by the X-Razorpay-Signature HMAC rather than a staff token.
+const router = express.Router();
+
+// The signature covers the exact bytes Razorpay sent, so this route reads the raw body.
+// Mount the router before any JSON body parser.
+router.post('/webhook', express.raw({ type: 'application/json', limit: '1mb' }), async (req, res) => {
+  const secret = getRazorpayWebhookSecret();
+  if (!secret) {
+    console.error('RAZORPAY_WEBHOOK_SECRET is not set; rejecting Razorpay webhook');
+    return res.status(503).json({ success: false, message: 'Razorpay webhooks are not configured' });
+  }
+
+  if (!Buffer.isBuffer(req.body)) {
+    return res.status(400).json({ success: false, message: 'Expected a raw JSON body' });
+  }
+
+  const signature = req.header('x-razorpay-signature') || '';
+  if (!verifyRazorpaySignature(req.body, signature, secret)) {
+    return res.status(401).json({ success: false, message: 'Invalid signature' });
+  }
+
+  let body: RazorpayWebhookBody;
+  try {
+    body = JSON.parse(req.body.toString('utf8'));
+  } catch {
+    return res.status(400).json({ success: false, message: 'Body is not valid JSON' });
+  }
+
+  try {
+    const eventId = webhookEventId(req.header('x-razorpay-event-id'), req.body);
+    const result = await processRazorpayWebhook(eventId, body);
+    return res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    // A non-2xx response makes Razorpay retry the delivery
+    console.error('Error processing Razorpay webhook:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to process webhook',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,49 @@
+import express from 'express';
+import { verifyTrackingSignature } from '../server/emailService';
+import { advanceActivityStatus } from '../server/deliveryStatus';
+
+// Open pixels and click redirects for tracked emails (see addEmailTracking). These are loaded
+// by mail clients, so instead of a staff token every link carries a signature over its activity.
+const router = express.Router();
+
+// A transparent 1x1 GIF
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+async function recordEngagement(activityId: string, status: 'opened' | 'clicked') {
+  try {
+    await advanceActivityStatus('email', activityId, status);
+  } catch (error) {
+    // Tracking is best effort; the reader still gets the image or the page
+    console.error(`Error recording email ${status} for activity ${activityId}:`, error);
+  }
+}
+
+router.get('/open/:id', async (req, res) => {
+  const activityId = req.params.id.replace(/\.gif$/, '');
+  const sig = typeof req.query.sig === 'string' ? req.query.sig : '';
+  if (verifyTrackingSignature(activityId, sig)) {
+    await recordEngagement(activityId, 'opened');
+  }
+
+  res.set({
+    'Content-Type': 'image/gif',
+    'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+  });
+  return res.status(200).send(PIXEL);
+});
+
+router.get('/click/:id', async (req, res) => {
+  const activityId = req.params.id;
+  const url = typeof req.query.url === 'string' ? req.query.url : '';
+  const sig = typeof req.query.sig === 'string' ? req.query.sig : '';
+
+  // Unsigned links would make this an open redirect
+  if (!/^https?:\/\//i.test(url) || !verifyTrackingSignature(`${activityId}:${url}`, sig)) {
+    return res.status(400).json({ success: false, message: 'Invalid tracking link' });
+  }
+
+  await recordEngagement(activityId, 'clicked');
+  return res.redirect(302, url);
+});
+
+export default router;
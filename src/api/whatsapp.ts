@@ -0,0 +1,69 @@
+import express from 'express';
+import { timingSafeEqual } from 'crypto';
+import { getWhatsAppWebhookSecret, parseInboundMessages, recordInboundMessage } from '../server/inbox';
+import { parseStatusUpdates, recordWhatsAppStatus, StatusNotReadyError, StatusUpdateResult } from '../server/deliveryStatus';
+
+// Incoming WhatsApp messages and delivery status callbacks from the WhatsApp API. Authenticated by a shared secret,
+// sent as the X-Webhook-Secret header or a `secret` query parameter, rather than a staff token.
+const router = express.Router();
+
+function secretMatches(received: string, secret: string): boolean {
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(received);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+router.post('/webhook', async (req, res) => {
+  const secret = getWhatsAppWebhookSecret();
+  if (!secret) {
+    console.error('WHATSAPP_WEBHOOK_SECRET is not set; rejecting WhatsApp webhook');
+    return res.status(503).json({ success: false, message: 'WhatsApp webhooks are not configured' });
+  }
+
+  const received = req.header('x-webhook-secret') || (typeof req.query.secret === 'string' ? req.query.secret : '');
+  if (!secretMatches(received, secret)) {
+    return res.status(401).json({ success: false, message: 'Invalid webhook secret' });
+  }
+
+  const messages = parseInboundMessages(req.body || {});
+  const statuses = parseStatusUpdates(req.body || {});
+  let results;
+  try {
+    results = [];
+    for (const message of messages) {
+      results.push(await recordInboundMessage(message));
+    }
+  } catch (error) {
+    // A non-2xx response makes the WhatsApp API retry the delivery; replies already stored
+    // are recognised as duplicates
+    console.error('Error processing WhatsApp webhook:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to process webhook',
+    });
+  }
+
+  // Each receipt is applied on its own, so one that can't be yet doesn't hold back the rest
+  const statusResults: StatusUpdateResult[] = [];
+  for (const update of statuses) {
+    try {
+      statusResults.push(await recordWhatsAppStatus(update));
+    } catch (error) {
+      if (!(error instanceof StatusNotReadyError)) {
+        console.error(`Error applying WhatsApp status for ${update.providerMessageId}:`, error);
+      }
+      statusResults.push({ status: error instanceof StatusNotReadyError ? 'not_ready' : 'failed' });
+    }
+  }
+
+  // Ask for a redelivery only when it can't store a reply twice: replies without a
+  // message ID aren't recognised as duplicates. Receipts already applied change nothing.
+  const needsRetry = statusResults.some(result => result.status === 'not_ready' || result.status === 'failed');
+  if (needsRetry && messages.every(message => message.providerMessageId)) {
+    return res.status(503).json({ success: false, message: 'Some status updates could not be applied yet', statuses: statusResults });
+  }
+  // Other events are acknowledged and ignored
+  return res.status(200).json({ success: true, received: messages.length, results, statuses: statusResults });
+});
+
+export default router;
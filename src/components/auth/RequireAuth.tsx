@@ -0,0 +1,48 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { AdminLayout } from '@/components/layout/AdminLayout';
+import { useAuth } from '@/hooks/useAuth';
+import { Permission } from '@/lib/permissions';
+
+interface RequireAuthProps {
+  permission?: Permission;
+  children: React.ReactNode;
+}
+
+export function RequireAuth({ permission, children }: RequireAuthProps) {
+  const { isAuthenticated, can } = useAuth();
+  const location = useLocation();
+
+  if (!isAuthenticated) {
+    return <Navigate to="/login" replace state={{ from: location.pathname + location.search }} />;
+  }
+
+  if (permission && !can(permission)) {
+    return (
+      <AdminLayout>
+        <div className="flex flex-col items-center justify-center py-24 text-center">
+          <ShieldAlert className="h-12 w-12 text-muted-foreground mb-4" />
+          <h2 className="text-xl font-semibold">Access denied</h2>
+          <p className="text-muted-foreground mt-2">
+            Your role does not have permission to view this page.
+          </p>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return <>{children}</>;
+}
+
+interface CanProps {
+  permission: Permission;
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}
+
+// Render children only when the signed-in operator has the permission
+export function Can({ permission, children, fallback = null }: CanProps) {
+  const { can } = useAuth();
+  return <>{can(permission) ? children : fallback}</>;
+}
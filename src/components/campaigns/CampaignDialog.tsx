@@ -0,0 +1,393 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useWhatsAppTemplates } from '@/hooks/useWhatsAppTemplates';
+import { useSegments } from '@/hooks/useSegments';
+import {
+  CampaignAudience,
+  DEFAULT_THROTTLE_PER_MINUTE,
+  MAX_THROTTLE_PER_MINUTE,
+  buildRecipients,
+  csvAudience,
+  fetchOrderAudience,
+  renderPlaceholders,
+  segmentAudience,
+  suggestMapping,
+  templatePlaceholders,
+} from '@/lib/campaigns';
+import { OrderFilters } from '@/lib/orderFilters';
+import { ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { RFM_TIER_LABELS, matchesSegment } from '@/lib/segments';
+import { readSpreadsheet } from '@/lib/spreadsheet';
+import { CampaignAudienceType, CampaignData, CampaignVariableMapping, RfmTier } from '@/types/schema';
+
+export type CampaignDraft = Omit<CampaignData, 'actor' | 'actor_id'>;
+
+interface CampaignDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // `launch` schedules the campaign straight after saving it
+  onSubmit: (data: CampaignDraft, launch: boolean) => Promise<unknown>;
+}
+
+const ANY = 'any_value';
+const TEXT_SOURCE = '__text__';
+
+export function CampaignDialog({ open, onOpenChange, onSubmit }: CampaignDialogProps) {
+  const { templates } = useWhatsAppTemplates();
+  const { segments, customers } = useSegments();
+  const activeTemplates = templates.filter(template => template.isActive);
+
+  const [name, setName] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  const [audienceType, setAudienceType] = useState<CampaignAudienceType>('segment');
+  const [audience, setAudience] = useState<CampaignAudience | null>(null);
+  const [segmentKey, setSegmentKey] = useState('');
+  const [orderFilters, setOrderFilters] = useState<OrderFilters>({});
+  const [mapping, setMapping] = useState<Record<string, CampaignVariableMapping>>({});
+  const [sendAt, setSendAt] = useState('');
+  const [throttle, setThrottle] = useState(DEFAULT_THROTTLE_PER_MINUTE);
+  const [isLoadingAudience, setIsLoadingAudience] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName('');
+    setTemplateName('');
+    setAudienceType('segment');
+    setAudience(null);
+    setSegmentKey('');
+    setOrderFilters({});
+    setMapping({});
+    setSendAt(format(new Date(), "yyyy-MM-dd'T'HH:mm"));
+    setThrottle(DEFAULT_THROTTLE_PER_MINUTE);
+  }, [open]);
+
+  const template = activeTemplates.find(current => current.name === templateName);
+  const placeholders = useMemo(() => templatePlaceholders(template?.content || ''), [template]);
+
+  // Re-suggest the mapping whenever the template or the audience's columns change
+  useEffect(() => {
+    setMapping(suggestMapping(placeholders, audience?.columns || []));
+  }, [placeholders, audience?.columns]);
+
+  const built = useMemo(() => audience ? buildRecipients(audience, mapping) : null, [audience, mapping]);
+  const preview = built?.recipients[0];
+
+  const changeAudienceType = (type: string) => {
+    setAudienceType(type as CampaignAudienceType);
+    setAudience(null);
+    setSegmentKey('');
+  };
+
+  // Saved segments are keyed by ID, built-in RFM tiers by "tier:<tier>"
+  const selectSegment = (key: string) => {
+    setSegmentKey(key);
+    if (key.startsWith('tier:')) {
+      const tier = key.slice('tier:'.length) as RfmTier;
+      setAudience(segmentAudience(RFM_TIER_LABELS[tier], customers.filter(customer => customer.tier === tier)));
+      return;
+    }
+    const segment = segments.find(current => current.id === key);
+    if (segment) {
+      setAudience(segmentAudience(segment.name, customers.filter(customer => matchesSegment(customer, segment.rules || {}))));
+    }
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    try {
+      setIsLoadingAudience(true);
+      const sheet = await readSpreadsheet(file);
+      setAudience(csvAudience(file.name, sheet.headers, sheet.rows));
+    } catch (error) {
+      console.error('Error reading audience file:', error);
+      toast.error('Failed to read file: ' + (error as Error).message);
+    } finally {
+      setIsLoadingAudience(false);
+    }
+  };
+
+  const loadOrders = async () => {
+    const label = [
+      orderFilters.status ? ORDER_STATUS_LABELS[orderFilters.status as keyof typeof ORDER_STATUS_LABELS] : 'All',
+      'orders',
+      orderFilters.date_from ? `from ${orderFilters.date_from}` : '',
+      orderFilters.date_to ? `to ${orderFilters.date_to}` : '',
+    ].filter(Boolean).join(' ');
+    try {
+      setIsLoadingAudience(true);
+      setAudience(await fetchOrderAudience(label, orderFilters));
+    } catch (error) {
+      console.error('Error loading orders for campaign:', error);
+      toast.error('Failed to load orders: ' + (error as Error).message);
+    } finally {
+      setIsLoadingAudience(false);
+    }
+  };
+
+  const canSave = !!name.trim() && !!template && !!audience && !!audience.phoneColumn && (built?.recipients.length ?? 0) > 0;
+
+  const handleSave = async (launch: boolean) => {
+    if (!audience || !built) return;
+    try {
+      setIsSaving(true);
+      await onSubmit({
+        name: name.trim(),
+        template_name: templateName,
+        audience_type: audienceType,
+        audience_label: audience.label,
+        segment_id: audienceType === 'segment' && !segmentKey.startsWith('tier:') ? segmentKey : '',
+        variable_mapping: mapping,
+        recipients: built.recipients,
+        send_at: new Date(sendAt || Date.now()).toISOString(),
+        throttle_per_minute: throttle,
+      }, launch);
+      onOpenChange(false);
+    } catch (error) {
+      // The mutation has already reported it
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const columnSelect = (value: string, onChange: (value: string) => void, id: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Choose a column" />
+      </SelectTrigger>
+      <SelectContent>
+        {(audience?.columns || []).map(column => (
+          <SelectItem key={column} value={column}>{column}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New WhatsApp campaign</DialogTitle>
+          <DialogDescription>
+            Opted-out numbers are skipped when the campaign is scheduled.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="campaign-name">Name</Label>
+              <Input id="campaign-name" value={name} placeholder="e.g. Diwali sale" onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="campaign-template">Template</Label>
+              <Select value={templateName} onValueChange={setTemplateName}>
+                <SelectTrigger id="campaign-template">
+                  <SelectValue placeholder="Choose a template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeTemplates.map(current => (
+                    <SelectItem key={current.id} value={current.name}>{current.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Audience</Label>
+            <Tabs value={audienceType} onValueChange={changeAudienceType}>
+              <TabsList>
+                <TabsTrigger value="segment">Segment</TabsTrigger>
+                <TabsTrigger value="orders">Orders</TabsTrigger>
+                <TabsTrigger value="csv">CSV upload</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {audienceType === 'segment' && (
+              <Select value={segmentKey} onValueChange={selectSegment}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a segment" />
+                </SelectTrigger>
+                <SelectContent>
+                  {segments.map(segment => (
+                    <SelectItem key={segment.id} value={segment.id}>{segment.name}</SelectItem>
+                  ))}
+                  {(Object.keys(RFM_TIER_LABELS) as RfmTier[]).map(tier => (
+                    <SelectItem key={tier} value={`tier:${tier}`}>RFM: {RFM_TIER_LABELS[tier]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {audienceType === 'orders' && (
+              <div className="grid grid-cols-4 items-end gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Status</Label>
+                  <Select
+                    value={orderFilters.status || ANY}
+                    onValueChange={(value) => setOrderFilters({ ...orderFilters, status: value === ANY ? undefined : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any status</SelectItem>
+                      {Object.entries(ORDER_STATUS_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs" htmlFor="campaign-from">From</Label>
+                  <Input
+                    id="campaign-from"
+                    type="date"
+                    value={orderFilters.date_from || ''}
+                    onChange={(e) => setOrderFilters({ ...orderFilters, date_from: e.target.value || undefined })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs" htmlFor="campaign-to">To</Label>
+                  <Input
+                    id="campaign-to"
+                    type="date"
+                    value={orderFilters.date_to || ''}
+                    onChange={(e) => setOrderFilters({ ...orderFilters, date_to: e.target.value || undefined })}
+                  />
+                </div>
+                <Button variant="outline" onClick={loadOrders} disabled={isLoadingAudience}>
+                  {isLoadingAudience && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Load customers
+                </Button>
+              </div>
+            )}
+
+            {audienceType === 'csv' && (
+              <div className="space-y-2">
+                <Input type="file" accept=".csv,.xlsx,.xls" onChange={(e) => handleFile(e.target.files?.[0])} />
+                {audience && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                      <Label className="text-xs" htmlFor="campaign-phone-column">Phone column</Label>
+                      {columnSelect(audience.phoneColumn, (phoneColumn) => setAudience({ ...audience, phoneColumn }), 'campaign-phone-column')}
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs" htmlFor="campaign-name-column">Name column</Label>
+                      {columnSelect(audience.nameColumn, (nameColumn) => setAudience({ ...audience, nameColumn }), 'campaign-name-column')}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {built && (
+              <p className="text-sm text-muted-foreground">
+                {built.recipients.length} recipients
+                {built.missingPhone > 0 && ` · ${built.missingPhone} without a phone number`}
+                {built.duplicates > 0 && ` · ${built.duplicates} duplicate numbers`}
+              </p>
+            )}
+          </div>
+
+          {placeholders.length > 0 && (
+            <div className="space-y-2">
+              <Label>Variables</Label>
+              {placeholders.map(placeholder => {
+                const current = mapping[placeholder] || { source: 'text', value: '' };
+                return (
+                  <div key={placeholder} className="grid grid-cols-[10rem_1fr_1fr] items-center gap-2">
+                    <code className="text-sm">{`{{${placeholder}}}`}</code>
+                    <Select
+                      value={current.source === 'column' ? current.value : TEXT_SOURCE}
+                      onValueChange={(value) => setMapping({
+                        ...mapping,
+                        [placeholder]: value === TEXT_SOURCE ? { source: 'text', value: '' } : { source: 'column', value },
+                      })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={TEXT_SOURCE}>Same text for everyone</SelectItem>
+                        {(audience?.columns || []).map(column => (
+                          <SelectItem key={column} value={column}>Column: {column}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {current.source === 'text' && (
+                      <Input
+                        value={current.value}
+                        placeholder="Text"
+                        onChange={(e) => setMapping({ ...mapping, [placeholder]: { source: 'text', value: e.target.value } })}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {template && preview && (
+            <div className="space-y-1">
+              <Label>Preview for {preview.name || `+${preview.phone}`}</Label>
+              <div className="whitespace-pre-wrap rounded-md border bg-muted p-3 text-sm">
+                {renderPlaceholders(template.content, preview.variables)}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="campaign-send-at">Send at</Label>
+              <Input id="campaign-send-at" type="datetime-local" value={sendAt} onChange={(e) => setSendAt(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="campaign-throttle">Messages per minute</Label>
+              <Input
+                id="campaign-throttle"
+                type="number"
+                min="1"
+                max={MAX_THROTTLE_PER_MINUTE}
+                value={throttle}
+                onChange={(e) => setThrottle(Math.min(Math.max(Number(e.target.value) || 1, 1), MAX_THROTTLE_PER_MINUTE))}
+              />
+              {built && built.recipients.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  About {Math.ceil(built.recipients.length / throttle)} minutes to send
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button variant="outline" onClick={() => handleSave(false)} disabled={!canSave || isSaving}>
+            Save draft
+          </Button>
+          <Button onClick={() => handleSave(true)} disabled={!canSave || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Schedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,16 +5,18 @@ import { Badge } from '@/components/ui/badge';
 import { Product } from '@/types/schema';
 import { AspectRatio } from '@/components/ui/aspect-ratio';
 import { formatDate } from '@/lib/utils';
-import { Eye, Pencil } from 'lucide-react';
+import { Boxes, Eye, Pencil } from 'lucide-react';
+import { isLowStock } from '@/lib/inventory';
 import { getImageUrl } from '@/lib/pocketbase';
 
 interface ProductCardProps {
   product: Product;
   onView: (product: Product) => void;
-  onEdit: (product: Product) => void;
+  onEdit?: (product: Product) => void;
+  onAdjustStock?: (product: Product) => void;
 }
 
-export function ProductCard({ product, onView, onEdit }: ProductCardProps) {
+export function ProductCard({ product, onView, onEdit, onAdjustStock }: ProductCardProps) {
   // Defensive check at the component level
   if (!product) {
     console.error('ProductCard received null or undefined product');
@@ -62,10 +64,14 @@ export function ProductCard({ product, onView, onEdit }: ProductCardProps) {
               {product.status.charAt(0).toUpperCase() + product.status.slice(1)}
             </Badge>
           )}
-          {product.stock === 0 && (
+          {(product.stock ?? 0) <= 0 ? (
             <Badge variant="destructive" className="text-xs">
               Out of Stock
             </Badge>
+          ) : isLowStock(product) && (
+            <Badge variant="outline" className="text-xs bg-background">
+              Low Stock ({product.stock})
+            </Badge>
           )}
           {product.bestseller && (
             <Badge variant="default" className="text-xs bg-amber-500 hover:bg-amber-600">
@@ -109,15 +115,28 @@ export function ProductCard({ product, onView, onEdit }: ProductCardProps) {
           <Eye className="h-4 w-4 mr-1" />
           View
         </Button>
-        <Button 
-          variant="outline" 
-          size="sm" 
-          className="flex-1"
-          onClick={() => onEdit(product)}
-        >
-          <Pencil className="h-4 w-4 mr-1" />
-          Edit
-        </Button>
+        {onEdit && (
+          <Button 
+            variant="outline" 
+            size="sm" 
+            className="flex-1"
+            onClick={() => onEdit(product)}
+          >
+            <Pencil className="h-4 w-4 mr-1" />
+            Edit
+          </Button>
+        )}
+        {onAdjustStock && (
+          <Button 
+            variant="outline" 
+            size="sm" 
+            className="flex-1"
+            onClick={() => onAdjustStock(product)}
+          >
+            <Boxes className="h-4 w-4 mr-1" />
+            Stock
+          </Button>
+        )}
       </CardFooter>
     </Card>
   );
@@ -8,11 +8,12 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 interface ProductCardGridProps {
   products: Product[];
   onView: (product: Product) => void;
-  onEdit: (product: Product) => void;
+  onEdit?: (product: Product) => void;
+  onAdjustStock?: (product: Product) => void;
   isLoading?: boolean;
 }
 
-export function ProductCardGrid({ products, onView, onEdit, isLoading = false }: ProductCardGridProps) {
+export function ProductCardGrid({ products, onView, onEdit, onAdjustStock, isLoading = false }: ProductCardGridProps) {
   // Add error handling for products array
   const validProducts = React.useMemo(() => {
     if (!Array.isArray(products)) {
@@ -83,6 +84,7 @@ export function ProductCardGrid({ products, onView, onEdit, isLoading = false }:
           product={product} 
           onView={onView} 
           onEdit={onEdit} 
+          onAdjustStock={onAdjustStock}
         />
       ))}
     </div>
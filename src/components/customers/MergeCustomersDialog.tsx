@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Loader2 } from 'lucide-react';
+import { CustomerCandidate, DuplicateGroup, MergeSelection } from '@/lib/customerMerge';
+
+interface MergeCustomersDialogProps {
+  group: DuplicateGroup | null;
+  onOpenChange: (open: boolean) => void;
+  onMerge: (candidates: CustomerCandidate[], selection: MergeSelection) => Promise<unknown>;
+  isMerging: boolean;
+}
+
+type FieldName = 'name' | 'email' | 'phone';
+
+const distinct = (values: string[]) => [...new Set(values.map(value => value.trim()).filter(Boolean))];
+
+// Choose which of the duplicates to merge and which name, email, phone and account survive
+export function MergeCustomersDialog({ group, onOpenChange, onMerge, isMerging }: MergeCustomersDialogProps) {
+  const [included, setIncluded] = useState<string[]>([]);
+  const [selection, setSelection] = useState<MergeSelection>({ name: '', email: '', phone: '' });
+
+  useEffect(() => {
+    if (!group) return;
+    const first = group.candidates.find(candidate => candidate.userId) || group.candidates[0];
+    setIncluded(group.candidates.map(candidate => candidate.key));
+    setSelection({
+      name: first.name,
+      email: first.email,
+      phone: group.candidates.map(candidate => candidate.phone).find(Boolean) || '',
+      survivorUserId: first.userId,
+    });
+  }, [group]);
+
+  const candidates = useMemo(
+    () => (group?.candidates ?? []).filter(candidate => included.includes(candidate.key)),
+    [group, included]
+  );
+  const accounts = candidates.filter(candidate => candidate.userId);
+
+  if (!group) return null;
+
+  const toggle = (key: string, checked: boolean) => {
+    setIncluded(checked ? [...included, key] : included.filter(current => current !== key));
+  };
+
+  const fieldChoice = (field: FieldName, label: string) => {
+    const options = distinct(candidates.map(candidate => candidate[field]));
+    return (
+      <div className="space-y-2">
+        <Label>{label}</Label>
+        <RadioGroup value={selection[field]} onValueChange={(value) => setSelection({ ...selection, [field]: value })}>
+          {options.map(option => (
+            <div key={option} className="flex items-center gap-2">
+              <RadioGroupItem value={option} id={`merge-${field}-${option}`} />
+              <Label htmlFor={`merge-${field}-${option}`} className="font-normal">{option}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+    );
+  };
+
+  const canMerge = candidates.length >= 2 && !!selection.name && (accounts.length === 0 || accounts.some(account => account.userId === selection.survivorUserId));
+
+  const handleMerge = async () => {
+    try {
+      await onMerge(candidates, accounts.length > 0 ? selection : { ...selection, survivorUserId: undefined });
+      onOpenChange(false);
+    } catch (error) {
+      // The mutation has already reported it
+    }
+  };
+
+  return (
+    <Dialog open={!!group} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Merge customers</DialogTitle>
+          <DialogDescription>{group.reasons.join(' · ')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Customers to merge</Label>
+            {group.candidates.map(candidate => (
+              <div key={candidate.key} className="flex items-start gap-2 rounded-md border p-2">
+                <Checkbox
+                  id={`merge-${candidate.key}`}
+                  checked={included.includes(candidate.key)}
+                  onCheckedChange={(checked) => toggle(candidate.key, !!checked)}
+                />
+                <label htmlFor={`merge-${candidate.key}`} className="text-sm">
+                  <div className="font-medium">
+                    {candidate.name || 'Unnamed'} {candidate.userId ? '(account)' : '(guest)'}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {[candidate.email, candidate.phone, `${candidate.orderIds.length} orders`].filter(Boolean).join(' · ')}
+                  </div>
+                </label>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            {fieldChoice('name', 'Name')}
+            {fieldChoice('email', 'Email')}
+            {fieldChoice('phone', 'Phone')}
+          </div>
+
+          {accounts.length > 0 && (
+            <div className="space-y-2">
+              <Label>Account to keep</Label>
+              <RadioGroup
+                value={selection.survivorUserId || ''}
+                onValueChange={(survivorUserId) => setSelection({ ...selection, survivorUserId })}
+              >
+                {accounts.map(account => (
+                  <div key={account.userId} className="flex items-center gap-2">
+                    <RadioGroupItem value={account.userId!} id={`merge-account-${account.userId}`} />
+                    <Label htmlFor={`merge-account-${account.userId}`} className="font-normal">
+                      {account.name} ({account.email})
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              <p className="text-xs text-muted-foreground">
+                All orders are linked to this account. Other accounts hand over their addresses and reviews
+                and are marked as merged; they are not deleted, so the merge can be undone.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleMerge} disabled={!canMerge || isMerging}>
+            {isMerging && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Merge {candidates.length} customers
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,14 +10,8 @@ import {
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { DashboardMetrics } from '@/lib/types';
-
-// Helper function to format currency
-const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-IN', {
-    style: 'currency',
-    currency: 'INR',
-  }).format(amount);
-};
+import { formatCurrency } from '@/lib/utils';
+import { useStoreSettings } from '@/hooks/useStoreSettings';
 
 interface MetricCardProps {
   title: string;
@@ -66,6 +60,8 @@ interface MetricsGridProps {
 }
 
 export const MetricsGrid: React.FC<MetricsGridProps> = ({ metrics, isLoading }) => {
+  const { settings } = useStoreSettings();
+
   if (isLoading) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -110,7 +106,7 @@ export const MetricsGrid: React.FC<MetricsGridProps> = ({ metrics, isLoading })
       
       <MetricCard
         title="Total Revenue"
-        value={formatCurrency(metrics.total_revenue)}
+        value={formatCurrency(metrics.total_revenue, settings.currency)}
         icon={<DollarSign size={16} />}
         trend={{ value: 12.5, positive: true }}
         description="vs last month"
@@ -118,7 +114,7 @@ export const MetricsGrid: React.FC<MetricsGridProps> = ({ metrics, isLoading })
       
       <MetricCard
         title="Average Order Value"
-        value={formatCurrency(metrics.average_order_value)}
+        value={formatCurrency(metrics.average_order_value, settings.currency)}
         icon={<TrendingUp size={16} />}
         trend={{ value: 3.2, positive: true }}
         description="vs last month"
@@ -126,7 +122,7 @@ export const MetricsGrid: React.FC<MetricsGridProps> = ({ metrics, isLoading })
       
       <MetricCard
         title="Revenue Today"
-        value={formatCurrency(metrics.revenue_today)}
+        value={formatCurrency(metrics.revenue_today, settings.currency)}
         icon={<Calendar size={16} />}
         description="From today's orders"
       />
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useLowStockProducts } from '@/hooks/useInventory';
+import { useStoreSettings } from '@/hooks/useStoreSettings';
+import { lowStockThreshold } from '@/lib/inventory';
+
+// Products to reorder; hidden when stock alerts are turned off in settings
+export function LowStockWidget() {
+  const { settings } = useStoreSettings();
+  const { products, isLoading, error } = useLowStockProducts(settings.stock_alerts);
+
+  if (!settings.stock_alerts) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Low Stock
+          </CardTitle>
+          <CardDescription>Active products at or below their reorder level</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <Link to="/admin/products">View products</Link>
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4">Loading stock levels...</div>
+        ) : error ? (
+          <div className="text-center py-4 text-red-500">Error loading stock levels</div>
+        ) : products.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">Everything is above its reorder level</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead className="text-right">In stock</TableHead>
+                <TableHead className="text-right">Reorder at</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {products.map(product => (
+                <TableRow key={product.id}>
+                  <TableCell className="font-medium">{product.name}</TableCell>
+                  <TableCell className="text-muted-foreground">{product.category || 'Uncategorized'}</TableCell>
+                  <TableCell className="text-right">
+                    {(product.stock ?? 0) <= 0 ? (
+                      <Badge variant="destructive">Out of stock</Badge>
+                    ) : (
+                      product.stock
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{lowStockThreshold(product)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
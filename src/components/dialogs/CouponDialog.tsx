@@ -0,0 +1,298 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { useProducts } from '@/hooks/useProducts';
+import { Coupon, CreateCouponData } from '@/types/schema';
+
+const formSchema = z.object({
+  code: z.string().trim().min(3, 'Codes need at least 3 characters').regex(/^[A-Za-z0-9_-]+$/, 'Use letters, numbers, - and _ only'),
+  description: z.string().optional(),
+  discount_type: z.enum(['percent', 'amount']),
+  discount_value: z.number().positive('Discount must be greater than 0'),
+  max_discount: z.number().min(0),
+  valid_until: z.string().min(1, 'Expiry date is required'),
+  max_uses: z.number().int().min(0),
+  max_uses_per_customer: z.number().int().min(0),
+  min_order_value: z.number().min(0),
+  product_ids: z.array(z.string()),
+  categories: z.string(),
+  active: z.boolean(),
+}).refine(values => values.discount_type === 'amount' || values.discount_value <= 100, {
+  message: 'A percentage discount can be at most 100',
+  path: ['discount_value'],
+});
+
+type CouponFormValues = z.infer<typeof formSchema>;
+
+interface CouponDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Editing when set, creating otherwise
+  coupon?: Coupon | null;
+  onSubmit: (data: CreateCouponData) => Promise<unknown>;
+}
+
+function toFormValues(coupon?: Coupon | null): CouponFormValues {
+  const isPercent = !coupon || Number(coupon.discount_percent) > 0;
+  return {
+    code: coupon?.code ?? '',
+    description: coupon?.description ?? '',
+    discount_type: isPercent ? 'percent' : 'amount',
+    discount_value: Number(isPercent ? coupon?.discount_percent : coupon?.discount_amount) || 0,
+    max_discount: Number(coupon?.max_discount) || 0,
+    valid_until: coupon?.valid_until ? format(new Date(coupon.valid_until), 'yyyy-MM-dd') : '',
+    max_uses: Number(coupon?.max_uses) || 0,
+    max_uses_per_customer: Number(coupon?.max_uses_per_customer) || 0,
+    min_order_value: Number(coupon?.min_order_value) || 0,
+    product_ids: coupon?.product_ids ?? [],
+    categories: (coupon?.categories ?? []).join(', '),
+    active: coupon?.active ?? true,
+  };
+}
+
+export function CouponDialog({ open, onOpenChange, coupon, onSubmit }: CouponDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { products } = useProducts({ perPage: 200, sort: 'name' });
+
+  const form = useForm<CouponFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(coupon),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(coupon));
+  }, [open, coupon, form]);
+
+  const discountType = form.watch('discount_type');
+
+  const handleSubmit = async (values: CouponFormValues) => {
+    try {
+      setIsSubmitting(true);
+      await onSubmit({
+        code: values.code,
+        description: values.description,
+        discount_percent: values.discount_type === 'percent' ? values.discount_value : 0,
+        discount_amount: values.discount_type === 'amount' ? values.discount_value : 0,
+        max_discount: values.discount_type === 'percent' ? values.max_discount : 0,
+        // Coupons run to the end of the chosen day
+        valid_until: new Date(`${values.valid_until}T23:59:59`).toISOString(),
+        max_uses: values.max_uses,
+        max_uses_per_customer: values.max_uses_per_customer,
+        min_order_value: values.min_order_value,
+        product_ids: values.product_ids,
+        categories: values.categories.split(',').map(category => category.trim()).filter(Boolean),
+        active: values.active,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving coupon:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const numberField = (name: 'discount_value' | 'max_discount' | 'max_uses' | 'max_uses_per_customer' | 'min_order_value', label: string, description?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              {...field}
+              type="number"
+              min="0"
+              step={name === 'max_uses' || name === 'max_uses_per_customer' ? '1' : '0.01'}
+              onChange={(e) => field.onChange(Number(e.target.value))}
+            />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{coupon ? `Edit ${coupon.code}` : 'Create Coupon'}</DialogTitle>
+          <DialogDescription>
+            Coupons are applied to orders from the order form; the discount is worked out from these rules.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="DIWALI10" className="uppercase" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="valid_until"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid until</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="Internal note, e.g. Instagram festive campaign" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="discount_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Discount</FormLabel>
+                  <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-6">
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="percent" id="coupon-percent" />
+                      <Label htmlFor="coupon-percent">Percentage</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="amount" id="coupon-amount" />
+                      <Label htmlFor="coupon-amount">Fixed amount</Label>
+                    </div>
+                  </RadioGroup>
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              {numberField('discount_value', discountType === 'percent' ? 'Percent off' : 'Amount off (₹)')}
+              {discountType === 'percent' && numberField('max_discount', 'Maximum discount (₹)', '0 for no cap')}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              {numberField('min_order_value', 'Minimum order (₹)', '0 for any order')}
+              {numberField('max_uses', 'Total uses', '0 for unlimited')}
+              {numberField('max_uses_per_customer', 'Uses per customer', '0 for unlimited')}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="categories"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Eligible categories</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g. Totes, Backpacks" />
+                  </FormControl>
+                  <FormDescription>
+                    Separate with commas. With no categories or products picked, every item is eligible.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="product_ids"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Eligible products</FormLabel>
+                  <ScrollArea className="h-36 rounded-md border p-2">
+                    {products.map(product => (
+                      <div key={product.id} className="flex items-center gap-2 py-1">
+                        <Checkbox
+                          id={`coupon-product-${product.id}`}
+                          checked={field.value.includes(product.id)}
+                          onCheckedChange={(checked) => field.onChange(
+                            checked ? [...field.value, product.id] : field.value.filter(id => id !== product.id)
+                          )}
+                        />
+                        <Label htmlFor={`coupon-product-${product.id}`} className="font-normal">
+                          {product.name}
+                        </Label>
+                      </div>
+                    ))}
+                  </ScrollArea>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel>Active</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Saving...' : coupon ? 'Save Coupon' : 'Create Coupon'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -27,7 +27,10 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { CreateOrderData } from '@/types/schema';
+import { Coupon, CreateOrderData } from '@/types/schema';
+import { OrderItemsEditor, OrderLine } from '@/components/orders/OrderItemsEditor';
+import { OrderProductItem } from '@/lib/orderItems';
+import { describeCouponDiscount, evaluateCoupon, validateCoupon } from '@/lib/coupons';
 
 const formSchema = z.object({
   customer_name: z.string().min(1, 'Customer name is required'),
@@ -41,6 +44,7 @@ const formSchema = z.object({
   shipping_address_text: z.string().optional(),
   notes: z.string().optional(),
   products: z.string().default('[]'),
+  discount_amount: z.number().min(0).default(0),
 });
 
 type OrderFormValues = z.infer<typeof formSchema>;
@@ -57,6 +61,13 @@ export function CreateOrderDialog({
   onSubmit,
 }: CreateOrderDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [lines, setLines] = useState<OrderLine[]>([]);
+  const [itemsComplete, setItemsComplete] = useState(true);
+  const [items, setItems] = useState<OrderProductItem[]>([]);
+  const [couponCode, setCouponCode] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<Coupon | null>(null);
+  const [couponMessage, setCouponMessage] = useState('');
+  const [isCheckingCoupon, setIsCheckingCoupon] = useState(false);
 
   const form = useForm<OrderFormValues>({
     resolver: zodResolver(formSchema),
@@ -67,10 +78,82 @@ export function CreateOrderDialog({
       total: 0,
       subtotal: 0,
       totalAmount: 0,
+      discount_amount: 0,
     },
   });
 
+  const itemsSubtotal = (orderItems: OrderProductItem[]) =>
+    Math.round(orderItems.reduce((sum, item) => sum + item.product.price * item.quantity, 0) * 100) / 100;
+
+  const applyTotals = (subtotal: number, discount: number) => {
+    const total = Math.max(0, Math.round((subtotal - discount) * 100) / 100);
+    form.setValue('subtotal', subtotal);
+    form.setValue('discount_amount', discount);
+    form.setValue('totalAmount', total);
+    form.setValue('total', total);
+  };
+
+  // Picked items set the products JSON and the totals, which can still be edited afterwards
+  const handleItemsChange = (items: OrderProductItem[], complete: boolean) => {
+    setItemsComplete(complete);
+    setItems(items);
+    form.setValue('products', JSON.stringify(items));
+    if (items.length === 0) return;
+
+    const subtotal = itemsSubtotal(items);
+    if (!appliedCoupon) {
+      applyTotals(subtotal, 0);
+      return;
+    }
+
+    // Per-customer limits were checked when the coupon was applied and are checked again on create
+    const check = evaluateCoupon(appliedCoupon, { items, subtotal });
+    if (check.valid) {
+      applyTotals(subtotal, check.discount);
+    } else {
+      setAppliedCoupon(null);
+      setCouponMessage(`${appliedCoupon.code} removed: ${check.reason}`);
+      applyTotals(subtotal, 0);
+    }
+  };
+
+  const handleApplyCoupon = async () => {
+    try {
+      setIsCheckingCoupon(true);
+      const subtotal = itemsSubtotal(items);
+      const check = await validateCoupon(couponCode, {
+        items,
+        subtotal,
+        customerEmail: form.getValues('customer_email'),
+        customerPhone: form.getValues('customer_phone'),
+      });
+      if (check.valid) {
+        setAppliedCoupon(check.coupon);
+        setCouponCode(check.coupon.code);
+        setCouponMessage(`${describeCouponDiscount(check.coupon)}: ₹${check.discount.toFixed(2)} off this order`);
+        applyTotals(subtotal, check.discount);
+      } else {
+        setAppliedCoupon(null);
+        setCouponMessage(check.reason);
+        applyTotals(subtotal, 0);
+      }
+    } catch (error) {
+      console.error('Error checking coupon:', error);
+      setCouponMessage('The coupon could not be checked, try again');
+    } finally {
+      setIsCheckingCoupon(false);
+    }
+  };
+
+  const handleRemoveCoupon = () => {
+    setAppliedCoupon(null);
+    setCouponCode('');
+    setCouponMessage('');
+    applyTotals(itemsSubtotal(items), 0);
+  };
+
   const handleSubmit = async (values: OrderFormValues) => {
+    if (!itemsComplete) return;
     try {
       setIsSubmitting(true);
       // Ensure all required fields are present for CreateOrderData
@@ -87,9 +170,16 @@ export function CreateOrderDialog({
         shipping_address_text: values.shipping_address_text,
         notes: values.notes,
         products: values.products,
+        ...(appliedCoupon && {
+          coupon_code: appliedCoupon.code,
+          coupon_id: appliedCoupon.id,
+          discount_amount: values.discount_amount,
+        }),
       };
       await onSubmit(orderData);
       form.reset();
+      setLines([]);
+      handleRemoveCoupon();
       onOpenChange(false);
     } catch (error) {
       console.error('Error creating order:', error);
@@ -100,7 +190,7 @@ export function CreateOrderDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create New Order</DialogTitle>
           <DialogDescription>
@@ -211,6 +301,40 @@ export function CreateOrderDialog({
               />
             </div>
 
+            <OrderItemsEditor lines={lines} onLinesChange={setLines} onItemsChange={handleItemsChange} />
+            {!itemsComplete && (
+              <p className="text-sm text-destructive">Pick a product, and a variant where it has them, for every item.</p>
+            )}
+
+            <div className="space-y-1">
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Coupon code"
+                  className="uppercase"
+                  value={couponCode}
+                  disabled={!!appliedCoupon}
+                  onChange={(e) => setCouponCode(e.target.value)}
+                />
+                {appliedCoupon ? (
+                  <Button type="button" variant="outline" onClick={handleRemoveCoupon}>
+                    Remove
+                  </Button>
+                ) : (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={!couponCode.trim() || items.length === 0 || isCheckingCoupon}
+                    onClick={handleApplyCoupon}
+                  >
+                    {isCheckingCoupon ? 'Checking...' : 'Apply'}
+                  </Button>
+                )}
+              </div>
+              {couponMessage && (
+                <p className={`text-sm ${appliedCoupon ? 'text-muted-foreground' : 'text-destructive'}`}>{couponMessage}</p>
+              )}
+            </div>
+
             <div className="grid grid-cols-3 gap-4">
               <FormField
                 control={form.control}
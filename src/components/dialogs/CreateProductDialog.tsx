@@ -25,13 +25,17 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
-import { CreateProductData } from '@/types/schema';
+import { CreateProductData, ProductOption } from '@/types/schema';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { X, Upload, Image as ImageIcon } from 'lucide-react';
 import { AspectRatio } from '@/components/ui/aspect-ratio';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { pb, getImageUrl } from '@/lib/pocketbase';
+import { ProductVariantsEditor } from '@/components/product/ProductVariantsEditor';
+import { saveProductVariants } from '@/hooks/useProductVariants';
+import { VariantDraft } from '@/lib/productVariants';
+import { useQueryClient } from '@tanstack/react-query';
 
 // Define the type for ProductFormValues
 type ProductFormValues = {
@@ -44,7 +48,6 @@ type ProductFormValues = {
   material?: string;
   dimensions?: string;
   features?: string;
-  colors?: string;
   tags?: string;
   care?: string;
   specifications?: string;
@@ -54,12 +57,14 @@ type ProductFormValues = {
   new?: boolean;
   inStock?: boolean;
   review?: number;
+  hsn_code?: string;
+  gst_rate?: number;
 };
 
 interface CreateProductDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSubmit: (data: CreateProductData) => Promise<void>;
+  onSubmit: (data: CreateProductData) => Promise<{ id: string } | void>;
 }
 
 export function CreateProductDialog({
@@ -70,6 +75,9 @@ export function CreateProductDialog({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [uploadedImages, setUploadedImages] = useState<File[]>([]);
   const [imagePreviewUrls, setImagePreviewUrls] = useState<string[]>([]);
+  const [options, setOptions] = useState<ProductOption[]>([]);
+  const [drafts, setDrafts] = useState<VariantDraft[]>([]);
+  const queryClient = useQueryClient();
   
   // Define form schema
   const formSchema = z.object({
@@ -82,7 +90,6 @@ export function CreateProductDialog({
     material: z.string().optional(),
     dimensions: z.string().optional(),
     features: z.string().optional(),
-    colors: z.string().optional(),
     tags: z.string().optional(),
     care: z.string().optional(),
     specifications: z.string().optional(),
@@ -92,6 +99,8 @@ export function CreateProductDialog({
     new: z.boolean().default(false),
     inStock: z.boolean().default(true),
     review: z.number().min(0).max(5).optional(),
+    hsn_code: z.string().regex(/^(\d{4}|\d{6}|\d{8})?$/, 'HSN code must be 4, 6 or 8 digits').optional(),
+    gst_rate: z.number().min(0).max(28).optional(),
   });
   
   // Initialize form
@@ -107,7 +116,6 @@ export function CreateProductDialog({
       material: '',
       dimensions: '',
       features: '',
-      colors: '',
       tags: '',
       care: '',
       specifications: '',
@@ -117,6 +125,8 @@ export function CreateProductDialog({
       new: false,
       inStock: true,
       review: 0,
+      hsn_code: '',
+      gst_rate: undefined,
     },
   });
 
@@ -194,7 +204,7 @@ export function CreateProductDialog({
       });
       
       // Process object fields
-      ['colors', 'specifications', 'care_instructions', 'usage_guidelines'].forEach(field => {
+      ['specifications', 'care_instructions', 'usage_guidelines'].forEach(field => {
         if (processedValues[field as keyof ProductFormValues]) {
           const value = processedValues[field as keyof ProductFormValues] as string;
           processedValues[field as keyof ProductFormValues] = formatJsonField(value, false) as string;
@@ -214,6 +224,8 @@ export function CreateProductDialog({
         inStock: processedValues.inStock,
         review: processedValues.review,
         status: processedValues.status,
+        hsn_code: processedValues.hsn_code || undefined,
+        gst_rate: processedValues.gst_rate,
       };
 
       // Handle JSON fields
@@ -229,10 +241,6 @@ export function CreateProductDialog({
         productData.tags = processedValues.tags;
       }
 
-      if (processedValues.colors) {
-        productData.colors = processedValues.colors;
-      }
-
       if (processedValues.specifications) {
         productData.specifications = processedValues.specifications;
       }
@@ -264,10 +272,17 @@ export function CreateProductDialog({
       }
 
       // Submit the form
-      await onSubmit(productData);
+      const created = await onSubmit(productData);
+
+      if (created && options.length > 0) {
+        await saveProductVariants(created, options, drafts);
+        queryClient.invalidateQueries({ queryKey: ['products'] });
+      }
       
       // Reset form and state
       form.reset();
+      setOptions([]);
+      setDrafts([]);
       // Clean up image preview URLs to prevent memory leaks
       imagePreviewUrls.forEach(url => URL.revokeObjectURL(url));
       setUploadedImages([]);
@@ -299,7 +314,7 @@ export function CreateProductDialog({
                 <TabsTrigger value="basic">Basic Info</TabsTrigger>
                 <TabsTrigger value="details">Details</TabsTrigger>
                 <TabsTrigger value="images">Images</TabsTrigger>
-                <TabsTrigger value="attributes">Attributes</TabsTrigger>
+                <TabsTrigger value="attributes">Variants</TabsTrigger>
                 <TabsTrigger value="care">Care & Usage</TabsTrigger>
                 <TabsTrigger value="specs">Specifications</TabsTrigger>
               </TabsList>
@@ -552,6 +567,39 @@ export function CreateProductDialog({
                     />
                   </div>
 
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="hsn_code"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>HSN Code</FormLabel>
+                          <Input {...field} placeholder="e.g., 42022220" />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="gst_rate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>GST Rate (%)</FormLabel>
+                          <Input
+                            {...field}
+                            type="number"
+                            step="0.01"
+                            value={field.value ?? ''}
+                            onChange={(e) => field.onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+                            placeholder="Store default"
+                          />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
                   <FormField
                     control={form.control}
                     name="features"
@@ -571,25 +619,6 @@ export function CreateProductDialog({
                     )}
                   />
 
-                  <FormField
-                    control={form.control}
-                    name="colors"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Colors</FormLabel>
-                        <Textarea
-                          {...field}
-                          placeholder='Enter colors separated by commas or as JSON object'
-                          onBlur={(e) => handleJsonFieldBlur(e, false)}
-                        />
-                        <FormDescription>
-                          Enter colors as comma-separated values or a JSON object with "available" array and "primary" color
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
                   <FormField
                     control={form.control}
                     name="tags"
@@ -631,15 +660,16 @@ export function CreateProductDialog({
                 </TabsContent>
 
                 <TabsContent value="attributes" className="space-y-4 mt-0">
-                  {/* This tab will be for future attributes */}
-                  <Card>
-                    <CardHeader>
-                      <CardTitle>Product Attributes</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-muted-foreground">Additional product attributes will be added here in the future.</p>
-                    </CardContent>
-                  </Card>
+                  <ProductVariantsEditor
+                    productName={form.watch('name')}
+                    productPrice={form.watch('price')}
+                    options={options}
+                    drafts={drafts}
+                    onChange={(nextOptions, nextDrafts) => {
+                      setOptions(nextOptions);
+                      setDrafts(nextDrafts);
+                    }}
+                  />
                 </TabsContent>
 
                 <TabsContent value="care" className="space-y-4 mt-0">
@@ -28,18 +28,39 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Order, UpdateOrderData } from '@/types/schema';
+import { getAllowedStatuses, ORDER_STATUS_LABELS } from '@/lib/orderStatus';
 
 const formSchema = z.object({
   customer_name: z.string().min(1, 'Customer name is required'),
   customer_email: z.string().email('Invalid email address'),
   customer_phone: z.string().optional(),
   status: z.enum(['pending', 'processing', 'shipped', 'out_for_delivery', 'delivered', 'cancelled']),
-  payment_status: z.enum(['pending', 'paid', 'failed']),
+  payment_status: z.enum(['pending', 'paid', 'failed', 'partially_refunded', 'refunded']),
   total: z.number().min(0, 'Total must be non-negative'),
   subtotal: z.number().min(0, 'Subtotal must be non-negative'),
   totalAmount: z.number().min(0, 'Total amount must be non-negative'),
   shipping_address_text: z.string().optional(),
+  tracking_link: z.string().optional(),
+  shipping_carrier: z.string().optional(),
   notes: z.string().optional(),
+}).superRefine((data, ctx) => {
+  // Shipped orders must carry tracking info, matching the status transition rules
+  if (data.status === 'shipped') {
+    if (!data.tracking_link) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Tracking link is required for shipped orders',
+        path: ['tracking_link'],
+      });
+    }
+    if (!data.shipping_carrier) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Shipping carrier is required for shipped orders',
+        path: ['shipping_carrier'],
+      });
+    }
+  }
 });
 
 type OrderFormValues = z.infer<typeof formSchema>;
@@ -83,6 +104,8 @@ export function EditOrderDialog({
         subtotal: order.subtotal || 0,
         totalAmount: order.totalAmount || 0,
         shipping_address_text: order.shipping_address_text || '',
+        tracking_link: order.tracking_link || '',
+        shipping_carrier: order.shipping_carrier || '',
         notes: order.notes || '',
       });
     }
@@ -104,6 +127,8 @@ export function EditOrderDialog({
         subtotal: values.subtotal,
         totalAmount: values.totalAmount,
         shipping_address_text: values.shipping_address_text,
+        tracking_link: values.tracking_link,
+        shipping_carrier: values.shipping_carrier,
         notes: values.notes,
       };
       
@@ -118,6 +143,9 @@ export function EditOrderDialog({
 
   if (!order) return null;
 
+  const allowedStatuses = getAllowedStatuses(order.status);
+  const selectedStatus = form.watch('status');
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-md">
@@ -192,12 +220,11 @@ export function EditOrderDialog({
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="processing">Processing</SelectItem>
-                        <SelectItem value="shipped">Shipped</SelectItem>
-                        <SelectItem value="out_for_delivery">Out for Delivery</SelectItem>
-                        <SelectItem value="delivered">Delivered</SelectItem>
-                        <SelectItem value="cancelled">Cancelled</SelectItem>
+                        {allowedStatuses.map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {ORDER_STATUS_LABELS[status]}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -225,6 +252,9 @@ export function EditOrderDialog({
                         <SelectItem value="pending">Pending</SelectItem>
                         <SelectItem value="paid">Paid</SelectItem>
                         <SelectItem value="failed">Failed</SelectItem>
+                        {/* Set by recording a refund from the order view */}
+                        <SelectItem value="partially_refunded" disabled>Partially refunded</SelectItem>
+                        <SelectItem value="refunded" disabled>Refunded</SelectItem>
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -233,6 +263,38 @@ export function EditOrderDialog({
               />
             </div>
 
+            {(selectedStatus === 'shipped' || order.tracking_link || order.shipping_carrier) && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="tracking_link"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tracking Link</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="https://tracking.example.com/..." />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="shipping_carrier"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Shipping Carrier</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="e.g. Delhivery" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
             <div className="grid grid-cols-3 gap-4">
               <FormField
                 control={form.control}
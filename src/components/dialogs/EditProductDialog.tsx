@@ -10,7 +10,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Product, UpdateProductData } from '@/types/schema';
+import { Product, ProductOption, UpdateProductData } from '@/types/schema';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
@@ -22,6 +22,11 @@ import { X, Upload, Image as ImageIcon } from 'lucide-react';
 import { AspectRatio } from '@/components/ui/aspect-ratio';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { pb, getImageUrl } from '@/lib/pocketbase';
+import { DEFAULT_LOW_STOCK_THRESHOLD } from '@/lib/inventory';
+import { ProductVariantsEditor } from '@/components/product/ProductVariantsEditor';
+import { saveProductVariants, useProductVariants } from '@/hooks/useProductVariants';
+import { COLOUR_OPTION, VariantDraft, optionsFromLegacyColors, syncVariantDrafts } from '@/lib/productVariants';
+import { useQueryClient } from '@tanstack/react-query';
 
 interface EditProductDialogProps {
   open: boolean;
@@ -35,7 +40,7 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
   const [name, setName] = useState(product?.name || '');
   const [description, setDescription] = useState(product?.description || '');
   const [price, setPrice] = useState(product?.price ? String(product.price) : '');
-  const [stock, setStock] = useState(product?.stock ? String(product.stock) : '');
+  const [lowStockThreshold, setLowStockThreshold] = useState(product?.low_stock_threshold ? String(product.low_stock_threshold) : '');
   const [category, setCategory] = useState(product?.category || '');
   const [status, setStatus] = useState<'active' | 'inactive'>(product?.status as 'active' | 'inactive' || 'active');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -44,8 +49,13 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
   // Additional product fields
   const [material, setMaterial] = useState(product?.material || '');
   const [dimensions, setDimensions] = useState(product?.dimensions || '');
+  const [hsnCode, setHsnCode] = useState(product?.hsn_code || '');
+  const [gstRate, setGstRate] = useState(product?.gst_rate !== undefined ? String(product.gst_rate) : '');
   const [features, setFeatures] = useState(product?.features || '');
-  const [colors, setColors] = useState(product?.colors || '');
+  const [options, setOptions] = useState<ProductOption[]>([]);
+  const [drafts, setDrafts] = useState<VariantDraft[]>([]);
+  const queryClient = useQueryClient();
+  const { variants, isLoading: variantsLoading } = useProductVariants(open ? product?.id : undefined);
   const [tags, setTags] = useState(product?.tags || '');
   const [care, setCare] = useState(product?.care || '');
   const [specifications, setSpecifications] = useState(product?.specifications || '');
@@ -54,7 +64,6 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
   const [review, setReview] = useState(product?.review ? String(product.review) : '0');
   const [bestseller, setBestseller] = useState(product?.bestseller || false);
   const [isNew, setIsNew] = useState(product?.new || false);
-  const [inStock, setInStock] = useState(product?.inStock !== undefined ? product.inStock : true);
   
   // Image handling
   const [uploadedImages, setUploadedImages] = useState<File[]>([]);
@@ -67,15 +76,16 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
       setName(product.name || '');
       setDescription(product.description || '');
       setPrice(product.price ? String(product.price) : '');
-      setStock(product.stock ? String(product.stock) : '');
+      setLowStockThreshold(product.low_stock_threshold ? String(product.low_stock_threshold) : '');
       setCategory(product.category || '');
       setStatus(product.status as 'active' | 'inactive' || 'active');
       
       // Set additional fields
       setMaterial(product.material || '');
       setDimensions(product.dimensions || '');
+      setHsnCode(product.hsn_code || '');
+      setGstRate(product.gst_rate !== undefined ? String(product.gst_rate) : '');
       setFeatures(product.features || '');
-      setColors(product.colors || '');
       setTags(product.tags || '');
       setCare(product.care || '');
       setSpecifications(product.specifications || '');
@@ -84,7 +94,6 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
       setReview(product.review ? String(product.review) : '0');
       setBestseller(product.bestseller || false);
       setIsNew(product.new || false);
-      setInStock(product.inStock !== undefined ? product.inStock : true);
       
       // Handle existing images
       if (product.images && Array.isArray(product.images)) {
@@ -97,6 +106,32 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
     }
   }, [product]);
 
+  // Load the variant editor; products still on the old free-text colours start with a Colour option
+  useEffect(() => {
+    if (!product || variantsLoading) return;
+
+    if (variants.length > 0) {
+      setOptions(product.options?.length ? product.options : [{ name: COLOUR_OPTION, values: [] }]);
+      setDrafts(variants.map(variant => ({
+        id: variant.id,
+        sku: variant.sku,
+        options: variant.options,
+        price: variant.price || 0,
+        stock: variant.stock || 0,
+        images: variant.images || [],
+        active: variant.active,
+      })));
+      return;
+    }
+
+    const initialOptions = product.options?.length ? product.options : optionsFromLegacyColors(product.colors);
+    const initialDrafts = syncVariantDrafts(product.name, initialOptions, []);
+    // The product's current stock moves onto the first variant
+    if (initialDrafts.length > 0) initialDrafts[0].stock = Number(product.stock) || 0;
+    setOptions(initialOptions);
+    setDrafts(initialDrafts);
+  }, [product, variants, variantsLoading]);
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       const newFiles = Array.from(e.target.files);
@@ -204,7 +239,6 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
 
       // Format JSON fields before submission
       const formattedFeatures = features ? formatJsonField(features, true) : undefined;
-      const formattedColors = colors ? formatJsonField(colors, false) : undefined;
       const formattedTags = tags ? formatJsonField(tags, true) : undefined;
       const formattedCare = care ? formatJsonField(care, true) : undefined;
       const formattedSpecifications = specifications ? formatJsonField(specifications, false) : undefined;
@@ -216,13 +250,14 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
         name,
         description: description || undefined,
         price: Number(price),
-        stock: stock ? Number(stock) : undefined,
+        low_stock_threshold: lowStockThreshold ? Number(lowStockThreshold) : 0,
         category: category || undefined,
         status,
         material: material || undefined,
         dimensions: dimensions || undefined,
+        hsn_code: hsnCode || undefined,
+        gst_rate: gstRate ? Number(gstRate) : undefined,
         features: formattedFeatures,
-        colors: formattedColors,
         tags: formattedTags,
         care: formattedCare,
         specifications: formattedSpecifications,
@@ -231,7 +266,6 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
         review: review ? Number(review) : undefined,
         bestseller,
         new: isNew,
-        inStock,
       };
 
       // Handle images
@@ -249,6 +283,13 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
 
       // Submit the form
       await onSubmit({ id: product.id, data: updateData });
+
+      if (options.length > 0 || variants.length > 0) {
+        await saveProductVariants(product, options, drafts);
+        queryClient.invalidateQueries({ queryKey: ['product_variants', product.id] });
+        queryClient.invalidateQueries({ queryKey: ['products'] });
+        queryClient.invalidateQueries({ queryKey: ['low_stock_products'] });
+      }
       
       // If we have new uploaded images, we would handle them here
       if (uploadedImages.length > 0) {
@@ -282,7 +323,7 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
               <TabsTrigger value="basic">Basic Info</TabsTrigger>
               <TabsTrigger value="details">Details</TabsTrigger>
               <TabsTrigger value="images">Images</TabsTrigger>
-              <TabsTrigger value="attributes">Attributes</TabsTrigger>
+              <TabsTrigger value="attributes">Variants</TabsTrigger>
               <TabsTrigger value="care">Care & Usage</TabsTrigger>
               <TabsTrigger value="specs">Specifications</TabsTrigger>
             </TabsList>
@@ -327,15 +368,18 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
                   </div>
                   
                   <div className="space-y-2">
-                    <Label htmlFor="stock">Stock</Label>
+                    <Label htmlFor="lowStockThreshold">Low stock alert at</Label>
                     <Input
-                      id="stock"
-                      value={stock}
-                      onChange={(e) => setStock(e.target.value)}
-                      placeholder="Available quantity"
+                      id="lowStockThreshold"
+                      value={lowStockThreshold}
+                      onChange={(e) => setLowStockThreshold(e.target.value)}
+                      placeholder={`Default (${DEFAULT_LOW_STOCK_THRESHOLD})`}
                       type="number"
                       min="0"
                     />
+                    <p className="text-xs text-muted-foreground">
+                      {product?.stock ?? 0} in stock. Use Stock on the product list to receive or correct stock.
+                    </p>
                   </div>
                 </div>
                 
@@ -371,10 +415,11 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
                       <div className="space-y-0.5">
                         <Label htmlFor="inStock">In Stock</Label>
                       </div>
+                      {/* Follows the stock ledger */}
                       <Switch
                         id="inStock"
-                        checked={inStock}
-                        onCheckedChange={setInStock}
+                        checked={(product?.stock ?? 0) > 0}
+                        disabled
                       />
                     </div>
                     
@@ -512,6 +557,30 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
                   </div>
                 </div>
 
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="hsn_code">HSN Code</Label>
+                    <Input
+                      id="hsn_code"
+                      value={hsnCode}
+                      onChange={(e) => setHsnCode(e.target.value)}
+                      placeholder="e.g., 42022220"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="gst_rate">GST Rate (%)</Label>
+                    <Input
+                      id="gst_rate"
+                      type="number"
+                      step="0.01"
+                      value={gstRate}
+                      onChange={(e) => setGstRate(e.target.value)}
+                      placeholder="Store default"
+                    />
+                  </div>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="features">Features</Label>
                   <Textarea
@@ -526,20 +595,6 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
                   </Label>
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="colors">Colors</Label>
-                  <Textarea
-                    id="colors"
-                    value={colors}
-                    onChange={(e) => setColors(e.target.value)}
-                    placeholder='Enter colors separated by commas or as JSON object'
-                    onBlur={(e) => handleJsonFieldBlur(e, false, setColors)}
-                  />
-                  <Label className="text-xs text-muted-foreground">
-                    Enter colors as comma-separated values or a JSON object with "available" array and "primary" color
-                  </Label>
-                </div>
-
                 <div className="space-y-2">
                   <Label htmlFor="tags">Tags</Label>
                   <Textarea
@@ -570,14 +625,17 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
               </TabsContent>
 
               <TabsContent value="attributes" className="space-y-4 mt-0">
-                <Card>
-                  <CardHeader>
-                    <CardTitle>Product Attributes</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <p className="text-muted-foreground">Additional product attributes will be added here in the future.</p>
-                  </CardContent>
-                </Card>
+                <ProductVariantsEditor
+                  productName={name}
+                  productPrice={Number(price) || 0}
+                  images={existingImages}
+                  options={options}
+                  drafts={drafts}
+                  onChange={(nextOptions, nextDrafts) => {
+                    setOptions(nextOptions);
+                    setDrafts(nextDrafts);
+                  }}
+                />
               </TabsContent>
 
               <TabsContent value="care" className="space-y-4 mt-0">
@@ -647,7 +705,7 @@ export function EditProductDialog({ open, onOpenChange, product, onSubmit }: Edi
 
           <Alert className="mt-6 bg-muted/50">
             <AlertDescription>
-              For JSON fields, you can enter simple text and it will be automatically converted to JSON format. For example, enter <code>Red, Blue, Green</code> for colors or tags.
+              For JSON fields, you can enter simple text and it will be automatically converted to JSON format. For example, enter <code>Red, Blue, Green</code> for features or tags.
             </AlertDescription>
           </Alert>
 
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useInventoryMovements } from '@/hooks/useInventory';
+import { useProductVariants } from '@/hooks/useProductVariants';
+import { MOVEMENT_LABELS, lowStockThreshold } from '@/lib/inventory';
+import { variantLabel } from '@/lib/productVariants';
+import { formatDate } from '@/lib/utils';
+import { Product } from '@/types/schema';
+
+type AdjustmentMode = 'restock' | 'adjustment';
+
+interface StockAdjustmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  product: Product | null;
+}
+
+// Receive stock or correct a count, with the product's recent stock ledger
+export function StockAdjustmentDialog({ open, onOpenChange, product }: StockAdjustmentDialogProps) {
+  const { movements, isLoading, adjustStock } = useInventoryMovements(open ? product?.id : undefined);
+  const { variants } = useProductVariants(open ? product?.id : undefined);
+  const [variantId, setVariantId] = useState('');
+  const [mode, setMode] = useState<AdjustmentMode>('restock');
+  const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setVariantId('');
+    setMode('restock');
+    setQuantity('');
+    setReason('');
+  }, [open]);
+
+  if (!product) return null;
+
+  // Products with variants hold their stock per variant
+  const variant = variants.find(candidate => candidate.id === variantId);
+  const current = Number(variants.length > 0 ? variant?.stock : product.stock) || 0;
+  const variantNames = new Map(variants.map(candidate => [candidate.id, variantLabel(candidate.options)]));
+  // Restocks add units; adjustments are a signed correction, e.g. -2 for damaged items
+  const change = mode === 'restock' ? Math.abs(Math.floor(Number(quantity) || 0)) : Math.trunc(Number(quantity) || 0);
+  const canSubmit = change !== 0 && (mode === 'restock' || reason.trim() !== '') && (variants.length === 0 || !!variant);
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    adjustStock.mutate(
+      { productId: product.id, variantId: variant?.id, type: mode, quantity: change, reason },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Stock for {product.name}</DialogTitle>
+          <DialogDescription>
+            {Number(product.stock) || 0} in stock · reorder at {lowStockThreshold(product)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {variants.length > 0 && (
+            <div className="space-y-1">
+              <Label>Variant</Label>
+              <Select value={variantId} onValueChange={setVariantId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a variant" />
+                </SelectTrigger>
+                <SelectContent>
+                  {variants.map(option => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {variantLabel(option.options)} · {option.sku} ({option.stock} in stock)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as AdjustmentMode)} className="flex gap-6">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="restock" id="stock-restock" />
+              <Label htmlFor="stock-restock">Receive stock</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="adjustment" id="stock-adjustment" />
+              <Label htmlFor="stock-adjustment">Correct count</Label>
+            </div>
+          </RadioGroup>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="stock-quantity">
+                {mode === 'restock' ? 'Units received' : 'Change in units (negative to remove)'}
+              </Label>
+              <Input
+                id="stock-quantity"
+                type="number"
+                step="1"
+                min={mode === 'restock' ? 0 : undefined}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>New stock</Label>
+              <p className="h-10 flex items-center font-medium">{current + change}</p>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="stock-reason">Reason{mode === 'adjustment' ? '' : ' (optional)'}</Label>
+            <Textarea
+              id="stock-reason"
+              placeholder={mode === 'restock' ? 'e.g. Supplier delivery' : 'e.g. Damaged in storage'}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Recent movements</Label>
+            <ScrollArea className="h-48 rounded-md border">
+              {isLoading ? (
+                <div className="text-center py-4">Loading movements...</div>
+              ) : movements.length === 0 ? (
+                <div className="text-center py-4 text-muted-foreground">No stock movements yet</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                      <TableHead className="text-right">Stock</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {movements.map(movement => (
+                      <TableRow key={movement.id}>
+                        <TableCell className="whitespace-nowrap">{formatDate(movement.created)}</TableCell>
+                        <TableCell>{MOVEMENT_LABELS[movement.type] || movement.type}</TableCell>
+                        <TableCell className={`text-right ${movement.quantity < 0 ? 'text-destructive' : ''}`}>
+                          {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                        </TableCell>
+                        <TableCell className="text-right">{movement.stock_after}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {[
+                            movement.variant_id && variantNames.get(movement.variant_id),
+                            movement.order_id && `Order #${movement.order_id}`,
+                            movement.reason,
+                            movement.actor,
+                          ]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || adjustStock.isPending}>
+            {adjustStock.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Update stock
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,13 +19,21 @@ import { AspectRatio } from '@/components/ui/aspect-ratio';
 import { useWhatsAppActivities } from '@/hooks/useWhatsAppActivities';
 import { WhatsAppActivities } from '@/components/orders/WhatsAppActivities';
 import { SendWhatsAppMessage } from '@/components/orders/SendWhatsAppMessage';
-import { MessageSquare, Mail, Edit } from 'lucide-react';
+import { MessageSquare, Mail, Edit, Undo2 } from 'lucide-react';
 import { useQueryClient } from '@tanstack/react-query';
 import { useEmailActivities } from '@/hooks/useEmailActivities';
 import { EmailActivities } from '@/components/orders/EmailActivities';
 import { SendEmailMessage } from '@/components/orders/SendEmailMessage';
 import { useOrders } from '@/hooks/useOrders';
 import { EditOrderDialog } from './EditOrderDialog';
+import { useAuth } from '@/hooks/useAuth';
+import { OrderStatusTimeline } from '@/components/orders/OrderStatusTimeline';
+import { OrderNotificationLog } from '@/components/orders/OrderNotificationLog';
+import { itemVariantLabel, parseOrderProducts } from '@/lib/orderItems';
+import { OrderDocuments } from '@/components/orders/OrderDocuments';
+import { OrderRefunds } from '@/components/orders/OrderRefunds';
+import { RefundDialog } from '@/components/orders/RefundDialog';
+import { canRefund } from '@/lib/refunds';
 
 type BadgeVariant = 'default' | 'destructive' | 'outline' | 'secondary' | 'success' | 'warning';
 
@@ -35,24 +43,12 @@ interface ViewOrderDialogProps {
   order: Order | null;
 }
 
-interface ProductItem {
-  productId: string;
-  quantity: number;
-  color?: string;
-  product: {
-    id: string;
-    name: string;
-    price: number;
-    images?: string[];
-    description?: string;
-    category?: string;
-  };
-}
-
 export function ViewOrderDialog({ open, onOpenChange, order }: ViewOrderDialogProps) {
   const queryClient = useQueryClient();
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isRefundDialogOpen, setIsRefundDialogOpen] = useState(false);
   const { updateOrder } = useOrders();
+  const { can } = useAuth();
 
   const orderStatusVariant: Record<string, BadgeVariant> = {
     pending: 'warning',
@@ -66,42 +62,20 @@ export function ViewOrderDialog({ open, onOpenChange, order }: ViewOrderDialogPr
   if (!order) return null;
 
   // Handle products data - could be a string, object, or array
-  let products: ProductItem[] = [];
-  try {
-    console.log('Raw products data:', order.products);
-    console.log('Products data type:', typeof order.products);
-    
-    // Check if products is already an object/array or a string that needs parsing
-    if (typeof order.products === 'string') {
-      // Handle case where it might be a stringified JSON
-      if (order.products === '[object Object]') {
-        // This is a special case where the string is literally "[object Object]"
-        console.warn('Products data is "[object Object]" string, not valid JSON');
-      } else if (order.products.trim() !== '') {
-        // Only try to parse if it's not an empty string
-        products = JSON.parse(order.products);
-        console.log('Parsed products:', products);
-      }
-    } else if (Array.isArray(order.products)) {
-      // If it's already an array, use it directly
-      products = order.products;
-      console.log('Using array products directly:', products);
-    } else if (typeof order.products === 'object' && order.products !== null) {
-      // If it's a single object, wrap it in an array
-      products = [order.products as unknown as ProductItem];
-      console.log('Using object product wrapped in array:', products);
-    }
-  } catch (e) {
-    console.error('Failed to parse products data:', e);
-  }
+  const products = parseOrderProducts(order);
 
   // Status badge variants
   const paymentStatusVariant: Record<string, BadgeVariant> = {
     pending: 'secondary',
     paid: 'success',
     failed: 'destructive',
+    partially_refunded: 'warning',
+    refunded: 'outline',
   };
 
+  const paymentStatusLabel = (status: string) =>
+    (status.charAt(0).toUpperCase() + status.slice(1)).replace(/_/g, ' ');
+
   // Safely format date
   const safeFormatDate = (dateString?: string) => {
     if (!dateString) return 'Unknown';
@@ -170,7 +144,7 @@ export function ViewOrderDialog({ open, onOpenChange, order }: ViewOrderDialogPr
               </DialogDescription>
             </div>
             <Badge variant={paymentStatusVariant[order.payment_status] || 'outline'} className="px-3 py-1">
-              Payment: {order.payment_status.charAt(0).toUpperCase() + order.payment_status.slice(1)}
+              Payment: {paymentStatusLabel(order.payment_status)}
             </Badge>
           </div>
         </DialogHeader>
@@ -230,6 +204,24 @@ export function ViewOrderDialog({ open, onOpenChange, order }: ViewOrderDialogPr
                     <p className="whitespace-pre-line">{order.notes || 'No notes provided'}</p>
                   </CardContent>
                 </Card>
+
+                <Card className="md:col-span-2">
+                  <CardHeader>
+                    <CardTitle className="text-lg">Status History</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <OrderStatusTimeline orderId={order.id} />
+                  </CardContent>
+                </Card>
+
+                <Card className="md:col-span-2">
+                  <CardHeader>
+                    <CardTitle className="text-lg">Notifications</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <OrderNotificationLog orderId={order.id} />
+                  </CardContent>
+                </Card>
               </div>
             </TabsContent>
 
@@ -275,7 +267,11 @@ export function ViewOrderDialog({ open, onOpenChange, order }: ViewOrderDialogPr
                           <div className="md:col-span-3 flex flex-col justify-between">
                             <div>
                               <h4 className="font-medium text-base">{product.product?.name || 'Unknown Product'}</h4>
-                              {product.color && <span className="text-sm text-muted-foreground">Color: {product.color}</span>}
+                              {itemVariantLabel(product) && (
+                                <span className="text-sm text-muted-foreground">
+                                  {itemVariantLabel(product)}{product.sku && ` · SKU ${product.sku}`}
+                                </span>
+                              )}
                               {product.product?.description && (
                                 <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{product.product.description}</p>
                               )}
@@ -336,7 +332,7 @@ export function ViewOrderDialog({ open, onOpenChange, order }: ViewOrderDialogPr
                       <Label className="font-semibold">Payment Status</Label>
                       <div>
                         <Badge variant={paymentStatusVariant[order.payment_status] || 'outline'}>
-                          {order.payment_status.charAt(0).toUpperCase() + order.payment_status.slice(1)}
+                          {paymentStatusLabel(order.payment_status)}
                         </Badge>
                       </div>
                     </div>
@@ -344,7 +340,10 @@ export function ViewOrderDialog({ open, onOpenChange, order }: ViewOrderDialogPr
                     {order.coupon_code && (
                       <div>
                         <Label className="font-semibold">Coupon Applied</Label>
-                        <p>{order.coupon_code}</p>
+                        <p>
+                          {order.coupon_code}
+                          {Number(order.discount_amount) > 0 && ` (₹${Number(order.discount_amount).toFixed(2)} off)`}
+                        </p>
                       </div>
                     )}
                     
@@ -380,27 +379,45 @@ export function ViewOrderDialog({ open, onOpenChange, order }: ViewOrderDialogPr
                       <span>Total Amount:</span>
                       <span>&#8377;{order.total?.toFixed(2) || '0.00'}</span>
                     </div>
+
+                    {order.refund_amount > 0 && (
+                      <div className="flex justify-between text-muted-foreground">
+                        <span>Refunded:</span>
+                        <span>-&#8377;{order.refund_amount.toFixed(2)}</span>
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Refunds</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <OrderRefunds orderId={order.id} />
+                </CardContent>
+              </Card>
             </TabsContent>
 
             <TabsContent value="whatsapp" className="space-y-4 p-1 overflow-y-auto">
               <div className="space-y-6">
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="text-lg">Send WhatsApp Message</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <SendWhatsAppMessage 
-                      order={order} 
-                      onMessageSent={() => {
-                        // This will trigger a refetch of the activities
-                        queryClient.invalidateQueries({ queryKey: ['whatsapp_activities', order.id] });
-                      }} 
-                    />
-                  </CardContent>
-                </Card>
+                {can('messages.send') && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-lg">Send WhatsApp Message</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <SendWhatsAppMessage 
+                        order={order} 
+                        onMessageSent={() => {
+                          // This will trigger a refetch of the activities
+                          queryClient.invalidateQueries({ queryKey: ['whatsapp_activities', order.id] });
+                        }} 
+                      />
+                    </CardContent>
+                  </Card>
+                )}
                 
                 <Card>
                   <CardHeader>
@@ -415,20 +432,22 @@ export function ViewOrderDialog({ open, onOpenChange, order }: ViewOrderDialogPr
 
             <TabsContent value="email" className="space-y-4 p-1 overflow-y-auto">
               <div className="space-y-6">
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="text-lg">Send Email</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <SendEmailMessage 
-                      order={order} 
-                      onEmailSent={() => {
-                        // This will trigger a refetch of the email activities
-                        queryClient.invalidateQueries({ queryKey: ['email_activities', order.id] });
-                      }} 
-                    />
-                  </CardContent>
-                </Card>
+                {can('messages.send') && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-lg">Send Email</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <SendEmailMessage 
+                        order={order} 
+                        onEmailSent={() => {
+                          // This will trigger a refetch of the email activities
+                          queryClient.invalidateQueries({ queryKey: ['email_activities', order.id] });
+                        }} 
+                      />
+                    </CardContent>
+                  </Card>
+                )}
                 
                 <Card>
                   <CardHeader>
@@ -443,13 +462,23 @@ export function ViewOrderDialog({ open, onOpenChange, order }: ViewOrderDialogPr
           </ScrollArea>
         </Tabs>
 
-        <div className="flex justify-end gap-2 mt-4">
-          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
-          <Button variant="outline" onClick={handleEditOrder}>
-            <Edit className="mr-2 h-4 w-4" />
-            Edit Order
-          </Button>
-          <Button>Print Invoice</Button>
+        <div className="flex flex-wrap justify-between gap-2 mt-4">
+          <OrderDocuments order={order} />
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+            {can('orders.refund') && canRefund(order) && (
+              <Button variant="outline" onClick={() => setIsRefundDialogOpen(true)}>
+                <Undo2 className="mr-2 h-4 w-4" />
+                Refund
+              </Button>
+            )}
+            {can('orders.edit') && (
+              <Button variant="outline" onClick={handleEditOrder}>
+                <Edit className="mr-2 h-4 w-4" />
+                Edit Order
+              </Button>
+            )}
+          </div>
         </div>
       </DialogContent>
 
@@ -459,6 +488,12 @@ export function ViewOrderDialog({ open, onOpenChange, order }: ViewOrderDialogPr
         order={order}
         onSubmit={handleUpdateOrder}
       />
+
+      <RefundDialog
+        open={isRefundDialogOpen}
+        onOpenChange={setIsRefundDialogOpen}
+        order={order}
+      />
     </Dialog>
   );
 }
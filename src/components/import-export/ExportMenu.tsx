@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Download, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { ExportColumn } from '@/lib/csv';
+import { ExportFormat, exportRows } from '@/lib/spreadsheet';
+
+interface ExportMenuProps<T> {
+  // Loads every record matching the page's active filters, not just the visible page
+  fetchRows: () => Promise<T[]>;
+  columns: ExportColumn<T>[];
+  baseName: string;
+}
+
+export function ExportMenu<T>({ fetchRows, columns, baseName }: ExportMenuProps<T>) {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      const rows = await fetchRows();
+      if (rows.length === 0) {
+        toast.info('Nothing to export for the current filters');
+        return;
+      }
+      exportRows(rows, columns, format, baseName);
+      toast.success(`Exported ${rows.length} ${baseName}`);
+    } catch (error) {
+      console.error('Export failed:', error);
+      toast.error('Export failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isExporting}>
+          {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport('csv')}>
+          <FileText className="mr-2 h-4 w-4" />
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          Excel (.xlsx)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
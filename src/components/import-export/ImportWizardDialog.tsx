@@ -0,0 +1,370 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { AlertCircle, CheckCircle2, Download, Loader2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { useBulkAction } from '@/hooks/useBulkAction';
+import { downloadCsv } from '@/lib/csv';
+import { readSpreadsheet, ParsedSheet } from '@/lib/spreadsheet';
+import {
+  ColumnMapping,
+  DryRunResult,
+  DuplicateStrategy,
+  ImportConfig,
+  ImportRowError,
+  autoMapColumns,
+  dryRunImport,
+} from '@/lib/importers';
+
+type WizardStep = 'upload' | 'mapping' | 'review' | 'import';
+
+const UNMAPPED = '__none__';
+
+interface ImportWizardDialogProps<T> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  config: ImportConfig<T>;
+  title: string;
+  onComplete?: () => void;
+}
+
+export function ImportWizardDialog<T>({
+  open,
+  onOpenChange,
+  config,
+  title,
+  onComplete,
+}: ImportWizardDialogProps<T>) {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [strategy, setStrategy] = useState<DuplicateStrategy>('skip');
+  const [dryRun, setDryRun] = useState<DryRunResult<T> | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const bulk = useBulkAction();
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setSheet(null);
+    setMapping({});
+    setStrategy('skip');
+    setDryRun(null);
+    bulk.reset();
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (bulk.isRunning) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsWorking(true);
+    try {
+      const parsed = await readSpreadsheet(file);
+      if (parsed.rows.length === 0) {
+        toast.error('The file has no data rows');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(autoMapColumns(parsed.headers, config.fields));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error('Could not read file: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const missingRequired = config.fields.filter(field => field.required && !mapping[field.key]);
+
+  const handleValidate = async () => {
+    if (!sheet) return;
+
+    setIsWorking(true);
+    try {
+      setDryRun(await dryRunImport(config, sheet.rows, mapping));
+      setStep('review');
+    } catch (error) {
+      console.error('Error validating import:', error);
+      toast.error('Validation failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const rowsToWrite = dryRun
+    ? dryRun.valid.filter(row => !(row.existingId && strategy === 'skip'))
+    : [];
+  const skippedCount = dryRun ? dryRun.valid.length - rowsToWrite.length : 0;
+
+  const handleImport = async () => {
+    if (!dryRun) return;
+
+    setStep('import');
+    const rowsById = new Map(rowsToWrite.map(row => [String(row.row), row]));
+    await bulk.run(
+      `Importing ${config.entity}`,
+      rowsToWrite.map(row => ({ id: String(row.row), label: `Row ${row.row}: ${row.label}` })),
+      async (id) => {
+        const row = rowsById.get(id)!;
+        if (row.existingId && strategy === 'update') {
+          await config.update(row.existingId, row.data);
+        } else {
+          await config.create(row.data);
+        }
+      }
+    );
+    onComplete?.();
+  };
+
+  // Validation errors plus rows that PocketBase rejected during the import
+  const reportErrors = (): ImportRowError[] => {
+    if (!dryRun || !sheet) return [];
+    const failed = bulk.results
+      .filter(result => result.status === 'failed')
+      .map(result => ({
+        row: Number(result.id),
+        message: result.error || 'Import failed',
+        values: sheet.rows[Number(result.id) - 2] || {},
+      }));
+    return [...dryRun.errors, ...failed].sort((a, b) => a.row - b.row);
+  };
+
+  const handleDownloadReport = () => {
+    const errors = reportErrors();
+    const headers = sheet?.headers || [];
+    downloadCsv(
+      errors,
+      [
+        { header: 'Row', value: error => error.row },
+        { header: 'Field', value: error => error.field },
+        { header: 'Error', value: error => error.message },
+        ...headers.map(header => ({ header, value: (error: ImportRowError) => error.values[header] })),
+      ],
+      `${config.entity}-import-errors.csv`
+    );
+  };
+
+  const succeeded = bulk.results.filter(result => result.status === 'success').length;
+  const failed = bulk.results.filter(result => result.status === 'failed').length;
+  const progress = bulk.results.length > 0 ? ((succeeded + failed) / bulk.results.length) * 100 : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV or Excel file. The first row must contain column headers.'}
+            {step === 'mapping' && `${fileName}: ${sheet?.rows.length} rows. Match your columns to ${config.entity} fields.`}
+            {step === 'review' && 'Dry run complete. Nothing has been written yet.'}
+            {step === 'import' && (bulk.isRunning ? 'Importing...' : 'Import finished.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="flex flex-col items-center gap-4 rounded-md border border-dashed p-8">
+            {isWorking ? (
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            ) : (
+              <Upload className="h-8 w-8 text-muted-foreground" />
+            )}
+            <Input
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={handleFile}
+              disabled={isWorking}
+              className="max-w-xs"
+            />
+          </div>
+        )}
+
+        {step === 'mapping' && sheet && (
+          <div className="space-y-4">
+            <ScrollArea className="max-h-[320px] pr-4">
+              <div className="grid grid-cols-2 gap-3">
+                {config.fields.map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <Label>
+                      {field.label}
+                      {field.required && <span className="text-destructive"> *</span>}
+                    </Label>
+                    <Select
+                      value={mapping[field.key] || UNMAPPED}
+                      onValueChange={(value) => setMapping(prev => {
+                        const next = { ...prev };
+                        if (value === UNMAPPED) {
+                          delete next[field.key];
+                        } else {
+                          next[field.key] = value;
+                        }
+                        return next;
+                      })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Not imported</SelectItem>
+                        {sheet.headers.map(header => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="space-y-2">
+              <Label>When a row matches an existing record by {config.duplicateKeyLabel}</Label>
+              <RadioGroup
+                value={strategy}
+                onValueChange={(value) => setStrategy(value as DuplicateStrategy)}
+                className="flex gap-4"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="skip" id="duplicate-skip" />
+                  <Label htmlFor="duplicate-skip">Skip</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="update" id="duplicate-update" />
+                  <Label htmlFor="duplicate-update">Update existing</Label>
+                </div>
+                {config.allowDuplicateCreate && (
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="create" id="duplicate-create" />
+                    <Label htmlFor="duplicate-create">Create anyway</Label>
+                  </div>
+                )}
+              </RadioGroup>
+            </div>
+
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-destructive">
+                Map required fields: {missingRequired.map(field => field.label).join(', ')}
+              </p>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={reset}>Back</Button>
+              <Button onClick={handleValidate} disabled={missingRequired.length > 0 || isWorking}>
+                {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Validate
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && dryRun && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+              <div className="rounded-md border p-3">
+                <div className="text-2xl font-bold">{dryRun.totalRows}</div>
+                <div className="text-xs text-muted-foreground">Rows</div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-2xl font-bold text-green-600">{rowsToWrite.length}</div>
+                <div className="text-xs text-muted-foreground">
+                  {strategy === 'update' ? 'To create or update' : 'To create'}
+                </div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-2xl font-bold">{skippedCount}</div>
+                <div className="text-xs text-muted-foreground">Duplicates skipped</div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-2xl font-bold text-destructive">{new Set(dryRun.errors.map(e => e.row)).size}</div>
+                <div className="text-xs text-muted-foreground">Invalid rows</div>
+              </div>
+            </div>
+
+            {dryRun.errors.length > 0 && (
+              <ScrollArea className="max-h-[200px] rounded-md border p-3">
+                <ul className="space-y-1 text-sm">
+                  {dryRun.errors.slice(0, 100).map((error, index) => (
+                    <li key={index} className="flex items-start gap-2">
+                      <AlertCircle className="h-4 w-4 mt-0.5 text-destructive shrink-0" />
+                      <span>
+                        Row {error.row}{error.field ? ` (${error.field})` : ''}: {error.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep('mapping')}>Back</Button>
+              <div className="flex gap-2">
+                {dryRun.errors.length > 0 && (
+                  <Button variant="outline" onClick={handleDownloadReport}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Error report
+                  </Button>
+                )}
+                <Button onClick={handleImport} disabled={rowsToWrite.length === 0}>
+                  Import {rowsToWrite.length} rows
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === 'import' && (
+          <div className="space-y-4">
+            <Progress value={progress} />
+            <div className="flex items-center gap-2 text-sm">
+              {bulk.isRunning ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+              )}
+              <span>
+                {succeeded} imported, {failed} failed, {skippedCount} skipped, {dryRun?.errors.length ? new Set(dryRun.errors.map(e => e.row)).size : 0} invalid
+              </span>
+            </div>
+
+            {!bulk.isRunning && (
+              <div className="flex justify-end gap-2">
+                {reportErrors().length > 0 && (
+                  <Button variant="outline" onClick={handleDownloadReport}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Error report
+                  </Button>
+                )}
+                <Button onClick={() => handleOpenChange(false)}>Done</Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
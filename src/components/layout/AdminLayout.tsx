@@ -13,7 +13,9 @@ import { Button } from '@/components/ui/button';
 import { ThemeToggle } from '@/components/theme/theme-toggle';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { useIsMobile } from '@/hooks/use-mobile';
-import { pb } from '@/lib/pocketbase';
+import { signOut } from '@/lib/auth';
+import { useAuth } from '@/hooks/useAuth';
+import { ROLE_LABELS } from '@/lib/permissions';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 
@@ -25,6 +27,7 @@ export const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
   const isMobile = useIsMobile();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const navigate = useNavigate();
+  const { user, can } = useAuth();
 
   useEffect(() => {
     // Close sidebar when switching to mobile view
@@ -35,7 +38,7 @@ export const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
 
   const handleLogout = () => {
     try {
-      pb.authStore.clear();
+      signOut();
       toast.success('Logged out successfully');
       navigate('/login');
     } catch (error) {
@@ -110,10 +113,19 @@ export const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
-                <DropdownMenuLabel>My Account</DropdownMenuLabel>
+                <DropdownMenuLabel>
+                  <div className="flex flex-col">
+                    <span>{user?.name || 'My Account'}</span>
+                    {user && (
+                      <span className="text-xs font-normal text-muted-foreground">{ROLE_LABELS[user.role]}</span>
+                    )}
+                  </div>
+                </DropdownMenuLabel>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem>Profile</DropdownMenuItem>
-                <DropdownMenuItem>Settings</DropdownMenuItem>
+                {can('settings.view') && (
+                  <DropdownMenuItem onClick={() => navigate('/admin/settings')}>Settings</DropdownMenuItem>
+                )}
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={handleLogout}>Log out</DropdownMenuItem>
               </DropdownMenuContent>
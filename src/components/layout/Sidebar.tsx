@@ -11,10 +11,16 @@ import {
   ChevronLeft,
   ChevronRight,
   MessageSquare,
-  Mail
+  Mail,
+  TicketPercent,
+  Target,
+  Megaphone,
+  Inbox
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useAuth } from '@/hooks/useAuth';
+import { Permission } from '@/lib/permissions';
 
 interface SidebarItemProps {
   icon: React.ElementType;
@@ -59,20 +65,27 @@ export const Sidebar: React.FC<SidebarProps> = ({ onNavigate }) => {
   const location = useLocation();
   const isMobile = useIsMobile();
   const [collapsed, setCollapsed] = useState(false);
+  const { can } = useAuth();
 
-  const items = [
-    { title: 'Dashboard', path: '/admin', icon: LayoutDashboard },
-    { title: 'Orders', path: '/admin/orders', icon: ShoppingCart },
-    { title: 'Customers', path: '/admin/customers', icon: Users },
-    { title: 'Products', path: '/admin/products', icon: Package },
-    { title: 'Payments', path: '/admin/payments', icon: CreditCard },
-    { title: 'WhatsApp Activities', path: '/admin/whatsapp', icon: MessageSquare },
-    { title: 'WhatsApp Templates', path: '/admin/whatsapp-templates', icon: MessageSquare },
-    { title: 'Email Activities', path: '/admin/email', icon: Mail },
-    { title: 'Email Templates', path: '/admin/email-templates', icon: Mail },
-    { title: 'Settings', path: '/admin/settings', icon: Settings },
+  const items: { title: string; path: string; icon: React.ElementType; permission: Permission }[] = [
+    { title: 'Dashboard', path: '/admin', icon: LayoutDashboard, permission: 'dashboard.view' },
+    { title: 'Orders', path: '/admin/orders', icon: ShoppingCart, permission: 'orders.view' },
+    { title: 'Customers', path: '/admin/customers', icon: Users, permission: 'customers.view' },
+    { title: 'Segments', path: '/admin/segments', icon: Target, permission: 'customers.view' },
+    { title: 'Products', path: '/admin/products', icon: Package, permission: 'products.view' },
+    { title: 'Payments', path: '/admin/payments', icon: CreditCard, permission: 'payments.view' },
+    { title: 'Coupons', path: '/admin/coupons', icon: TicketPercent, permission: 'coupons.view' },
+    { title: 'Inbox', path: '/admin/inbox', icon: Inbox, permission: 'messages.view' },
+    { title: 'Campaigns', path: '/admin/campaigns', icon: Megaphone, permission: 'messages.view' },
+    { title: 'WhatsApp Activities', path: '/admin/whatsapp', icon: MessageSquare, permission: 'messages.view' },
+    { title: 'WhatsApp Templates', path: '/admin/whatsapp-templates', icon: MessageSquare, permission: 'templates.view' },
+    { title: 'Email Activities', path: '/admin/email', icon: Mail, permission: 'messages.view' },
+    { title: 'Email Templates', path: '/admin/email-templates', icon: Mail, permission: 'templates.view' },
+    { title: 'Settings', path: '/admin/settings', icon: Settings, permission: 'settings.view' },
   ];
 
+  const visibleItems = items.filter((item) => can(item.permission));
+
   return (
     <div 
       className={cn(
@@ -101,7 +114,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ onNavigate }) => {
       
       {/* Navigation items */}
       <nav className="flex-1 px-2 py-4 space-y-1 overflow-y-auto">
-        {items.map((item) => (
+        {visibleItems.map((item) => (
           <SidebarItem
             key={item.path}
             icon={item.icon}
@@ -0,0 +1,78 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { BulkActionResult } from '@/hooks/useBulkAction';
+
+interface BulkActionProgressDialogProps {
+  open: boolean;
+  title: string;
+  results: BulkActionResult[];
+  isRunning: boolean;
+  onClose: () => void;
+}
+
+export function BulkActionProgressDialog({
+  open,
+  title,
+  results,
+  isRunning,
+  onClose,
+}: BulkActionProgressDialogProps) {
+  const completed = results.filter(result => result.status !== 'pending').length;
+  const failed = results.filter(result => result.status === 'failed').length;
+  const progress = results.length > 0 ? (completed / results.length) * 100 : 0;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        // Keep the dialog up until the run finishes
+        if (!nextOpen && !isRunning) onClose();
+      }}
+    >
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {isRunning
+              ? `Processing ${completed} of ${results.length}...`
+              : `Finished: ${completed - failed} succeeded, ${failed} failed`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Progress value={progress} />
+
+        <ScrollArea className="max-h-[300px] pr-4">
+          <ul className="space-y-2">
+            {results.map(result => (
+              <li key={result.id} className="flex items-start gap-2 text-sm">
+                {result.status === 'pending' && <Loader2 className="h-4 w-4 mt-0.5 animate-spin text-muted-foreground" />}
+                {result.status === 'success' && <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600" />}
+                {result.status === 'failed' && <XCircle className="h-4 w-4 mt-0.5 text-destructive" />}
+                <div className="flex flex-col">
+                  <span>{result.label}</span>
+                  {result.error && <span className="text-xs text-destructive">{result.error}</span>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+
+        <div className="flex justify-end">
+          <Button onClick={onClose} disabled={isRunning}>
+            {isRunning ? 'Working...' : 'Close'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
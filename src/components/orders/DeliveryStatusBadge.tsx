@@ -0,0 +1,33 @@
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Ban, Check, CheckCheck, Clock, MailOpen, MousePointerClick } from 'lucide-react';
+import { formatDate } from '@/lib/utils';
+
+interface DeliveryStatusBadgeProps {
+  status: string;
+  error?: string;
+  // When the message reached its current status, shown on hover
+  at?: string;
+}
+
+const STATUS_STYLES: Record<string, { label: string; className: string; icon: typeof Check }> = {
+  queued: { label: 'Queued', className: 'bg-amber-50 text-amber-700 border-amber-200', icon: Clock },
+  sent: { label: 'Sent', className: 'bg-green-50 text-green-700 border-green-200', icon: Check },
+  delivered: { label: 'Delivered', className: 'bg-green-50 text-green-700 border-green-200', icon: CheckCheck },
+  read: { label: 'Read', className: 'bg-blue-50 text-blue-700 border-blue-200', icon: CheckCheck },
+  opened: { label: 'Opened', className: 'bg-blue-50 text-blue-700 border-blue-200', icon: MailOpen },
+  clicked: { label: 'Clicked', className: 'bg-indigo-50 text-indigo-700 border-indigo-200', icon: MousePointerClick },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-50 text-gray-600 border-gray-200', icon: Ban },
+  failed: { label: 'Failed', className: 'bg-red-50 text-red-700 border-red-200', icon: AlertTriangle },
+};
+
+export function DeliveryStatusBadge({ status, error, at }: DeliveryStatusBadgeProps) {
+  const style = STATUS_STYLES[status] || STATUS_STYLES.failed;
+  const Icon = style.icon;
+
+  return (
+    <Badge variant="outline" className={style.className} title={error || (at ? `${style.label} ${formatDate(at)}` : undefined)}>
+      <Icon className="h-3 w-3 mr-1" />
+      {style.label}
+    </Badge>
+  );
+}
@@ -19,9 +19,11 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Mail, Check, AlertTriangle, Eye } from 'lucide-react';
+import { Mail, Eye } from 'lucide-react';
+import { QueuedMessageActions } from '@/components/orders/QueuedMessageActions';
+import { DeliveryStatusBadge } from '@/components/orders/DeliveryStatusBadge';
+import { TemplateFunnelTable } from '@/components/orders/TemplateFunnelTable';
 
 interface EmailActivitiesProps {
   activities: EmailActivity[];
@@ -82,6 +84,12 @@ export function EmailActivities({ activities, isLoading = false, orderId }: Emai
 
   return (
     <div>
+      {/* Funnel stats only make sense across many orders, not within one */}
+      {!orderId && (
+        <div className="mb-6">
+          <TemplateFunnelTable channel="email" activities={filteredActivities} templateNames={templateDisplayNames} />
+        </div>
+      )}
       <Table>
         <TableCaption>Email message history</TableCaption>
         <TableHeader>
@@ -106,9 +114,10 @@ export function EmailActivities({ activities, isLoading = false, orderId }: Emai
               <TableCell>{activity.recipient}</TableCell>
               <TableCell className="max-w-[200px] truncate">{activity.subject || 'N/A'}</TableCell>
               <TableCell>
-                <StatusBadge status={activity.status} />
+                <DeliveryStatusBadge status={activity.status} error={activity.error_message} at={activity.clicked_at || activity.opened_at} />
               </TableCell>
               <TableCell className="text-right">
+                <QueuedMessageActions channel="email" queueId={activity.queue_id} status={activity.status} />
                 <Dialog>
                   <DialogTrigger asChild>
                     <Button
@@ -148,6 +157,11 @@ export function EmailActivities({ activities, isLoading = false, orderId }: Emai
                         </div>
                       )}
                     </div>
+                    {selectedActivity?.error_message && (
+                      <div className="p-4 bg-red-50 text-red-700 rounded-md text-sm">
+                        <span className="font-medium">Last error:</span> {selectedActivity.error_message}
+                      </div>
+                    )}
                   </DialogContent>
                 </Dialog>
               </TableCell>
@@ -206,22 +220,3 @@ function renderEmailContent(content: unknown): string | JSX.Element {
   // For any other type, convert to string
   return String(content);
 }
-
-// Status badge component
-function StatusBadge({ status }: { status: string }) {
-  if (status === 'sent') {
-    return (
-      <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
-        <Check className="h-3 w-3 mr-1" />
-        Sent
-      </Badge>
-    );
-  }
-  
-  return (
-    <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
-      <AlertTriangle className="h-3 w-3 mr-1" />
-      Failed
-    </Badge>
-  );
-}
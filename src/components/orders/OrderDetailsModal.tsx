@@ -30,6 +30,8 @@ import { format } from 'date-fns';
 import { useWhatsAppActivities } from '@/hooks/useWhatsAppActivities';
 import { WhatsAppActivities } from './WhatsAppActivities';
 import { SendWhatsAppMessage } from './SendWhatsAppMessage';
+import { canTransition } from '@/lib/orderStatus';
+import { OrderDocuments } from './OrderDocuments';
 
 interface OrderDetailsModalProps {
   order: Order | null;
@@ -287,6 +289,7 @@ export const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
                       variant={order.status === 'pending' ? 'default' : 'outline'} 
                       size="sm" 
                       onClick={() => onUpdateStatus(order.id, 'pending')}
+                      disabled={!canTransition(order.status, 'pending')}
                     >
                       Pending
                     </Button>
@@ -294,6 +297,7 @@ export const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
                       variant={order.status === 'processing' ? 'default' : 'outline'} 
                       size="sm" 
                       onClick={() => onUpdateStatus(order.id, 'processing')}
+                      disabled={!canTransition(order.status, 'processing')}
                     >
                       Processing
                     </Button>
@@ -301,6 +305,7 @@ export const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
                       variant={order.status === 'shipped' ? 'default' : 'outline'} 
                       size="sm" 
                       onClick={() => onUpdateStatus(order.id, 'shipped')}
+                      disabled={!canTransition(order.status, 'shipped')}
                     >
                       Shipped
                     </Button>
@@ -308,6 +313,7 @@ export const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
                       variant={order.status === 'delivered' ? 'default' : 'outline'} 
                       size="sm" 
                       onClick={() => onUpdateStatus(order.id, 'delivered')}
+                      disabled={!canTransition(order.status, 'delivered')}
                     >
                       Delivered
                     </Button>
@@ -402,7 +408,8 @@ export const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
           </TabsContent>
         </Tabs>
         
-        <DialogFooter>
+        <DialogFooter className="sm:justify-between gap-2">
+          <OrderDocuments order={order} />
           <Button variant="outline" onClick={onClose}>Close</Button>
         </DialogFooter>
       </DialogContent>
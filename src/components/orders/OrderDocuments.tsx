@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { FileText, Loader2, Mail, MessageSquare, Package, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { useQueryClient } from '@tanstack/react-query';
+import { Order } from '@/types/schema';
+import { useAuth } from '@/hooks/useAuth';
+import { downloadFile } from '@/lib/csv';
+import {
+  OrderDocument,
+  OrderDocumentKind,
+  blobToBase64,
+  generateInvoicePdf,
+  generatePackingSlipPdf,
+} from '@/lib/orderDocuments';
+import { EmailTemplate, sendOrderDocumentEmail } from '@/lib/email';
+import { sendOrderDocument } from '@/lib/whatsapp';
+
+interface OrderDocumentsProps {
+  order: Order;
+}
+
+const DOCUMENT_LABELS: Record<OrderDocumentKind, string> = {
+  invoice: 'Invoice',
+  packing_slip: 'Packing slip',
+};
+
+export function OrderDocuments({ order }: OrderDocumentsProps) {
+  const [busy, setBusy] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+
+  const generate = (kind: OrderDocumentKind): Promise<OrderDocument> =>
+    kind === 'invoice' ? generateInvoicePdf(order) : generatePackingSlipPdf(order);
+
+  const withBusy = async (key: string, task: () => Promise<void>) => {
+    setBusy(key);
+    try {
+      await task();
+    } catch (error) {
+      console.error('Order document action failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDownload = (kind: OrderDocumentKind) => withBusy(`download-${kind}`, async () => {
+    const document = await generate(kind);
+    downloadFile(document.blob, document.filename, 'application/pdf');
+  });
+
+  const handleEmail = (kind: OrderDocumentKind) => withBusy(`email-${kind}`, async () => {
+    if (!order.customer_email) throw new Error('This order has no customer email');
+
+    const document = await generate(kind);
+    const response = await sendOrderDocumentEmail(
+      order,
+      order.customer_email,
+      { filename: document.filename, content: await blobToBase64(document.blob) },
+      kind === 'invoice' ? EmailTemplate.INVOICE : EmailTemplate.PACKING_SLIP
+    );
+    if (!response.success) throw new Error(response.message || 'Failed to send email');
+
+    toast.success(`${DOCUMENT_LABELS[kind]} emailed to ${order.customer_email}`);
+    queryClient.invalidateQueries({ queryKey: ['email_activities', order.id] });
+  });
+
+  const handleWhatsApp = (kind: OrderDocumentKind) => withBusy(`whatsapp-${kind}`, async () => {
+    if (!order.customer_phone) throw new Error('This order has no customer phone number');
+
+    const document = await generate(kind);
+    const file = new File([document.blob], document.filename, { type: 'application/pdf' });
+    const response = await sendOrderDocument(
+      order,
+      file,
+      order.customer_phone,
+      kind,
+      `${DOCUMENT_LABELS[kind]} for your order #${order.id}`
+    );
+    if (!response.success) throw new Error(response.message || 'Failed to send WhatsApp document');
+
+    toast.success(`${DOCUMENT_LABELS[kind]} sent on WhatsApp`);
+    queryClient.invalidateQueries({ queryKey: ['whatsapp_activities', order.id] });
+  });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Button variant="outline" size="sm" onClick={() => handleDownload('invoice')} disabled={!!busy}>
+        {busy === 'download-invoice' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+        Invoice PDF
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => handleDownload('packing_slip')} disabled={!!busy}>
+        {busy === 'download-packing_slip' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Package className="mr-2 h-4 w-4" />}
+        Packing slip PDF
+      </Button>
+
+      {can('messages.send') && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={!!busy}>
+              {busy?.startsWith('email') || busy?.startsWith('whatsapp')
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                : <Send className="mr-2 h-4 w-4" />}
+              Send to customer
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {(['invoice', 'packing_slip'] as OrderDocumentKind[]).map((kind, index) => (
+              <React.Fragment key={kind}>
+                {index > 0 && <DropdownMenuSeparator />}
+                <DropdownMenuLabel>{DOCUMENT_LABELS[kind]}</DropdownMenuLabel>
+                <DropdownMenuItem onClick={() => handleEmail(kind)} disabled={!order.customer_email}>
+                  <Mail className="mr-2 h-4 w-4" />
+                  Email
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleWhatsApp(kind)} disabled={!order.customer_phone}>
+                  <MessageSquare className="mr-2 h-4 w-4" />
+                  WhatsApp
+                </DropdownMenuItem>
+              </React.Fragment>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+}
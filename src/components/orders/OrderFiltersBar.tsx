@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Search, X } from 'lucide-react';
+import { OrderFilters, hasActiveFilters } from '@/lib/orderFilters';
+import { ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+
+interface OrderFiltersBarProps {
+  filters: OrderFilters;
+  onChange: (filters: OrderFilters) => void;
+}
+
+// Free-text inputs are debounced so typing doesn't fire a request per keystroke
+const TEXT_DEBOUNCE_MS = 400;
+
+type TextFilterKey = 'search' | 'coupon' | 'carrier' | 'amount_min' | 'amount_max';
+
+const toDraft = (filters: OrderFilters): Record<TextFilterKey, string> => ({
+  search: filters.search || '',
+  coupon: filters.coupon || '',
+  carrier: filters.carrier || '',
+  amount_min: filters.amount_min !== undefined ? String(filters.amount_min) : '',
+  amount_max: filters.amount_max !== undefined ? String(filters.amount_max) : '',
+});
+
+const fromDraft = (draft: Record<TextFilterKey, string>): Partial<OrderFilters> => ({
+  search: draft.search || undefined,
+  coupon: draft.coupon || undefined,
+  carrier: draft.carrier || undefined,
+  amount_min: draft.amount_min !== '' && !isNaN(Number(draft.amount_min)) ? Number(draft.amount_min) : undefined,
+  amount_max: draft.amount_max !== '' && !isNaN(Number(draft.amount_max)) ? Number(draft.amount_max) : undefined,
+});
+
+export const OrderFiltersBar: React.FC<OrderFiltersBarProps> = ({ filters, onChange }) => {
+  const [draft, setDraft] = useState(() => toDraft(filters));
+
+  // Pick up external changes, e.g. back/forward navigation or "clear filters"
+  useEffect(() => {
+    setDraft(toDraft(filters));
+  }, [filters.search, filters.coupon, filters.carrier, filters.amount_min, filters.amount_max]);
+
+  useEffect(() => {
+    const next = fromDraft(draft);
+    const current = fromDraft(toDraft(filters));
+    if (JSON.stringify(next) === JSON.stringify(current)) return;
+
+    const timeout = setTimeout(() => onChange({ ...filters, ...next }), TEXT_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [draft]);
+
+  const setDraftValue = (key: TextFilterKey) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDraft(prev => ({ ...prev, [key]: e.target.value }));
+  };
+
+  const setFilter = (key: keyof OrderFilters, value: string) => {
+    onChange({ ...filters, [key]: value || undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+          <Input
+            placeholder="Search orders, customers, emails or phones..."
+            className="pl-8"
+            value={draft.search}
+            onChange={setDraftValue('search')}
+          />
+        </div>
+
+        <Select
+          value={filters.status || 'all'}
+          onValueChange={(value) => setFilter('status', value === 'all' ? '' : value)}
+        >
+          <SelectTrigger className="w-full sm:w-[180px]">
+            <SelectValue placeholder="Filter by status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            {Object.entries(ORDER_STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={filters.payment_status || 'all'}
+          onValueChange={(value) => setFilter('payment_status', value === 'all' ? '' : value)}
+        >
+          <SelectTrigger className="w-full sm:w-[180px]">
+            <SelectValue placeholder="Filter by payment" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Payments</SelectItem>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="paid">Paid</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+            <SelectItem value="partially_refunded">Partially refunded</SelectItem>
+            <SelectItem value="refunded">Refunded</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">From</Label>
+          <Input
+            type="date"
+            value={filters.date_from || ''}
+            onChange={(e) => setFilter('date_from', e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">To</Label>
+          <Input
+            type="date"
+            value={filters.date_to || ''}
+            onChange={(e) => setFilter('date_to', e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Min amount (₹)</Label>
+          <Input
+            type="number"
+            min={0}
+            value={draft.amount_min}
+            onChange={setDraftValue('amount_min')}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Max amount (₹)</Label>
+          <Input
+            type="number"
+            min={0}
+            value={draft.amount_max}
+            onChange={setDraftValue('amount_max')}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Coupon</Label>
+          <Input
+            placeholder="Coupon code"
+            value={draft.coupon}
+            onChange={setDraftValue('coupon')}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Carrier</Label>
+          <Input
+            placeholder="Shipping carrier"
+            value={draft.carrier}
+            onChange={setDraftValue('carrier')}
+          />
+        </div>
+      </div>
+
+      {hasActiveFilters(filters) && (
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" onClick={() => onChange({})}>
+            <X className="h-4 w-4 mr-1" />
+            Clear filters
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
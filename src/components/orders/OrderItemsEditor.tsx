@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useProducts } from '@/hooks/useProducts';
+import { useActiveVariants } from '@/hooks/useProductVariants';
+import { OrderProductItem } from '@/lib/orderItems';
+import { COLOUR_OPTION, variantLabel, variantPrice } from '@/lib/productVariants';
+import { Product, ProductVariant } from '@/types/schema';
+
+export interface OrderLine {
+  productId: string;
+  variantId: string;
+  quantity: number;
+}
+
+interface OrderItemsEditorProps {
+  lines: OrderLine[];
+  onLinesChange: (lines: OrderLine[]) => void;
+  // Called with the `orders.products` entries, and whether every line is complete
+  onItemsChange: (items: OrderProductItem[], complete: boolean) => void;
+}
+
+const formatAmount = (amount: number) => `₹${amount.toFixed(2)}`;
+
+function toOrderItem(line: OrderLine, product: Product, variant?: ProductVariant): OrderProductItem {
+  return {
+    productId: product.id,
+    quantity: line.quantity,
+    ...(variant && {
+      variantId: variant.id,
+      sku: variant.sku,
+      options: variant.options,
+      // Older storefront code only reads the colour name
+      color: variant.options[COLOUR_OPTION],
+    }),
+    product: {
+      id: product.id,
+      name: product.name,
+      price: variantPrice(product, variant),
+      images: variant?.images?.length ? variant.images : product.images,
+      category: product.category,
+    },
+  };
+}
+
+// Pick products, and a variant for products that have them, for a manually created order
+export function OrderItemsEditor({ lines, onLinesChange, onItemsChange }: OrderItemsEditorProps) {
+  const { products } = useProducts({ perPage: 200, filter: 'status = "active"', sort: 'name' });
+  const { variants } = useActiveVariants();
+
+  const productsById = useMemo(() => new Map(products.map(product => [product.id, product])), [products]);
+  const variantsByProduct = useMemo(() => {
+    const grouped = new Map<string, ProductVariant[]>();
+    variants.forEach(variant => grouped.set(variant.product_id, [...(grouped.get(variant.product_id) || []), variant]));
+    return grouped;
+  }, [variants]);
+
+  useEffect(() => {
+    const items: OrderProductItem[] = [];
+    let complete = true;
+    lines.forEach(line => {
+      const product = productsById.get(line.productId);
+      const productVariants = variantsByProduct.get(line.productId) || [];
+      const variant = productVariants.find(candidate => candidate.id === line.variantId);
+      if (!product || line.quantity < 1 || (productVariants.length > 0 && !variant)) {
+        complete = false;
+        return;
+      }
+      items.push(toOrderItem(line, product, variant));
+    });
+    onItemsChange(items, complete);
+    // onItemsChange is recreated by the parent on every render
+  }, [lines, productsById, variantsByProduct]);
+
+  const updateLine = (index: number, changes: Partial<OrderLine>) => {
+    onLinesChange(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Items</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onLinesChange([...lines, { productId: '', variantId: '', quantity: 1 }])}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add item
+        </Button>
+      </div>
+
+      {lines.map((line, index) => {
+        const product = productsById.get(line.productId);
+        const productVariants = variantsByProduct.get(line.productId) || [];
+        const variant = productVariants.find(candidate => candidate.id === line.variantId);
+        const unitPrice = product ? variantPrice(product, variant) : 0;
+
+        return (
+          <div key={index} className="grid grid-cols-[2fr_2fr_70px_auto_auto] items-center gap-2">
+            <Select
+              value={line.productId}
+              onValueChange={(productId) => updateLine(index, { productId, variantId: '' })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Product" />
+              </SelectTrigger>
+              <SelectContent>
+                {products.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {productVariants.length > 0 ? (
+              <Select value={line.variantId} onValueChange={(variantId) => updateLine(index, { variantId })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Variant" />
+                </SelectTrigger>
+                <SelectContent>
+                  {productVariants.map(option => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {variantLabel(option.options)} ({option.stock} left)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <span className="text-sm text-muted-foreground px-1">
+                {product ? `${product.stock ?? 0} in stock` : ''}
+              </span>
+            )}
+
+            <Input
+              type="number"
+              min="1"
+              step="1"
+              value={line.quantity}
+              onChange={(e) => updateLine(index, { quantity: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+            />
+
+            <span className="text-sm w-20 text-right">{formatAmount(unitPrice * line.quantity)}</span>
+
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onLinesChange(lines.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
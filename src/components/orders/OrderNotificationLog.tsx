@@ -0,0 +1,66 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { useNotificationLog } from '@/hooks/useNotificationLog';
+import { CHANNEL_LABELS, NOTIFICATION_EVENTS } from '@/lib/notifications';
+import { NotificationDecision } from '@/types/schema';
+import { formatDate } from '@/lib/utils';
+
+interface OrderNotificationLogProps {
+  orderId: string;
+}
+
+const DECISION_STYLES: Record<NotificationDecision, string> = {
+  sent: 'bg-green-50 text-green-700 border-green-200',
+  failed: 'bg-red-50 text-red-700 border-red-200',
+  skipped: 'bg-gray-50 text-gray-700 border-gray-200',
+  deferred: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  queued: 'bg-blue-50 text-blue-700 border-blue-200',
+};
+
+// Why each automated notification for this order was or wasn't sent
+export function OrderNotificationLog({ orderId }: OrderNotificationLogProps) {
+  const { entries, isLoading, error } = useNotificationLog(orderId);
+
+  if (isLoading) {
+    return <div className="text-center py-4">Loading notifications...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-4 text-red-500">
+        Error loading notifications
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <div className="text-center py-4 text-muted-foreground">No automated notifications yet</div>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {entries.map((entry) => (
+        <li key={entry.id} className="flex items-start justify-between gap-4 border-b pb-3 last:border-0 last:pb-0">
+          <div className="flex flex-col">
+            <span className="font-medium">
+              {NOTIFICATION_EVENTS[entry.event]?.label || entry.event} · {CHANNEL_LABELS[entry.channel] || entry.channel}
+            </span>
+            <span className="text-sm">{entry.reason}</span>
+            <span className="text-xs text-muted-foreground">
+              {formatDate(entry.created)}
+              {entry.recipient && ` · ${entry.recipient}`}
+              {(entry.decision === 'deferred' || entry.decision === 'queued') && entry.scheduled_for && (
+                entry.processed_at
+                  ? ` · processed ${formatDate(entry.processed_at)}`
+                  : ` · sending ${formatDate(entry.scheduled_for)}`
+              )}
+            </span>
+          </div>
+          <Badge variant="outline" className={DECISION_STYLES[entry.decision]}>
+            {entry.decision}
+          </Badge>
+        </li>
+      ))}
+    </ul>
+  );
+}
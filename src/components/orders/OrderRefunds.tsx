@@ -0,0 +1,49 @@
+import React from 'react';
+import { useRefunds } from '@/hooks/useRefunds';
+import { REFUND_METHOD_LABELS } from '@/lib/refunds';
+import { formatDate } from '@/lib/utils';
+
+interface OrderRefundsProps {
+  orderId: string;
+}
+
+// Audit trail of every refund recorded against an order
+export function OrderRefunds({ orderId }: OrderRefundsProps) {
+  const { refunds, isLoading, error } = useRefunds(orderId);
+
+  if (isLoading) {
+    return <div className="text-center py-4">Loading refunds...</div>;
+  }
+
+  if (error) {
+    return <div className="text-center py-4 text-red-500">Error loading refunds</div>;
+  }
+
+  if (refunds.length === 0) {
+    return <div className="text-center py-4 text-muted-foreground">No refunds yet</div>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {refunds.map((refund) => (
+        <li key={refund.id} className="flex items-start justify-between gap-4 border-b pb-3 last:border-0 last:pb-0">
+          <div className="flex flex-col">
+            <span className="font-medium">
+              &#8377;{Number(refund.amount).toFixed(2)} · {REFUND_METHOD_LABELS[refund.method] || refund.method}
+              {refund.razorpay_refund_id && ` · ${refund.razorpay_refund_id}`}
+            </span>
+            <span className="text-sm">{refund.reason}</span>
+            {refund.items?.length > 0 && (
+              <span className="text-sm text-muted-foreground">
+                {refund.items.map(item => `${item.quantity} × ${item.name}${item.restocked ? ' (restocked)' : ''}`).join(', ')}
+              </span>
+            )}
+            <span className="text-xs text-muted-foreground">
+              {formatDate(refund.created)} by {refund.actor}
+            </span>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,63 @@
+import React from 'react';
+import { useOrderStatusHistory } from '@/hooks/useOrderStatusHistory';
+import { ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { OrderStatusValue } from '@/types/schema';
+import { cn, formatDate } from '@/lib/utils';
+import { Clock } from 'lucide-react';
+
+interface OrderStatusTimelineProps {
+  orderId: string;
+}
+
+const statusLabel = (status: string) => ORDER_STATUS_LABELS[status as OrderStatusValue] || status;
+
+export function OrderStatusTimeline({ orderId }: OrderStatusTimelineProps) {
+  const { history, isLoading, error } = useOrderStatusHistory(orderId);
+
+  if (isLoading) {
+    return <div className="text-center py-4">Loading status history...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-4 text-red-500">
+        Error loading status history
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return <div className="text-center py-4 text-muted-foreground">No status changes recorded yet</div>;
+  }
+
+  return (
+    <ol className="relative border-l border-muted ml-3 space-y-6">
+      {history.map((entry, index) => {
+        const isLatest = index === history.length - 1;
+        return (
+          <li key={entry.id} className="ml-6">
+            <span
+              className={cn(
+                'absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ring-4 ring-background',
+                isLatest ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'
+              )}
+            >
+              <Clock className="h-3 w-3" />
+            </span>
+            <div className="flex flex-col">
+              <span className="font-medium">
+                {entry.from_status
+                  ? `${statusLabel(entry.from_status)} → ${statusLabel(entry.to_status)}`
+                  : statusLabel(entry.to_status)}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {formatDate(entry.created)} by {entry.changed_by_name || 'System'}
+              </span>
+              {entry.note && <p className="text-sm mt-1">{entry.note}</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Download, Printer, Send, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Order } from '@/types/schema';
+import { applyOrderUpdate } from '@/hooks/useOrders';
+import { useWhatsAppTemplates } from '@/hooks/useWhatsAppTemplates';
+import { useBulkAction } from '@/hooks/useBulkAction';
+import { useAuth } from '@/hooks/useAuth';
+import { sendTemplateMessage } from '@/lib/whatsapp';
+import { ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { printPackingSlips } from '@/lib/packingSlip';
+import { downloadCsv } from '@/lib/csv';
+import { orderExportColumns } from '@/lib/exportColumns';
+import { BulkActionProgressDialog } from './BulkActionProgressDialog';
+
+interface OrdersBulkActionsProps {
+  selectedOrders: Order[];
+  onClearSelection: () => void;
+  onComplete?: () => void;
+}
+
+const orderLabel = (order: Order) => `#${order.id.slice(0, 8)} · ${order.customer_name || 'Unknown customer'}`;
+
+export const OrdersBulkActions: React.FC<OrdersBulkActionsProps> = ({
+  selectedOrders,
+  onClearSelection,
+  onComplete,
+}) => {
+  const [status, setStatus] = useState<string>('');
+  const [templateId, setTemplateId] = useState<string>('');
+  const { templates } = useWhatsAppTemplates();
+  const bulk = useBulkAction();
+  const { can } = useAuth();
+
+  const items = selectedOrders.map(order => ({ id: order.id, label: orderLabel(order) }));
+  const ordersById = new Map(selectedOrders.map(order => [order.id, order]));
+
+  const handleChangeStatus = async () => {
+    if (!status) return;
+
+    await bulk.run(`Change status to ${ORDER_STATUS_LABELS[status as keyof typeof ORDER_STATUS_LABELS]}`, items, async (id) => {
+      await applyOrderUpdate(id, { status: status as Order['status'] });
+    });
+    onComplete?.();
+  };
+
+  const handleSendTemplate = async () => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+
+    await bulk.run(`Send "${template.name}" via WhatsApp`, items, async (id) => {
+      const order = ordersById.get(id);
+      if (!order?.customer_phone) {
+        throw new Error('No phone number on this order');
+      }
+      const response = await sendTemplateMessage(order, template.name);
+      if (!response.success) {
+        throw new Error(response.message || 'WhatsApp API rejected the message');
+      }
+    });
+    onComplete?.();
+  };
+
+  const handlePrintPackingSlips = () => {
+    try {
+      printPackingSlips(selectedOrders);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to print packing slips');
+    }
+  };
+
+  const handleExport = () => {
+    downloadCsv(selectedOrders, orderExportColumns, `orders-selection-${new Date().toISOString().slice(0, 10)}.csv`);
+    toast.success(`Exported ${selectedOrders.length} orders`);
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row lg:items-center gap-3 rounded-md border bg-muted/40 p-3">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium">{selectedOrders.length} selected</span>
+        <Button variant="ghost" size="sm" onClick={onClearSelection}>
+          <X className="h-4 w-4 mr-1" />
+          Clear
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 lg:ml-auto">
+        {can('orders.edit') && (
+          <div className="flex items-center gap-2">
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-[170px]">
+                <SelectValue placeholder="Change status" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ORDER_STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleChangeStatus} disabled={!status || bulk.isRunning}>
+              Apply
+            </Button>
+          </div>
+        )}
+
+        {can('messages.send') && (
+          <div className="flex items-center gap-2">
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="WhatsApp template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.filter(t => t.isActive).map(template => (
+                  <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleSendTemplate} disabled={!templateId || bulk.isRunning}>
+              <Send className="h-4 w-4 mr-1" />
+              Send
+            </Button>
+          </div>
+        )}
+
+        <Button variant="outline" size="sm" onClick={handlePrintPackingSlips}>
+          <Printer className="h-4 w-4 mr-1" />
+          Packing slips
+        </Button>
+
+        <Button variant="outline" size="sm" onClick={handleExport}>
+          <Download className="h-4 w-4 mr-1" />
+          Export
+        </Button>
+      </div>
+
+      <BulkActionProgressDialog
+        open={bulk.isOpen}
+        title={bulk.title}
+        results={bulk.results}
+        isRunning={bulk.isRunning}
+        onClose={bulk.reset}
+      />
+    </div>
+  );
+};
@@ -16,6 +16,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import { 
   Select, 
   SelectContent, 
@@ -24,12 +25,17 @@ import {
   SelectValue 
 } from '@/components/ui/select';
 import { Order, OrderStatus, PaymentStatus } from '@/lib/types';
+import { OrderFilters, OrderSort, OrderSortField } from '@/lib/orderFilters';
+import { OrderFiltersBar } from './OrderFiltersBar';
 import { 
   ChevronDown, 
+  ChevronUp,
+  ArrowUpDown,
   Search, 
   MoreHorizontal, 
   Eye, 
   Edit, 
+  Trash2,
   AlertCircle 
 } from 'lucide-react';
 import { format, isValid } from 'date-fns';
@@ -39,7 +45,16 @@ interface OrdersTableProps {
   isLoading?: boolean;
   onViewOrder: (order: Order) => void;
   onEditOrder?: (order: Order) => void;
+  onDeleteOrder?: (order: Order) => void;
   onUpdateStatus: (orderId: string, status: OrderStatus) => void;
+  // When provided, filtering and sorting are delegated to the caller (server-side)
+  filters?: OrderFilters;
+  onFiltersChange?: (filters: OrderFilters) => void;
+  sort?: OrderSort;
+  onSortChange?: (sort: OrderSort) => void;
+  // When provided, rows get checkboxes for bulk actions
+  selectedIds?: string[];
+  onSelectionChange?: (ids: string[]) => void;
 }
 
 // Function to render status badges
@@ -48,6 +63,7 @@ const getStatusBadge = (status: OrderStatus) => {
     pending: { color: 'bg-yellow-100 text-yellow-800', label: 'Pending' },
     processing: { color: 'bg-blue-100 text-blue-800', label: 'Processing' },
     shipped: { color: 'bg-purple-100 text-purple-800', label: 'Shipped' },
+    out_for_delivery: { color: 'bg-indigo-100 text-indigo-800', label: 'Out for Delivery' },
     delivered: { color: 'bg-green-100 text-green-800', label: 'Delivered' },
     cancelled: { color: 'bg-red-100 text-red-800', label: 'Cancelled' }
   };
@@ -67,7 +83,8 @@ const getPaymentStatusBadge = (status: PaymentStatus) => {
     pending: { color: 'bg-yellow-100 text-yellow-800', label: 'Pending' },
     paid: { color: 'bg-green-100 text-green-800', label: 'Paid' },
     failed: { color: 'bg-red-100 text-red-800', label: 'Failed' },
-    refunded: { color: 'bg-gray-100 text-gray-800', label: 'Refunded' }
+    refunded: { color: 'bg-gray-100 text-gray-800', label: 'Refunded' },
+    partially_refunded: { color: 'bg-blue-100 text-blue-800', label: 'Partially refunded' }
   };
   
   const { color, label } = variants[status];
@@ -95,13 +112,21 @@ export const OrdersTable: React.FC<OrdersTableProps> = ({
   isLoading, 
   onViewOrder, 
   onEditOrder,
-  onUpdateStatus 
+  onDeleteOrder,
+  onUpdateStatus,
+  filters,
+  onFiltersChange,
+  sort,
+  onSortChange,
+  selectedIds = [],
+  onSelectionChange
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const isServerFiltered = !!onFiltersChange;
   
   // Filter orders based on search query and status filter
-  const filteredOrders = orders.filter(order => {
+  const filteredOrders = isServerFiltered ? orders : orders.filter(order => {
     const matchesSearch = 
       order.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
       order.user_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -112,46 +137,107 @@ export const OrdersTable: React.FC<OrdersTableProps> = ({
     return matchesSearch && matchesStatus;
   });
 
+  const isSelectable = !!onSelectionChange;
+  const columnCount = isSelectable ? 8 : 7;
+  const visibleIds = filteredOrders.map(order => order.id);
+  const allVisibleSelected = visibleIds.length > 0 && visibleIds.every(id => selectedIds.includes(id));
+  const someVisibleSelected = visibleIds.some(id => selectedIds.includes(id));
+
+  const toggleAll = (checked: boolean) => {
+    if (!onSelectionChange) return;
+    onSelectionChange(checked
+      ? Array.from(new Set([...selectedIds, ...visibleIds]))
+      : selectedIds.filter(id => !visibleIds.includes(id)));
+  };
+
+  const toggleRow = (id: string, checked: boolean) => {
+    if (!onSelectionChange) return;
+    onSelectionChange(checked
+      ? [...selectedIds, id]
+      : selectedIds.filter(selectedId => selectedId !== id));
+  };
+
+  const handleSort = (field: OrderSortField) => {
+    if (!onSortChange) return;
+    const direction = sort?.field === field && sort.direction === 'desc' ? 'asc' : 'desc';
+    onSortChange({ field, direction });
+  };
+
+  const renderSortableHead = (label: string, field: OrderSortField, className?: string) => {
+    if (!onSortChange) {
+      return <TableHead className={className}>{label}</TableHead>;
+    }
+    
+    const isActive = sort?.field === field;
+    const Icon = !isActive ? ArrowUpDown : sort.direction === 'desc' ? ChevronDown : ChevronUp;
+    
+    return (
+      <TableHead className={className}>
+        <button
+          type="button"
+          className="inline-flex items-center gap-1 hover:text-foreground"
+          onClick={() => handleSort(field)}
+        >
+          {label}
+          <Icon size={14} className={isActive ? '' : 'opacity-50'} />
+        </button>
+      </TableHead>
+    );
+  };
+
   return (
     <div className="space-y-4">
       {/* Filters */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        <div className="relative flex-1">
-          <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
-          <Input
-            placeholder="Search orders, customers or emails..."
-            className="pl-8"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-          />
-        </div>
+      {isServerFiltered ? (
+        <OrderFiltersBar filters={filters || {}} onChange={onFiltersChange} />
+      ) : (
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search orders, customers or emails..."
+              className="pl-8"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
         
-        <Select value={statusFilter} onValueChange={setStatusFilter}>
-          <SelectTrigger className="w-full sm:w-[180px]">
-            <SelectValue placeholder="Filter by status" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Statuses</SelectItem>
-            <SelectItem value="pending">Pending</SelectItem>
-            <SelectItem value="processing">Processing</SelectItem>
-            <SelectItem value="shipped">Shipped</SelectItem>
-            <SelectItem value="delivered">Delivered</SelectItem>
-            <SelectItem value="cancelled">Cancelled</SelectItem>
-          </SelectContent>
-        </Select>
-      </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <SelectValue placeholder="Filter by status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="processing">Processing</SelectItem>
+              <SelectItem value="shipped">Shipped</SelectItem>
+              <SelectItem value="delivered">Delivered</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
       
       {/* Table */}
       <div className="border rounded-md">
         <Table>
           <TableHeader>
             <TableRow>
+              {isSelectable && (
+                <TableHead className="w-[40px]">
+                  <Checkbox
+                    checked={allVisibleSelected ? true : someVisibleSelected ? 'indeterminate' : false}
+                    onCheckedChange={(checked) => toggleAll(checked === true)}
+                    aria-label="Select all orders"
+                  />
+                </TableHead>
+              )}
               <TableHead className="w-[100px]">Order ID</TableHead>
-              <TableHead>Customer</TableHead>
-              <TableHead>Status</TableHead>
-              <TableHead>Payment</TableHead>
-              <TableHead className="text-right">Total</TableHead>
-              <TableHead>Date</TableHead>
+              {renderSortableHead('Customer', 'customer_name')}
+              {renderSortableHead('Status', 'status')}
+              {renderSortableHead('Payment', 'payment_status')}
+              {renderSortableHead('Total', 'total', 'text-right')}
+              {renderSortableHead('Date', 'created')}
               <TableHead className="w-[80px]"></TableHead>
             </TableRow>
           </TableHeader>
@@ -159,7 +245,7 @@ export const OrdersTable: React.FC<OrdersTableProps> = ({
             {isLoading ? (
               Array(5).fill(0).map((_, i) => (
                 <TableRow key={i}>
-                  {Array(7).fill(0).map((_, j) => (
+                  {Array(columnCount).fill(0).map((_, j) => (
                     <TableCell key={j}>
                       <div className="h-4 bg-gray-200 rounded animate-pulse"></div>
                     </TableCell>
@@ -168,7 +254,7 @@ export const OrdersTable: React.FC<OrdersTableProps> = ({
               ))
             ) : filteredOrders.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                <TableCell colSpan={columnCount} className="text-center py-8 text-gray-500">
                   <div className="flex flex-col items-center">
                     <AlertCircle size={24} className="mb-2" />
                     <p>No orders found matching your filters.</p>
@@ -177,7 +263,16 @@ export const OrdersTable: React.FC<OrdersTableProps> = ({
               </TableRow>
             ) : (
               filteredOrders.map((order) => (
-                <TableRow key={order.id}>
+                <TableRow key={order.id} data-state={selectedIds.includes(order.id) ? 'selected' : undefined}>
+                  {isSelectable && (
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.includes(order.id)}
+                        onCheckedChange={(checked) => toggleRow(order.id, checked === true)}
+                        aria-label={`Select order ${order.id}`}
+                      />
+                    </TableCell>
+                  )}
                   <TableCell className="font-medium">{order.id.slice(0, 8)}</TableCell>
                   <TableCell>
                     <div>
@@ -215,6 +310,15 @@ export const OrdersTable: React.FC<OrdersTableProps> = ({
                           <Edit size={14} className="mr-2" />
                           Update Status
                         </DropdownMenuItem>
+                        {onDeleteOrder && (
+                          <DropdownMenuItem 
+                            className="text-destructive"
+                            onClick={() => onDeleteOrder(order)}
+                          >
+                            <Trash2 size={14} className="mr-2" />
+                            Delete Order
+                          </DropdownMenuItem>
+                        )}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </TableCell>
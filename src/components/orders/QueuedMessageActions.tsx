@@ -0,0 +1,50 @@
+import { Button } from '@/components/ui/button';
+import { RotateCcw, XCircle } from 'lucide-react';
+import { useMessageQueueActions } from '@/hooks/useMessageQueue';
+import { useAuth } from '@/hooks/useAuth';
+import { MessageQueueChannel } from '@/types/schema';
+
+interface QueuedMessageActionsProps {
+  channel: MessageQueueChannel;
+  queueId?: string;
+  status: string;
+}
+
+// Retry a failed or cancelled message, or cancel one still waiting in the queue
+export function QueuedMessageActions({ channel, queueId, status }: QueuedMessageActionsProps) {
+  const { can } = useAuth();
+  const { retryMessage, cancelMessage } = useMessageQueueActions();
+
+  // Messages logged before the queue existed can't be retried from here
+  if (!queueId || !can('messages.send')) return null;
+
+  if (status === 'queued') {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => cancelMessage.mutate({ channel, queueId })}
+        disabled={cancelMessage.isPending}
+      >
+        <XCircle className="h-4 w-4 mr-1" />
+        Cancel
+      </Button>
+    );
+  }
+
+  if (status === 'failed' || status === 'cancelled') {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => retryMessage.mutate({ channel, queueId })}
+        disabled={retryMessage.isPending}
+      >
+        <RotateCcw className="h-4 w-4 mr-1" />
+        Retry
+      </Button>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { useRefunds } from '@/hooks/useRefunds';
+import { REFUND_METHOD_LABELS, refundableAmount, refundableLines, totalRefunded } from '@/lib/refunds';
+import { Order, RefundMethod } from '@/types/schema';
+
+type RefundMode = 'items' | 'amount';
+
+interface RefundDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: Order;
+}
+
+const formatAmount = (amount: number) => `₹${amount.toFixed(2)}`;
+
+// Refund selected line items or a custom amount, never more than is left of what was paid
+export function RefundDialog({ open, onOpenChange, order }: RefundDialogProps) {
+  const { refunds, createRefund } = useRefunds(order.id);
+  const [mode, setMode] = useState<RefundMode>('items');
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [customAmount, setCustomAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [method, setMethod] = useState<RefundMethod>(order.razorpay_payment_id ? 'razorpay' : 'bank_transfer');
+  const [razorpayRefundId, setRazorpayRefundId] = useState('');
+  const [restock, setRestock] = useState(true);
+  const [notifyCustomer, setNotifyCustomer] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+    setMode('items');
+    setQuantities({});
+    setCustomAmount('');
+    setReason('');
+    setRazorpayRefundId('');
+    setRestock(true);
+    setNotifyCustomer(true);
+  }, [open]);
+
+  const lines = useMemo(() => refundableLines(order, refunds), [order, refunds]);
+  const alreadyRefunded = totalRefunded(refunds);
+  const remaining = refundableAmount(order, refunds);
+
+  const selectedItems = lines
+    .filter(line => (quantities[line.line] || 0) > 0)
+    .map(line => ({
+      line: line.line,
+      product_id: line.productId,
+      variant_id: line.variantId,
+      name: line.name,
+      quantity: quantities[line.line],
+      amount: Math.round(line.unitAmount * quantities[line.line] * 100) / 100,
+    }));
+
+  const itemsAmount = Math.round(selectedItems.reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+  // Rounding on the last unit can push line totals a paisa over what's left
+  const amount = mode === 'items' ? Math.min(itemsAmount, remaining) : Number(customAmount) || 0;
+  const overCap = amount > remaining + 0.001;
+  const canSubmit = amount > 0 && !overCap && reason.trim() !== '' &&
+    (method !== 'razorpay' || razorpayRefundId.trim() !== '');
+
+  const setQuantity = (line: number, value: number, max: number) => {
+    setQuantities(current => ({ ...current, [line]: Math.max(0, Math.min(max, Math.floor(value) || 0)) }));
+  };
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    createRefund.mutate(
+      {
+        order,
+        amount,
+        reason,
+        method,
+        razorpayRefundId,
+        items: mode === 'items' ? selectedItems : [],
+        restock: mode === 'items' && restock,
+        notifyCustomer,
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Refund order #{order.id}</DialogTitle>
+          <DialogDescription>
+            Paid {formatAmount(order.total || 0)} · refunded {formatAmount(alreadyRefunded)} · {formatAmount(remaining)} left to refund
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as RefundMode)} className="flex gap-6">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="items" id="refund-items" />
+              <Label htmlFor="refund-items">Line items</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="amount" id="refund-amount" />
+              <Label htmlFor="refund-amount">Custom amount</Label>
+            </div>
+          </RadioGroup>
+
+          {mode === 'items' ? (
+            <div className="space-y-2">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Ordered</TableHead>
+                    <TableHead className="text-right">Refundable</TableHead>
+                    <TableHead className="w-[100px]">Refund qty</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map(line => (
+                    <TableRow key={line.line}>
+                      <TableCell className="font-medium">{line.name}</TableCell>
+                      <TableCell className="text-right">{line.ordered}</TableCell>
+                      <TableCell className="text-right">{line.remaining}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={line.remaining}
+                          value={quantities[line.line] || 0}
+                          disabled={line.remaining === 0}
+                          onChange={(e) => setQuantity(line.line, Number(e.target.value), line.remaining)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatAmount(line.unitAmount * (quantities[line.line] || 0))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <div className="flex items-center gap-2">
+                <Checkbox id="refund-restock" checked={restock} onCheckedChange={(checked) => setRestock(checked === true)} />
+                <Label htmlFor="refund-restock">Return refunded units to stock</Label>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <Label htmlFor="refund-custom-amount">Amount (₹)</Label>
+              <Input
+                id="refund-custom-amount"
+                type="number"
+                min={0}
+                step="0.01"
+                max={remaining}
+                value={customAmount}
+                onChange={(e) => setCustomAmount(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as RefundMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(REFUND_METHOD_LABELS) as RefundMethod[]).map(value => (
+                    <SelectItem key={value} value={value}>{REFUND_METHOD_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {method === 'razorpay' && (
+              <div className="space-y-1">
+                <Label htmlFor="refund-razorpay-id">Razorpay refund ID</Label>
+                <Input
+                  id="refund-razorpay-id"
+                  placeholder="rfnd_..."
+                  value={razorpayRefundId}
+                  onChange={(e) => setRazorpayRefundId(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="refund-reason">Reason</Label>
+            <Textarea
+              id="refund-reason"
+              placeholder="e.g. Damaged in transit"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox id="refund-notify" checked={notifyCustomer} onCheckedChange={(checked) => setNotifyCustomer(checked === true)} />
+            <Label htmlFor="refund-notify">Send the customer a refund confirmation</Label>
+          </div>
+
+          {overCap && (
+            <p className="text-sm text-destructive">
+              Only {formatAmount(remaining)} is left to refund on this order.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || createRefund.isPending}>
+            {createRefund.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Refund {formatAmount(amount)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
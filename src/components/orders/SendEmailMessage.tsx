@@ -14,6 +14,8 @@ import {
 } from '@/components/ui/select';
 import { EmailTemplate } from '@/lib/email';
 import { useEmailTemplates, EmailTemplateType } from '@/hooks/useEmailTemplates';
+import { useStoreSettings } from '@/hooks/useStoreSettings';
+import { buildOrderContext, renderTemplate, TemplateScope, toLineItem } from '@/lib/templateEngine';
 import {
   sendOrderConfirmationEmail,
   sendPaymentSuccessEmail,
@@ -55,8 +57,13 @@ interface EmailResponse {
   message?: string;
   messageId?: string;
   error?: string;
+  // The same email was already queued or sent
+  duplicate?: boolean;
 }
 
+// Placeholders still waiting for a value stay visible, and the server refuses to send them
+const keepPlaceholder = (name: string) => `{{${name}}}`;
+
 export function SendEmailMessage({ order, onMessageSent, onEmailSent }: SendEmailMessageProps) {
   const [selectedTemplate, setSelectedTemplate] = useState<string>('');
   const [additionalInfo, setAdditionalInfo] = useState<string>('');
@@ -103,6 +110,7 @@ export function SendEmailMessage({ order, onMessageSent, onEmailSent }: SendEmai
   };
 
   const { templates, isLoading: isLoadingTemplates } = useEmailTemplates();
+  const { settings } = useStoreSettings();
 
   // Check email connection on component mount
   useEffect(() => {
@@ -284,69 +292,51 @@ export function SendEmailMessage({ order, onMessageSent, onEmailSent }: SendEmai
     }
   };
 
+  // What "additional info" holds for the selected template, keyed by the placeholders it fills
+  const additionalInfoValues = (): TemplateScope => {
+    if (!additionalInfo) return {};
+
+    switch (selectedTemplate) {
+      case EmailTemplate.PAYMENT_FAILED:
+        return { retryUrl: additionalInfo };
+      case EmailTemplate.ORDER_SHIPPED: {
+        // Comma-separated: tracking link, carrier, estimated delivery
+        const [trackingLink, carrier, estimatedDelivery] = additionalInfo.split(',');
+        return { trackingLink, carrier, estimatedDelivery };
+      }
+      case EmailTemplate.ORDER_DELIVERED:
+        return { feedbackLink: additionalInfo };
+      case EmailTemplate.REQUEST_REVIEW:
+        return { reviewLink: additionalInfo };
+      case EmailTemplate.REFUND_CONFIRMATION:
+        return { refundAmount: additionalInfo };
+      case EmailTemplate.REORDER_REMINDER: {
+        // Comma-separated: reorder link, days since delivery
+        const [reorderLink, daysSinceDelivery] = additionalInfo.split(',');
+        return { reorderLink, daysSinceDelivery };
+      }
+      case EmailTemplate.ABANDONED_CART:
+        return { cartUrl: additionalInfo };
+      default:
+        return {};
+    }
+  };
+
+  const orderContext = () => buildOrderContext(order, { storeName: settings.store_name, currency: settings.currency }, {
+    items: orderItems.map(toLineItem),
+    extra: additionalInfoValues(),
+  });
+
   // Update preview based on template and variables
   const updatePreview = (content: string, subject: string) => {
-    let updatedContent = content;
-    let updatedSubject = subject;
-    
-    // Replace variables in the content
-    updatedContent = updatedContent
-      .replace(/{{customerName}}/g, order.customer_name || 'Customer')
-      .replace(/{{orderId}}/g, order.id || 'Order ID')
-      .replace(/{{orderDate}}/g, new Date(order.created || Date.now()).toLocaleDateString())
-      .replace(/{{amount}}/g, order.totalAmount?.toString() || '0');
-      
-    // Replace variables in the subject
-    updatedSubject = updatedSubject
-      .replace(/{{customerName}}/g, order.customer_name || 'Customer')
-      .replace(/{{orderId}}/g, order.id || 'Order ID')
-      .replace(/{{orderDate}}/g, new Date(order.created || Date.now()).toLocaleDateString())
-      .replace(/{{amount}}/g, order.totalAmount?.toString() || '0');
-    
-    // Add product details if available
-    if (updatedContent.includes('{{productDetails}}') && orderItems.length > 0) {
-      const productDetailsHtml = orderItems
-        .map((item) => `${item.quantity}x ${item.name} - ₹${item.price}`)
-        .join('<br>');
-      
-      updatedContent = updatedContent.replace(/{{productDetails}}/g, productDetailsHtml);
-    }
-    
-    // Replace additional info variables if provided
-    if (additionalInfo) {
-      // Handle different types of additional info based on template
-      const template = templates.find((t) => t.name === selectedTemplate);
-      
-      if (template) {
-        if (template.name === EmailTemplate.PAYMENT_FAILED) {
-          updatedContent = updatedContent.replace(/{{retryUrl}}/g, additionalInfo);
-        } else if (template.name === EmailTemplate.ORDER_SHIPPED) {
-          // Parse comma-separated values: tracking link, carrier, estimated delivery
-          const [trackingLink, carrier, estimatedDelivery] = additionalInfo.split(',');
-          updatedContent = updatedContent
-            .replace(/{{trackingLink}}/g, trackingLink || '#')
-            .replace(/{{carrier}}/g, carrier || 'Shipping Partner')
-            .replace(/{{estimatedDelivery}}/g, estimatedDelivery || 'within 7-10 days');
-        } else if (template.name === EmailTemplate.ORDER_DELIVERED) {
-          updatedContent = updatedContent.replace(/{{feedbackLink}}/g, additionalInfo);
-        } else if (template.name === EmailTemplate.REQUEST_REVIEW) {
-          updatedContent = updatedContent.replace(/{{reviewLink}}/g, additionalInfo);
-        } else if (template.name === EmailTemplate.REFUND_CONFIRMATION) {
-          updatedContent = updatedContent.replace(/{{refundAmount}}/g, additionalInfo);
-        } else if (template.name === EmailTemplate.REORDER_REMINDER) {
-          // Parse comma-separated values: reorder link, days since delivery
-          const [reorderLink, daysSinceDelivery] = additionalInfo.split(',');
-          updatedContent = updatedContent
-            .replace(/{{reorderLink}}/g, reorderLink || '#')
-            .replace(/{{daysSinceDelivery}}/g, daysSinceDelivery || '30');
-        } else if (template.name === EmailTemplate.ABANDONED_CART) {
-          updatedContent = updatedContent.replace(/{{cartUrl}}/g, additionalInfo);
-        }
-      }
+    const context = orderContext();
+    try {
+      setPreview(renderTemplate(content, context, { format: 'html', onUnknown: keepPlaceholder }));
+      setPreviewSubject(renderTemplate(subject, context, { onUnknown: keepPlaceholder }));
+    } catch (err) {
+      console.error('Error rendering email template:', err);
+      setError((err as Error).message);
     }
-    
-    setPreview(updatedContent);
-    setPreviewSubject(updatedSubject);
   };
 
   // Send email message
@@ -372,6 +362,10 @@ export function SendEmailMessage({ order, onMessageSent, onEmailSent }: SendEmai
         // Get the template content and subject with variables replaced
         const emailContent = preview;
         const emailSubject = previewSubject;
+        // Templates built in the block editor also have a plain-text version
+        const emailText = template.text_content
+          ? renderTemplate(template.text_content, orderContext(), { onUnknown: keepPlaceholder })
+          : undefined;
         
         // Send email based on template type
         switch (template.name) {
@@ -438,7 +432,12 @@ export function SendEmailMessage({ order, onMessageSent, onEmailSent }: SendEmai
               {
                 orderId: order.id,
                 templateName: selectedTemplate
-              }
+              },
+              {
+                orderId: order.id,
+                templateName: selectedTemplate
+              },
+              emailText
             );
             break;
         }
@@ -457,7 +456,8 @@ export function SendEmailMessage({ order, onMessageSent, onEmailSent }: SendEmai
             {
               orderId: order.id,
               templateName: 'custom_email'
-            }
+            },
+            { orderId: order.id }
           );
         } else if (selectedMessageType === 'attachment' && file) {
           // Send email with attachment
@@ -487,7 +487,8 @@ export function SendEmailMessage({ order, onMessageSent, onEmailSent }: SendEmai
             {
               orderId: order.id,
               templateName: 'custom_email_with_attachment'
-            }
+            },
+            { orderId: order.id }
           );
         } else {
           throw new Error('Invalid message type or missing attachment');
@@ -495,7 +496,7 @@ export function SendEmailMessage({ order, onMessageSent, onEmailSent }: SendEmai
       }
       
       if (response.success) {
-        toast.success('Email sent successfully');
+        toast.success(response.duplicate ? response.message : 'Email queued for sending');
         onMessageSent?.();
         onEmailSent?.();
         
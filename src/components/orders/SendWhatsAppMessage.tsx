@@ -12,8 +12,10 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { WhatsAppTemplate } from '@/lib/whatsapp';
+import { WHATSAPP_MESSAGES, WhatsAppTemplate } from '@/lib/whatsapp';
 import { useWhatsAppTemplates } from '@/hooks/useWhatsAppTemplates';
+import { useStoreSettings } from '@/hooks/useStoreSettings';
+import { buildOrderContext, renderTemplate, TemplateScope, templateVariables as listTemplateVariables, toLineItem } from '@/lib/templateEngine';
 import {
   sendOrderConfirmation,
   sendPaymentSuccess,
@@ -64,6 +66,8 @@ export function SendWhatsAppMessage({ order, onMessageSent }: SendWhatsAppMessag
   const [customMessage, setCustomMessage] = useState<string>('');
   const [isSending, setIsSending] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
+  // Why the selected template can't be filled in for this order, if it can't
+  const [renderError, setRenderError] = useState<string>('');
   const [isWhatsAppConnected, setIsWhatsAppConnected] = useState<boolean>(false);
   const [selectedMessageType, setSelectedMessageType] = useState<string>('text');
   const [orderItems, setOrderItems] = useState<ParsedOrderItem[]>([]);
@@ -128,24 +132,27 @@ export function SendWhatsAppMessage({ order, onMessageSent }: SendWhatsAppMessag
 
   const selectedOption = templateOptions.find(option => option.value === selectedTemplate);
 
-  // Extract template variables from template content
+  const { settings } = useStoreSettings();
+
+  // The saved template, or the built-in message the send helpers use when there isn't one
+  const selectedContent = templates.find(t => t.name === selectedTemplate)?.content
+    || WHATSAPP_MESSAGES[selectedTemplate as WhatsAppTemplate]
+    || '';
+
+  // Variables the template uses that the order can't fill, so they need an input
   const extractTemplateVariables = useCallback((templateContent: string) => {
     if (!templateContent) return [];
-    
-    // Regular expression to find all template variables like {{variableName}}
-    const regex = /{{([^}]+)}}/g;
-    const matches = templateContent.matchAll(regex);
-    const variables = new Set<string>();
-    
-    // Extract all unique variable names
-    for (const match of matches) {
-      variables.add(match[1]);
+
+    const orderContext = buildOrderContext(order, { storeName: settings.store_name });
+    try {
+      return listTemplateVariables(templateContent).filter(variable => (orderContext[variable] ?? '') === '');
+    } catch (error) {
+      console.error('Error reading template variables:', error);
+      return [];
     }
-    
-    // Filter out common variables that are automatically handled
-    const commonVariables = ['customerName', 'orderId', 'amount', 'orderDate', 'productDetails'];
-    return Array.from(variables).filter(variable => !commonVariables.includes(variable));
-  }, []);
+    // Keyed on the order id so a re-render doesn't clear the values typed in so far
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [order.id, settings.store_name]);
 
   // State to store template variables
   const [templateVariables, setTemplateVariables] = useState<string[]>([]);
@@ -155,179 +162,30 @@ export function SendWhatsAppMessage({ order, onMessageSent }: SendWhatsAppMessag
 
   // Generate message from template
   const generateMessageFromTemplate = useCallback(async () => {
+    if (!selectedContent) return preview;
+
     try {
-      // Find the template content from PocketBase templates
-      const templateContent = templates.find(t => t.name === selectedTemplate)?.content;
-      
-      if (!templateContent) {
-        console.warn(`Template content not found for ${selectedTemplate}, using fallback`);
-        // Fallback to hardcoded templates if not found in PocketBase
-        let messageText = '';
-        switch (selectedTemplate) {
-          case WhatsAppTemplate.ORDER_CONFIRMATION: {
-            // Convert our ParsedOrderItem to the format expected by sendOrderConfirmation
-            const orderItemsForApi = orderItems.map(item => ({
-              id: item.id,
-              name: item.expand.product_id.name,
-              price: item.price,
-              quantity: item.quantity,
-              image: item.expand.product_id.image
-            }));
-            messageText = `🎉 *Order Confirmation* 🎉\n\nHi ${order.customer_name},\n\nYour order #${order.id} has been confirmed!\n\n*Order Details:*\n${orderItemsForApi.map(item => `${item.quantity}x ${item.name} - ₹${item.price}`).join('\n')}\n\n*Total: ₹${orderItemsForApi.reduce((sum, item) => sum + item.price * item.quantity, 0)}*\n\nThank you for your order! We'll notify you when it ships.`;
-            break;
-          }
-          case WhatsAppTemplate.PAYMENT_SUCCESS: {
-            messageText = `✅ *Payment Successful* ✅\n\nHi ${order.customer_name},\n\nYour payment of ₹${order.total} for order #${order.id} has been successfully received.\n\nThank you for your purchase!`;
-            if (additionalInfo) {
-              messageText += `\n\n${additionalInfo}`;
-            }
-            break;
-          }
-          case WhatsAppTemplate.PAYMENT_FAILED: {
-            messageText = `⚠️ *Payment Failed* ⚠️\n\nHi ${order.customer_name},\n\nWe were unable to process your payment of ₹${order.total} for order #${order.id}.\n\nPlease check your payment details and try again, or contact our support team for assistance.`;
-            break;
-          }
-          case WhatsAppTemplate.ORDER_SHIPPED: {
-            messageText = `📦 *Order Shipped* 📦\n\nHi ${order.customer_name},\n\nYour order #${order.id} has been shipped!`;
-            if (additionalInfo) {
-              messageText += `\n\nTracking information: ${additionalInfo}`;
-            }
-            messageText += `\n\nYou will receive your package soon. Thank you for your patience!`;
-            break;
-          }
-          case WhatsAppTemplate.OUT_FOR_DELIVERY: {
-            messageText = `🚚 *Out for Delivery* 🚚\n\nHi ${order.customer_name},\n\nYour order #${order.id} is out for delivery and will arrive today!\n\nPlease ensure someone is available to receive the package.\n\nThank you for your business!`;
-            break;
-          }
-          case WhatsAppTemplate.ORDER_DELIVERED: {
-            messageText = `🎉 *Order Delivered* 🎉\n\nHi ${order.customer_name},\n\nYour order #${order.id} has been delivered!\n\nWe hope you enjoy your purchase. If you have any questions or concerns, please don't hesitate to contact us.\n\nThank you for shopping with us!`;
-            break;
-          }
-          case WhatsAppTemplate.REQUEST_REVIEW: {
-            messageText = `⭐ *How Was Your Experience?* ⭐\n\nHi ${order.customer_name},\n\nWe hope you're enjoying your recent purchase (Order #${order.id}).\n\nWe'd love to hear your feedback! Please take a moment to share your experience with us.`;
-            if (additionalInfo) {
-              messageText += `\n\n${additionalInfo}`;
-            }
-            messageText += `\n\nYour feedback helps us improve and serve you better. Thank you!`;
-            break;
-          }
-          case WhatsAppTemplate.REFUND_CONFIRMATION: {
-            messageText = `💰 *Refund Confirmation* 💰\n\nHi ${order.customer_name},\n\nWe've processed a refund of ₹${order.total} for your order #${order.id}.`;
-            if (additionalInfo) {
-              messageText += `\n\nRefund details: ${additionalInfo}`;
-            }
-            messageText += `\n\nThe refund should appear in your account within 5-7 business days, depending on your bank's processing time.\n\nThank you for your understanding.`;
-            break;
-          }
-          case WhatsAppTemplate.REORDER_REMINDER: {
-            messageText = `🔔 *Time to Reorder?* 🔔\n\nHi ${order.customer_name},\n\nIt's been a while since your last purchase (Order #${order.id}).\n\nRunning low on supplies? We're here to help you restock!`;
-            if (additionalInfo) {
-              messageText += `\n\n${additionalInfo}`;
-            }
-            messageText += `\n\nSimply reply to this message or visit our website to place a new order.\n\nThank you for your continued support!`;
-            break;
-          }
-          default: {
-            messageText = preview;
-            break;
-          }
-        }
-        return messageText;
-      } else {
-        // Replace variables in the template content with actual values
-        let processedContent = templateContent;
-        
-        // Replace common variables
-        processedContent = processedContent
-          .replace(/{{customerName}}/g, order.customer_name || '')
-          .replace(/{{orderId}}/g, order.id || '')
-          .replace(/{{amount}}/g, order.total?.toString() || '')
-          .replace(/{{orderDate}}/g, new Date(order.created || Date.now()).toLocaleDateString());
-          
-        // Replace customer contact info if available
-        if (order.customer_phone) {
-          processedContent = processedContent.replace(/{{phone}}/g, order.customer_phone);
-        }
-        if (order.customer_email) {
-          processedContent = processedContent.replace(/{{email}}/g, order.customer_email);
-        }
-        if (order.shipping_address_text) {
-          processedContent = processedContent.replace(/{{address}}/g, order.shipping_address_text);
-        }
-        
-        // Replace dynamic template variables with values from variableValues state
-        Object.entries(variableValues).forEach(([variable, value]) => {
-          // Format dates if the variable is a date type
-          if (variable === 'estimatedDelivery' && value) {
-            try {
-              const formattedDate = new Date(value).toLocaleDateString();
-              processedContent = processedContent.replace(new RegExp(`{{${variable}}}`, 'g'), formattedDate);
-            } catch (e) {
-              console.error(`Error formatting date for ${variable}:`, e);
-              processedContent = processedContent.replace(new RegExp(`{{${variable}}}`, 'g'), value);
-            }
-          } else {
-            processedContent = processedContent.replace(new RegExp(`{{${variable}}}`, 'g'), value);
-          }
-        });
-        
-        // Add product details if needed
-        if (processedContent.includes('{{productDetails}}') && orderItems.length > 0) {
-          const formattedItems = orderItems
-            .map((item) => `${item.quantity}x ${item.expand.product_id.name} - ₹${item.price}`)
-            .join('\n');
-          
-          const total = orderItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
-          const productDetails = `*Order Details:*\n${formattedItems}\n\n*Total: ₹${total}*`;
-          
-          processedContent = processedContent.replace(/{{productDetails}}/g, productDetails);
-        }
-        
-        return processedContent;
+      const extra: TemplateScope = { ...variableValues };
+      if (variableValues.estimatedDelivery) {
+        extra.estimatedDelivery = new Date(variableValues.estimatedDelivery);
       }
+      const context = buildOrderContext(order, { storeName: settings.store_name, currency: settings.currency }, {
+        items: orderItems.map(item => toLineItem({
+          name: item.expand.product_id.name,
+          price: item.price,
+          quantity: item.quantity
+        })),
+        extra
+      });
+      const message = renderTemplate(selectedContent, context);
+      setRenderError('');
+      return message;
     } catch (error) {
       console.error('Error generating message from template:', error);
-      return preview;
+      setRenderError((error as Error).message);
+      return '';
     }
-  }, [templates, selectedTemplate, order, orderItems, preview, variableValues]);
-
-  useEffect(() => {
-    if (selectedTemplate) {
-      switch (selectedTemplate) {
-        case WhatsAppTemplate.ORDER_CONFIRMATION:
-          setPreview(`🎉 Your order #${order.id} has been confirmed!\n\nThank you for shopping with us, ${order.customer_name}.\n\nWe'll update you when your order ships.`);
-          break;
-        case WhatsAppTemplate.PAYMENT_SUCCESS:
-          setPreview(`✅ Payment received for Order #${order.id}, ${order.customer_name}! 💸\n\nWe're now preparing your order for shipping. You'll get updates soon.\n\nTrack it here: ${window.location.origin}/orders/${order.id}`);
-          break;
-        case WhatsAppTemplate.PAYMENT_FAILED:
-          setPreview(`⚠️ Payment failed for Order #${order.id}\n\nPlease retry using this link: ${additionalInfo || '[payment link]'}`);
-          break;
-        case WhatsAppTemplate.ORDER_SHIPPED:
-          setPreview(`📦 Your order #${order.id} has been shipped!\n\nCarrier: ${additionalInfo?.split(',')[1] || '[carrier]'}\nTracking: ${additionalInfo?.split(',')[0] || '[tracking link]'}`);
-          break;
-        case WhatsAppTemplate.OUT_FOR_DELIVERY:
-          setPreview(`🚚 Your order #${order.id} is out for delivery today!\n\nSomeone may need to be present to receive the package.`);
-          break;
-        case WhatsAppTemplate.ORDER_DELIVERED:
-          setPreview(`🎉 Your order #${order.id} has been delivered!\n\nWe hope you love your purchase. Please provide feedback: ${additionalInfo || '[feedback link]'}`);
-          break;
-        case WhatsAppTemplate.REQUEST_REVIEW:
-          setPreview(`⭐ How was your experience with order #${order.id}?\n\nWe'd love to hear your feedback! Please leave a review: ${additionalInfo || '[review link]'}`);
-          break;
-        case WhatsAppTemplate.REFUND_CONFIRMATION:
-          setPreview(`💰 Your refund of ${additionalInfo || '[amount]'} for order #${order.id} has been processed.\n\nThe amount should appear in your account within 5-7 business days.`);
-          break;
-        case WhatsAppTemplate.REORDER_REMINDER:
-          setPreview(`🔔 It's been ${additionalInfo?.split(',')[1] || '30'} days since your last order #${order.id}.\n\nRunning low? Reorder easily: ${additionalInfo?.split(',')[0] || '[reorder link]'}`);
-          break;
-        default:
-          setPreview('');
-      }
-    } else {
-      setPreview('');
-    }
-  }, [selectedTemplate, additionalInfo, order.id, order.customer_name]);
+  }, [selectedContent, order, orderItems, preview, variableValues, settings]);
 
   useEffect(() => {
     const checkConnection = async () => {
@@ -459,8 +317,8 @@ export function SendWhatsAppMessage({ order, onMessageSent }: SendWhatsAppMessag
       }
     }
 
-    // Generate initial preview when templates and order are loaded
-    if (templates.length > 0 && selectedTemplate && order) {
+    // Generate initial preview when the template and order are known
+    if (selectedTemplate && order) {
       generateMessageFromTemplate().then(message => {
         setPreview(message);
       });
@@ -469,9 +327,8 @@ export function SendWhatsAppMessage({ order, onMessageSent }: SendWhatsAppMessag
 
   useEffect(() => {
     if (selectedTemplate) {
-      const templateContent = templates.find(t => t.name === selectedTemplate)?.content;
-      if (templateContent) {
-        const variables = extractTemplateVariables(templateContent);
+      if (selectedContent) {
+        const variables = extractTemplateVariables(selectedContent);
         setTemplateVariables(variables);
         
         // Initialize variable values with empty strings or default values
@@ -487,7 +344,7 @@ export function SendWhatsAppMessage({ order, onMessageSent }: SendWhatsAppMessag
         setVariableValues(initialValues);
       }
     }
-  }, [selectedTemplate, templates, extractTemplateVariables]);
+  }, [selectedTemplate, selectedContent, extractTemplateVariables]);
 
   // Handle message sent event
   const handleMessageSent = () => {
@@ -563,13 +420,13 @@ export function SendWhatsAppMessage({ order, onMessageSent }: SendWhatsAppMessag
 
         switch (selectedMessageType) {
           case 'image':
-            response = await sendWhatsAppImageMessage(customerPhone, mediaUrlToUse, messageCaption);
+            response = await sendWhatsAppImageMessage(customerPhone, mediaUrlToUse, messageCaption, undefined, { orderId: order.id });
             break;
           case 'video':
-            response = await sendWhatsAppVideoMessage(customerPhone, mediaUrlToUse, messageCaption);
+            response = await sendWhatsAppVideoMessage(customerPhone, mediaUrlToUse, messageCaption, undefined, { orderId: order.id });
             break;
           case 'document':
-            response = await sendWhatsAppDocumentMessage(customerPhone, mediaUrlToUse, filename, messageCaption);
+            response = await sendWhatsAppDocumentMessage(customerPhone, mediaUrlToUse, filename, messageCaption, undefined, { orderId: order.id });
             break;
           default:
             throw new Error('Invalid message type');
@@ -622,18 +479,23 @@ export function SendWhatsAppMessage({ order, onMessageSent }: SendWhatsAppMessag
             break;
           }
           default: {
+            // A half-filled template is never sent
+            if (renderError) {
+              setError(renderError);
+              return;
+            }
             let message = preview;
             if (productDetails) {
               message += '\n\n' + productDetails;
             }
-            response = await sendWhatsAppTextMessage(customerPhone, message);
+            response = await sendWhatsAppTextMessage(customerPhone, message, undefined, { orderId: order.id });
             break;
           }
         }
       }
 
       if (response.success) {
-        toast.success('WhatsApp message sent successfully');
+        toast.success(response.duplicate ? response.message : 'WhatsApp message queued for sending');
         handleMessageSent();
       } else {
         toast.error(`Failed to send WhatsApp message: ${response.message}`);
@@ -678,6 +540,14 @@ export function SendWhatsAppMessage({ order, onMessageSent }: SendWhatsAppMessag
         </Alert>
       )}
 
+      {renderError && renderError !== error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Template can't be filled in</AlertTitle>
+          <AlertDescription>{renderError}</AlertDescription>
+        </Alert>
+      )}
+
       <div className="space-y-4">
         <div>
           <Label htmlFor="template">Message Template</Label>
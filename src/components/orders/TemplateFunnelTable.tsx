@@ -0,0 +1,60 @@
+import { useMemo } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DELIVERY_STEPS, DeliveryChannel, buildTemplateFunnels, funnelRate } from '@/lib/deliveryStatus';
+
+interface TemplateFunnelTableProps {
+  channel: DeliveryChannel;
+  activities: Array<{ template_name: string; status: string }>;
+  templateNames?: Record<string, string>;
+}
+
+const STEP_LABELS: Record<string, string> = {
+  sent: 'Sent',
+  delivered: 'Delivered',
+  read: 'Read',
+  opened: 'Opened',
+  clicked: 'Clicked',
+};
+
+// How far each template's messages got: sent, then delivered/read or opened/clicked
+export function TemplateFunnelTable({ channel, activities, templateNames = {} }: TemplateFunnelTableProps) {
+  const funnels = useMemo(() => buildTemplateFunnels(channel, activities), [channel, activities]);
+  const steps = DELIVERY_STEPS[channel];
+
+  if (funnels.length === 0) return null;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Template</TableHead>
+          <TableHead className="text-right">Messages</TableHead>
+          {steps.map(step => (
+            <TableHead key={step} className="text-right">{STEP_LABELS[step]}</TableHead>
+          ))}
+          <TableHead className="text-right">Failed</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {funnels.map(funnel => (
+          <TableRow key={funnel.templateName}>
+            <TableCell>{templateNames[funnel.templateName] || funnel.templateName}</TableCell>
+            <TableCell className="text-right">{funnel.total}</TableCell>
+            {steps.map((step, index) => (
+              <TableCell key={step} className="text-right">
+                {funnel.steps[step]}
+                {/* Later steps are a share of the messages that were sent */}
+                {index > 0 && (
+                  <span className="ml-1 text-xs text-muted-foreground">
+                    ({funnelRate(funnel.steps[step], funnel.steps[steps[0]])}%)
+                  </span>
+                )}
+              </TableCell>
+            ))}
+            <TableCell className="text-right">{funnel.failed}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
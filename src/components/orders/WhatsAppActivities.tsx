@@ -20,9 +20,11 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { MessageSquare, Check, AlertTriangle, Eye } from 'lucide-react';
+import { MessageSquare, Eye } from 'lucide-react';
+import { QueuedMessageActions } from '@/components/orders/QueuedMessageActions';
+import { DeliveryStatusBadge } from '@/components/orders/DeliveryStatusBadge';
+import { TemplateFunnelTable } from '@/components/orders/TemplateFunnelTable';
 
 interface WhatsAppActivitiesProps {
   activities: WhatsAppActivityRecord[];
@@ -73,6 +75,12 @@ export function WhatsAppActivities({ activities, isLoading = false, orderId }: W
 
   return (
     <div>
+      {/* Funnel stats only make sense across many orders, not within one */}
+      {!orderId && (
+        <div className="mb-6">
+          <TemplateFunnelTable channel="whatsapp" activities={filteredActivities} templateNames={templateDisplayNames} />
+        </div>
+      )}
       <Table>
         <TableCaption>WhatsApp message history</TableCaption>
         <TableHeader>
@@ -95,9 +103,10 @@ export function WhatsAppActivities({ activities, isLoading = false, orderId }: W
               </TableCell>
               <TableCell>{formatPhoneNumber(activity.recipient)}</TableCell>
               <TableCell>
-                <StatusBadge status={activity.status} />
+                <DeliveryStatusBadge status={activity.status} error={activity.error_message} at={activity.read_at || activity.delivered_at} />
               </TableCell>
               <TableCell className="text-right">
+                <QueuedMessageActions channel="whatsapp" queueId={activity.queue_id} status={activity.status} />
                 <Dialog>
                   <DialogTrigger asChild>
                     <Button
@@ -136,6 +145,11 @@ export function WhatsAppActivities({ activities, isLoading = false, orderId }: W
                         </div>
                       )}
                     </div>
+                    {selectedActivity?.error_message && (
+                      <div className="p-4 bg-red-50 text-red-700 rounded-md text-sm">
+                        <span className="font-medium">Last error:</span> {selectedActivity.error_message}
+                      </div>
+                    )}
                   </DialogContent>
                 </Dialog>
               </TableCell>
@@ -253,22 +267,3 @@ function renderMessageContent(content: unknown): string {
   // For any other type, convert to string
   return String(content);
 }
-
-// Status badge component
-function StatusBadge({ status }: { status: 'sent' | 'failed' }) {
-  if (status === 'sent') {
-    return (
-      <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
-        <Check className="h-3 w-3 mr-1" />
-        Sent
-      </Badge>
-    );
-  }
-  
-  return (
-    <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
-      <AlertTriangle className="h-3 w-3 mr-1" />
-      Failed
-    </Badge>
-  );
-}
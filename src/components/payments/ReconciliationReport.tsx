@@ -0,0 +1,253 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckCircle2, Loader2, RotateCcw, Upload } from 'lucide-react';
+import { ExportMenu } from '@/components/import-export/ExportMenu';
+import { ImportWizardDialog } from '@/components/import-export/ImportWizardDialog';
+import { useReconciliation } from '@/hooks/useReconciliation';
+import { useAuth } from '@/hooks/useAuth';
+import { DISCREPANCY_LABELS, DISCREPANCY_TYPES, Discrepancy, formatPaise } from '@/lib/reconciliation';
+import { discrepancyExportColumns } from '@/lib/exportColumns';
+import { settlementImportConfig } from '@/lib/importers';
+import { DiscrepancyType } from '@/types/schema';
+import { formatDate } from '@/lib/utils';
+
+type StatusFilter = 'open' | 'resolved' | 'all';
+
+const TYPE_STYLES: Record<DiscrepancyType, string> = {
+  paid_without_capture: 'bg-red-50 text-red-700 border-red-200',
+  capture_without_order: 'bg-orange-50 text-orange-700 border-orange-200',
+  amount_mismatch: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  partial_refund: 'bg-blue-50 text-blue-700 border-blue-200',
+};
+
+// Orders whose Razorpay captures, settlements or refunds don't add up
+export function ReconciliationReport() {
+  const { discrepancies, isLoading, error, refetch, resolveDiscrepancy, reopenDiscrepancy } = useReconciliation();
+  const { can } = useAuth();
+  const canEdit = can('payments.edit');
+
+  const [typeFilter, setTypeFilter] = useState<DiscrepancyType | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [resolving, setResolving] = useState<Discrepancy | null>(null);
+  const [note, setNote] = useState('');
+
+  const openCounts = useMemo(() => {
+    const counts = Object.fromEntries(DISCREPANCY_TYPES.map(type => [type, 0])) as Record<DiscrepancyType, number>;
+    discrepancies.filter(item => !item.resolution).forEach(item => counts[item.type]++);
+    return counts;
+  }, [discrepancies]);
+
+  const visible = discrepancies.filter(item =>
+    (typeFilter === 'all' || item.type === typeFilter) &&
+    (statusFilter === 'all' || (statusFilter === 'resolved') === !!item.resolution)
+  );
+
+  const handleResolve = () => {
+    if (!resolving || !note.trim()) return;
+    resolveDiscrepancy.mutate(
+      { discrepancy: resolving, note: note.trim() },
+      {
+        onSuccess: () => {
+          setResolving(null);
+          setNote('');
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-4">
+        {DISCREPANCY_TYPES.map(type => (
+          <Card
+            key={type}
+            className={`cursor-pointer ${typeFilter === type ? 'border-primary' : ''}`}
+            onClick={() => setTypeFilter(typeFilter === type ? 'all' : type)}
+          >
+            <CardHeader className="pb-2">
+              <CardDescription>{DISCREPANCY_LABELS[type]}</CardDescription>
+              <CardTitle className="text-2xl">{isLoading ? '–' : openCounts[type]}</CardTitle>
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <CardTitle>Reconciliation</CardTitle>
+              <CardDescription>
+                Order totals matched against Razorpay captures and the uploaded settlement reports.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as DiscrepancyType | 'all')}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All discrepancies</SelectItem>
+                  {DISCREPANCY_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{DISCREPANCY_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+                <SelectTrigger className="w-[130px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="open">Open</SelectItem>
+                  <SelectItem value="resolved">Resolved</SelectItem>
+                  <SelectItem value="all">All</SelectItem>
+                </SelectContent>
+              </Select>
+              <ExportMenu
+                fetchRows={async () => visible}
+                columns={discrepancyExportColumns}
+                baseName="payment-discrepancies"
+              />
+              {canEdit && (
+                <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Upload settlements
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-4">Reconciling payments...</div>
+          ) : error ? (
+            <div className="text-center py-4 text-red-500">Error loading reconciliation</div>
+          ) : visible.length === 0 ? (
+            <div className="text-center py-4 text-muted-foreground">
+              {statusFilter === 'open' ? 'Everything reconciles' : 'No discrepancies'}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Payments</TableHead>
+                  <TableHead className="text-right">Order total</TableHead>
+                  <TableHead className="text-right">Captured</TableHead>
+                  <TableHead className="text-right">Settled</TableHead>
+                  <TableHead className="text-right">Refunded</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="text-right">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map(item => (
+                  <TableRow key={item.key}>
+                    <TableCell>
+                      <Badge variant="outline" className={TYPE_STYLES[item.type]}>
+                        {DISCREPANCY_LABELS[item.type]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {item.orderId ? (
+                        <>
+                          <span className="font-medium">{item.orderId}</span>
+                          <p className="text-xs text-muted-foreground">{item.customerName}</p>
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">No order</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{item.paymentIds.join(', ') || '—'}</TableCell>
+                    <TableCell className="text-right">
+                      {item.orderTotal === null ? '—' : formatPaise(item.orderTotal)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatPaise(item.captured)}</TableCell>
+                    <TableCell className="text-right">{item.settled ? formatPaise(item.settled) : '—'}</TableCell>
+                    <TableCell className="text-right">{item.refunded ? formatPaise(item.refunded) : '—'}</TableCell>
+                    <TableCell className="text-sm">
+                      {item.details}
+                      {item.resolution && (
+                        <p className="text-xs text-muted-foreground">
+                          Resolved by {item.resolution.resolved_by || 'unknown'} on {formatDate(item.resolution.created)}: {item.resolution.note}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {item.resolution ? (
+                        canEdit ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => reopenDiscrepancy.mutate(item.resolution!.id)}
+                            disabled={reopenDiscrepancy.isPending}
+                            title="Reopen"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        ) : (
+                          <Badge variant="outline">Resolved</Badge>
+                        )
+                      ) : canEdit ? (
+                        <Button variant="outline" size="sm" onClick={() => setResolving(item)}>
+                          <CheckCircle2 className="mr-2 h-4 w-4" />
+                          Resolve
+                        </Button>
+                      ) : (
+                        <Badge variant="outline">Open</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!resolving} onOpenChange={(open) => !open && setResolving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolve discrepancy</DialogTitle>
+            <DialogDescription>{resolving?.details}</DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="What was found and what was done about it"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolving(null)}>Cancel</Button>
+            <Button onClick={handleResolve} disabled={!note.trim() || resolveDiscrepancy.isPending}>
+              {resolveDiscrepancy.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Mark resolved
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ImportWizardDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        config={settlementImportConfig}
+        title="Upload Razorpay settlement report"
+        onComplete={() => refetch()}
+      />
+    </div>
+  );
+}
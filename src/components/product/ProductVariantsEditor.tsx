@@ -0,0 +1,173 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ProductOption } from '@/types/schema';
+import { VariantDraft, syncVariantDrafts, variantLabel } from '@/lib/productVariants';
+
+const MAX_OPTIONS = 3;
+
+interface ProductVariantsEditorProps {
+  productName: string;
+  productPrice: number;
+  // Filenames of the product's images that variants can be pictured with
+  images?: string[];
+  options: ProductOption[];
+  drafts: VariantDraft[];
+  onChange: (options: ProductOption[], drafts: VariantDraft[]) => void;
+}
+
+// Option types (colour, size, ...) and the variant for each combination of their values
+export function ProductVariantsEditor({
+  productName,
+  productPrice,
+  images = [],
+  options,
+  drafts,
+  onChange,
+}: ProductVariantsEditorProps) {
+  const setOptions = (next: ProductOption[]) => {
+    onChange(next, syncVariantDrafts(productName, next, drafts));
+  };
+
+  const updateOption = (index: number, option: ProductOption) => {
+    setOptions(options.map((current, i) => (i === index ? option : current)));
+  };
+
+  const updateDraft = (index: number, changes: Partial<VariantDraft>) => {
+    onChange(options, drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const toggleImage = (index: number, image: string) => {
+    const current = drafts[index].images;
+    updateDraft(index, {
+      images: current.includes(image) ? current.filter(name => name !== image) : [...current, image],
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Options</Label>
+            <p className="text-xs text-muted-foreground">
+              e.g. Colour with Red, Blue or Size with S, M, L. Separate values with commas.
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={options.length >= MAX_OPTIONS}
+            onClick={() => setOptions([...options, { name: '', values: [] }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add option
+          </Button>
+        </div>
+
+        {options.map((option, index) => (
+          <div key={index} className="grid grid-cols-[1fr_2fr_auto] gap-2">
+            <Input
+              placeholder="Option name"
+              value={option.name}
+              onChange={(e) => updateOption(index, { ...option, name: e.target.value })}
+            />
+            <Input
+              placeholder="Values"
+              value={option.values.join(',')}
+              onChange={(e) => updateOption(index, { ...option, values: e.target.value.split(',') })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => setOptions(options.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {drafts.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Variant</TableHead>
+              <TableHead>SKU</TableHead>
+              <TableHead className="w-[110px]">Price (₹)</TableHead>
+              <TableHead className="w-[90px]">Stock</TableHead>
+              <TableHead>Active</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {drafts.map((draft, index) => (
+              <TableRow key={draft.id || variantLabel(draft.options)}>
+                <TableCell>
+                  <div className="font-medium">{variantLabel(draft.options)}</div>
+                  {images.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {images.map((image, imageIndex) => (
+                        <Badge
+                          key={image}
+                          variant={draft.images.includes(image) ? 'default' : 'outline'}
+                          className="cursor-pointer"
+                          onClick={() => toggleImage(index, image)}
+                        >
+                          Image {imageIndex + 1}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Input value={draft.sku} onChange={(e) => updateDraft(index, { sku: e.target.value })} />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder={String(productPrice || 0)}
+                    value={draft.price || ''}
+                    onChange={(e) => updateDraft(index, { price: Number(e.target.value) || 0 })}
+                  />
+                </TableCell>
+                <TableCell>
+                  {draft.id ? (
+                    <span>{draft.stock}</span>
+                  ) : (
+                    <Input
+                      type="number"
+                      min="0"
+                      step="1"
+                      title="Opening stock"
+                      value={draft.stock || ''}
+                      onChange={(e) => updateDraft(index, { stock: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                    />
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Switch checked={draft.active} onCheckedChange={(active) => updateDraft(index, { active })} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {drafts.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Leave the price empty to use the product price. Stock can be entered for new variants;
+          after that it changes through orders, refunds and the Stock dialog.
+        </p>
+      )}
+    </div>
+  );
+}
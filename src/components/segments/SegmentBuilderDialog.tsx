@@ -0,0 +1,250 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useProducts } from '@/hooks/useProducts';
+import { CustomerSummary, RFM_TIER_LABELS, describeSegmentRules, matchesSegment } from '@/lib/segments';
+import { RfmTier, Segment, SegmentData, SegmentRules } from '@/types/schema';
+
+interface SegmentBuilderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Editing when set; `initialRules` prefills a new segment, e.g. from an RFM tier
+  segment?: Segment | null;
+  initialRules?: SegmentRules;
+  customers: CustomerSummary[];
+  onSubmit: (data: SegmentData) => Promise<unknown>;
+}
+
+type NumberRule = 'min_orders' | 'max_orders' | 'ordered_within_days' | 'inactive_for_days' | 'min_spend' | 'max_spend';
+
+const ANY = 'any_value';
+
+// Drop empty values so stored rules only hold the conditions that were set
+function cleanRules(rules: SegmentRules): SegmentRules {
+  return Object.fromEntries(
+    Object.entries(rules).filter(([, value]) =>
+      value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)
+    )
+  ) as SegmentRules;
+}
+
+export function SegmentBuilderDialog({
+  open,
+  onOpenChange,
+  segment,
+  initialRules,
+  customers,
+  onSubmit,
+}: SegmentBuilderDialogProps) {
+  const { products } = useProducts({ perPage: 200, sort: 'name' });
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [rules, setRules] = useState<SegmentRules>({});
+  const [categories, setCategories] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const start = segment?.rules ?? initialRules ?? {};
+    setName(segment?.name ?? '');
+    setDescription(segment?.description ?? '');
+    setRules(start);
+    setCategories((start.categories || []).join(', '));
+  }, [open, segment, initialRules]);
+
+  const finalRules = useMemo(() => cleanRules({
+    ...rules,
+    categories: categories.split(',').map(category => category.trim()).filter(Boolean),
+  }), [rules, categories]);
+  const matching = useMemo(
+    () => customers.filter(customer => matchesSegment(customer, finalRules)),
+    [customers, finalRules]
+  );
+
+  const setNumber = (rule: NumberRule, value: string) => {
+    setRules({ ...rules, [rule]: value === '' ? undefined : Math.max(0, Number(value)) });
+  };
+
+  const numberInput = (rule: NumberRule, label: string, placeholder?: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`segment-${rule}`}>{label}</Label>
+      <Input
+        id={`segment-${rule}`}
+        type="number"
+        min="0"
+        placeholder={placeholder}
+        value={rules[rule] ?? ''}
+        onChange={(e) => setNumber(rule, e.target.value)}
+      />
+    </div>
+  );
+
+  const toggleList = <T extends string>(list: T[] | undefined, value: T, checked: boolean): T[] =>
+    checked ? [...(list || []), value] : (list || []).filter(item => item !== value);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await onSubmit({ name: name.trim(), description: description.trim(), rules: finalRules });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving segment:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{segment ? `Edit ${segment.name}` : 'New segment'}</DialogTitle>
+          <DialogDescription>Customers must meet every condition that is filled in.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="segment-name">Name</Label>
+              <Input id="segment-name" value={name} placeholder="e.g. Repeat buyers gone quiet" onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="segment-description">Description</Label>
+              <Input id="segment-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            {numberInput('min_orders', 'At least orders')}
+            {numberInput('max_orders', 'At most orders')}
+            {numberInput('min_spend', 'Spent at least (₹)')}
+            {numberInput('ordered_within_days', 'Ordered in last days')}
+            {numberInput('inactive_for_days', 'No order for days', 'e.g. 90')}
+            {numberInput('max_spend', 'Spent at most (₹)')}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="segment-city">City</Label>
+              <Input
+                id="segment-city"
+                value={rules.city ?? ''}
+                placeholder="e.g. Pune"
+                onChange={(e) => setRules({ ...rules, city: e.target.value || undefined })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="segment-coupon">Coupon</Label>
+              <Input
+                id="segment-coupon"
+                value={rules.coupon ?? ''}
+                placeholder="any, none or a code"
+                onChange={(e) => setRules({ ...rules, coupon: e.target.value.trim() || undefined })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Last message</Label>
+              <Select
+                value={rules.last_message_status ?? ANY}
+                onValueChange={(value) => setRules({
+                  ...rules,
+                  last_message_status: value === ANY ? undefined : value as SegmentRules['last_message_status'],
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  <SelectItem value="sent">Sent</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="queued">Queued</SelectItem>
+                  <SelectItem value="none">Never messaged</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="segment-categories">Bought from categories</Label>
+            <Input
+              id="segment-categories"
+              value={categories}
+              placeholder="e.g. Totes, Backpacks"
+              onChange={(e) => setCategories(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Bought any of these products</Label>
+            <ScrollArea className="h-32 rounded-md border p-2">
+              {products.map(product => (
+                <div key={product.id} className="flex items-center gap-2 py-1">
+                  <Checkbox
+                    id={`segment-product-${product.id}`}
+                    checked={(rules.product_ids || []).includes(product.id)}
+                    onCheckedChange={(checked) => setRules({
+                      ...rules,
+                      product_ids: toggleList(rules.product_ids, product.id, !!checked),
+                    })}
+                  />
+                  <Label htmlFor={`segment-product-${product.id}`} className="font-normal">{product.name}</Label>
+                </div>
+              ))}
+            </ScrollArea>
+          </div>
+
+          <div className="space-y-1">
+            <Label>RFM tiers</Label>
+            <div className="flex flex-wrap gap-4">
+              {(Object.keys(RFM_TIER_LABELS) as RfmTier[]).map(tier => (
+                <div key={tier} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`segment-tier-${tier}`}
+                    checked={(rules.rfm_tiers || []).includes(tier)}
+                    onCheckedChange={(checked) => setRules({
+                      ...rules,
+                      rfm_tiers: toggleList(rules.rfm_tiers, tier, !!checked),
+                    })}
+                  />
+                  <Label htmlFor={`segment-tier-${tier}`} className="font-normal">{RFM_TIER_LABELS[tier]}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="rounded-md border p-3 text-sm">
+            <div className="font-medium">{matching.length} of {customers.length} customers</div>
+            <div className="text-muted-foreground">{describeSegmentRules(finalRules)}</div>
+            {matching.length > 0 && (
+              <div className="text-muted-foreground mt-1">
+                e.g. {matching.slice(0, 5).map(customer => customer.name || customer.email || `+${customer.phone}`).join(', ')}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!name.trim() || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save segment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
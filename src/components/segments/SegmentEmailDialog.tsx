@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { EmailTemplateType, useEmailTemplates } from '@/hooks/useEmailTemplates';
+import { sendEmailMessage } from '@/lib/email';
+import { describeSegmentRules, fetchSegmentAudience } from '@/lib/segments';
+import { templateVariables } from '@/lib/templateEngine';
+import { SegmentRules } from '@/types/schema';
+
+interface SegmentEmailDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Segment id or RFM tier; part of each email's idempotency key
+  audienceKey: string;
+  name: string;
+  rules: SegmentRules;
+}
+
+interface SendProgress {
+  done: number;
+  total: number;
+}
+
+// What a segment email can fill in: the member's name here, the store name on the server
+const SEGMENT_EMAIL_VARIABLES = ['customerName', 'storeName'];
+
+// Templates about an order ({{orderId}}, {{items}}, ...) can't be rendered for a segment member
+function fitsSegment(template: EmailTemplateType): boolean {
+  try {
+    return [template.subject, template.content, template.text_content]
+      .flatMap(part => (part ? templateVariables(part) : []))
+      .every(name => SEGMENT_EMAIL_VARIABLES.includes(name));
+  } catch {
+    // Doesn't parse, so it wouldn't render either
+    return false;
+  }
+}
+
+/**
+ * Queue a saved email template to everyone in a segment who has an email address and
+ * hasn't opted out of email. Each address gets a template at most once a day per segment,
+ * so sending again after an interruption only queues the emails that were missed.
+ */
+export function SegmentEmailDialog({ open, onOpenChange, audienceKey, name, rules }: SegmentEmailDialogProps) {
+  const { templates, isLoading } = useEmailTemplates();
+  const [templateName, setTemplateName] = useState('');
+  const [progress, setProgress] = useState<SendProgress | null>(null);
+  const activeTemplates = templates.filter(template => template.isActive);
+  const usableTemplates = activeTemplates.filter(fitsSegment);
+  const template = usableTemplates.find(candidate => candidate.name === templateName);
+
+  useEffect(() => {
+    if (open) {
+      setTemplateName('');
+      setProgress(null);
+    }
+  }, [open]);
+
+  const handleSend = async () => {
+    if (!template || !fitsSegment(template)) return;
+    try {
+      const audience = await fetchSegmentAudience(rules, 'email');
+      if (audience.length === 0) {
+        toast.error(`No one in ${name} can be reached by email`);
+        return;
+      }
+
+      const day = new Date().toISOString().slice(0, 10);
+      let queued = 0;
+      let skipped = 0;
+      let failed = 0;
+      setProgress({ done: 0, total: audience.length });
+      for (const member of audience) {
+        const result = await sendEmailMessage(
+          member.contact,
+          template.subject || template.name,
+          template.content,
+          { customerName: member.name },
+          {
+            templateName: template.name,
+            idempotencyKey: `email:segment:${audienceKey}:${template.name}:${day}:${member.contact}`,
+          },
+          template.text_content || undefined
+        );
+        if (!result.success) failed++;
+        else if (result.duplicate) skipped++;
+        else queued++;
+        setProgress({ done: queued + skipped + failed, total: audience.length });
+      }
+
+      if (failed > 0) {
+        toast.error(`Queued ${queued} emails; ${failed} could not be queued`);
+      } else {
+        toast.success(`Queued ${queued} emails` + (skipped ? ` (${skipped} already sent today)` : ''));
+      }
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error sending segment email:', error);
+      toast.error('Failed to send email: ' + (error as Error).message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !progress && onOpenChange(next)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Email {name}</DialogTitle>
+          <DialogDescription>{describeSegmentRules(rules)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label>Email template</Label>
+          <Select value={templateName} onValueChange={setTemplateName} disabled={isLoading || !!progress}>
+            <SelectTrigger>
+              <SelectValue placeholder={isLoading ? 'Loading templates...' : 'Choose a template'} />
+            </SelectTrigger>
+            <SelectContent>
+              {usableTemplates.map(candidate => (
+                <SelectItem key={candidate.id} value={candidate.name}>{candidate.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {template && <p className="text-sm text-muted-foreground">Subject: {template.subject}</p>}
+          <p className="text-xs text-muted-foreground">
+            Customers who opted out of email are left out. Only templates that use no placeholders other than
+            {' {{customerName}}'} and {'{{storeName}}'} can be sent to a segment
+            {activeTemplates.length > usableTemplates.length &&
+              `; ${activeTemplates.length - usableTemplates.length} other templates are hidden`}.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={!!progress}>Cancel</Button>
+          <Button onClick={handleSend} disabled={!template || !!progress}>
+            {progress && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {progress ? `Sending ${progress.done} of ${progress.total}` : 'Send email'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
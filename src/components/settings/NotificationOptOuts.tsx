@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Trash2 } from 'lucide-react';
+import { useNotificationOptOuts } from '@/hooks/useNotificationOptOuts';
+import { CHANNEL_LABELS, OPT_OUT_REASON_LABELS } from '@/lib/notifications';
+import { NotificationChannel, OptOutReason } from '@/types/schema';
+import { formatDate } from '@/lib/utils';
+
+interface NotificationOptOutsProps {
+  canEdit: boolean;
+}
+
+const channelLabel = (channel: NotificationChannel | 'all') =>
+  channel === 'all' ? 'All channels' : CHANNEL_LABELS[channel];
+
+// Customers who replied STOP, are on the DND registry or asked not to be messaged
+export function NotificationOptOuts({ canEdit }: NotificationOptOutsProps) {
+  const { optOuts, isLoading, error, addOptOut, removeOptOut } = useNotificationOptOuts();
+  const [contact, setContact] = useState('');
+  const [channel, setChannel] = useState<NotificationChannel | 'all'>('all');
+  const [reason, setReason] = useState<OptOutReason>('customer_request');
+  const [note, setNote] = useState('');
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!contact.trim()) return;
+
+    addOptOut.mutate(
+      { contact: contact.trim(), channel, reason, note: note.trim() },
+      {
+        onSuccess: () => {
+          setContact('');
+          setNote('');
+        },
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Customer Opt-outs</CardTitle>
+        <CardDescription>Automated notifications are never sent to these contacts.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canEdit && (
+          <form onSubmit={handleAdd} className="grid gap-2 md:grid-cols-[2fr_1fr_1fr_2fr_auto]">
+            <Input
+              placeholder="Phone number or email"
+              value={contact}
+              onChange={(e) => setContact(e.target.value)}
+            />
+            <Select value={channel} onValueChange={(value) => setChannel(value as NotificationChannel | 'all')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All channels</SelectItem>
+                <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                <SelectItem value="email">Email</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={reason} onValueChange={(value) => setReason(value as OptOutReason)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(OPT_OUT_REASON_LABELS) as OptOutReason[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {OPT_OUT_REASON_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input placeholder="Note (optional)" value={note} onChange={(e) => setNote(e.target.value)} />
+            <Button type="submit" disabled={!contact.trim() || addOptOut.isPending}>
+              {addOptOut.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add
+            </Button>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-4">Loading opt-outs...</div>
+        ) : error ? (
+          <div className="text-center py-4 text-red-500">Error loading opt-outs</div>
+        ) : optOuts.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">No customers have opted out</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Contact</TableHead>
+                <TableHead>Channel</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Added</TableHead>
+                {canEdit && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {optOuts.map((optOut) => (
+                <TableRow key={optOut.id}>
+                  <TableCell className="font-medium">{optOut.contact}</TableCell>
+                  <TableCell>{channelLabel(optOut.channel)}</TableCell>
+                  <TableCell>
+                    {OPT_OUT_REASON_LABELS[optOut.reason] || optOut.reason}
+                    {optOut.note && <p className="text-xs text-muted-foreground">{optOut.note}</p>}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {formatDate(optOut.created)}
+                    {optOut.created_by && ` by ${optOut.created_by}`}
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeOptOut.mutate(optOut.id)}
+                        disabled={removeOptOut.isPending}
+                        title="Opt back in"
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
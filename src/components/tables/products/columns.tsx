@@ -1,8 +1,13 @@
 import { Product } from '@/types/schema';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { isLowStock, lowStockThreshold } from '@/lib/inventory';
 
-export const columns = (onView: (product: Product) => void, onEdit: (product: Product) => void) => [
+export const columns = (
+  onView: (product: Product) => void,
+  onEdit?: (product: Product) => void,
+  onAdjustStock?: (product: Product) => void
+) => [
   {
     header: 'Name',
     accessorKey: 'name',
@@ -30,9 +35,14 @@ export const columns = (onView: (product: Product) => void, onEdit: (product: Pr
     header: 'Stock',
     accessorKey: 'stock',
     cell: (product: Product) => (
-      <span className={product.stock === 0 ? 'text-destructive' : ''}>
-        {product.stock ?? 'N/A'}
-      </span>
+      <div className="flex flex-col">
+        <span className={(product.stock ?? 0) <= 0 ? 'text-destructive' : ''}>
+          {product.stock ?? 'N/A'}
+        </span>
+        {(product.stock ?? 0) > 0 && isLowStock(product) && (
+          <span className="text-xs text-amber-600">Reorder at {lowStockThreshold(product)}</span>
+        )}
+      </div>
     ),
   },
   {
@@ -64,9 +74,16 @@ export const columns = (onView: (product: Product) => void, onEdit: (product: Pr
         <Button variant="ghost" size="sm" onClick={() => onView(product)}>
           View
         </Button>
-        <Button variant="ghost" size="sm" onClick={() => onEdit(product)}>
-          Edit
-        </Button>
+        {onEdit && (
+          <Button variant="ghost" size="sm" onClick={() => onEdit(product)}>
+            Edit
+          </Button>
+        )}
+        {onAdjustStock && (
+          <Button variant="ghost" size="sm" onClick={() => onAdjustStock(product)}>
+            Stock
+          </Button>
+        )}
       </div>
     ),
   },
@@ -0,0 +1,191 @@
+import { ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { createEmailBlock, EMAIL_BLOCK_LABELS } from '@/lib/emailBlocks';
+import { EmailBlock, EmailBlockType, EmailGridProduct } from '@/types/schema';
+
+interface EmailBlockEditorProps {
+  blocks: EmailBlock[];
+  onChange: (blocks: EmailBlock[]) => void;
+}
+
+const EMPTY_PRODUCT: EmailGridProduct = { name: '', price: '', imageUrl: '', url: '' };
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="grid gap-1">
+      <Label className="text-xs">{label}</Label>
+      {children}
+    </div>
+  );
+}
+
+function BlockFields({ block, onChange }: { block: EmailBlock; onChange: (patch: Partial<EmailBlock>) => void }) {
+  switch (block.type) {
+    case 'header':
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <Field label="Logo URL">
+            <Input value={block.logoUrl} onChange={(e) => onChange({ logoUrl: e.target.value })} placeholder="https://..." />
+          </Field>
+          <Field label="Background">
+            <Input value={block.background} onChange={(e) => onChange({ background: e.target.value })} placeholder="#111827" />
+          </Field>
+          <div className="col-span-2">
+            <Field label="Title">
+              <Input value={block.title} onChange={(e) => onChange({ title: e.target.value })} />
+            </Field>
+          </div>
+        </div>
+      );
+    case 'text':
+      return (
+        <div className="grid gap-2">
+          <Textarea
+            value={block.text}
+            onChange={(e) => onChange({ text: e.target.value })}
+            placeholder="Dear {{customerName}}, ..."
+            className="min-h-[100px] text-sm"
+          />
+          <Select value={block.align} onValueChange={(align) => onChange({ align: align as 'left' | 'center' })}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="left">Align left</SelectItem>
+              <SelectItem value="center">Centre</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      );
+    case 'button':
+      return (
+        <div className="grid grid-cols-3 gap-2">
+          <Field label="Label">
+            <Input value={block.label} onChange={(e) => onChange({ label: e.target.value })} />
+          </Field>
+          <Field label="Link">
+            <Input value={block.url} onChange={(e) => onChange({ url: e.target.value })} placeholder="{{trackingLink}}" />
+          </Field>
+          <Field label="Colour">
+            <Input value={block.color} onChange={(e) => onChange({ color: e.target.value })} placeholder="#2563eb" />
+          </Field>
+        </div>
+      );
+    case 'order_items':
+      return (
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`${block.id}-total`}
+            checked={block.showTotal}
+            onCheckedChange={(showTotal) => onChange({ showTotal })}
+          />
+          <Label htmlFor={`${block.id}-total`} className="text-sm">Show order total</Label>
+          <span className="text-xs text-muted-foreground">Lists each product of the order the email is sent for.</span>
+        </div>
+      );
+    case 'product_grid': {
+      const setProduct = (index: number, patch: Partial<EmailGridProduct>) =>
+        onChange({ products: block.products.map((product, i) => (i === index ? { ...product, ...patch } : product)) });
+      return (
+        <div className="grid gap-2">
+          {block.products.map((product, index) => (
+            <div key={index} className="grid grid-cols-[1fr_6rem_1fr_1fr_auto] gap-2">
+              <Input value={product.name} onChange={(e) => setProduct(index, { name: e.target.value })} placeholder="Name" />
+              <Input value={product.price} onChange={(e) => setProduct(index, { price: e.target.value })} placeholder="Price" />
+              <Input value={product.imageUrl} onChange={(e) => setProduct(index, { imageUrl: e.target.value })} placeholder="Image URL" />
+              <Input value={product.url} onChange={(e) => setProduct(index, { url: e.target.value })} placeholder="Product link" />
+              <Button
+                variant="ghost"
+                size="icon"
+                type="button"
+                onClick={() => onChange({ products: block.products.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            type="button"
+            className="w-fit"
+            onClick={() => onChange({ products: [...block.products, EMPTY_PRODUCT] })}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add product
+          </Button>
+        </div>
+      );
+    }
+    case 'footer':
+      return (
+        <Textarea value={block.text} onChange={(e) => onChange({ text: e.target.value })} className="min-h-[60px] text-sm" />
+      );
+    case 'divider':
+      return null;
+  }
+}
+
+// Blocks of an email template, in the order they appear in the email
+export function EmailBlockEditor({ blocks, onChange }: EmailBlockEditorProps) {
+  const update = (id: string, patch: Partial<EmailBlock>) =>
+    onChange(blocks.map(block => (block.id === id ? { ...block, ...patch } as EmailBlock : block)));
+
+  const move = (index: number, offset: number) => {
+    const next = [...blocks];
+    const [block] = next.splice(index, 1);
+    next.splice(index + offset, 0, block);
+    onChange(next);
+  };
+
+  return (
+    <div className="grid gap-2">
+      {blocks.length === 0 && (
+        <p className="rounded-md border border-dashed p-4 text-center text-sm text-muted-foreground">
+          No blocks yet. Add one to start the email.
+        </p>
+      )}
+      {blocks.map((block, index) => (
+        <div key={block.id} className="rounded-md border p-3">
+          <div className="mb-2 flex items-center justify-between">
+            <span className="text-sm font-medium">{EMAIL_BLOCK_LABELS[block.type]}</span>
+            <div className="flex">
+              <Button variant="ghost" size="icon" type="button" disabled={index === 0} onClick={() => move(index, -1)}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" type="button" disabled={index === blocks.length - 1} onClick={() => move(index, 1)}>
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" type="button" onClick={() => onChange(blocks.filter(b => b.id !== block.id))}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <BlockFields block={block} onChange={(patch) => update(block.id, patch)} />
+        </div>
+      ))}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" type="button" className="w-fit">
+            <Plus className="mr-1 h-4 w-4" />
+            Add block
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {(Object.keys(EMAIL_BLOCK_LABELS) as EmailBlockType[]).map(type => (
+            <DropdownMenuItem key={type} onSelect={() => onChange([...blocks, createEmailBlock(type)])}>
+              {EMAIL_BLOCK_LABELS[type]}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
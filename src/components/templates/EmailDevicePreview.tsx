@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Monitor, Smartphone } from 'lucide-react';
+
+type Device = 'desktop' | 'mobile';
+
+// Widths of a typical desktop mail client's reading pane and of a phone screen
+const DEVICE_WIDTHS: Record<Device, number> = { desktop: 680, mobile: 375 };
+
+// An email's HTML as a desktop or phone mail client would lay it out, placeholders unfilled
+export function EmailDevicePreview({ html }: { html: string }) {
+  const [device, setDevice] = useState<Device>('desktop');
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Layout preview</Label>
+        <ToggleGroup type="single" size="sm" value={device} onValueChange={(value) => value && setDevice(value as Device)}>
+          <ToggleGroupItem value="desktop" aria-label="Desktop">
+            <Monitor className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="mobile" aria-label="Mobile">
+            <Smartphone className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+      <div className="overflow-x-auto rounded-md border bg-muted p-2">
+        {/* No scripts, and links don't navigate the admin app */}
+        <iframe
+          title="Email preview"
+          srcDoc={html}
+          sandbox=""
+          className="mx-auto block h-[480px] rounded bg-white"
+          style={{ width: DEVICE_WIDTHS[device] }}
+        />
+      </div>
+    </div>
+  );
+}
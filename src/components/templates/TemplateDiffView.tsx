@@ -0,0 +1,60 @@
+import { useMemo } from 'react';
+import { DiffLine, diffLines, sideBySide } from '@/lib/templateVersions';
+import { cn } from '@/lib/utils';
+
+interface TemplateDiffViewProps {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  same: '',
+  removed: 'bg-red-50 text-red-800',
+  added: 'bg-green-50 text-green-800',
+};
+
+function DiffCell({ line, side }: { line?: DiffLine; side: 'left' | 'right' }) {
+  const number = side === 'left' ? line?.oldNumber : line?.newNumber;
+  return (
+    <>
+      <td className={cn('select-none border-r px-1 text-right align-top text-muted-foreground', side === 'right' && 'border-l')}>{number}</td>
+      <td className={cn('whitespace-pre-wrap break-words px-2 align-top', line ? LINE_STYLES[line.type] : 'bg-muted/50')}>
+        {line?.text || (line ? ' ' : '')}
+      </td>
+    </>
+  );
+}
+
+// Two texts side by side, removed lines on the left and their replacements on the right
+export function TemplateDiffView({ before, after, beforeLabel, afterLabel }: TemplateDiffViewProps) {
+  const rows = useMemo(() => sideBySide(diffLines(before, after)), [before, after]);
+
+  return (
+    <div className="overflow-hidden rounded-md border">
+      <table className="w-full table-fixed font-mono text-xs">
+        <colgroup>
+          <col className="w-8" />
+          <col />
+          <col className="w-8" />
+          <col />
+        </colgroup>
+        <thead>
+          <tr className="border-b bg-muted text-left">
+            <th colSpan={2} className="px-2 py-1 font-medium">{beforeLabel}</th>
+            <th colSpan={2} className="border-l px-2 py-1 font-medium">{afterLabel}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index} className="border-b last:border-b-0">
+              <DiffCell line={row.left} side="left" />
+              <DiffCell line={row.right} side="right" />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
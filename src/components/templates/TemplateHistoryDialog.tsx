@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { TemplateDiffView } from '@/components/templates/TemplateDiffView';
+import { useTemplateVersions } from '@/hooks/useTemplateVersions';
+import { cn, formatDate } from '@/lib/utils';
+import { TemplateChannel, TemplateVersion } from '@/types/schema';
+
+interface TemplateHistoryDialogProps {
+  channel: TemplateChannel;
+  // The template as it is saved now
+  template: { id: string; name: string; content: string; subject?: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onRestore?: (version: TemplateVersion) => Promise<unknown>;
+}
+
+const withSubject = (subject: string | undefined, content: string) =>
+  subject !== undefined ? `Subject: ${subject}\n\n${content}` : content;
+
+/**
+ * Every saved version of a template. Picking one shows what that save changed next to the
+ * version before it; restoring saves its text again as a new version.
+ */
+export function TemplateHistoryDialog({ channel, template, onOpenChange, onRestore }: TemplateHistoryDialogProps) {
+  const { versions, isLoading, error } = useTemplateVersions(channel, template?.id);
+  const [selectedId, setSelectedId] = useState<string>();
+  const [restoring, setRestoring] = useState(false);
+
+  // Start on the latest version whenever the dialog opens for another template
+  useEffect(() => {
+    setSelectedId(undefined);
+  }, [template?.id]);
+
+  const selectedIndex = Math.max(versions.findIndex(version => version.id === selectedId), 0);
+  const selected = versions[selectedIndex];
+  // Versions are newest first, so the one before it is next in the list
+  const previous = versions[selectedIndex + 1];
+  const isCurrent = !!selected && !!template
+    && selected.content === template.content
+    && (channel !== 'email' || (selected.subject || '') === (template.subject || ''));
+
+  const handleRestore = async () => {
+    if (!selected || !onRestore) return;
+    setRestoring(true);
+    try {
+      await onRestore(selected);
+      setSelectedId(undefined);
+    } catch (error) {
+      // The caller has already reported it
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const text = (version?: TemplateVersion) =>
+    version ? withSubject(channel === 'email' ? version.subject || '' : undefined, version.content) : '';
+
+  return (
+    <Dialog open={!!template} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle>History of {template?.name}</DialogTitle>
+          <DialogDescription>Each save of the template's text is kept as a version.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-6 text-center">Loading versions...</div>
+        ) : error ? (
+          <div className="py-6 text-center text-destructive">Error loading versions: {error.message}</div>
+        ) : versions.length === 0 ? (
+          <div className="py-6 text-center text-muted-foreground">
+            No versions yet. One is kept from the next time this template is saved.
+          </div>
+        ) : (
+          <div className="grid min-h-0 gap-4 md:grid-cols-[14rem_1fr]">
+            <ScrollArea className="h-[60vh] rounded-md border">
+              {versions.map(version => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => setSelectedId(version.id)}
+                  className={cn(
+                    'flex w-full flex-col gap-0.5 border-b p-2 text-left text-sm hover:bg-muted',
+                    version.id === selected?.id && 'bg-muted'
+                  )}
+                >
+                  <span className="font-medium">Version {version.version}</span>
+                  <span className="text-xs text-muted-foreground">{version.author} · {formatDate(version.created)}</span>
+                  <span className="text-xs">{version.summary}</span>
+                </button>
+              ))}
+            </ScrollArea>
+
+            {selected && (
+              <div className="flex min-h-0 flex-col gap-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    Version {selected.version}
+                    {isCurrent && <Badge variant="secondary">Current</Badge>}
+                    {!!selected.restored_from && <Badge variant="outline">Restored from {selected.restored_from}</Badge>}
+                  </div>
+                  {onRestore && !isCurrent && (
+                    <Button size="sm" onClick={handleRestore} disabled={restoring}>
+                      {restoring ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                      Restore this version
+                    </Button>
+                  )}
+                </div>
+                <ScrollArea className="h-[55vh]">
+                  <TemplateDiffView
+                    before={text(previous)}
+                    after={text(selected)}
+                    beforeLabel={previous ? `Version ${previous.version}` : 'Empty'}
+                    afterLabel={`Version ${selected.version}`}
+                  />
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+import { useMemo, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle } from 'lucide-react';
+import { usePreviewOrder } from '@/hooks/useTemplateVersions';
+import { useStoreSettings } from '@/hooks/useStoreSettings';
+import { PreviewSegment, previewContext, renderPreviewSegments, unresolvedPlaceholders } from '@/lib/templatePreview';
+import { cn, formatDate } from '@/lib/utils';
+import { TemplateChannel } from '@/types/schema';
+
+interface TemplateOrderPreviewProps {
+  channel: TemplateChannel;
+  content: string;
+  subject?: string;
+}
+
+function PreviewText({ segments }: { segments: PreviewSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) => segment.unresolved ? (
+        <mark key={index} className="rounded bg-amber-200 px-0.5 text-amber-900" title="No value for this order">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      ))}
+    </>
+  );
+}
+
+// The template as a chosen order would receive it, with placeholders that have no value marked
+export function TemplateOrderPreview({ channel, content, subject }: TemplateOrderPreviewProps) {
+  const [orderId, setOrderId] = useState<string>();
+  const { orders, order } = usePreviewOrder(orderId);
+  const { settings } = useStoreSettings();
+
+  const context = useMemo(
+    () => (order ? previewContext(order, settings) : {}),
+    [order, settings]
+  );
+  const { bodySegments, subjectSegments, error } = useMemo(() => {
+    try {
+      return {
+        bodySegments: renderPreviewSegments(content, context),
+        subjectSegments: renderPreviewSegments(subject || '', context),
+      };
+    } catch (err) {
+      // The template is mid-edit and doesn't parse yet
+      return { bodySegments: [], subjectSegments: [], error: (err as Error).message };
+    }
+  }, [content, subject, context]);
+  const unresolved = unresolvedPlaceholders([...subjectSegments, ...bodySegments]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label>Preview with order</Label>
+        <Select value={orderId} onValueChange={setOrderId}>
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder="Choose an order" />
+          </SelectTrigger>
+          <SelectContent>
+            {orders.map(option => (
+              <SelectItem key={option.id} value={option.id}>
+                #{option.id.slice(0, 8)} · {option.customer_name} · {formatDate(option.created)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!order ? (
+        <p className="text-sm text-muted-foreground">Choose an order to see the message its customer would get.</p>
+      ) : error ? (
+        <p className="flex items-start gap-1 text-sm text-destructive">
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+          {error}
+        </p>
+      ) : (
+        <>
+          {channel === 'email' && subject !== undefined && (
+            <div className="text-sm">
+              <span className="font-medium">Subject: </span>
+              <PreviewText segments={subjectSegments} />
+            </div>
+          )}
+          <div
+            className={cn(
+              'whitespace-pre-wrap rounded-md p-3 text-sm',
+              channel === 'whatsapp' ? 'bg-[#005c4b] text-white' : 'border bg-background'
+            )}
+          >
+            <PreviewText segments={bodySegments} />
+          </div>
+          {unresolved.length > 0 && (
+            <p className="flex items-start gap-1 text-sm text-amber-700">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+              Not filled for this order: {unresolved.map(name => `{{${name}}}`).join(', ')}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
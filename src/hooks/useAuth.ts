@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getSessionUser, sessionStore, SessionUser } from '@/lib/auth';
+import { hasPermission, Permission } from '@/lib/permissions';
+
+export function useAuth() {
+  const [user, setUser] = useState<SessionUser | null>(() => getSessionUser());
+
+  // Keep in sync with logins/logouts, including those from other tabs
+  useEffect(() => {
+    const unsubscribe = sessionStore.onChange(() => {
+      setUser(getSessionUser());
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(user?.role, permission),
+    [user]
+  );
+
+  return {
+    user,
+    role: user?.role ?? null,
+    isAuthenticated: !!user,
+    can,
+  };
+}
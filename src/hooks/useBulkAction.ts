@@ -0,0 +1,59 @@
+import { useCallback, useState } from 'react';
+
+export interface BulkActionItem {
+  id: string;
+  label: string;
+}
+
+export interface BulkActionResult extends BulkActionItem {
+  status: 'pending' | 'success' | 'failed';
+  error?: string;
+}
+
+// Runs an action over several records one at a time, tracking per-row outcomes.
+// Rows run sequentially so messaging APIs aren't flooded with parallel requests.
+export function useBulkAction() {
+  const [title, setTitle] = useState('');
+  const [results, setResults] = useState<BulkActionResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const run = useCallback(async (
+    actionTitle: string,
+    items: BulkActionItem[],
+    action: (id: string) => Promise<void>
+  ) => {
+    setTitle(actionTitle);
+    setResults(items.map(item => ({ ...item, status: 'pending' })));
+    setIsRunning(true);
+
+    for (const item of items) {
+      try {
+        await action(item.id);
+        setResults(prev => prev.map(result =>
+          result.id === item.id ? { ...result, status: 'success' } : result
+        ));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        setResults(prev => prev.map(result =>
+          result.id === item.id ? { ...result, status: 'failed', error: message } : result
+        ));
+      }
+    }
+
+    setIsRunning(false);
+  }, []);
+
+  const reset = useCallback(() => {
+    setTitle('');
+    setResults([]);
+  }, []);
+
+  return {
+    title,
+    results,
+    isRunning,
+    isOpen: results.length > 0,
+    run,
+    reset,
+  };
+}
@@ -0,0 +1,135 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { Campaign, CampaignData } from '@/types/schema';
+import { CampaignStats, fetchCampaignStats } from '@/lib/campaigns';
+import { cancelCampaign, launchCampaign } from '@/lib/messageQueue';
+import { WhatsAppActivityRecord } from '@/hooks/useWhatsAppActivities';
+import { toast } from 'sonner';
+
+export function useCampaigns() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery<Campaign[]>({
+    queryKey: ['campaigns'],
+    queryFn: async () => {
+      try {
+        await ensureAdminAuth();
+        // Recipient lists can be large and the list doesn't need them
+        const records = await pb.collection('campaigns').getFullList({
+          sort: '-created',
+          fields: 'id,created,updated,name,template_name,audience_type,audience_label,segment_id,send_at,throttle_per_minute,status,queued_count,skipped_count,failed_count,launched_at,launched_by,actor,actor_id',
+        });
+        return records as unknown as Campaign[];
+      } catch (error) {
+        console.error('Error fetching campaigns:', error);
+        throw error;
+      }
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // Delivery counts move while a campaign is sending, so poll them
+  const { data: stats } = useQuery<Record<string, CampaignStats>>({
+    queryKey: ['campaigns', 'stats'],
+    queryFn: fetchCampaignStats,
+    refetchInterval: 30 * 1000,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+    queryClient.invalidateQueries({ queryKey: ['whatsapp_activities'] });
+  };
+
+  const createCampaign = useMutation({
+    mutationFn: async (data: CampaignData) => {
+      try {
+        await ensureAdminAuth();
+        return await pb.collection('campaigns').create({ ...data, status: 'draft' }) as unknown as Campaign;
+      } catch (error) {
+        console.error('Error creating campaign:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to save campaign: ' + error.message);
+    },
+  });
+
+  const deleteCampaign = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        await ensureAdminAuth();
+        await pb.collection('campaigns').delete(id);
+      } catch (error) {
+        console.error('Error deleting campaign:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+      toast.success('Campaign deleted');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to delete campaign: ' + error.message);
+    },
+  });
+
+  const launch = useMutation({
+    mutationFn: launchCampaign,
+    onSuccess: (result) => {
+      invalidate();
+      toast.success(`${result.queued} messages scheduled` + (result.skipped ? `, ${result.skipped} skipped` : '') + (result.failed ? `, ${result.failed} failed` : ''));
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to launch campaign: ' + error.message);
+    },
+  });
+
+  const cancel = useMutation({
+    mutationFn: cancelCampaign,
+    onSuccess: (result) => {
+      invalidate();
+      toast.success(`Campaign cancelled, ${result.cancelled} unsent messages stopped`);
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to cancel campaign: ' + error.message);
+    },
+  });
+
+  return {
+    campaigns: data ?? [],
+    stats: stats ?? {},
+    isLoading,
+    error,
+    createCampaign,
+    deleteCampaign,
+    launch,
+    cancel,
+  };
+}
+
+// Every message of one campaign, for its delivery report
+export function useCampaignActivities(campaignId?: string) {
+  const { data, isLoading } = useQuery<WhatsAppActivityRecord[]>({
+    queryKey: ['whatsapp_activities', 'campaign', campaignId],
+    queryFn: async () => {
+      try {
+        await ensureAdminAuth();
+        const records = await pb.collection('whatsapp_activities').getFullList({
+          filter: pb.filter('campaign_id = {:campaignId}', { campaignId }),
+          sort: '-timestamp',
+        });
+        return records as unknown as WhatsAppActivityRecord[];
+      } catch (error) {
+        console.error('Error fetching campaign activities:', error);
+        throw error;
+      }
+    },
+    enabled: !!campaignId,
+  });
+
+  return { activities: data ?? [], isLoading };
+}
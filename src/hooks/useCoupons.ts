@@ -0,0 +1,101 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { Coupon, CreateCouponData, UpdateCouponData } from '@/types/schema';
+import { CouponUsage, fetchCouponUsage, normalizeCouponCode } from '@/lib/coupons';
+import { toast } from 'sonner';
+
+function prepareCouponData<T extends UpdateCouponData>(data: T): T {
+  return data.code === undefined ? data : { ...data, code: normalizeCouponCode(data.code) };
+}
+
+export function useCoupons() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery<Coupon[]>({
+    queryKey: ['coupons'],
+    queryFn: async () => {
+      try {
+        await ensureAdminAuth();
+        const records = await pb.collection('coupons').getFullList({ sort: '-created' });
+        return records as unknown as Coupon[];
+      } catch (error) {
+        console.error('Error fetching coupons:', error);
+        throw error;
+      }
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const { data: usage } = useQuery<Record<string, CouponUsage>>({
+    queryKey: ['coupons', 'usage'],
+    queryFn: fetchCouponUsage,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const createCoupon = useMutation({
+    mutationFn: async (data: CreateCouponData) => {
+      try {
+        await ensureAdminAuth();
+        return await pb.collection('coupons').create({ ...prepareCouponData(data), used_count: 0 });
+      } catch (error) {
+        console.error('Error creating coupon:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['coupons'] });
+      toast.success('Coupon created successfully');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to create coupon: ' + error.message);
+    },
+  });
+
+  const updateCoupon = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateCouponData }) => {
+      try {
+        await ensureAdminAuth();
+        return await pb.collection('coupons').update(id, prepareCouponData(data));
+      } catch (error) {
+        console.error('Error updating coupon:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['coupons'] });
+      toast.success('Coupon updated successfully');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to update coupon: ' + error.message);
+    },
+  });
+
+  const deleteCoupon = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        await ensureAdminAuth();
+        await pb.collection('coupons').delete(id);
+      } catch (error) {
+        console.error('Error deleting coupon:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['coupons'] });
+      toast.success('Coupon deleted successfully');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to delete coupon: ' + error.message);
+    },
+  });
+
+  return {
+    coupons: data ?? [],
+    usage: usage ?? {},
+    isLoading,
+    error,
+    createCoupon,
+    updateCoupon,
+    deleteCoupon,
+  };
+}
@@ -0,0 +1,82 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  CustomerCandidate,
+  DuplicateGroup,
+  MergeSelection,
+  fetchCustomerMerges,
+  fetchDuplicateGroups,
+  mergeCustomers,
+  undoCustomerMerge,
+} from '@/lib/customerMerge';
+import { CustomerMerge } from '@/types/schema';
+
+export function useCustomerMerges() {
+  const queryClient = useQueryClient();
+
+  const duplicates = useQuery<DuplicateGroup[]>({
+    queryKey: ['customer_duplicates'],
+    queryFn: async () => {
+      try {
+        return await fetchDuplicateGroups();
+      } catch (error) {
+        console.error('Error finding duplicate customers:', error);
+        throw error;
+      }
+    },
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  const history = useQuery<CustomerMerge[]>({
+    queryKey: ['customer_merges'],
+    queryFn: fetchCustomerMerges,
+    retry: 0, // Don't retry if the collection doesn't exist
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['customer_duplicates'] });
+    queryClient.invalidateQueries({ queryKey: ['customer_merges'] });
+    queryClient.invalidateQueries({ queryKey: ['customer_profile'] });
+    queryClient.invalidateQueries({ queryKey: ['users'] });
+    queryClient.invalidateQueries({ queryKey: ['orders'] });
+  };
+
+  const merge = useMutation({
+    mutationFn: ({ candidates, selection }: { candidates: CustomerCandidate[]; selection: MergeSelection }) =>
+      mergeCustomers(candidates, selection),
+    onSuccess: (record) => {
+      invalidate();
+      toast.success(`Merged ${record.merged.length} customers into ${record.name}`);
+    },
+    onError: (error: Error) => {
+      console.error('Error merging customers:', error);
+      toast.error('Failed to merge customers: ' + error.message);
+    },
+  });
+
+  const undo = useMutation({
+    mutationFn: (record: CustomerMerge) => undoCustomerMerge(record),
+    onSuccess: ({ skipped }) => {
+      invalidate();
+      if (skipped.length > 0) {
+        console.warn('Fields left as edited after the merge:', skipped);
+        toast.warning(`Merge undone; ${skipped.length} field${skipped.length === 1 ? ' was' : 's were'} edited since the merge and kept their newer values`);
+      } else {
+        toast.success('Merge undone');
+      }
+    },
+    onError: (error: Error) => {
+      console.error('Error undoing customer merge:', error);
+      toast.error('Failed to undo merge: ' + error.message);
+    },
+  });
+
+  return {
+    groups: duplicates.data ?? [],
+    isLoading: duplicates.isLoading,
+    error: duplicates.error,
+    merges: history.data ?? [],
+    merge,
+    undo,
+  };
+}
@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { CustomerProfile, fetchCustomerProfile } from '@/lib/customers';
+
+export function useCustomerProfile(userId?: string) {
+  const { data, isLoading, error } = useQuery<CustomerProfile>({
+    queryKey: ['customer_profile', userId],
+    queryFn: async () => {
+      try {
+        return await fetchCustomerProfile(userId!);
+      } catch (error) {
+        console.error('Error fetching customer profile:', error);
+        throw error;
+      }
+    },
+    enabled: !!userId,
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  return {
+    profile: data,
+    isLoading,
+    error,
+  };
+}
@@ -1,13 +1,24 @@
 import { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { pb } from '@/lib/pocketbase';
 import { EmailTemplate } from '@/lib/email';
+import { recordTemplateVersion } from '@/lib/templateVersions';
+import { checkTemplateSyntax } from '@/lib/templateEngine';
+import { compileEmailBlocks } from '@/lib/emailBlocks';
+import { useAuth } from '@/hooks/useAuth';
+import { EmailBlock, TemplateVersion } from '@/types/schema';
 import { toast } from 'sonner';
 
 export interface EmailTemplateType {
   id: string;
   name: string;
   subject: string;
+  // HTML; compiled from `blocks` for templates built in the block editor
   content: string;
+  // Block editor layout; empty for templates written as raw HTML or text
+  blocks?: EmailBlock[] | null;
+  // Plain-text alternative compiled from `blocks`
+  text_content?: string;
   requiresAdditionalInfo: boolean;
   additionalInfoLabel?: string;
   additionalInfoPlaceholder?: string;
@@ -17,24 +28,41 @@ export interface EmailTemplateType {
   updated?: string;
 }
 
+type EmailTemplateData = Partial<Omit<EmailTemplateType, 'id' | 'created' | 'updated'>>;
+
+// Block templates are saved with their compiled HTML and text, so everything that sends
+// `content` works the same for them as for raw HTML templates
+function withCompiledBlocks<T extends EmailTemplateData>(template: T): T {
+  if (template.blocks === undefined) return template;
+  if (!template.blocks || template.blocks.length === 0) {
+    return { ...template, blocks: null, text_content: '' };
+  }
+  const { html, text } = compileEmailBlocks(template.blocks);
+  return { ...template, content: html, text_content: text };
+}
+
 export function useEmailTemplates() {
   const [templates, setTemplates] = useState<EmailTemplateType[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<Error | null>(null);
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  // The template is already saved when this runs, so a failure here doesn't fail the save
+  const saveVersion = async (saved: EmailTemplateType, previous: EmailTemplateType | null, restoredFrom?: number) => {
+    try {
+      await recordTemplateVersion('email', saved, previous, user, restoredFrom);
+      queryClient.invalidateQueries({ queryKey: ['template_versions', 'email', saved.id] });
+    } catch (err) {
+      console.error('Error recording email template version:', err);
+      toast.error('Template saved, but its version history could not be updated: ' + (err as Error).message);
+    }
+  };
 
   const fetchTemplates = async () => {
     setIsLoading(true);
     try {
-      // Check if collection exists
-      const collections = await pb.collections.getFullList();
-      const templateCollectionExists = collections.some(c => c.name === 'email_templates');
-      
-      // If collection doesn't exist, create default templates from enum
-      if (!templateCollectionExists) {
-        await createDefaultTemplates();
-        return;
-      }
-      
+      // A missing collection surfaces as a 404 below; listing collections needs a superuser
       const records = await pb.collection('email_templates').getFullList({
         sort: 'name',
       });
@@ -46,7 +74,7 @@ export function useEmailTemplates() {
       setError(err as Error);
       
       // If collection doesn't exist, create default templates
-      if ((err as Error).message.includes('404') || (err as Error).message.includes('not found')) {
+      if ((err as { status?: number }).status === 404 || (err as Error).message.includes('not found')) {
         await createDefaultTemplates();
       }
     } finally {
@@ -101,6 +129,14 @@ export function useEmailTemplates() {
               name: 'description',
               type: 'text',
             },
+            {
+              name: 'blocks',
+              type: 'json',
+            },
+            {
+              name: 'text_content',
+              type: 'text',
+            },
           ],
         });
         console.log('Created email_templates collection');
@@ -328,7 +364,12 @@ Happy shopping!`,
 
   const createTemplate = async (template: Omit<EmailTemplateType, 'id' | 'created' | 'updated'>) => {
     try {
-      const record = await pb.collection('email_templates').create(template);
+      const data = withCompiledBlocks(template);
+      checkTemplateSyntax(data.subject);
+      checkTemplateSyntax(data.content);
+      checkTemplateSyntax(data.text_content || '');
+      const record = await pb.collection('email_templates').create(data);
+      await saveVersion(record as unknown as EmailTemplateType, null);
       await fetchTemplates();
       return record;
     } catch (err) {
@@ -337,9 +378,20 @@ Happy shopping!`,
     }
   };
 
-  const updateTemplate = async (id: string, template: Partial<Omit<EmailTemplateType, 'id' | 'created' | 'updated'>>) => {
+  const updateTemplate = async (
+    id: string,
+    template: EmailTemplateData,
+    restoredFrom?: number
+  ) => {
     try {
-      const record = await pb.collection('email_templates').update(id, template);
+      const data = withCompiledBlocks(template);
+      // A template the engine can't parse would fail every send, so it isn't saved
+      if (data.subject !== undefined) checkTemplateSyntax(data.subject);
+      if (data.content !== undefined) checkTemplateSyntax(data.content);
+      if (data.text_content) checkTemplateSyntax(data.text_content);
+      const previous = templates.find(t => t.id === id) || null;
+      const record = await pb.collection('email_templates').update(id, data);
+      await saveVersion(record as unknown as EmailTemplateType, previous, restoredFrom);
       await fetchTemplates();
       return record;
     } catch (err) {
@@ -348,6 +400,15 @@ Happy shopping!`,
     }
   };
 
+  // Rolling back is a save of the old text, so it is itself a version that can be undone
+  const restoreVersion = async (version: TemplateVersion) => {
+    return updateTemplate(
+      version.template_id,
+      { subject: version.subject || '', content: version.content, blocks: version.blocks || null },
+      version.version
+    );
+  };
+
   const deleteTemplate = async (id: string) => {
     try {
       await pb.collection('email_templates').delete(id);
@@ -369,6 +430,7 @@ Happy shopping!`,
     createTemplate,
     updateTemplate,
     deleteTemplate,
+    restoreVersion,
     fetchTemplates,
   };
 }
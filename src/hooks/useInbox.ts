@@ -0,0 +1,120 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { Agent, InboxReply, ThreadEntry, fetchAgents, fetchThread, sendInboxReply } from '@/lib/inbox';
+import { WhatsAppConversation } from '@/types/schema';
+import { toast } from 'sonner';
+
+// New messages arrive through the webhook, so the inbox polls for them
+const INBOX_POLL_MS = 15 * 1000;
+
+export function useInbox() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery<WhatsAppConversation[]>({
+    queryKey: ['whatsapp_conversations'],
+    queryFn: async () => {
+      try {
+        await ensureAdminAuth();
+        const records = await pb.collection('whatsapp_conversations').getFullList({ sort: '-last_message_at' });
+        return records as unknown as WhatsAppConversation[];
+      } catch (error) {
+        console.error('Error fetching conversations:', error);
+        throw error;
+      }
+    },
+    refetchInterval: INBOX_POLL_MS,
+    retry: 0, // Don't retry if the collection doesn't exist
+  });
+
+  const { data: agents } = useQuery<Agent[]>({
+    queryKey: ['inbox_agents'],
+    queryFn: fetchAgents,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['whatsapp_conversations'] });
+  };
+
+  const markRead = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        await ensureAdminAuth();
+        await pb.collection('whatsapp_conversations').update(id, { unread_count: 0 });
+      } catch (error) {
+        console.error('Error marking conversation read:', error);
+        throw error;
+      }
+    },
+    onSuccess: invalidate,
+  });
+
+  const assign = useMutation({
+    mutationFn: async ({ id, agent }: { id: string; agent: Agent | null }) => {
+      try {
+        await ensureAdminAuth();
+        await pb.collection('whatsapp_conversations').update(id, {
+          assigned_to: agent?.id || '',
+          assigned_name: agent?.name || '',
+        });
+      } catch (error) {
+        console.error('Error assigning conversation:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, { agent }) => {
+      invalidate();
+      toast.success(agent ? `Assigned to ${agent.name}` : 'Conversation unassigned');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to assign conversation: ' + error.message);
+    },
+  });
+
+  const reply = useMutation({
+    mutationFn: async (data: InboxReply) => {
+      try {
+        return await sendInboxReply(data);
+      } catch (error) {
+        console.error('Error sending reply:', error);
+        throw error;
+      }
+    },
+    onSuccess: (message) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['whatsapp_messages', message.conversation_id] });
+      queryClient.invalidateQueries({ queryKey: ['whatsapp_activities'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to send reply: ' + error.message);
+    },
+  });
+
+  return {
+    conversations: data ?? [],
+    agents: agents ?? [],
+    isLoading,
+    error,
+    markRead,
+    assign,
+    reply,
+  };
+}
+
+export function useConversationThread(conversation: WhatsAppConversation | null) {
+  const { data, isLoading } = useQuery<ThreadEntry[]>({
+    queryKey: ['whatsapp_messages', conversation?.id],
+    queryFn: async () => {
+      try {
+        return await fetchThread(conversation!);
+      } catch (error) {
+        console.error('Error fetching conversation:', error);
+        throw error;
+      }
+    },
+    enabled: !!conversation,
+    refetchInterval: INBOX_POLL_MS,
+  });
+
+  return { entries: data ?? [], isLoading };
+}
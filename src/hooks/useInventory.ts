@@ -0,0 +1,57 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { InventoryMovement, Product } from '@/types/schema';
+import { MovementInput, fetchLowStockProducts, fetchMovements, recordMovement } from '@/lib/inventory';
+
+export function useInventoryMovements(productId?: string) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery<InventoryMovement[]>({
+    queryKey: ['inventory_movements', productId],
+    queryFn: () => fetchMovements(productId!),
+    enabled: !!productId,
+  });
+
+  // Restocks and manual adjustments from the stock dialog
+  const adjustStock = useMutation({
+    mutationFn: async (input: MovementInput) => {
+      try {
+        return await recordMovement(input);
+      } catch (error) {
+        console.error('Error adjusting stock:', error);
+        throw error;
+      }
+    },
+    onSuccess: (movement) => {
+      queryClient.invalidateQueries({ queryKey: ['inventory_movements', movement.product_id] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['low_stock_products'] });
+      toast.success(`Stock updated to ${movement.stock_after}`);
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to update stock: ' + error.message);
+    },
+  });
+
+  return {
+    movements: data || [],
+    isLoading,
+    error,
+    adjustStock,
+  };
+}
+
+export function useLowStockProducts(enabled = true) {
+  const { data, isLoading, error } = useQuery<Product[]>({
+    queryKey: ['low_stock_products'],
+    queryFn: fetchLowStockProducts,
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  return {
+    products: data || [],
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,46 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { cancelQueuedMessage, retryQueuedMessage } from '@/lib/messageQueue';
+import { MessageQueueChannel } from '@/types/schema';
+
+interface QueuedMessageRef {
+  channel: MessageQueueChannel;
+  queueId: string;
+}
+
+// Retry and cancel actions for messages sent through the outbound queue
+export function useMessageQueueActions() {
+  const queryClient = useQueryClient();
+
+  const invalidateActivities = () => {
+    queryClient.invalidateQueries({ queryKey: ['whatsapp_activities'] });
+    queryClient.invalidateQueries({ queryKey: ['email_activities'] });
+  };
+
+  const retryMessage = useMutation({
+    mutationFn: ({ channel, queueId }: QueuedMessageRef) => retryQueuedMessage(channel, queueId),
+    onSuccess: () => {
+      invalidateActivities();
+      toast.success('Message queued for another attempt');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to retry message: ' + error.message);
+    },
+  });
+
+  const cancelMessage = useMutation({
+    mutationFn: ({ channel, queueId }: QueuedMessageRef) => cancelQueuedMessage(channel, queueId),
+    onSuccess: () => {
+      invalidateActivities();
+      toast.success('Message cancelled');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to cancel message: ' + error.message);
+    },
+  });
+
+  return {
+    retryMessage,
+    cancelMessage,
+  };
+}
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { NotificationLog } from '@/types/schema';
+
+export function useNotificationLog(orderId?: string) {
+  const { data, isLoading, error } = useQuery<NotificationLog[]>({
+    queryKey: ['notification_log', orderId],
+    queryFn: async () => {
+      try {
+        await ensureAdminAuth();
+        const records = await pb.collection('notification_log').getFullList({
+          filter: pb.filter('order_id = {:orderId}', { orderId }),
+          sort: '-created',
+        });
+        return records as unknown as NotificationLog[];
+      } catch (error) {
+        console.error('Error fetching notification log:', error);
+        throw error;
+      }
+    },
+    enabled: !!orderId,
+    retry: 0, // Don't retry if the collection doesn't exist
+  });
+
+  return {
+    entries: data || [],
+    isLoading,
+    error,
+  };
+}
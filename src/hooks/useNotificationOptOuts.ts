@@ -0,0 +1,72 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { NotificationChannel, NotificationOptOut, OptOutReason } from '@/types/schema';
+import { recordOptOut } from '@/lib/notifications';
+import { useAuth } from '@/hooks/useAuth';
+
+export interface CreateOptOutData {
+  contact: string;
+  channel: NotificationChannel | 'all';
+  reason: OptOutReason;
+  note?: string;
+}
+
+export function useNotificationOptOuts() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const { data, isLoading, error } = useQuery<NotificationOptOut[]>({
+    queryKey: ['notification_opt_outs'],
+    queryFn: async () => {
+      try {
+        await ensureAdminAuth();
+        const records = await pb.collection('notification_opt_outs').getFullList({ sort: '-created' });
+        return records as unknown as NotificationOptOut[];
+      } catch (error) {
+        console.error('Error fetching notification opt-outs:', error);
+        throw error;
+      }
+    },
+    retry: 0,
+  });
+
+  const addOptOut = useMutation({
+    mutationFn: (data: CreateOptOutData) =>
+      recordOptOut(data.channel, data.contact, data.reason, data.note, user?.name),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notification_opt_outs'] });
+      toast.success('Opt-out recorded');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to record opt-out: ' + error.message);
+    },
+  });
+
+  const removeOptOut = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        await ensureAdminAuth();
+        await pb.collection('notification_opt_outs').delete(id);
+      } catch (error) {
+        console.error('Error removing opt-out:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notification_opt_outs'] });
+      toast.success('Customer opted back in');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to remove opt-out: ' + error.message);
+    },
+  });
+
+  return {
+    optOuts: data || [],
+    isLoading,
+    error,
+    addOptOut,
+    removeOptOut,
+  };
+}
@@ -0,0 +1,39 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  OrderFilters,
+  OrderListParams,
+  OrderSort,
+  parseOrderListParams,
+  toOrderSearchParams,
+} from '@/lib/orderFilters';
+
+// Orders list state (page, filters, sort) backed by the URL query string
+export function useOrderListParams() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const params = useMemo(() => parseOrderListParams(searchParams), [searchParams]);
+
+  const update = useCallback((next: Partial<OrderListParams>) => {
+    setSearchParams(toOrderSearchParams({ ...params, ...next }), { replace: true });
+  }, [params, setSearchParams]);
+
+  // Changing filters or sort always returns to the first page
+  const setFilters = useCallback((filters: OrderFilters) => {
+    update({ filters, page: 1 });
+  }, [update]);
+
+  const setSort = useCallback((sort: OrderSort) => {
+    update({ sort, page: 1 });
+  }, [update]);
+
+  const setPage = useCallback((page: number) => {
+    update({ page });
+  }, [update]);
+
+  return {
+    ...params,
+    setFilters,
+    setSort,
+    setPage,
+  };
+}
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { OrderStatusHistory } from '@/types/schema';
+
+export function useOrderStatusHistory(orderId?: string) {
+  const { data, isLoading, error } = useQuery<OrderStatusHistory[]>({
+    queryKey: ['order_status_history', orderId],
+    queryFn: async () => {
+      try {
+        await ensureAdminAuth();
+        const records = await pb.collection('order_status_history').getFullList({
+          filter: `order_id = "${orderId}"`,
+          sort: 'created',
+        });
+        return records as unknown as OrderStatusHistory[];
+      } catch (error) {
+        console.error('Error fetching order status history:', error);
+        throw error;
+      }
+    },
+    enabled: !!orderId,
+    retry: 0, // Don't retry if the collection doesn't exist
+  });
+
+  return {
+    history: data || [],
+    isLoading,
+    error,
+  };
+}
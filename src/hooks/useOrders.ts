@@ -1,16 +1,29 @@
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { pb, ensureAdminAuth } from '@/lib/pocketbase';
-import { Order, Product, UpdateOrderData as SchemaUpdateOrderData } from '@/types/schema';
+import {
+  CreateOrderData as SchemaCreateOrderData,
+  NotificationContext,
+  NotificationEvent,
+  Order,
+  PaymentStatusValue,
+  UpdateOrderData as SchemaUpdateOrderData,
+} from '@/types/schema';
 import { toast } from 'sonner';
+import { assertStatusTransition, recordStatusChange } from '@/lib/orderStatus';
+import { dispatchOrderNotification } from '@/lib/notifications';
+import { InsufficientStockError, findStockShortages, releaseOrderStock, reserveOrderStock } from '@/lib/inventory';
+import { getStoreSettings } from '@/lib/storeSettings';
+import { redeemCoupon, releaseCoupon, validateCoupon } from '@/lib/coupons';
+import { parseOrderProducts } from '@/lib/orderItems';
 import {
-  sendOrderConfirmation,
-  sendPaymentSuccess,
-  sendPaymentFailed,
-  sendOrderShipped,
-  sendOutForDelivery,
-  sendOrderDelivered,
-  sendRefundConfirmation,
-} from '@/lib/whatsapp';
+  OrderFilters,
+  OrderListParams,
+  OrderSort,
+  buildOrderFilter,
+  buildOrderSort,
+  DEFAULT_ORDER_SORT,
+  DEFAULT_ORDERS_PER_PAGE,
+} from '@/lib/orderFilters';
 
 export interface CreateOrderData {
   user_id: string;
@@ -23,21 +36,140 @@ export interface CreateOrderData {
 // Extend the UpdateOrderData interface to include all properties used in this file
 interface UpdateOrderData extends SchemaUpdateOrderData {
   refund_amount?: number;
-  payment_status?: 'pending' | 'paid' | 'failed';
+  payment_status?: PaymentStatusValue;
+}
+
+// Every order matching the filters, used for exports
+export async function fetchAllOrders(filters: OrderFilters, sort: OrderSort = DEFAULT_ORDER_SORT) {
+  try {
+    await ensureAdminAuth();
+    const records = await pb.collection('orders').getFullList({
+      filter: buildOrderFilter(filters),
+      sort: buildOrderSort(sort),
+    });
+    return records as unknown as Order[];
+  } catch (error) {
+    console.error('Error fetching orders for export:', error);
+    throw error;
+  }
 }
 
-export function useOrders() {
+// Update an order and fire the customer notifications for any status or payment change.
+// Shared by the single-order mutation and bulk actions so both behave the same way.
+export async function applyOrderUpdate(id: string, data: UpdateOrderData) {
+  try {
+    await ensureAdminAuth();
+    
+    // Get the current order to compare status changes
+    const currentOrder = await pb.collection('orders').getOne(id);
+    const newStatus = data.status;
+    const currentStatus = currentOrder.status;
+    const paymentStatus = currentOrder.payment_status;
+    
+    // Enforce the status transition table before touching the record
+    if (newStatus && newStatus !== currentStatus) {
+      assertStatusTransition({ ...(currentOrder as unknown as Order), ...data }, newStatus);
+    }
+    
+    // Update the order
+    const record = await pb.collection('orders').update(id, data);
+    
+    if (newStatus && newStatus !== currentStatus) {
+      await recordStatusChange(id, currentStatus, newStatus);
+    }
+    
+    // A cancelled order gives back whatever stock it still holds, and its coupon use
+    if (newStatus === 'cancelled' && currentStatus !== 'cancelled') {
+      await releaseOrderStock(record).catch(err => {
+        console.error('Failed to return stock for cancelled order:', err);
+        toast.error(`Order #${id} was cancelled but its stock could not be returned`);
+      });
+      if (currentOrder.coupon_id) {
+        await releaseCoupon(currentOrder.coupon_id).catch(err => {
+          console.error('Failed to release coupon use for cancelled order:', err);
+        });
+      }
+    }
+    
+    const orderRecord = record as unknown as Order;
+    const notify = (event: NotificationEvent, context: NotificationContext = {}) => {
+      dispatchOrderNotification(event, orderRecord, context)
+        .catch(err => console.error(`Failed to dispatch ${event} notification:`, err));
+    };
+    
+    // Customer notifications for status changes; the dispatcher decides channels and timing
+    if (newStatus && newStatus !== currentStatus) {
+      switch(newStatus) {
+        case 'processing':
+          // If payment is successful, send payment success notification
+          if (paymentStatus === 'paid') {
+            notify('payment_success');
+          }
+          break;
+          
+        case 'shipped':
+          notify('order_shipped', {
+            // Get tracking info from order or use placeholder
+            trackingLink: orderRecord.tracking_link || `${window.location.origin}/track/${orderRecord.id}`,
+            carrier: orderRecord.shipping_carrier || 'Our Delivery Partner',
+          });
+          break;
+          
+        case 'out_for_delivery':
+          notify('out_for_delivery');
+          break;
+          
+        case 'delivered':
+          notify('order_delivered', {
+            feedbackLink: `${window.location.origin}/feedback/${orderRecord.id}`,
+          });
+          break;
+          
+        // Refund confirmations go out when the refund is recorded (src/lib/refunds.ts),
+        // so cancelling an already refunded order doesn't notify twice
+      }
+    }
+    
+    // Handle payment status changes
+    if (data.payment_status && data.payment_status !== paymentStatus) {
+      if (data.payment_status === 'paid') {
+        notify('payment_success');
+      } else if (data.payment_status === 'failed') {
+        notify('payment_failed', {
+          retryUrl: `${window.location.origin}/checkout/retry/${orderRecord.id}`,
+        });
+      }
+    }
+    
+    return record;
+  } catch (error) {
+    console.error('Error updating order:', error);
+    throw error;
+  }
+}
+
+export function useOrders(params: Partial<OrderListParams> = {}) {
   const queryClient = useQueryClient();
+  const {
+    page = 1,
+    perPage = DEFAULT_ORDERS_PER_PAGE,
+    filters = {},
+    sort = DEFAULT_ORDER_SORT,
+  } = params;
 
-  // Fetch all orders
-  const { data, isLoading, error } = useQuery<{ items: Order[], totalItems: number }>({    
-    queryKey: ['orders'],
+  const filterString = buildOrderFilter(filters);
+  const sortString = buildOrderSort(sort);
+
+  // Fetch one page of orders; filtering and sorting happen in PocketBase
+  const { data, isLoading, isFetching, error } = useQuery<{ items: Order[], totalItems: number, totalPages: number }>({    
+    queryKey: ['orders', page, perPage, filterString, sortString],
     queryFn: async () => {
       try {
         await ensureAdminAuth();
-        console.log('Fetching orders...');
-        const records = await pb.collection('orders').getList(1, 100, {
-          sort: '-created',
+        console.log('Fetching orders...', { page, perPage, filter: filterString, sort: sortString });
+        const records = await pb.collection('orders').getList(page, perPage, {
+          sort: sortString,
+          filter: filterString,
           expand: 'user_id,shipping_address,items',
         });
         console.log('Fetched orders:', records);
@@ -45,6 +177,7 @@ export function useOrders() {
         return {
           items: records.items as Order[],
           totalItems: records.totalItems,
+          totalPages: records.totalPages,
         };
       } catch (error) {
         console.error('Error fetching orders:', error);
@@ -52,14 +185,72 @@ export function useOrders() {
       }
     },
     staleTime: 5 * 60 * 1000, // 5 minutes
+    placeholderData: keepPreviousData,
   });
 
   // Create order
   const createOrder = useMutation({
-    mutationFn: async (data: CreateOrderData) => {
+    mutationFn: async ({ allowInsufficientStock, ...data }: SchemaCreateOrderData & { allowInsufficientStock?: boolean }) => {
       try {
         await ensureAdminAuth();
+        const takesStock = data.status !== 'cancelled';
+
+        // Overselling needs an explicit go-ahead from the operator
+        if (takesStock && !allowInsufficientStock) {
+          const shortages = await findStockShortages(data);
+          if (shortages.length > 0) {
+            throw new InsufficientStockError(shortages);
+          }
+        }
+
+        // The coupon may have run out or expired since it was applied in the dialog
+        if (data.coupon_code) {
+          const check = await validateCoupon(data.coupon_code, {
+            items: parseOrderProducts(data),
+            subtotal: data.subtotal,
+            customerEmail: data.customer_email,
+            customerPhone: data.customer_phone,
+          });
+          if (!check.valid) {
+            throw new Error(`Coupon ${data.coupon_code}: ${check.reason}`);
+          }
+          // The discount is whatever the coupon gives now, not what the dialog sent
+          const difference = (Number(data.discount_amount) || 0) - check.discount;
+          const total = Math.max(0, Math.round((data.total + difference) * 100) / 100);
+          data = {
+            ...data,
+            coupon_code: check.coupon.code,
+            coupon_id: check.coupon.id,
+            discount_amount: check.discount,
+            total,
+            totalAmount: total,
+          };
+        }
+
         const record = await pb.collection('orders').create(data);
+        await recordStatusChange(record.id, '', record.status, 'Order created');
+
+        if (data.coupon_id) {
+          try {
+            await redeemCoupon(data.coupon_id);
+          } catch (couponError) {
+            console.error('Error counting coupon use:', couponError);
+          }
+        }
+
+        if (takesStock) {
+          try {
+            const lowStock = await reserveOrderStock(record as unknown as Order);
+            const { stock_alerts } = await getStoreSettings();
+            if (stock_alerts && lowStock.length > 0) {
+              toast.warning(`Running low: ${lowStock.map(product => `${product.name} (${product.stock ?? 0} left)`).join(', ')}`);
+            }
+          } catch (stockError) {
+            console.error('Error reserving stock for order:', stockError);
+            toast.error(`Order #${record.id} was created but stock could not be updated`);
+          }
+        }
+
         return record;
       } catch (error) {
         console.error('Error creating order:', error);
@@ -68,130 +259,33 @@ export function useOrders() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['low_stock_products'] });
+      queryClient.invalidateQueries({ queryKey: ['coupons'] });
       toast.success('Order created successfully');
       
-      // Send WhatsApp order confirmation if customer phone is available
-      try {
-        const order = data as unknown as Order;
-        if (order && order.customer_phone) {
-          // Get order items to include in the confirmation
-          pb.collection('order_items').getList(1, 100, {
-            filter: `order_id="${order.id}"`,
-            expand: 'product_id'
-          }).then(itemsData => {
-            // Create properly typed items array with product information
-            const items = itemsData.items.map(item => {
-              const product = item.expand?.product_id as unknown as Product;
-              return {
-                id: item.id,
-                name: product ? product.name : 'Unknown Product',
-                price: typeof item.price === 'number' ? item.price : parseFloat(item.price as string) || 0,
-                quantity: typeof item.quantity === 'number' ? item.quantity : parseInt(item.quantity as string) || 1,
-                image: product && product.images && product.images.length > 0 ? product.images[0] : undefined
-              };
-            });
-            
-            sendOrderConfirmation(order, items, order.customer_phone)
-              .catch(err => console.error('Failed to send WhatsApp confirmation:', err));
-          });
-        }
-      } catch (whatsappError) {
-        console.error('Error sending WhatsApp notification:', whatsappError);
-        // Don't throw error to prevent disrupting the main flow
-      }
+      // Don't let a notification failure disrupt the main flow
+      dispatchOrderNotification('order_confirmation', data as unknown as Order)
+        .catch(err => console.error('Failed to dispatch order confirmation:', err));
     },
     onError: (error: Error) => {
+      // The caller asks whether to go ahead anyway
+      if (error instanceof InsufficientStockError) return;
       toast.error('Failed to create order: ' + error.message);
     },
   });
 
   // Update order
   const updateOrder = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: UpdateOrderData }) => {
-      try {
-        await ensureAdminAuth();
-        
-        // Get the current order to compare status changes
-        const currentOrder = await pb.collection('orders').getOne(id);
-        const newStatus = data.status;
-        const currentStatus = currentOrder.status;
-        const paymentStatus = currentOrder.payment_status;
-        
-        // Update the order
-        const record = await pb.collection('orders').update(id, data);
-        
-        // Handle WhatsApp notifications based on status changes
-        if (newStatus && newStatus !== currentStatus && record.customer_phone) {
-          const orderRecord = record as unknown as Order;
-          
-          // Different notifications based on new status
-          switch(newStatus) {
-            case 'processing':
-              // If payment is successful, send payment success notification
-              if (paymentStatus === 'paid') {
-                sendPaymentSuccess(orderRecord, orderRecord.customer_phone)
-                  .catch(err => console.error('Failed to send payment success notification:', err));
-              }
-              break;
-              
-            case 'shipped': {
-              // Get tracking info from order or use placeholder
-              const trackingLink = orderRecord.tracking_link || `${window.location.origin}/track/${orderRecord.id}`;
-              const carrier = orderRecord.shipping_carrier || 'Our Delivery Partner';
-              
-              sendOrderShipped(orderRecord, orderRecord.customer_phone, trackingLink, carrier)
-                .catch(err => console.error('Failed to send order shipped notification:', err));
-              break;
-            }
-              
-            case 'out_for_delivery':
-              sendOutForDelivery(orderRecord, orderRecord.customer_phone)
-                .catch(err => console.error('Failed to send out for delivery notification:', err));
-              break;
-              
-            case 'delivered': {
-              const feedbackLink = `${window.location.origin}/feedback/${orderRecord.id}`;
-              
-              sendOrderDelivered(orderRecord, orderRecord.customer_phone, feedbackLink)
-                .catch(err => console.error('Failed to send order delivered notification:', err));
-              break;
-            }
-              
-            case 'cancelled':
-              // If refunded, send refund confirmation
-              if (data.refund_amount || orderRecord.refund_amount) {
-                const refundAmount = data.refund_amount || orderRecord.refund_amount || orderRecord.totalAmount;
-                
-                sendRefundConfirmation(orderRecord, orderRecord.customer_phone, refundAmount)
-                  .catch(err => console.error('Failed to send refund confirmation:', err));
-              }
-              break;
-          }
-        }
-        
-        // Handle payment status changes
-        if (data.payment_status && data.payment_status !== paymentStatus && record.customer_phone) {
-          const orderRecord = record as unknown as Order;
-          
-          if (data.payment_status === 'paid') {
-            sendPaymentSuccess(orderRecord, orderRecord.customer_phone)
-              .catch(err => console.error('Failed to send payment success notification:', err));
-          } else if (data.payment_status === 'failed') {
-            const retryUrl = `${window.location.origin}/checkout/retry/${orderRecord.id}`;
-            
-            sendPaymentFailed(orderRecord, orderRecord.customer_phone, retryUrl)
-              .catch(err => console.error('Failed to send payment failed notification:', err));
-          }
-        }
-        
-        return record;
-      } catch (error) {
-        console.error('Error updating order:', error);
-        throw error;
-      }
-    },
-    onSuccess: () => {
+    mutationFn: ({ id, data }: { id: string; data: UpdateOrderData }) => applyOrderUpdate(id, data),
+    onSuccess: (_, { id, data }) => {
       queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['order_status_history', id] });
+      if (data.status === 'cancelled') {
+        queryClient.invalidateQueries({ queryKey: ['products'] });
+        queryClient.invalidateQueries({ queryKey: ['low_stock_products'] });
+        queryClient.invalidateQueries({ queryKey: ['coupons'] });
+      }
       toast.success('Order updated successfully');
     },
     onError: (error: Error) => {
@@ -204,7 +298,16 @@ export function useOrders() {
     mutationFn: async (id: string) => {
       try {
         await ensureAdminAuth();
+        // Give back the stock and coupon use first; a deleted order can't be cancelled later to return them
+        const order = await pb.collection('orders').getOne(id) as unknown as Order;
+        await releaseOrderStock(order);
         await pb.collection('orders').delete(id);
+        // Cancelled orders already gave their coupon use back
+        if (order.coupon_id && order.status !== 'cancelled') {
+          await releaseCoupon(order.coupon_id).catch(err => {
+            console.error('Failed to release coupon use for deleted order:', err);
+          });
+        }
       } catch (error) {
         console.error('Error deleting order:', error);
         throw error;
@@ -212,6 +315,9 @@ export function useOrders() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['low_stock_products'] });
+      queryClient.invalidateQueries({ queryKey: ['coupons'] });
       toast.success('Order deleted successfully');
     },
     onError: (error: Error) => {
@@ -222,7 +328,9 @@ export function useOrders() {
   return {
     orders: data?.items || [],
     totalItems: data?.totalItems || 0,
+    totalPages: data?.totalPages || 0,
     isLoading,
+    isFetching,
     error,
     createOrder,
     updateOrder,
@@ -0,0 +1,109 @@
+import { useQuery } from '@tanstack/react-query';
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { Product, ProductOption, ProductVariant } from '@/types/schema';
+import { recordMovement, syncProductStock } from '@/lib/inventory';
+import { VariantDraft, cleanOptions, legacyColorsFromOptions, variantLabel } from '@/lib/productVariants';
+
+// Stable fallback so effects that depend on the list don't re-run on every render
+const NO_VARIANTS: ProductVariant[] = [];
+
+export async function fetchProductVariants(productId: string): Promise<ProductVariant[]> {
+  await ensureAdminAuth();
+  const records = await pb.collection('product_variants').getFullList({
+    filter: pb.filter('product_id = {:productId}', { productId }),
+    sort: 'created',
+  });
+  return records as unknown as ProductVariant[];
+}
+
+/**
+ * Save a product's options and variants. Variants whose combination was removed
+ * are deleted, which is refused while they still hold stock. Stock on new variants
+ * is booked through the inventory ledger; existing variants keep theirs.
+ */
+export async function saveProductVariants(product: Pick<Product, 'id'>, options: ProductOption[], drafts: VariantDraft[]) {
+  try {
+    await ensureAdminAuth();
+    const existing = await fetchProductVariants(product.id);
+    const keptIds = new Set(drafts.map(draft => draft.id).filter(Boolean));
+    const removed = existing.filter(variant => !keptIds.has(variant.id));
+
+    const stocked = removed.filter(variant => (Number(variant.stock) || 0) > 0);
+    if (stocked.length > 0) {
+      throw new Error(`Move the stock out of ${stocked.map(variant => variantLabel(variant.options)).join(', ')} before removing it`);
+    }
+
+    const cleaned = cleanOptions(options);
+    const colors = legacyColorsFromOptions(cleaned);
+    await pb.collection('products').update(product.id, { options: cleaned, ...(colors ? { colors } : {}) });
+
+    for (const variant of removed) {
+      await pb.collection('product_variants').delete(variant.id);
+    }
+
+    for (const draft of drafts) {
+      const data = {
+        product_id: product.id,
+        sku: draft.sku.trim(),
+        options: draft.options,
+        price: Number(draft.price) || 0,
+        images: draft.images,
+        active: draft.active,
+      };
+
+      if (draft.id) {
+        await pb.collection('product_variants').update(draft.id, data);
+      } else {
+        const created = await pb.collection('product_variants').create({ ...data, stock: 0 });
+        if (draft.stock > 0) {
+          await recordMovement({
+            productId: product.id,
+            variantId: created.id,
+            type: 'restock',
+            quantity: Math.floor(draft.stock),
+            reason: 'Opening stock',
+          });
+        }
+      }
+    }
+
+    await syncProductStock(product.id);
+  } catch (error) {
+    console.error('Error saving product variants:', error);
+    throw error;
+  }
+}
+
+export function useProductVariants(productId?: string) {
+  const { data, isLoading, error } = useQuery<ProductVariant[]>({
+    queryKey: ['product_variants', productId],
+    queryFn: () => fetchProductVariants(productId!),
+    enabled: !!productId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  return {
+    variants: data || NO_VARIANTS,
+    isLoading,
+    error,
+  };
+}
+
+// Active variants across all products, for picking one on an order
+export function useActiveVariants() {
+  const { data, isLoading, error } = useQuery<ProductVariant[]>({
+    queryKey: ['product_variants', 'active'],
+    queryFn: async () => {
+      await ensureAdminAuth();
+      const records = await pb.collection('product_variants').getFullList({ filter: 'active = true', sort: 'created' });
+      return records as unknown as ProductVariant[];
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  return {
+    variants: data || NO_VARIANTS,
+    isLoading,
+    error,
+  };
+}
@@ -25,6 +25,9 @@ export interface CreateProductData {
   new?: boolean;
   inStock?: boolean;
   review?: number;
+  hsn_code?: string;
+  gst_rate?: number;
+  low_stock_threshold?: number;
 }
 
 // Using a type alias instead of an interface to avoid the lint error
@@ -77,6 +80,29 @@ const DEFAULT_PRODUCTS: Product[] = [
   },
 ];
 
+// Combine a base filter with the products page search box
+export function buildProductFilter(filter = '', searchTerm = '') {
+  if (!searchTerm) return filter;
+  const searchFilter = pb.filter(
+    'name ~ {:term} || description ~ {:term} || category ~ {:term}',
+    { term: searchTerm }
+  );
+  return filter ? `(${filter}) && (${searchFilter})` : searchFilter;
+}
+
+// Every product matching the search, used for exports
+export async function fetchAllProducts(searchTerm = '') {
+  try {
+    await ensureAdminAuth();
+    const filter = buildProductFilter('', searchTerm);
+    const records = await pb.collection('products').getFullList(filter ? { filter } : {});
+    return records as unknown as Product[];
+  } catch (error) {
+    console.error('Error fetching products for export:', error);
+    throw error;
+  }
+}
+
 export function useProducts(params: ProductsQueryParams = {}) {
   const queryClient = useQueryClient();
   const {
@@ -87,12 +113,7 @@ export function useProducts(params: ProductsQueryParams = {}) {
     searchTerm = '',
   } = params;
 
-  // Construct filter string
-  let filterString = filter;
-  if (searchTerm) {
-    const searchFilter = `name ~ "${searchTerm}" || description ~ "${searchTerm}" || category ~ "${searchTerm}"`;
-    filterString = filterString ? `(${filterString}) && (${searchFilter})` : searchFilter;
-  }
+  const filterString = buildProductFilter(filter, searchTerm);
 
   // Fetch all products
   const { data, isLoading, error, refetch } = useQuery<{ items: Product[], totalItems: number, totalPages: number }>({    
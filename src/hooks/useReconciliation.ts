@@ -0,0 +1,104 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import {
+  Order,
+  PaymentDiscrepancyResolution,
+  RazorpayOrder,
+  RazorpaySettlement,
+} from '@/types/schema';
+import { Discrepancy, buildReconciliation } from '@/lib/reconciliation';
+import { useAuth } from '@/hooks/useAuth';
+
+// Only orders that were paid or went through Razorpay can take part in reconciliation
+const RECONCILED_ORDERS_FILTER = 'payment_status = "paid" || payment_status = "partially_refunded" || payment_status = "refunded" || razorpay_order_id != "" || razorpay_payment_id != ""';
+
+export async function fetchReconciliation(): Promise<Discrepancy[]> {
+  try {
+    await ensureAdminAuth();
+    const [orders, razorpayOrders, settlements, resolutions] = await Promise.all([
+      pb.collection('orders').getFullList({
+        filter: RECONCILED_ORDERS_FILTER,
+        fields: 'id,customer_name,total,payment_status,razorpay_order_id,razorpay_payment_id,refund_amount,created',
+      }),
+      pb.collection('razorpay_orders').getFullList(),
+      pb.collection('razorpay_settlements').getFullList(),
+      pb.collection('payment_discrepancy_resolutions').getFullList(),
+    ]);
+
+    return buildReconciliation({
+      orders: orders as unknown as Order[],
+      razorpayOrders: razorpayOrders as unknown as RazorpayOrder[],
+      settlements: settlements as unknown as RazorpaySettlement[],
+      resolutions: resolutions as unknown as PaymentDiscrepancyResolution[],
+    });
+  } catch (error) {
+    console.error('Error building payment reconciliation:', error);
+    throw error;
+  }
+}
+
+export function useReconciliation() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const { data, isLoading, error, refetch } = useQuery<Discrepancy[]>({
+    queryKey: ['payment_reconciliation'],
+    queryFn: fetchReconciliation,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const resolveDiscrepancy = useMutation({
+    mutationFn: async ({ discrepancy, note }: { discrepancy: Discrepancy; note: string }) => {
+      try {
+        await ensureAdminAuth();
+        return await pb.collection('payment_discrepancy_resolutions').create({
+          discrepancy_key: discrepancy.key,
+          type: discrepancy.type,
+          order_id: discrepancy.orderId,
+          payment_id: discrepancy.paymentIds.join(', '),
+          note,
+          resolved_by: user?.name || user?.email || '',
+        });
+      } catch (error) {
+        console.error('Error resolving discrepancy:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payment_reconciliation'] });
+      toast.success('Discrepancy marked as resolved');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to resolve discrepancy: ' + error.message);
+    },
+  });
+
+  const reopenDiscrepancy = useMutation({
+    mutationFn: async (resolutionId: string) => {
+      try {
+        await ensureAdminAuth();
+        await pb.collection('payment_discrepancy_resolutions').delete(resolutionId);
+      } catch (error) {
+        console.error('Error reopening discrepancy:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payment_reconciliation'] });
+      toast.success('Discrepancy reopened');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to reopen discrepancy: ' + error.message);
+    },
+  });
+
+  return {
+    discrepancies: data || [],
+    isLoading,
+    error,
+    refetch,
+    resolveDiscrepancy,
+    reopenDiscrepancy,
+  };
+}
@@ -0,0 +1,44 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Refund } from '@/types/schema';
+import { RefundRequest, fetchRefunds, recordRefund } from '@/lib/refunds';
+
+export function useRefunds(orderId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery<Refund[]>({
+    queryKey: ['refunds', orderId],
+    queryFn: async () => {
+      try {
+        return await fetchRefunds(orderId!);
+      } catch (error) {
+        console.error('Error fetching refunds:', error);
+        throw error;
+      }
+    },
+    enabled: !!orderId,
+    retry: 0,
+  });
+
+  const createRefund = useMutation({
+    mutationFn: (request: RefundRequest) => recordRefund(request),
+    onSuccess: (refund) => {
+      queryClient.invalidateQueries({ queryKey: ['refunds', orderId] });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['low_stock_products'] });
+      queryClient.invalidateQueries({ queryKey: ['payment_reconciliation'] });
+      toast.success(`Refund of ₹${Number(refund.amount).toFixed(2)} recorded`);
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to record refund: ' + error.message);
+    },
+  });
+
+  return {
+    refunds: data || [],
+    isLoading,
+    error,
+    createRefund,
+  };
+}
@@ -0,0 +1,145 @@
+import { useEffect, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { RfmTier, Segment, SegmentData } from '@/types/schema';
+import { CustomerSummary, fetchCustomerSummaries, matchesSegment, recordSegmentCount } from '@/lib/segments';
+import { toast } from 'sonner';
+
+// Customer summaries for segments and RFM tiers, rebuilt from orders
+export function useCustomerSummaries() {
+  const { data, isLoading, error } = useQuery<CustomerSummary[]>({
+    queryKey: ['segment_customers'],
+    queryFn: async () => {
+      try {
+        return await fetchCustomerSummaries();
+      } catch (error) {
+        console.error('Error building customer summaries:', error);
+        throw error;
+      }
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  return {
+    customers: data ?? [],
+    isLoading,
+    error,
+  };
+}
+
+export function useSegments() {
+  const queryClient = useQueryClient();
+  const { customers, isLoading: customersLoading } = useCustomerSummaries();
+
+  const { data, isLoading, error } = useQuery<Segment[]>({
+    queryKey: ['segments'],
+    queryFn: async () => {
+      try {
+        await ensureAdminAuth();
+        const records = await pb.collection('segments').getFullList({ sort: 'name' });
+        return records as unknown as Segment[];
+      } catch (error) {
+        console.error('Error fetching segments:', error);
+        throw error;
+      }
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+  const segments = data ?? [];
+
+  // Counts from the current orders, rather than the count saved when the segment was last evaluated
+  const liveCounts = useMemo(() => {
+    if (customersLoading) return {} as Record<string, number>;
+    return Object.fromEntries(segments.map(segment => [
+      segment.id,
+      customers.filter(customer => matchesSegment(customer, segment.rules || {})).length,
+    ]));
+  }, [segments, customers, customersLoading]);
+
+  const tierCounts = useMemo(() => {
+    const counts = {} as Record<RfmTier, number>;
+    customers.forEach(customer => {
+      counts[customer.tier] = (counts[customer.tier] || 0) + 1;
+    });
+    return counts;
+  }, [customers]);
+
+  useEffect(() => {
+    segments.forEach(segment => {
+      if (liveCounts[segment.id] === undefined) return;
+      recordSegmentCount(segment, liveCounts[segment.id]).catch(error =>
+        console.error('Error saving segment count:', error)
+      );
+    });
+  }, [segments, liveCounts]);
+
+  const createSegment = useMutation({
+    mutationFn: async (data: SegmentData) => {
+      try {
+        await ensureAdminAuth();
+        const count = customers.filter(customer => matchesSegment(customer, data.rules)).length;
+        return await pb.collection('segments').create({ ...data, customer_count: count, counted_at: new Date().toISOString() });
+      } catch (error) {
+        console.error('Error creating segment:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['segments'] });
+      toast.success('Segment saved');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to save segment: ' + error.message);
+    },
+  });
+
+  const updateSegment = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: SegmentData }) => {
+      try {
+        await ensureAdminAuth();
+        return await pb.collection('segments').update(id, data);
+      } catch (error) {
+        console.error('Error updating segment:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['segments'] });
+      toast.success('Segment updated');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to update segment: ' + error.message);
+    },
+  });
+
+  const deleteSegment = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        await ensureAdminAuth();
+        await pb.collection('segments').delete(id);
+      } catch (error) {
+        console.error('Error deleting segment:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['segments'] });
+      toast.success('Segment deleted');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to delete segment: ' + error.message);
+    },
+  });
+
+  return {
+    segments,
+    customers,
+    liveCounts,
+    tierCounts,
+    isLoading: isLoading || customersLoading,
+    error,
+    createSegment,
+    updateSegment,
+    deleteSegment,
+  };
+}
@@ -0,0 +1,37 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { UpdateStoreSettingsData } from '@/types/schema';
+import {
+  DEFAULT_STORE_SETTINGS,
+  StoreSettingsValues,
+  fetchStoreSettings,
+  saveStoreSettings,
+} from '@/lib/storeSettings';
+
+export function useStoreSettings() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery<StoreSettingsValues>({
+    queryKey: ['store_settings'],
+    queryFn: fetchStoreSettings,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const updateSettings = useMutation({
+    mutationFn: (data: UpdateStoreSettingsData) => saveStoreSettings(data),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(['store_settings'], settings);
+      toast.success('Settings saved');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to save settings: ' + error.message);
+    },
+  });
+
+  return {
+    settings: data ?? DEFAULT_STORE_SETTINGS,
+    isLoading,
+    error,
+    updateSettings,
+  };
+}
@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchTemplateVersions } from '@/lib/templateVersions';
+import { fetchPreviewOrders } from '@/lib/templatePreview';
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { Order, TemplateChannel, TemplateVersion } from '@/types/schema';
+
+export function useTemplateVersions(channel: TemplateChannel, templateId?: string) {
+  const { data, isLoading, error } = useQuery<TemplateVersion[]>({
+    queryKey: ['template_versions', channel, templateId],
+    queryFn: async () => {
+      try {
+        return await fetchTemplateVersions(channel, templateId!);
+      } catch (error) {
+        console.error('Error fetching template versions:', error);
+        throw error;
+      }
+    },
+    enabled: !!templateId,
+    retry: 0, // Don't retry if the collection doesn't exist
+  });
+
+  return { versions: data ?? [], isLoading, error };
+}
+
+// Recent orders to pick from, and the full record of the one picked
+export function usePreviewOrder(orderId?: string) {
+  const { data: orders } = useQuery({
+    queryKey: ['orders', 'preview_options'],
+    queryFn: fetchPreviewOrders,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const { data: order, isLoading } = useQuery<Order>({
+    queryKey: ['orders', 'detail', orderId],
+    queryFn: async () => {
+      await ensureAdminAuth();
+      return await pb.collection('orders').getOne(orderId!) as unknown as Order;
+    },
+    enabled: !!orderId,
+  });
+
+  return { orders: orders ?? [], order: order ?? null, isLoading };
+}
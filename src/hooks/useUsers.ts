@@ -16,6 +16,21 @@ export interface UpdateUserData extends Partial<CreateUserData> {
   oldPassword?: string;
 }
 
+// Every user matching the customers page search, used for exports
+export async function fetchAllUsers(searchQuery = '') {
+  try {
+    await ensureAdminAuth();
+    const records = await pb.collection('users').getFullList({
+      sort: '-created',
+      filter: searchQuery ? pb.filter('name ~ {:q} || email ~ {:q}', { q: searchQuery }) : '',
+    });
+    return records as unknown as User[];
+  } catch (error) {
+    console.error('Error fetching users for export:', error);
+    throw error;
+  }
+}
+
 export function useUsers() {
   const queryClient = useQueryClient();
 
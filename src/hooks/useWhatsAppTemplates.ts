@@ -1,6 +1,11 @@
 import { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { pb } from '@/lib/pocketbase';
 import { WhatsAppTemplate } from '@/lib/whatsapp';
+import { recordTemplateVersion } from '@/lib/templateVersions';
+import { checkTemplateSyntax } from '@/lib/templateEngine';
+import { useAuth } from '@/hooks/useAuth';
+import { TemplateVersion } from '@/types/schema';
 import { toast } from 'sonner';
 
 export interface Template {
@@ -20,20 +25,24 @@ export function useWhatsAppTemplates() {
   const [templates, setTemplates] = useState<Template[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<Error | null>(null);
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  // The template is already saved when this runs, so a failure here doesn't fail the save
+  const saveVersion = async (saved: Template, previous: Template | null, restoredFrom?: number) => {
+    try {
+      await recordTemplateVersion('whatsapp', saved, previous, user, restoredFrom);
+      queryClient.invalidateQueries({ queryKey: ['template_versions', 'whatsapp', saved.id] });
+    } catch (err) {
+      console.error('Error recording template version:', err);
+      toast.error('Template saved, but its version history could not be updated: ' + (err as Error).message);
+    }
+  };
 
   const fetchTemplates = async () => {
     setIsLoading(true);
     try {
-      // Check if collection exists
-      const collections = await pb.collections.getFullList();
-      const templateCollectionExists = collections.some(c => c.name === 'whatsapp_templates');
-      
-      // If collection doesn't exist, create default templates from enum
-      if (!templateCollectionExists) {
-        await createDefaultTemplates();
-        return;
-      }
-      
+      // A missing collection surfaces as a 404 below; listing collections needs a superuser
       const records = await pb.collection('whatsapp_templates').getFullList({
         sort: 'name',
       });
@@ -45,7 +54,7 @@ export function useWhatsAppTemplates() {
       setError(err as Error);
       
       // If collection doesn't exist, create default templates
-      if ((err as Error).message.includes('404') || (err as Error).message.includes('not found')) {
+      if ((err as { status?: number }).status === 404 || (err as Error).message.includes('not found')) {
         await createDefaultTemplates();
       }
     } finally {
@@ -216,10 +225,13 @@ export function useWhatsAppTemplates() {
     }
   };
 
-  const updateTemplate = async (id: string, templateData: Partial<Template>) => {
+  const updateTemplate = async (id: string, templateData: Partial<Template>, restoredFrom?: number) => {
     try {
+      if (templateData.content !== undefined) checkTemplateSyntax(templateData.content);
+      const previous = templates.find(t => t.id === id) || null;
       const updated = await pb.collection('whatsapp_templates').update(id, templateData);
       setTemplates(prev => prev.map(t => t.id === id ? {...t, ...updated} as Template : t));
+      await saveVersion(updated as unknown as Template, previous, restoredFrom);
       return updated;
     } catch (err) {
       console.error('Error updating template:', err);
@@ -229,8 +241,10 @@ export function useWhatsAppTemplates() {
 
   const createTemplate = async (templateData: Omit<Template, 'id' | 'created' | 'updated'>) => {
     try {
+      checkTemplateSyntax(templateData.content);
       const created = await pb.collection('whatsapp_templates').create(templateData);
       setTemplates(prev => [...prev, created as unknown as Template]);
+      await saveVersion(created as unknown as Template, null);
       return created;
     } catch (err) {
       console.error('Error creating template:', err);
@@ -238,6 +252,11 @@ export function useWhatsAppTemplates() {
     }
   };
 
+  // Rolling back is a save of the old text, so it is itself a version that can be undone
+  const restoreVersion = async (version: TemplateVersion) => {
+    return updateTemplate(version.template_id, { content: version.content }, version.version);
+  };
+
   const deleteTemplate = async (id: string) => {
     try {
       await pb.collection('whatsapp_templates').delete(id);
@@ -262,5 +281,6 @@ export function useWhatsAppTemplates() {
     updateTemplate,
     createTemplate,
     deleteTemplate,
+    restoreVersion,
   };
 }
@@ -0,0 +1,107 @@
+import PocketBase, { LocalAuthStore, RecordModel } from 'pocketbase';
+import { pb } from '@/lib/pocketbase';
+import { StaffRole, isStaffRole } from '@/lib/permissions';
+
+// The signed-in CRM operator. `pb` sends this token with every request.
+export const sessionStore = pb.authStore as LocalAuthStore;
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string;
+  role: StaffRole;
+  isSuperuser: boolean;
+}
+
+export class AccessDeniedError extends Error {
+  constructor(message = 'Your account does not have access to the admin area') {
+    super(message);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+const isSuperuserRecord = (record: RecordModel | null) =>
+  !!record && (record.collectionName === '_superusers' || record.collectionName === '_admins');
+
+// Map the stored auth record to the operator shown in the UI
+export function getSessionUser(): SessionUser | null {
+  if (!sessionStore.isValid) return null;
+
+  const record = sessionStore.record;
+  if (!record) return null;
+
+  if (isSuperuserRecord(record)) {
+    return {
+      id: record.id,
+      email: record.email,
+      name: record.name || record.email,
+      role: 'owner',
+      isSuperuser: true,
+    };
+  }
+
+  if (!isStaffRole(record.role)) return null;
+
+  return {
+    id: record.id,
+    email: record.email,
+    name: record.name || record.email,
+    role: record.role,
+    isSuperuser: false,
+  };
+}
+
+// Sign in as a PocketBase superuser first, then fall back to staff `users` records
+export async function signIn(email: string, password: string): Promise<SessionUser> {
+  try {
+    const authData = await pb.admins.authWithPassword(email, password);
+    sessionStore.save(authData.token, authData.record);
+  } catch (adminError) {
+    const authData = await pb.collection('users').authWithPassword(email, password);
+
+    if (!isStaffRole(authData.record.role)) {
+      pb.authStore.clear();
+      throw new AccessDeniedError();
+    }
+
+    sessionStore.save(authData.token, authData.record);
+  }
+
+  return getSessionUser();
+}
+
+export function signOut() {
+  sessionStore.clear();
+}
+
+// Change the signed-in operator's password. The current password is verified
+// against a separate client so the shared `pb` auth state is left untouched.
+export async function changePassword(currentPassword: string, newPassword: string): Promise<void> {
+  const record = sessionStore.record;
+  if (!sessionStore.isValid || !record) {
+    throw new Error('You need to be signed in to change your password');
+  }
+
+  const client = new PocketBase(pb.baseUrl);
+
+  if (isSuperuserRecord(record)) {
+    await client.admins.authWithPassword(record.email, currentPassword);
+    await client.admins.update(record.id, {
+      password: newPassword,
+      passwordConfirm: newPassword,
+    });
+    const authData = await client.admins.authWithPassword(record.email, newPassword);
+    sessionStore.save(authData.token, authData.record);
+    return;
+  }
+
+  await client.collection('users').authWithPassword(record.email, currentPassword);
+  await client.collection('users').update(record.id, {
+    oldPassword: currentPassword,
+    password: newPassword,
+    passwordConfirm: newPassword,
+  });
+  // Changing the password invalidates existing tokens
+  const authData = await client.collection('users').authWithPassword(record.email, newPassword);
+  sessionStore.save(authData.token, authData.record);
+}
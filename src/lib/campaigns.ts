@@ -0,0 +1,229 @@
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { OrderFilters, buildOrderFilter } from '@/lib/orderFilters';
+import { isSentStatus, reachedStep } from '@/lib/deliveryStatus';
+import { CustomerSummary, RFM_TIER_LABELS } from '@/lib/segments';
+import { formatPhoneNumber } from '@/lib/whatsapp';
+import { renderTemplate, templateVariables } from '@/lib/templateEngine';
+import { Campaign, CampaignRecipient, CampaignVariableMapping, Order } from '@/types/schema';
+
+// Recipients pass through the WhatsApp API at this rate unless the campaign sets another
+export const DEFAULT_THROTTLE_PER_MINUTE = 20;
+// Matches MAX_THROTTLE_PER_MINUTE in src/server/campaigns.ts
+export const MAX_THROTTLE_PER_MINUTE = 60;
+
+// One audience row per potential recipient, keyed by column name
+export type AudienceRow = Record<string, string>;
+
+export interface CampaignAudience {
+  label: string;
+  columns: string[];
+  rows: AudienceRow[];
+  phoneColumn: string;
+  nameColumn: string;
+}
+
+export interface RecipientBuildResult {
+  recipients: CampaignRecipient[];
+  // Rows without a usable phone number
+  missingPhone: number;
+  // Rows whose number already appears earlier in the audience
+  duplicates: number;
+}
+
+export interface CampaignStats {
+  total: number;
+  queued: number;
+  // Includes messages since delivered or read
+  sent: number;
+  delivered: number;
+  read: number;
+  failed: number;
+  cancelled: number;
+  replied: number;
+}
+
+export const EMPTY_CAMPAIGN_STATS: CampaignStats = { total: 0, queued: 0, sent: 0, delivered: 0, read: 0, failed: 0, cancelled: 0, replied: 0 };
+
+const SEGMENT_COLUMNS = ['name', 'first_name', 'phone', 'email', 'orders', 'total_spend', 'last_order_date', 'tier'];
+const ORDER_COLUMNS = ['name', 'first_name', 'phone', 'email', 'order_id', 'amount', 'order_date', 'status', 'tracking_link', 'carrier'];
+
+// Placeholder names that mean the same as an audience column, compared without case or punctuation
+const COLUMN_ALIASES: Record<string, string> = {
+  customername: 'name',
+  firstname: 'first_name',
+  orderid: 'order_id',
+  total: 'amount',
+  orderdate: 'order_date',
+  trackinglink: 'tracking_link',
+  mobile: 'phone',
+};
+
+const PHONE_HEADERS = ['phone', 'mobile', 'whatsapp', 'phonenumber', 'mobilenumber', 'contact', 'number'];
+const NAME_HEADERS = ['name', 'customername', 'fullname', 'firstname'];
+
+const compact = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// {{placeholder}} names used by a template, in order of first use
+export function templatePlaceholders(content: string): string[] {
+  try {
+    return templateVariables(content);
+  } catch {
+    // Saved before templates were checked on save; the preview shows what is wrong
+    return [];
+  }
+}
+
+// Same rendering the server uses when it queues campaign messages, or the reason it would fail
+export function renderPlaceholders(content: string, variables: Record<string, string>): string {
+  try {
+    return renderTemplate(content, variables);
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+export function guessColumn(columns: string[], candidates: string[]): string {
+  return columns.find(column => candidates.includes(compact(column))) || '';
+}
+
+// Map each placeholder to the audience column with the same (or an equivalent) name
+export function suggestMapping(placeholders: string[], columns: string[]): Record<string, CampaignVariableMapping> {
+  return Object.fromEntries(placeholders.map(placeholder => {
+    const key = compact(placeholder);
+    const column = columns.find(column => compact(column) === key || compact(column) === compact(COLUMN_ALIASES[key] || ''));
+    return [placeholder, column ? { source: 'column', value: column } : { source: 'text', value: '' }];
+  }));
+}
+
+export function csvAudience(label: string, columns: string[], rows: AudienceRow[]): CampaignAudience {
+  return {
+    label,
+    columns,
+    rows,
+    phoneColumn: guessColumn(columns, PHONE_HEADERS),
+    nameColumn: guessColumn(columns, NAME_HEADERS),
+  };
+}
+
+export function segmentAudience(label: string, customers: CustomerSummary[]): CampaignAudience {
+  return {
+    label,
+    columns: SEGMENT_COLUMNS,
+    rows: customers.map(customer => ({
+      name: customer.name,
+      first_name: customer.name.split(' ')[0] || '',
+      phone: customer.phone,
+      email: customer.email,
+      orders: String(customer.orderCount),
+      total_spend: String(customer.totalSpend),
+      last_order_date: new Date(customer.lastOrderDate).toLocaleDateString('en-IN'),
+      tier: RFM_TIER_LABELS[customer.tier],
+    })),
+    phoneColumn: 'phone',
+    nameColumn: 'name',
+  };
+}
+
+// Customers from the orders that match the filters; a customer with several orders gets the latest
+export async function fetchOrderAudience(label: string, filters: OrderFilters): Promise<CampaignAudience> {
+  await ensureAdminAuth();
+  const orders = await pb.collection('orders').getFullList({
+    filter: buildOrderFilter(filters),
+    sort: '-created',
+    fields: 'id,customer_name,customer_phone,customer_email,total,status,tracking_link,shipping_carrier,created',
+  }) as unknown as Order[];
+
+  return {
+    label,
+    columns: ORDER_COLUMNS,
+    rows: orders.map(order => ({
+      name: order.customer_name || '',
+      first_name: (order.customer_name || '').split(' ')[0] || '',
+      phone: order.customer_phone || '',
+      email: order.customer_email || '',
+      order_id: order.id,
+      amount: String(order.total ?? ''),
+      order_date: new Date(order.created).toLocaleDateString('en-IN'),
+      status: order.status,
+      tracking_link: order.tracking_link || '',
+      carrier: order.shipping_carrier || '',
+    })),
+    phoneColumn: 'phone',
+    nameColumn: 'name',
+  };
+}
+
+/**
+ * Turn audience rows into campaign recipients with their placeholder values filled in.
+ * Each phone number is messaged once, using the first row it appears on.
+ */
+export function buildRecipients(
+  audience: CampaignAudience,
+  mapping: Record<string, CampaignVariableMapping>,
+): RecipientBuildResult {
+  const seen = new Set<string>();
+  const recipients: CampaignRecipient[] = [];
+  let missingPhone = 0;
+  let duplicates = 0;
+
+  audience.rows.forEach(row => {
+    const digits = (row[audience.phoneColumn] || '').replace(/\D/g, '');
+    if (digits.length < 10) {
+      missingPhone++;
+      return;
+    }
+    const phone = formatPhoneNumber(digits);
+    if (seen.has(phone)) {
+      duplicates++;
+      return;
+    }
+    seen.add(phone);
+
+    recipients.push({
+      phone,
+      name: row[audience.nameColumn] || '',
+      variables: Object.fromEntries(Object.entries(mapping).map(([placeholder, source]) => [
+        placeholder,
+        source.source === 'column' ? row[source.value] || '' : source.value,
+      ])),
+    });
+  });
+
+  return { recipients, missingPhone, duplicates };
+}
+
+function countActivity(stats: CampaignStats, activity: { status: string; replied_at?: string }) {
+  stats.total++;
+  if (isSentStatus(activity.status)) stats.sent++;
+  else if (activity.status === 'failed') stats.failed++;
+  else if (activity.status === 'cancelled') stats.cancelled++;
+  else stats.queued++;
+  if (reachedStep('whatsapp', activity.status, 'delivered')) stats.delivered++;
+  if (reachedStep('whatsapp', activity.status, 'read')) stats.read++;
+  if (activity.replied_at) stats.replied++;
+}
+
+// Sent, delivered, read, failed and replied counts for every campaign, from its WhatsApp activities
+export async function fetchCampaignStats(): Promise<Record<string, CampaignStats>> {
+  await ensureAdminAuth();
+  const activities = await pb.collection('whatsapp_activities').getFullList({
+    filter: 'campaign_id != ""',
+    fields: 'campaign_id,status,replied_at',
+  });
+
+  const stats: Record<string, CampaignStats> = {};
+  activities.forEach(activity => {
+    const campaignId = activity.campaign_id as string;
+    stats[campaignId] = stats[campaignId] || { ...EMPTY_CAMPAIGN_STATS };
+    countActivity(stats[campaignId], activity as unknown as { status: string; replied_at?: string });
+  });
+  return stats;
+}
+
+// What the campaign list shows as its state; a launched campaign is sending until nothing is queued
+export function campaignProgress(campaign: Campaign, stats: CampaignStats): string {
+  if (campaign.status === 'draft') return 'Draft';
+  if (campaign.status === 'cancelled') return 'Cancelled';
+  if (new Date(campaign.send_at) > new Date() && stats.sent === 0) return 'Scheduled';
+  return stats.queued > 0 ? 'Sending' : 'Completed';
+}
@@ -0,0 +1,172 @@
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { OrderProductItem } from '@/lib/orderItems';
+import { normalizeEmail, normalizePhone } from '@/lib/customers';
+import { Coupon, Order } from '@/types/schema';
+
+export interface CouponContext {
+  items: OrderProductItem[];
+  subtotal: number;
+  customerEmail?: string;
+  customerPhone?: string;
+  // Set when re-checking a coupon on an existing order, so it doesn't count against itself
+  excludeOrderId?: string;
+}
+
+// `reason` explains why an invalid coupon was refused; `discount` is 0 for those
+export interface CouponCheck {
+  valid: boolean;
+  coupon?: Coupon;
+  discount: number;
+  reason?: string;
+}
+
+export interface CouponUsage {
+  orders: number;
+  discountGiven: number;
+  revenue: number;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function describeCouponDiscount(coupon: Pick<Coupon, 'discount_percent' | 'discount_amount' | 'max_discount'>): string {
+  if (Number(coupon.discount_percent) > 0) {
+    const cap = Number(coupon.max_discount) > 0 ? ` up to ₹${coupon.max_discount}` : '';
+    return `${coupon.discount_percent}% off${cap}`;
+  }
+  return `₹${Number(coupon.discount_amount) || 0} off`;
+}
+
+export function isCouponExpired(coupon: Pick<Coupon, 'valid_until'>, now = new Date()): boolean {
+  return !!coupon.valid_until && new Date(coupon.valid_until).getTime() < now.getTime();
+}
+
+// Subtotal of the lines the coupon applies to; coupons without product or category lists cover everything
+export function eligibleSubtotal(coupon: Pick<Coupon, 'product_ids' | 'categories'>, items: OrderProductItem[]): number {
+  const productIds = coupon.product_ids || [];
+  const categories = (coupon.categories || []).map(category => category.toLowerCase());
+  if (productIds.length === 0 && categories.length === 0) {
+    return roundAmount(items.reduce((sum, item) => sum + item.product.price * item.quantity, 0));
+  }
+
+  return roundAmount(items
+    .filter(item =>
+      productIds.includes(item.productId) ||
+      (!!item.product.category && categories.includes(item.product.category.toLowerCase()))
+    )
+    .reduce((sum, item) => sum + item.product.price * item.quantity, 0));
+}
+
+/**
+ * Check a coupon against an order without touching the database. `customerUses` is the
+ * number of earlier orders by the same customer that used the coupon.
+ */
+export function evaluateCoupon(coupon: Coupon, context: CouponContext, customerUses = 0, now = new Date()): CouponCheck {
+  const invalid = (reason: string): CouponCheck => ({ valid: false, coupon, discount: 0, reason });
+
+  if (!coupon.active) return invalid('This coupon is switched off');
+  if (isCouponExpired(coupon, now)) return invalid(`This coupon expired on ${new Date(coupon.valid_until).toLocaleDateString()}`);
+  if (Number(coupon.max_uses) > 0 && (Number(coupon.used_count) || 0) >= Number(coupon.max_uses)) {
+    return invalid('This coupon has been used the maximum number of times');
+  }
+  if (Number(coupon.min_order_value) > 0 && context.subtotal < Number(coupon.min_order_value)) {
+    return invalid(`Orders need a subtotal of at least ₹${coupon.min_order_value} for this coupon`);
+  }
+  if (Number(coupon.max_uses_per_customer) > 0 && customerUses >= Number(coupon.max_uses_per_customer)) {
+    return invalid('This customer has already used this coupon the maximum number of times');
+  }
+
+  const eligible = eligibleSubtotal(coupon, context.items);
+  if (eligible <= 0) return invalid('None of the items in this order are eligible for this coupon');
+
+  let discount = Number(coupon.discount_percent) > 0
+    ? eligible * Number(coupon.discount_percent) / 100
+    : Number(coupon.discount_amount) || 0;
+  if (Number(coupon.discount_percent) > 0 && Number(coupon.max_discount) > 0) {
+    discount = Math.min(discount, Number(coupon.max_discount));
+  }
+  discount = roundAmount(Math.min(discount, eligible));
+  if (discount <= 0) return invalid('This coupon has no discount set');
+
+  return { valid: true, coupon, discount };
+}
+
+export async function findCouponByCode(code: string): Promise<Coupon | null> {
+  await ensureAdminAuth();
+  const result = await pb.collection('coupons').getList(1, 1, {
+    filter: pb.filter('code = {:code}', { code: normalizeCouponCode(code) }),
+  });
+  return (result.items[0] as unknown as Coupon) || null;
+}
+
+// Earlier orders by this customer that used the coupon. Orders store contacts as typed, so both
+// sides are normalised: "+91 98765 43210" and "9876543210", or two cases of an email, are one customer.
+export async function countCustomerCouponUses(couponId: string, context: CouponContext): Promise<number> {
+  const email = normalizeEmail(context.customerEmail);
+  const phone = normalizePhone(context.customerPhone);
+  if (!email && !phone) return 0;
+
+  const filters = [
+    pb.filter('coupon_id = {:couponId}', { couponId }),
+    'status != "cancelled"',
+    context.excludeOrderId && pb.filter('id != {:orderId}', { orderId: context.excludeOrderId }),
+  ].filter(Boolean);
+
+  const orders = await pb.collection('orders').getFullList({
+    filter: filters.join(' && '),
+    fields: 'customer_email,customer_phone',
+  }) as unknown as Pick<Order, 'customer_email' | 'customer_phone'>[];
+  return orders.filter(order =>
+    (!!email && normalizeEmail(order.customer_email) === email) ||
+    (!!phone && normalizePhone(order.customer_phone) === phone)
+  ).length;
+}
+
+export async function validateCoupon(code: string, context: CouponContext): Promise<CouponCheck> {
+  if (!normalizeCouponCode(code)) return { valid: false, discount: 0, reason: 'Enter a coupon code' };
+
+  const coupon = await findCouponByCode(code);
+  if (!coupon) return { valid: false, discount: 0, reason: `No coupon called ${normalizeCouponCode(code)}` };
+
+  const customerUses = Number(coupon.max_uses_per_customer) > 0
+    ? await countCustomerCouponUses(coupon.id, context)
+    : 0;
+  return evaluateCoupon(coupon, context, customerUses);
+}
+
+// Count a use once the order that applied the coupon has been saved
+export async function redeemCoupon(couponId: string) {
+  await ensureAdminAuth();
+  await pb.collection('coupons').update(couponId, { 'used_count+': 1 });
+}
+
+// Give the use back when the order that redeemed the coupon is cancelled or deleted
+export async function releaseCoupon(couponId: string) {
+  await ensureAdminAuth();
+  const coupon = await pb.collection('coupons').getOne(couponId, { fields: 'id,used_count' });
+  if ((Number(coupon.used_count) || 0) > 0) {
+    await pb.collection('coupons').update(couponId, { 'used_count-': 1 });
+  }
+}
+
+// Orders placed with each coupon, keyed by coupon ID; cancelled orders are left out
+export async function fetchCouponUsage(): Promise<Record<string, CouponUsage>> {
+  await ensureAdminAuth();
+  const orders = await pb.collection('orders').getFullList({
+    filter: 'coupon_id != "" && status != "cancelled"',
+    fields: 'coupon_id,discount_amount,total',
+  }) as unknown as Pick<Order, 'coupon_id' | 'discount_amount' | 'total'>[];
+
+  const usage: Record<string, CouponUsage> = {};
+  orders.forEach(order => {
+    if (!order.coupon_id) return;
+    const entry = usage[order.coupon_id] || (usage[order.coupon_id] = { orders: 0, discountGiven: 0, revenue: 0 });
+    entry.orders += 1;
+    entry.discountGiven = roundAmount(entry.discountGiven + (Number(order.discount_amount) || 0));
+    entry.revenue = roundAmount(entry.revenue + (Number(order.total) || 0));
+  });
+  return usage;
+}
@@ -0,0 +1,47 @@
+// Column definition for tabular exports
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+// Spreadsheet apps run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+// Phone numbers ("+91 98765 43210") and signed amounts ("-250.00") start with + or - but can't run anything
+const NUMBER_OR_PHONE = /^[+\-]?[\d\s().]+$/;
+
+const opensAsFormula = (text: string) => FORMULA_PREFIX.test(text) && !NUMBER_OR_PHONE.test(text);
+
+// Quote a CSV cell when it contains a delimiter, quote or newline. Text that would open as a
+// formula (a customer named "=HYPERLINK(...)") gets a leading ' so it stays text; numbers are left alone.
+function escapeCsvCell(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && opensAsFormula(value) ? `'${value}` : String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+export function toCsv<T>(rows: T[], columns: ExportColumn<T>[]): string {
+  const header = columns.map(column => escapeCsvCell(column.header)).join(',');
+  const body = rows.map(row => columns.map(column => escapeCsvCell(column.value(row))).join(','));
+  return [header, ...body].join('\r\n');
+}
+
+// Trigger a browser download for generated content
+export function downloadFile(content: BlobPart, filename: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function downloadCsv<T>(rows: T[], columns: ExportColumn<T>[], filename: string) {
+  // BOM so Excel opens UTF-8 (₹, non-Latin names) correctly
+  downloadFile('﻿' + toCsv(rows, columns), filename, 'text/csv;charset=utf-8');
+}
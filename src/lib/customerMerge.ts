@@ -0,0 +1,377 @@
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { getSessionUser } from '@/lib/auth';
+import { normalizeEmail, normalizePhone } from '@/lib/customers';
+import { CustomerMerge, CustomerMergeChange, Order, User } from '@/types/schema';
+
+// A storefront account, or the guest orders placed with one email and phone number
+export interface CustomerCandidate {
+  // user:<id> or guest:<email>|<phone>
+  key: string;
+  userId?: string;
+  name: string;
+  email: string;
+  phone: string;
+  orderIds: string[];
+  lastOrderDate?: string;
+}
+
+export interface DuplicateGroup {
+  key: string;
+  candidates: CustomerCandidate[];
+  // Why the candidates were grouped, e.g. "Same phone +919812345678"
+  reasons: string[];
+}
+
+export interface MergeSelection {
+  name: string;
+  email: string;
+  phone: string;
+  // Account to keep; required when any of the merged customers has one
+  survivorUserId?: string;
+}
+
+type OrderSummary = Pick<Order, 'id' | 'user' | 'customer_name' | 'customer_email' | 'customer_phone' | 'created'>;
+
+// Names at least this similar (1 = identical) are grouped as likely the same person
+const NAME_SIMILARITY = 0.85;
+const MIN_NAME_LENGTH = 4;
+
+export function normalizeName(name?: string): string {
+  return (name || '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+}
+
+export function describeCandidate(candidate: CustomerCandidate): string {
+  return `${candidate.name || 'Unnamed'} (${candidate.email || candidate.phone || 'no contact'})`;
+}
+
+/**
+ * One candidate per customer account (staff and already merged accounts are left out),
+ * plus one per email and phone combination used on guest orders.
+ */
+export function buildCandidates(users: User[], orders: OrderSummary[]): CustomerCandidate[] {
+  const candidates = new Map<string, CustomerCandidate>();
+  users
+    .filter(user => !user.role && !user.merged_into)
+    .forEach(user => candidates.set(`user:${user.id}`, {
+      key: `user:${user.id}`,
+      userId: user.id,
+      name: user.name,
+      email: user.email,
+      phone: '',
+      orderIds: [],
+    }));
+
+  // Newest first, so each candidate takes its name and phone from its latest order
+  [...orders].sort((a, b) => b.created.localeCompare(a.created)).forEach(order => {
+    const userKey = (order.user || []).map(id => `user:${id}`).find(key => candidates.has(key));
+    const key = userKey || `guest:${normalizeEmail(order.customer_email)}|${normalizePhone(order.customer_phone)}`;
+    if (key === 'guest:|') return;
+
+    const candidate = candidates.get(key) || {
+      key,
+      name: order.customer_name,
+      email: order.customer_email,
+      phone: order.customer_phone,
+      orderIds: [],
+    };
+    candidate.phone = candidate.phone || order.customer_phone;
+    candidate.lastOrderDate = candidate.lastOrderDate || order.created;
+    candidate.orderIds.push(order.id);
+    candidates.set(key, candidate);
+  });
+
+  return [...candidates.values()];
+}
+
+// Group candidates that share a normalized phone number or email, or have very similar names
+export function findDuplicateGroups(candidates: CustomerCandidate[]): DuplicateGroup[] {
+  const parent = candidates.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  const reasons = new Map<number, Set<string>>();
+  const link = (a: number, b: number, reason: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const merged = new Set([...(reasons.get(rootA) || []), ...(reasons.get(rootB) || []), reason]);
+    parent[rootB] = rootA;
+    reasons.set(rootA, merged);
+  };
+
+  const linkBy = (keyOf: (candidate: CustomerCandidate) => string, label: (key: string) => string) => {
+    const seen = new Map<string, number>();
+    candidates.forEach((candidate, index) => {
+      const key = keyOf(candidate);
+      if (!key) return;
+      if (seen.has(key)) link(seen.get(key)!, index, label(key));
+      else seen.set(key, index);
+    });
+  };
+  linkBy(candidate => normalizePhone(candidate.phone), phone => `Same phone +${phone}`);
+  linkBy(candidate => normalizeEmail(candidate.email), email => `Same email ${email}`);
+
+  // Names are only compared within the same first three letters, to keep this from being quadratic
+  const blocks = new Map<string, number[]>();
+  candidates.forEach((candidate, index) => {
+    const name = normalizeName(candidate.name);
+    if (name.length < MIN_NAME_LENGTH) return;
+    blocks.set(name.slice(0, 3), [...(blocks.get(name.slice(0, 3)) || []), index]);
+  });
+  blocks.forEach(indexes => {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const a = candidates[indexes[i]];
+        const b = candidates[indexes[j]];
+        if (find(indexes[i]) !== find(indexes[j]) && nameSimilarity(a.name, b.name) >= NAME_SIMILARITY) {
+          link(indexes[i], indexes[j], `Similar names ${a.name} / ${b.name}`);
+        }
+      }
+    }
+  });
+
+  const groups = new Map<number, CustomerCandidate[]>();
+  candidates.forEach((candidate, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) || []), candidate]);
+  });
+
+  return [...groups.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      key: members.map(member => member.key).sort().join(','),
+      candidates: members,
+      reasons: [...(reasons.get(root) || [])],
+    }))
+    .sort((a, b) => b.candidates.length - a.candidates.length);
+}
+
+export async function fetchDuplicateGroups(): Promise<DuplicateGroup[]> {
+  await ensureAdminAuth();
+  const [users, orders] = await Promise.all([
+    pb.collection('users').getFullList({ fields: 'id,name,email,role,merged_into' }),
+    pb.collection('orders').getFullList({ fields: 'id,user,customer_name,customer_email,customer_phone,created' }),
+  ]);
+  return findDuplicateGroups(buildCandidates(users as unknown as User[], orders as unknown as OrderSummary[]));
+}
+
+// Only the fields that actually change, with their current values kept for undo
+function diff(
+  collection: CustomerMergeChange['collection'],
+  record: Record<string, unknown>,
+  after: Record<string, unknown>,
+): CustomerMergeChange | null {
+  const changed = Object.keys(after).filter(field => JSON.stringify(record[field] ?? '') !== JSON.stringify(after[field]));
+  if (changed.length === 0) return null;
+  return {
+    collection,
+    record_id: record.id as string,
+    before: Object.fromEntries(changed.map(field => [field, record[field] ?? ''])),
+    after: Object.fromEntries(changed.map(field => [field, after[field]])),
+  };
+}
+
+async function planMerge(candidates: CustomerCandidate[], selection: MergeSelection): Promise<CustomerMergeChange[]> {
+  const survivor = selection.survivorUserId;
+  const mergedUserIds = candidates.map(candidate => candidate.userId).filter((id): id is string => !!id && id !== survivor);
+  const changes: (CustomerMergeChange | null)[] = [];
+
+  const orderIds = candidates.flatMap(candidate => candidate.orderIds);
+  for (const orderId of orderIds) {
+    const order = await pb.collection('orders').getOne(orderId);
+    changes.push(diff('orders', order, {
+      customer_name: selection.name,
+      customer_email: selection.email,
+      customer_phone: selection.phone,
+      ...(survivor && { user: [survivor] }),
+    }));
+  }
+
+  if (survivor) {
+    const user = await pb.collection('users').getOne(survivor);
+    changes.push(diff('users', user, { name: selection.name }));
+
+    for (const userId of mergedUserIds) {
+      const owned = pb.filter('user_id = {:userId}', { userId });
+      const addresses = await pb.collection('addresses').getFullList({ filter: owned }).catch(() => []);
+      addresses.forEach(address => changes.push(diff('addresses', address, { user_id: survivor })));
+
+      const reviews = await pb.collection('reviews').getFullList({ filter: pb.filter('user = {:userId}', { userId }) }).catch(() => []);
+      reviews.forEach(review => changes.push(diff('reviews', review, { user: survivor })));
+
+      const merged = await pb.collection('users').getOne(userId);
+      changes.push(diff('users', merged, { merged_into: survivor }));
+    }
+  }
+
+  const otherEmails = candidates.map(candidate => normalizeEmail(candidate.email)).filter(email => email && email !== normalizeEmail(selection.email));
+  for (const email of new Set(otherEmails)) {
+    const feedback = await pb.collection('feedback').getFullList({ filter: pb.filter('email = {:email}', { email }) }).catch(() => []);
+    feedback.forEach(entry => changes.push(diff('feedback', entry, { email: selection.email })));
+  }
+
+  // Messages on the merged orders follow them. The customer profile finds the others by
+  // recipient, so those sent to a contact the merged customers no longer use move to the kept one.
+  const mergedOrders = new Set(orderIds);
+  const repointActivities = async (
+    collection: 'whatsapp_activities' | 'email_activities',
+    contacts: string[],
+    normalize: (value: string) => string,
+    searchTerm: (contact: string) => string,
+    recipient: string,
+  ) => {
+    for (const contact of new Set(contacts)) {
+      const activities = await pb.collection(collection)
+        .getFullList({ filter: pb.filter('recipient ~ {:term}', { term: searchTerm(contact) }) })
+        .catch(() => []);
+      activities
+        .filter(activity => normalize(activity.recipient) === contact && !mergedOrders.has(activity.order_id))
+        .forEach(activity => changes.push(diff(collection, activity, { recipient })));
+    }
+  };
+
+  const keptPhone = normalizePhone(selection.phone);
+  if (keptPhone) {
+    const otherPhones = candidates.map(candidate => normalizePhone(candidate.phone)).filter(phone => phone && phone !== keptPhone);
+    await repointActivities('whatsapp_activities', otherPhones, normalizePhone, phone => phone.slice(-10), keptPhone);
+  }
+  if (normalizeEmail(selection.email)) {
+    await repointActivities('email_activities', otherEmails, normalizeEmail, email => email, selection.email);
+  }
+
+  return changes.filter((change): change is CustomerMergeChange => !!change);
+}
+
+async function applyChanges(changes: CustomerMergeChange[], direction: 'after' | 'before') {
+  const applied: CustomerMergeChange[] = [];
+  try {
+    for (const change of changes) {
+      await pb.collection(change.collection).update(change.record_id, change[direction]);
+      applied.push(change);
+    }
+  } catch (error) {
+    // Put back what was already written so a failed merge or undo leaves nothing half done
+    const undo = direction === 'after' ? 'before' : 'after';
+    for (const change of applied.reverse()) {
+      await pb.collection(change.collection).update(change.record_id, change[undo]).catch(rollbackError =>
+        console.error('Error rolling back customer merge change:', rollbackError)
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Merge duplicate customers: their orders take the chosen name, email and phone and are
+ * linked to the surviving account, the other accounts' addresses and reviews move over
+ * to it, and messages sent to their other contacts move to the chosen ones. Every field
+ * written is logged in `customer_merges` so the merge can be undone.
+ */
+export async function mergeCustomers(candidates: CustomerCandidate[], selection: MergeSelection): Promise<CustomerMerge> {
+  await ensureAdminAuth();
+  if (candidates.length < 2) throw new Error('Pick at least two customers to merge');
+  if (candidates.some(candidate => candidate.userId) && !selection.survivorUserId) {
+    throw new Error('Choose which account to keep');
+  }
+
+  const changes = await planMerge(candidates, selection);
+  await applyChanges(changes, 'after');
+
+  const user = getSessionUser();
+  try {
+    return await pb.collection('customer_merges').create({
+      survivor_user_id: selection.survivorUserId || '',
+      name: selection.name,
+      email: selection.email,
+      phone: selection.phone,
+      merged: candidates.map(describeCandidate),
+      changes,
+      status: 'merged',
+      actor: user?.name || 'System',
+      actor_id: user?.id || '',
+    }) as unknown as CustomerMerge;
+  } catch (error) {
+    // Without its log entry the merge could never be undone, so take it back
+    await applyChanges([...changes].reverse(), 'before').catch(rollbackError =>
+      console.error('Error rolling back unlogged customer merge:', rollbackError)
+    );
+    throw error;
+  }
+}
+
+// Blank relation and text fields come back from PocketBase as "" rather than null
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? '') === JSON.stringify(b ?? '');
+
+export interface MergeUndoResult {
+  // "collection record: field" for each field edited since the merge, which was left alone
+  skipped: string[];
+}
+
+/**
+ * Put the fields the merge wrote back to their values from before the merge. A field
+ * edited since then (an order's address, a note) keeps its newer value and is reported.
+ */
+export async function undoCustomerMerge(merge: CustomerMerge): Promise<MergeUndoResult> {
+  await ensureAdminAuth();
+  if (merge.status === 'undone') throw new Error('This merge has already been undone');
+
+  const restore: CustomerMergeChange[] = [];
+  const skipped: string[] = [];
+  for (const change of [...merge.changes].reverse()) {
+    const current = await pb.collection(change.collection).getOne(change.record_id).catch(() => null);
+    if (!current) {
+      skipped.push(`${change.collection} ${change.record_id}: deleted`);
+      continue;
+    }
+
+    const fields = Object.keys(change.before).filter(field => sameValue(current[field], change.after[field]));
+    Object.keys(change.before)
+      .filter(field => !fields.includes(field))
+      .forEach(field => skipped.push(`${change.collection} ${change.record_id}: ${field}`));
+    if (fields.length === 0) continue;
+
+    const pick = (values: Record<string, unknown>) => Object.fromEntries(fields.map(field => [field, values[field]]));
+    restore.push({ ...change, before: pick(change.before), after: pick(change.after) });
+  }
+
+  await applyChanges(restore, 'before');
+  const user = getSessionUser();
+  await pb.collection('customer_merges').update(merge.id, {
+    status: 'undone',
+    undone_at: new Date().toISOString(),
+    undone_by: user?.name || 'System',
+  });
+  return { skipped };
+}
+
+export async function fetchCustomerMerges(): Promise<CustomerMerge[]> {
+  await ensureAdminAuth();
+  const result = await pb.collection('customer_merges').getList(1, 50, { sort: '-created' });
+  return result.items as unknown as CustomerMerge[];
+}
@@ -0,0 +1,223 @@
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { WhatsAppActivity, formatPhoneNumber } from '@/lib/whatsapp';
+import { EmailActivity } from '@/lib/email';
+import { Address, Order, User } from '@/types/schema';
+
+export type CustomerWhatsAppActivity = WhatsAppActivity & { id: string; created: string };
+export type CustomerEmailActivity = EmailActivity & { id: string; created: string };
+
+// A submission from the public feedback form
+export interface CustomerFeedback {
+  id: string;
+  name: string;
+  email: string;
+  type: string;
+  message: string;
+  status: string;
+  created: string;
+}
+
+export interface CustomerReview {
+  id: string;
+  product: string;
+  rating: number;
+  title?: string;
+  content?: string;
+  created: string;
+  expand?: {
+    product?: { id: string; name: string };
+  };
+}
+
+export interface CustomerStats {
+  orderCount: number;
+  // Sum of non-cancelled order totals less refunds, in rupees
+  totalSpend: number;
+  averageOrderValue: number;
+  firstOrderDate?: string;
+  lastOrderDate?: string;
+}
+
+export interface CustomerProfile {
+  user: User;
+  // Every email and normalized phone number the customer's orders were placed with
+  emails: string[];
+  phones: string[];
+  orders: Order[];
+  addresses: Address[];
+  whatsappActivities: CustomerWhatsAppActivity[];
+  emailActivities: CustomerEmailActivity[];
+  feedback: CustomerFeedback[];
+  reviews: CustomerReview[];
+  stats: CustomerStats;
+}
+
+// Keeps filters built from order IDs within PocketBase's request size limits
+const ID_CHUNK_SIZE = 40;
+
+export function normalizeEmail(email?: string): string {
+  return (email || '').trim().toLowerCase();
+}
+
+// formatPhoneNumber with an empty result for blank numbers, which would otherwise become "91"
+export function normalizePhone(phone?: string): string {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits ? formatPhoneNumber(digits) : '';
+}
+
+export function orderMatchesCustomer(order: Order, userId: string, emails: Set<string>, phones: Set<string>): boolean {
+  return (
+    (order.user || []).includes(userId) ||
+    (!!normalizeEmail(order.customer_email) && emails.has(normalizeEmail(order.customer_email))) ||
+    (!!normalizePhone(order.customer_phone) && phones.has(normalizePhone(order.customer_phone)))
+  );
+}
+
+export function computeCustomerStats(orders: Order[]): CustomerStats {
+  const counted = orders.filter(order => order.status !== 'cancelled');
+  const totalSpend = Math.round(counted.reduce(
+    (sum, order) => sum + (Number(order.total) || 0) - (Number(order.refund_amount) || 0),
+    0
+  ) * 100) / 100;
+  const dates = counted.map(order => order.created).sort();
+
+  return {
+    orderCount: counted.length,
+    totalSpend,
+    averageOrderValue: counted.length > 0 ? Math.round(totalSpend / counted.length * 100) / 100 : 0,
+    firstOrderDate: dates[0],
+    lastOrderDate: dates[dates.length - 1],
+  };
+}
+
+function chunk<T>(values: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) chunks.push(values.slice(i, i + size));
+  return chunks;
+}
+
+// Numbers are stored as typed, so search on the last ten digits and compare normalized
+function phoneClauses(field: string, phones: string[]): string[] {
+  return phones.map(phone => pb.filter(`${field} ~ {:digits}`, { digits: phone.slice(-10) }));
+}
+
+function emailClauses(field: string, emails: string[]): string[] {
+  return emails.map(email => pb.filter(`${field} ~ {:email}`, { email }));
+}
+
+function orderIdClauses(orderIds: string[]): string[][] {
+  return chunk(orderIds, ID_CHUNK_SIZE).map(ids => ids.map(id => pb.filter('order_id = {:id}', { id })));
+}
+
+// Orders placed by the account, plus guest orders with the same email or phone number
+async function fetchCustomerOrders(user: User): Promise<{ orders: Order[]; emails: string[]; phones: string[] }> {
+  const emails = new Set([normalizeEmail(user.email)].filter(Boolean));
+  const phones = new Set<string>();
+  const found = new Map<string, Order>();
+
+  const search = async (clauses: string[]) => {
+    if (clauses.length === 0) return;
+    const records = await pb.collection('orders').getFullList({ filter: clauses.join(' || '), sort: '-created' });
+    (records as unknown as Order[])
+      .filter(order => orderMatchesCustomer(order, user.id, emails, phones))
+      .forEach(order => found.set(order.id, order));
+  };
+
+  // First by account and email, then again by the phone numbers those orders used
+  await search([pb.filter('user ~ {:id}', { id: user.id }), ...emailClauses('customer_email', [...emails])]);
+  found.forEach(order => {
+    const phone = normalizePhone(order.customer_phone);
+    if (phone) phones.add(phone);
+  });
+  await search(phoneClauses('customer_phone', [...phones]));
+
+  const orders = [...found.values()].sort((a, b) => b.created.localeCompare(a.created));
+  orders.forEach(order => {
+    const email = normalizeEmail(order.customer_email);
+    if (email) emails.add(email);
+  });
+  return { orders, emails: [...emails], phones: [...phones] };
+}
+
+// Messages linked to one of the orders, or sent straight to one of the customer's numbers or addresses
+async function fetchActivities<T extends { id: string; order_id: string; timestamp: string; recipient: string }>(
+  collection: string,
+  orderIds: string[],
+  recipientClauses: string[],
+  matchesRecipient: (recipient: string) => boolean,
+): Promise<T[]> {
+  const filters = [...orderIdClauses(orderIds), recipientClauses].filter(clauses => clauses.length > 0);
+  const found = new Map<string, T>();
+
+  for (const clauses of filters) {
+    try {
+      const records = await pb.collection(collection).getFullList({ filter: clauses.join(' || '), sort: '-timestamp' });
+      (records as unknown as T[]).forEach(record => found.set(record.id, record));
+    } catch (error) {
+      // Activity collections are created lazily and may not exist yet
+      console.error(`Error fetching ${collection}:`, error);
+    }
+  }
+
+  const orderIdSet = new Set(orderIds);
+  return [...found.values()]
+    .filter(record => orderIdSet.has(record.order_id) || matchesRecipient(record.recipient))
+    .sort((a, b) => (b.timestamp || '').localeCompare(a.timestamp || ''));
+}
+
+export async function fetchCustomerProfile(userId: string): Promise<CustomerProfile> {
+  await ensureAdminAuth();
+  const user = await pb.collection('users').getOne(userId) as unknown as User;
+  const { orders, emails, phones } = await fetchCustomerOrders(user);
+  const orderIds = orders.map(order => order.id);
+  const emailSet = new Set(emails);
+  const phoneSet = new Set(phones);
+
+  const [addresses, whatsappActivities, emailActivities, feedback, reviews] = await Promise.all([
+    pb.collection('addresses')
+      .getFullList({ filter: pb.filter('user_id = {:userId}', { userId }), sort: '-is_default,-created' })
+      .catch(error => {
+        console.error('Error fetching addresses:', error);
+        return [];
+      }),
+    fetchActivities<CustomerWhatsAppActivity>(
+      'whatsapp_activities',
+      orderIds,
+      phoneClauses('recipient', phones),
+      recipient => phoneSet.has(normalizePhone(recipient)),
+    ),
+    fetchActivities<CustomerEmailActivity>(
+      'email_activities',
+      orderIds,
+      emailClauses('recipient', emails),
+      recipient => emailSet.has(normalizeEmail(recipient)),
+    ),
+    emails.length === 0
+      ? Promise.resolve([])
+      : pb.collection('feedback')
+        .getFullList({ filter: emailClauses('email', emails).join(' || '), sort: '-created' })
+        .catch(error => {
+          console.error('Error fetching feedback:', error);
+          return [];
+        }),
+    pb.collection('reviews')
+      .getFullList({ filter: pb.filter('user = {:userId}', { userId }), sort: '-created', expand: 'product' })
+      .catch(error => {
+        console.error('Error fetching reviews:', error);
+        return [];
+      }),
+  ]);
+
+  return {
+    user,
+    emails,
+    phones,
+    orders,
+    addresses: addresses as unknown as Address[],
+    whatsappActivities,
+    emailActivities,
+    feedback: (feedback as unknown as CustomerFeedback[]).filter(entry => emailSet.has(normalizeEmail(entry.email))),
+    reviews: reviews as unknown as CustomerReview[],
+    stats: computeCustomerStats(orders),
+  };
+}
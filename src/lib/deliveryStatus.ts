@@ -0,0 +1,68 @@
+export type DeliveryChannel = 'whatsapp' | 'email';
+
+export type DeliveryStatus = 'queued' | 'sent' | 'delivered' | 'read' | 'opened' | 'clicked' | 'failed' | 'cancelled';
+
+/**
+ * The steps a message moves through once it has left the queue. WhatsApp reports delivery
+ * and reads through status callbacks; emails report opens and clicks through tracking links.
+ * Statuses only ever move forward along these lists.
+ */
+export const DELIVERY_STEPS: Record<DeliveryChannel, DeliveryStatus[]> = {
+  whatsapp: ['sent', 'delivered', 'read'],
+  email: ['sent', 'opened', 'clicked'],
+};
+
+// Statuses of a message that reached the provider, whatever happened to it afterwards
+export const SENT_STATUSES: DeliveryStatus[] = ['sent', 'delivered', 'read', 'opened', 'clicked'];
+
+export const isSentStatus = (status: string) => SENT_STATUSES.includes(status as DeliveryStatus);
+
+// Whether a message with this status got at least as far as `step`
+export function reachedStep(channel: DeliveryChannel, status: string, step: DeliveryStatus): boolean {
+  const steps = DELIVERY_STEPS[channel];
+  const reached = steps.indexOf(status as DeliveryStatus);
+  return reached >= 0 && reached >= steps.indexOf(step);
+}
+
+export interface TemplateFunnel {
+  templateName: string;
+  total: number;
+  failed: number;
+  // Messages that reached each of the channel's steps
+  steps: Record<string, number>;
+}
+
+interface FunnelActivity {
+  template_name: string;
+  status: string;
+}
+
+// Per-template counts of how far messages got, busiest template first
+export function buildTemplateFunnels(channel: DeliveryChannel, activities: FunnelActivity[]): TemplateFunnel[] {
+  const funnels = new Map<string, TemplateFunnel>();
+
+  activities.forEach(activity => {
+    const templateName = activity.template_name || 'unknown';
+    let funnel = funnels.get(templateName);
+    if (!funnel) {
+      funnel = {
+        templateName,
+        total: 0,
+        failed: 0,
+        steps: Object.fromEntries(DELIVERY_STEPS[channel].map(step => [step, 0])),
+      };
+      funnels.set(templateName, funnel);
+    }
+
+    funnel.total += 1;
+    if (activity.status === 'failed') funnel.failed += 1;
+    DELIVERY_STEPS[channel].forEach(step => {
+      if (reachedStep(channel, activity.status, step)) funnel!.steps[step] += 1;
+    });
+  });
+
+  return [...funnels.values()].sort((a, b) => b.total - a.total);
+}
+
+// Share of `count` in `total` as a whole percentage
+export const funnelRate = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 100) : 0);
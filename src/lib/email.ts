@@ -1,5 +1,18 @@
 import axios, { AxiosResponse } from 'axios';
 import { Order, OrderItem, Product, User } from '@/types/schema';
+import { authHeaders, EnqueueOptions, queueEmail } from '@/lib/messageQueue';
+import { getStoreSettings } from '@/lib/storeSettings';
+import {
+  buildOrderContext,
+  renderTemplate,
+  TemplateLineItem,
+  TemplateScope,
+  toLineItem
+} from '@/lib/templateEngine';
+import { EmailTemplate, EMAIL_MESSAGES, refundConfirmationKey } from '@/lib/orderMessages';
+
+// The message catalogue is shared with the Node server
+export { EmailTemplate, EMAIL_MESSAGES };
 
 // Email API URL using the proxy configured in vite.config.js
 const EMAIL_API_URL = '/email-api';
@@ -10,10 +23,17 @@ export interface EmailActivity {
   order_id: string;
   template_name: string;
   recipient: string;
-  status: 'sent' | 'failed';
+  status: 'queued' | 'sent' | 'opened' | 'clicked' | 'failed' | 'cancelled';
   message_content: string;
   timestamp: string;
   subject?: string;
+  // Set when the message went through the outbound queue
+  queue_id?: string;
+  error_message?: string;
+  provider_message_id?: string;
+  // First open (tracking pixel) and first link click
+  opened_at?: string;
+  clicked_at?: string;
   created?: string;
   updated?: string;
   collectionId?: string;
@@ -30,18 +50,30 @@ export interface EmailApiResponse {
   [key: string]: unknown;
 }
 
-// Template names for email templates
-export enum EmailTemplate {
-  ABANDONED_CART = 'abandoned_cart',
-  ORDER_CONFIRMATION = 'order_confirmation',
-  PAYMENT_SUCCESS = 'payment_success',
-  PAYMENT_FAILED = 'payment_failed',
-  ORDER_SHIPPED = 'order_shipped',
-  OUT_FOR_DELIVERY = 'out_for_delivery',
-  ORDER_DELIVERED = 'order_delivered',
-  REQUEST_REVIEW = 'request_review',
-  REFUND_CONFIRMATION = 'refund_confirmation',
-  REORDER_REMINDER = 'reorder_reminder'
+/**
+ * Fill one of EMAIL_MESSAGES for an order; the body is HTML, so values are escaped.
+ * Throws TemplateRenderError if it uses a variable that neither the order nor `extra` provides.
+ * @param templateName - Which email to render
+ * @param order - The order the email is about
+ * @param extra - Values the order doesn't have, e.g. a review link
+ * @param items - Line items, when the caller has fresher ones than the order's products
+ */
+export async function renderOrderEmail(
+  templateName: EmailTemplate,
+  order: Order,
+  extra: TemplateScope = {},
+  items?: TemplateLineItem[]
+): Promise<{ subject: string; message: string }> {
+  const template = EMAIL_MESSAGES[templateName];
+  if (!template) {
+    throw new Error(`No built-in email for template "${templateName}"`);
+  }
+  const settings = await getStoreSettings();
+  const context = buildOrderContext(order, { storeName: settings.store_name, currency: settings.currency }, { items, extra });
+  return {
+    subject: renderTemplate(template.subject, context),
+    message: renderTemplate(template.html, context, { format: 'html' }),
+  };
 }
 
 /**
@@ -50,12 +82,16 @@ export enum EmailTemplate {
  * @param subject - Email subject
  * @param message - Email content (HTML)
  * @param variables - Optional variables for template messages
+ * @param options - Order, template name and idempotency key for the queue
+ * @param text - Optional plain-text alternative
  */
 export async function sendEmailMessage(
   to: string,
   subject: string,
   message: string,
-  variables?: Record<string, string>
+  variables?: Record<string, string>,
+  options?: EnqueueOptions,
+  text?: string
 ): Promise<EmailApiResponse> {
   try {
     // Validate email format
@@ -63,36 +99,9 @@ export async function sendEmailMessage(
       throw new Error('Invalid email address format');
     }
     
-    // Prepare the request data
-    const data: {
-      to: string;
-      subject: string;
-      message: string;
-      variables?: Record<string, string>;
-    } = {
-      to,
-      subject,
-      message
-    };
-    
-    // Add variables if provided
-    if (variables) {
-      data.variables = variables;
-    }
-    
-    // Make the API request through the proxy configured in vite.config.js
-    console.log('Sending email to:', to);
-    const response = await axios.post(`${EMAIL_API_URL}/send-email`, data);
-    console.log('Email API response:', response.data);
-    
-    // Return a standardized response
-    return {
-      success: true,
-      message: 'Email sent',
-      messageId: response.data.messageId || response.data.id,
-      status: response.data.status || 'sent',
-      timestamp: response.data.timestamp || new Date().toISOString()
-    };
+    // The server adds the store's sender details, queues the email and sends it with retries
+    console.log('Queueing email to:', to);
+    return await queueEmail({ to, subject, message, text, variables }, options);
   } catch (error) {
     console.error('Error sending email:', error);
     
@@ -126,7 +135,8 @@ export async function sendEmailWithAttachment(
   subject: string,
   message: string,
   attachments: Array<{filename: string, content: string, contentType: string}>,
-  variables?: Record<string, string>
+  variables?: Record<string, string>,
+  options?: EnqueueOptions
 ): Promise<EmailApiResponse> {
   try {
     // Validate email format
@@ -134,38 +144,9 @@ export async function sendEmailWithAttachment(
       throw new Error('Invalid email address format');
     }
     
-    // Prepare the request data
-    const data: {
-      to: string;
-      subject: string;
-      message: string;
-      attachments: Array<{filename: string, content: string, contentType: string}>;
-      variables?: Record<string, string>;
-    } = {
-      to,
-      subject,
-      message,
-      attachments
-    };
-    
-    // Add variables if provided
-    if (variables) {
-      data.variables = variables;
-    }
-    
-    // Make the API request through the proxy configured in vite.config.js
-    console.log('Sending email with attachment to:', to);
-    const response = await axios.post(`${EMAIL_API_URL}/send-email-with-attachment`, data);
-    console.log('Email API response:', response.data);
-    
-    // Return a standardized response
-    return {
-      success: true,
-      message: 'Email with attachment sent',
-      messageId: response.data.messageId || response.data.id,
-      status: response.data.status || 'sent',
-      timestamp: response.data.timestamp || new Date().toISOString()
-    };
+    // The server adds the store's sender details, queues the email and sends it with retries
+    console.log('Queueing email with attachment to:', to);
+    return await queueEmail({ to, subject, message, attachments, variables }, options);
   } catch (error) {
     console.error('Error sending email with attachment:', error);
     
@@ -199,34 +180,15 @@ export async function sendOrderConfirmationEmail(
   to: string
 ): Promise<EmailApiResponse> {
   try {
-    const subject = `Order Confirmation - #${order.id}`;
-    
-    // Format order items for display
-    const formattedItems = orderItems
-      .map((item) => `${item.quantity}x ${item.name} - ₹${item.price}`)
-      .join('<br>');
-    
-    const total = orderItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
-    
-    // Create email content
-    const message = `
-      <h1>Order Confirmation</h1>
-      <p>Dear ${order.customer_name},</p>
-      <p>Thank you for your order! We're pleased to confirm that we've received your order.</p>
-      <h2>Order Details:</h2>
-      <p><strong>Order ID:</strong> ${order.id}</p>
-      <p><strong>Order Date:</strong> ${new Date(order.created || Date.now()).toLocaleDateString()}</p>
-      <h3>Items:</h3>
-      <p>${formattedItems}</p>
-      <p><strong>Total: ₹${total}</strong></p>
-      <p>We'll notify you when your order has been shipped.</p>
-      <p>Thank you for shopping with us!</p>
-    `;
+    const { subject, message } = await renderOrderEmail(EmailTemplate.ORDER_CONFIRMATION, order, {}, orderItems.map(toLineItem));
     
     // Send the email with order ID in variables
     return await sendEmailMessage(to, subject, message, {
       orderId: order.id,
       templateName: EmailTemplate.ORDER_CONFIRMATION
+    }, {
+      orderId: order.id,
+      templateName: EmailTemplate.ORDER_CONFIRMATION
     });
   } catch (error) {
     console.error('Error sending order confirmation email:', error);
@@ -247,22 +209,13 @@ export async function sendPaymentSuccessEmail(
   customerEmail: string
 ): Promise<EmailApiResponse> {
   try {
-    const subject = `Payment Successful - Order #${order.id}`;
-    
-    // Create email content
-    const message = `
-      <h1>Payment Successful</h1>
-      <p>Dear ${order.customer_name},</p>
-      <p>Great news! Your payment for order #${order.id} has been successfully processed.</p>
-      <p><strong>Order ID:</strong> ${order.id}</p>
-      <p><strong>Amount:</strong> ₹${order.total}</p>
-      <p><strong>Date:</strong> ${new Date(order.created || Date.now()).toLocaleDateString()}</p>
-      <p>We're now preparing your order for shipment. You'll receive another email once your order has been shipped.</p>
-      <p>Thank you for shopping with us!</p>
-    `;
+    const { subject, message } = await renderOrderEmail(EmailTemplate.PAYMENT_SUCCESS, order);
     
     // Send the email
-    return await sendEmailMessage(customerEmail, subject, message);
+    return await sendEmailMessage(customerEmail, subject, message, undefined, {
+      orderId: order.id,
+      templateName: EmailTemplate.PAYMENT_SUCCESS
+    });
   } catch (error) {
     console.error('Error sending payment success email:', error);
     return {
@@ -284,23 +237,13 @@ export async function sendPaymentFailedEmail(
   retryUrl: string
 ): Promise<EmailApiResponse> {
   try {
-    const subject = `Payment Failed - Order #${order.id}`;
-    
-    // Create email content
-    const message = `
-      <h1>Payment Failed</h1>
-      <p>Dear ${order.customer_name},</p>
-      <p>We're sorry, but your payment for order #${order.id} could not be processed.</p>
-      <p><strong>Order ID:</strong> ${order.id}</p>
-      <p><strong>Amount:</strong> ₹${order.total}</p>
-      <p>Please click the link below to retry your payment:</p>
-      <p><a href="${retryUrl}">Retry Payment</a></p>
-      <p>If you continue to experience issues, please contact our customer support team for assistance.</p>
-      <p>Thank you for your patience.</p>
-    `;
+    const { subject, message } = await renderOrderEmail(EmailTemplate.PAYMENT_FAILED, order, { retryUrl });
     
     // Send the email
-    return await sendEmailMessage(customerEmail, subject, message);
+    return await sendEmailMessage(customerEmail, subject, message, undefined, {
+      orderId: order.id,
+      templateName: EmailTemplate.PAYMENT_FAILED
+    });
   } catch (error) {
     console.error('Error sending payment failed email:', error);
     return {
@@ -324,28 +267,18 @@ export async function sendOrderShippedEmail(
   carrier: string
 ): Promise<EmailApiResponse> {
   try {
-    const subject = `Your Order Has Been Shipped - Order #${order.id}`;
-    
-    // Calculate estimated delivery date (7-10 days from now)
-    const today = new Date();
-    const deliveryDate = new Date(today.setDate(today.getDate() + 7));
-    const formattedDeliveryDate = deliveryDate.toLocaleDateString();
-    
-    // Create email content
-    const message = `
-      <h1>Your Order Has Been Shipped</h1>
-      <p>Dear ${order.customer_name},</p>
-      <p>Good news! Your order #${order.id} has been shipped and is on its way to you.</p>
-      <p><strong>Shipping Details:</strong></p>
-      <p><strong>Carrier:</strong> ${carrier}</p>
-      <p><strong>Estimated Delivery Date:</strong> ${formattedDeliveryDate}</p>
-      <p><strong>Tracking Link:</strong> <a href="${trackingLink}">Track Your Order</a></p>
-      <p>You can use the tracking link above to monitor the progress of your delivery.</p>
-      <p>Thank you for shopping with us!</p>
-    `;
+    const { subject, message } = await renderOrderEmail(EmailTemplate.ORDER_SHIPPED, order, {
+      // Fall back to what is saved on the order
+      trackingLink: trackingLink || order.tracking_link || '',
+      carrier: carrier || order.shipping_carrier || '',
+      estimatedDelivery: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+    });
     
     // Send the email
-    return await sendEmailMessage(customerEmail, subject, message);
+    return await sendEmailMessage(customerEmail, subject, message, undefined, {
+      orderId: order.id,
+      templateName: EmailTemplate.ORDER_SHIPPED
+    });
   } catch (error) {
     console.error('Error sending order shipped email:', error);
     return {
@@ -365,20 +298,13 @@ export async function sendOutForDeliveryEmail(
   customerEmail: string
 ): Promise<EmailApiResponse> {
   try {
-    const subject = `Your Order Is Out For Delivery - Order #${order.id}`;
-    
-    // Create email content
-    const message = `
-      <h1>Your Order Is Out For Delivery</h1>
-      <p>Dear ${order.customer_name},</p>
-      <p>Exciting news! Your order #${order.id} is out for delivery and should arrive today.</p>
-      <p>Please ensure someone is available to receive the package.</p>
-      <p>If you have any special delivery instructions, please contact the carrier directly.</p>
-      <p>Thank you for shopping with us!</p>
-    `;
+    const { subject, message } = await renderOrderEmail(EmailTemplate.OUT_FOR_DELIVERY, order);
     
     // Send the email
-    return await sendEmailMessage(customerEmail, subject, message);
+    return await sendEmailMessage(customerEmail, subject, message, undefined, {
+      orderId: order.id,
+      templateName: EmailTemplate.OUT_FOR_DELIVERY
+    });
   } catch (error) {
     console.error('Error sending out for delivery email:', error);
     return {
@@ -400,21 +326,13 @@ export async function sendOrderDeliveredEmail(
   feedbackLink: string
 ): Promise<EmailApiResponse> {
   try {
-    const subject = `Your Order Has Been Delivered - Order #${order.id}`;
-    
-    // Create email content
-    const message = `
-      <h1>Your Order Has Been Delivered</h1>
-      <p>Dear ${order.customer_name},</p>
-      <p>We're happy to inform you that your order #${order.id} has been delivered.</p>
-      <p>We hope you're satisfied with your purchase. If you have a moment, we'd appreciate your feedback:</p>
-      <p><a href="${feedbackLink}">Share Your Feedback</a></p>
-      <p>If you have any questions or concerns about your order, please don't hesitate to contact our customer support team.</p>
-      <p>Thank you for shopping with us!</p>
-    `;
+    const { subject, message } = await renderOrderEmail(EmailTemplate.ORDER_DELIVERED, order, { feedbackLink });
     
     // Send the email
-    return await sendEmailMessage(customerEmail, subject, message);
+    return await sendEmailMessage(customerEmail, subject, message, undefined, {
+      orderId: order.id,
+      templateName: EmailTemplate.ORDER_DELIVERED
+    });
   } catch (error) {
     console.error('Error sending order delivered email:', error);
     return {
@@ -436,21 +354,13 @@ export async function sendRequestReviewEmail(
   reviewLink: string
 ): Promise<EmailApiResponse> {
   try {
-    const subject = `Please Review Your Recent Purchase - Order #${order.id}`;
-    
-    // Create email content
-    const message = `
-      <h1>How Was Your Experience?</h1>
-      <p>Dear ${order.customer_name},</p>
-      <p>Thank you for your recent purchase (Order #${order.id}). We hope you're enjoying your new items!</p>
-      <p>We'd love to hear your thoughts on your purchase. Your feedback helps us improve and assists other customers in making informed decisions.</p>
-      <p><a href="${reviewLink}">Leave a Review</a></p>
-      <p>It only takes a minute, and your input is valuable to us.</p>
-      <p>Thank you for your support!</p>
-    `;
+    const { subject, message } = await renderOrderEmail(EmailTemplate.REQUEST_REVIEW, order, { reviewLink });
     
     // Send the email
-    return await sendEmailMessage(customerEmail, subject, message);
+    return await sendEmailMessage(customerEmail, subject, message, undefined, {
+      orderId: order.id,
+      templateName: EmailTemplate.REQUEST_REVIEW
+    });
   } catch (error) {
     console.error('Error sending review request email:', error);
     return {
@@ -465,30 +375,23 @@ export async function sendRequestReviewEmail(
  * @param order - The order object
  * @param customerEmail - Customer's email address
  * @param refundAmount - Amount refunded
+ * @param refundId - The refund record, so each partial refund is confirmed separately
  */
 export async function sendRefundConfirmationEmail(
   order: Order,
   customerEmail: string,
-  refundAmount: number
+  refundAmount: number,
+  refundId?: string
 ): Promise<EmailApiResponse> {
   try {
-    const subject = `Refund Confirmation - Order #${order.id}`;
-    
-    // Create email content
-    const message = `
-      <h1>Refund Confirmation</h1>
-      <p>Dear ${order.customer_name},</p>
-      <p>We're writing to confirm that we've processed a refund for your order #${order.id}.</p>
-      <p><strong>Refund Details:</strong></p>
-      <p><strong>Amount:</strong> ₹${refundAmount}</p>
-      <p><strong>Date:</strong> ${new Date().toLocaleDateString()}</p>
-      <p>The refunded amount should appear in your account within 5-7 business days, depending on your payment provider.</p>
-      <p>If you have any questions about your refund, please contact our customer support team.</p>
-      <p>Thank you for your understanding.</p>
-    `;
+    const { subject, message } = await renderOrderEmail(EmailTemplate.REFUND_CONFIRMATION, order, { refundAmount });
     
     // Send the email
-    return await sendEmailMessage(customerEmail, subject, message);
+    return await sendEmailMessage(customerEmail, subject, message, undefined, {
+      orderId: order.id,
+      templateName: EmailTemplate.REFUND_CONFIRMATION,
+      idempotencyKey: refundId ? refundConfirmationKey('email', order.id, refundId) : undefined
+    });
   } catch (error) {
     console.error('Error sending refund confirmation email:', error);
     return {
@@ -512,20 +415,13 @@ export async function sendReorderReminderEmail(
   reorderLink: string
 ): Promise<EmailApiResponse> {
   try {
-    const subject = `Time to Restock? - Order #${order.id}`;
-    
-    // Create email content
-    const message = `
-      <h1>Time to Restock?</h1>
-      <p>Dear ${order.customer_name},</p>
-      <p>It's been ${daysSinceDelivery} days since your last order (#${order.id}). We thought you might be running low on your items.</p>
-      <p>Ready to reorder? It's easy! Just click the link below:</p>
-      <p><a href="${reorderLink}">Reorder Now</a></p>
-      <p>Thank you for being a valued customer!</p>
-    `;
+    const { subject, message } = await renderOrderEmail(EmailTemplate.REORDER_REMINDER, order, { daysSinceDelivery, reorderLink });
     
     // Send the email
-    return await sendEmailMessage(customerEmail, subject, message);
+    return await sendEmailMessage(customerEmail, subject, message, undefined, {
+      orderId: order.id,
+      templateName: EmailTemplate.REORDER_REMINDER
+    });
   } catch (error) {
     console.error('Error sending reorder reminder email:', error);
     return {
@@ -535,13 +431,55 @@ export async function sendReorderReminderEmail(
   }
 }
 
+/**
+ * Email a generated order document (invoice or packing slip) as a PDF attachment
+ * @param order - The order object
+ * @param customerEmail - Customer's email address
+ * @param attachment - PDF filename and base64 content
+ * @param templateName - EmailTemplate.INVOICE or EmailTemplate.PACKING_SLIP
+ */
+export async function sendOrderDocumentEmail(
+  order: Order,
+  customerEmail: string,
+  attachment: { filename: string; content: string },
+  templateName: EmailTemplate.INVOICE | EmailTemplate.PACKING_SLIP
+): Promise<EmailApiResponse> {
+  try {
+    const label = templateName === EmailTemplate.INVOICE ? 'Invoice' : 'Packing Slip';
+    const { subject, message } = await renderOrderEmail(templateName, order, { documentLabel: label });
+    
+    return await sendEmailWithAttachment(
+      customerEmail,
+      subject,
+      message,
+      [{ ...attachment, contentType: 'application/pdf' }],
+      {
+        orderId: order.id,
+        templateName
+      },
+      {
+        orderId: order.id,
+        templateName,
+        // Documents are sent on request, so every send gets its own queue entry
+        idempotencyKey: `email:${order.id}:${templateName}:${Date.now()}`
+      }
+    );
+  } catch (error) {
+    console.error('Error sending order document email:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to send order document email'
+    };
+  }
+}
+
 /**
  * Log email message activity
  * @param activity - Email activity details
  */
 export async function logEmailActivity(activity: EmailActivity): Promise<void> {
   try {
-    await axios.post(`${EMAIL_API_URL}/log-activity`, activity);
+    await axios.post(`${EMAIL_API_URL}/log-activity`, activity, { headers: authHeaders() });
     console.log('Email activity logged:', activity);
   } catch (error) {
     console.error('Error logging email activity:', error);
@@ -567,7 +505,7 @@ export async function checkEmailConnection(): Promise<{
   message?: string;
 }> {
   try {
-    const response = await axios.get(`${EMAIL_API_URL}/status`);
+    const response = await axios.get(`${EMAIL_API_URL}/status`, { headers: authHeaders() });
     return {
       connected: response.data.connected || false,
       status: response.data.status || 'unknown',
@@ -0,0 +1,211 @@
+// Email templates built from blocks in the block editor. The blocks are stored as JSON and
+// compiled to table-based HTML with inline styles, which is what email clients render
+// reliably, plus a plain-text alternative. Both keep their {{placeholders}} and are filled in
+// by the template engine when the email is sent. The server imports this file, so imports stay relative.
+import type { EmailBlock, EmailBlockType, EmailGridProduct } from '../types/schema';
+
+export const EMAIL_BLOCK_LABELS: Record<EmailBlockType, string> = {
+  header: 'Header with logo',
+  text: 'Text',
+  button: 'Button',
+  order_items: 'Order items table',
+  product_grid: 'Product grid',
+  divider: 'Divider',
+  footer: 'Footer',
+};
+
+export interface CompiledEmail {
+  html: string;
+  text: string;
+}
+
+const FONT = 'font-family:Arial,Helvetica,sans-serif;';
+const CONTAINER_WIDTH = 600;
+
+const blockId = () => Math.random().toString(36).slice(2, 10);
+
+export function createEmailBlock(type: EmailBlockType): EmailBlock {
+  const id = blockId();
+  switch (type) {
+    case 'header':
+      return { id, type, logoUrl: '', title: '{{storeName}}', background: '#111827' };
+    case 'text':
+      return { id, type, text: '', align: 'left' };
+    case 'button':
+      return { id, type, label: 'View order', url: '', color: '#2563eb' };
+    case 'order_items':
+      return { id, type, showTotal: true };
+    case 'product_grid':
+      return { id, type, products: [] };
+    case 'divider':
+      return { id, type };
+    case 'footer':
+      return { id, type, text: '{{storeName}}\nYou are receiving this email because you ordered from us.' };
+  }
+}
+
+// What a new block template starts with
+export function defaultEmailBlocks(): EmailBlock[] {
+  return [
+    createEmailBlock('header'),
+    { ...createEmailBlock('text'), text: 'Dear {{customerName}},\n\nThank you for your order #{{orderId}}.' } as EmailBlock,
+    createEmailBlock('order_items'),
+    createEmailBlock('footer'),
+  ];
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const htmlText = (text: string) => escapeHtml(text).replace(/\n/g, '<br>');
+
+// Colours go into style attributes, so only hex values are let through
+function safeColor(value: string, fallback: string): string {
+  return /^#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(value.trim()) ? value.trim() : fallback;
+}
+
+// Web, mail and phone links, or a placeholder that is filled in when the email is sent
+function safeUrl(value: string): string {
+  const url = value.trim();
+  return /^(https?:\/\/|mailto:|tel:|\{\{)/i.test(url) ? url : '';
+}
+
+// White text on dark backgrounds, dark text on light ones
+function textColorOn(background: string): string {
+  let hex = background.slice(1);
+  if (hex.length === 3) hex = hex.split('').map(digit => digit + digit).join('');
+  const [r, g, b] = [0, 2, 4].map(start => parseInt(hex.slice(start, start + 2), 16));
+  return r * 0.299 + g * 0.587 + b * 0.114 > 160 ? '#111827' : '#ffffff';
+}
+
+const row = (cellStyle: string, content: string) =>
+  `<tr><td class="email-px" style="${FONT}${cellStyle}">${content}</td></tr>`;
+
+function productHtml(product: EmailGridProduct): string {
+  const url = safeUrl(product.url);
+  const imageUrl = safeUrl(product.imageUrl);
+  const link = (content: string) => (url ? `<a href="${escapeHtml(url)}" style="color:#111827;text-decoration:none">${content}</a>` : content);
+  const image = imageUrl
+    ? link(`<img src="${escapeHtml(imageUrl)}" alt="${escapeHtml(product.name)}" width="236" style="display:block;width:100%;max-width:236px;height:auto;margin:0 auto;border:0;border-radius:6px" />`)
+    : '';
+  // Two to a row on desktop; the columns wrap under each other on narrow screens
+  return `<div class="email-col" style="display:inline-block;width:100%;max-width:260px;vertical-align:top;${FONT}font-size:14px;line-height:1.4;color:#111827;text-align:center">`
+    + `<div style="padding:8px 12px">${image}`
+    + `<p style="margin:8px 0 2px;font-weight:bold">${link(escapeHtml(product.name))}</p>`
+    + (product.price ? `<p style="margin:0;color:#4b5563">${escapeHtml(product.price)}</p>` : '')
+    + '</div></div>';
+}
+
+function blockHtml(block: EmailBlock): string {
+  switch (block.type) {
+    case 'header': {
+      const background = safeColor(block.background, '#111827');
+      const logoUrl = safeUrl(block.logoUrl);
+      const logo = logoUrl
+        ? `<img src="${escapeHtml(logoUrl)}" alt="${escapeHtml(block.title || 'Logo')}" width="140" style="display:block;max-width:140px;height:auto;margin:0 auto${block.title ? ' 8px' : ''};border:0" />`
+        : '';
+      const title = block.title
+        ? `<div style="font-size:22px;font-weight:bold;color:${textColorOn(background)}">${htmlText(block.title)}</div>`
+        : '';
+      return row(`padding:24px 32px;background:${background};text-align:center`, logo + title);
+    }
+    case 'text':
+      return row(
+        `padding:16px 32px;font-size:15px;line-height:1.6;color:#1f2937;text-align:${block.align === 'center' ? 'center' : 'left'}`,
+        htmlText(block.text)
+      );
+    case 'button': {
+      const url = safeUrl(block.url);
+      if (!url || !block.label) return '';
+      const color = safeColor(block.color, '#2563eb');
+      return row(
+        'padding:16px 32px;text-align:center',
+        `<a href="${escapeHtml(url)}" style="display:inline-block;padding:12px 28px;border-radius:6px;background:${color};color:${textColorOn(color)};font-size:15px;font-weight:bold;text-decoration:none">${escapeHtml(block.label)}</a>`
+      );
+    }
+    case 'order_items': {
+      const cell = 'padding:8px 4px;border-bottom:1px solid #e5e7eb;';
+      const table = '<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="border-collapse:collapse;font-size:14px;color:#1f2937">'
+        + `<tr><th align="left" style="${cell}color:#6b7280;font-weight:normal">Item</th><th align="center" style="${cell}color:#6b7280;font-weight:normal">Qty</th><th align="right" style="${cell}color:#6b7280;font-weight:normal">Price</th></tr>`
+        + '{{#each items}}'
+        + `<tr><td style="${cell}">{{name}}{{#if variant}}<br><span style="font-size:12px;color:#6b7280">{{variant}}</span>{{/if}}</td><td align="center" style="${cell}">{{quantity}}</td><td align="right" style="${cell}">{{total | currency}}</td></tr>`
+        + '{{/each}}'
+        + (block.showTotal ? '<tr><td colspan="2" style="padding:8px 4px;font-weight:bold">Total</td><td align="right" style="padding:8px 4px;font-weight:bold">{{amount | currency}}</td></tr>' : '')
+        + '</table>';
+      return row('padding:16px 32px', table);
+    }
+    case 'product_grid':
+      if (block.products.length === 0) return '';
+      // font-size:0 stops the whitespace between the inline columns pushing the second one down
+      return row('padding:8px 28px;font-size:0;text-align:center', block.products.map(productHtml).join(''));
+    case 'divider':
+      return row('padding:8px 32px', '<div style="height:1px;line-height:1px;font-size:0;border-top:1px solid #e5e7eb">&nbsp;</div>');
+    case 'footer':
+      return row('padding:24px 32px;background:#f9fafb;font-size:12px;line-height:1.5;color:#6b7280;text-align:center', htmlText(block.text));
+  }
+}
+
+function blockText(block: EmailBlock): string {
+  switch (block.type) {
+    case 'header':
+      return block.title;
+    case 'text':
+    case 'footer':
+      return block.text;
+    case 'button': {
+      const url = safeUrl(block.url);
+      return url && block.label ? `${block.label}: ${url}` : '';
+    }
+    case 'order_items':
+      return '{{#each items}}{{quantity}} x {{name}} - {{total | currency}}\n{{/each}}'
+        + (block.showTotal ? 'Total: {{amount | currency}}' : '');
+    case 'product_grid':
+      return block.products
+        .map(product => [product.price ? `${product.name} - ${product.price}` : product.name, safeUrl(product.url)].filter(Boolean).join('\n'))
+        .join('\n\n');
+    case 'divider':
+      return '----------';
+  }
+}
+
+/**
+ * Compile blocks to a complete HTML email and its plain-text alternative. The layout is a
+ * single 600px column that shrinks to the screen, with one media query for narrow padding;
+ * one block per line keeps the HTML readable in the template's version history.
+ */
+export function compileEmailBlocks(blocks: EmailBlock[]): CompiledEmail {
+  const rows = blocks.map(blockHtml).filter(Boolean);
+  const html = [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    '<style>',
+    '@media only screen and (max-width: 620px) {',
+    '  .email-px { padding-left: 16px !important; padding-right: 16px !important; }',
+    '  .email-col { max-width: 100% !important; }',
+    '}',
+    '</style>',
+    '</head>',
+    '<body style="margin:0;padding:0;background:#f3f4f6">',
+    '<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background:#f3f4f6">',
+    '<tr><td align="center" style="padding:24px 8px">',
+    `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="width:100%;max-width:${CONTAINER_WIDTH}px;background:#ffffff;border-radius:8px;overflow:hidden">`,
+    ...rows,
+    '</table>',
+    '</td></tr>',
+    '</table>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+
+  const text = blocks.map(blockText).filter(Boolean).join('\n\n');
+  return { html, text };
+}
@@ -30,8 +30,6 @@ VITE_API_URL=http://localhost:3000/api
 VITE_EMAIL_API_URL=http://localhost:3000/email-api
 VITE_WHATSAPP_API_URL=https://backend-whatsappapi.7za6uc.easypanel.host
 VITE_POCKETBASE_URL=https://backend-pocketbase.7za6uc.easypanel.host
-POCKETBASE_ADMIN_EMAIL=nnirmal7107@gmail.com
-POCKETBASE_ADMIN_PASSWORD=Kamala@7107
 `;
         fs.writeFileSync('.env', defaultEnv);
         dotenv.config();
@@ -59,14 +57,13 @@ export function getEnv(key: string, defaultValue: string = ''): string {
   return defaultValue;
 }
 
-// Server-side environment variables with hardcoded defaults as fallback
+// Public environment variables with defaults as fallback.
+// Admin credentials are read from process.env by the Node server only (src/server/pocketbase.ts).
 export const SERVER_ENV = {
   VITE_API_URL: getEnv('VITE_API_URL', 'http://localhost:3000/api'),
   VITE_EMAIL_API_URL: getEnv('VITE_EMAIL_API_URL', 'http://localhost:3000/email-api'),
   VITE_GEMINI_API_KEY: getEnv('VITE_GEMINI_API_KEY', ''),
   VITE_POCKETBASE_URL: getEnv('VITE_POCKETBASE_URL', 'https://backend-pocketbase.7za6uc.easypanel.host'),
-  POCKETBASE_ADMIN_EMAIL: getEnv('POCKETBASE_ADMIN_EMAIL', 'nnirmal7107@gmail.com'),
-  POCKETBASE_ADMIN_PASSWORD: getEnv('POCKETBASE_ADMIN_PASSWORD', 'Kamala@7107'),
   VITE_WHATSAPP_API_URL: getEnv('VITE_WHATSAPP_API_URL', 'https://backend-whatsappapi.7za6uc.easypanel.host')
 };
 
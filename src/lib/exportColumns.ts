@@ -0,0 +1,73 @@
+import { Order, Product, User } from '@/types/schema';
+import { ExportColumn } from '@/lib/csv';
+import { DISCREPANCY_LABELS, Discrepancy } from '@/lib/reconciliation';
+
+export const orderExportColumns: ExportColumn<Order>[] = [
+  { header: 'Order ID', value: order => order.id },
+  { header: 'Created', value: order => order.created },
+  { header: 'Customer Name', value: order => order.customer_name },
+  { header: 'Customer Email', value: order => order.customer_email },
+  { header: 'Customer Phone', value: order => order.customer_phone },
+  { header: 'Status', value: order => order.status },
+  { header: 'Payment Status', value: order => order.payment_status },
+  { header: 'Subtotal', value: order => order.subtotal },
+  { header: 'Discount', value: order => order.discount_amount },
+  { header: 'Total', value: order => order.total },
+  { header: 'Coupon Code', value: order => order.coupon_code },
+  { header: 'Shipping Carrier', value: order => order.shipping_carrier },
+  { header: 'Tracking Link', value: order => order.tracking_link },
+  { header: 'Shipping Address', value: order => order.shipping_address_text },
+  { header: 'Razorpay Payment ID', value: order => order.razorpay_payment_id },
+];
+
+// Headers match the product import fields so an export can be edited and re-imported
+export const productExportColumns: ExportColumn<Product>[] = [
+  { header: 'ID', value: product => product.id },
+  { header: 'Name', value: product => product.name },
+  { header: 'Description', value: product => product.description },
+  { header: 'Price', value: product => product.price },
+  { header: 'Stock', value: product => product.stock },
+  { header: 'Category', value: product => product.category },
+  { header: 'Status', value: product => product.status },
+  { header: 'Image', value: product => product.image },
+  { header: 'Images', value: product => product.images?.join(', ') },
+  { header: 'Colors', value: product => product.colors },
+  { header: 'Tags', value: product => product.tags },
+  { header: 'Material', value: product => product.material },
+  { header: 'Dimensions', value: product => product.dimensions },
+  { header: 'Features', value: product => product.features },
+  { header: 'Care', value: product => product.care },
+  { header: 'HSN Code', value: product => product.hsn_code },
+  { header: 'GST Rate', value: product => product.gst_rate },
+  { header: 'Bestseller', value: product => product.bestseller },
+  { header: 'New', value: product => product.new },
+  { header: 'In Stock', value: product => product.inStock },
+  { header: 'Created', value: product => product.created },
+];
+
+export const customerExportColumns: ExportColumn<User>[] = [
+  { header: 'ID', value: user => user.id },
+  { header: 'Name', value: user => user.name },
+  { header: 'Email', value: user => user.email },
+  { header: 'Verified', value: user => user.verified },
+  { header: 'Email Visibility', value: user => user.emailVisibility },
+  { header: 'Created', value: user => user.created },
+];
+
+const rupees = (paise: number | null) => (paise === null ? '' : (paise / 100).toFixed(2));
+
+export const discrepancyExportColumns: ExportColumn<Discrepancy>[] = [
+  { header: 'Type', value: row => DISCREPANCY_LABELS[row.type] },
+  { header: 'Status', value: row => (row.resolution ? 'Resolved' : 'Open') },
+  { header: 'Order ID', value: row => row.orderId },
+  { header: 'Customer Name', value: row => row.customerName },
+  { header: 'Razorpay Payment IDs', value: row => row.paymentIds.join(', ') },
+  { header: 'Order Total', value: row => rupees(row.orderTotal) },
+  { header: 'Captured', value: row => rupees(row.captured) },
+  { header: 'Settled', value: row => rupees(row.settled) },
+  { header: 'Refunded', value: row => rupees(row.refunded) },
+  { header: 'Details', value: row => row.details },
+  { header: 'Resolution Note', value: row => row.resolution?.note },
+  { header: 'Resolved By', value: row => row.resolution?.resolved_by },
+  { header: 'Resolved At', value: row => row.resolution?.created },
+];
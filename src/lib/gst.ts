@@ -0,0 +1,151 @@
+// GST calculations for tax invoices
+
+export interface InvoiceLineInput {
+  description: string;
+  hsn: string;
+  quantity: number;
+  unitPrice: number;
+  gstRate: number;
+}
+
+export interface InvoiceLine extends InvoiceLineInput {
+  grossAmount: number;
+  discount: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+export interface HsnSummaryRow {
+  hsn: string;
+  gstRate: number;
+  taxableValue: number;
+  taxAmount: number;
+}
+
+export interface TaxBreakdown {
+  lines: InvoiceLine[];
+  isInterState: boolean;
+  taxableTotal: number;
+  cgstTotal: number;
+  sgstTotal: number;
+  igstTotal: number;
+  discountTotal: number;
+  grandTotal: number;
+  hsnSummary: HsnSummaryRow[];
+}
+
+export interface TaxOptions {
+  // Order-level discount, spread across lines in proportion to their value
+  discount?: number;
+  isInterState: boolean;
+  // Storefront prices are GST-inclusive, so tax is backed out of the line amount
+  pricesIncludeTax: boolean;
+}
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export function computeTaxBreakdown(inputs: InvoiceLineInput[], options: TaxOptions): TaxBreakdown {
+  const grossTotal = inputs.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  const discount = Math.min(options.discount || 0, grossTotal);
+
+  const lines = inputs.map(line => {
+    const grossAmount = round2(line.unitPrice * line.quantity);
+    const lineDiscount = grossTotal > 0 ? round2((grossAmount / grossTotal) * discount) : 0;
+    const netAmount = grossAmount - lineDiscount;
+    const rate = line.gstRate / 100;
+
+    const taxableValue = round2(options.pricesIncludeTax ? netAmount / (1 + rate) : netAmount);
+    // Intra-state supply splits tax evenly between CGST and SGST
+    const cgst = options.isInterState ? 0 : round2(taxableValue * rate / 2);
+    const sgst = cgst;
+    const igst = options.isInterState ? round2(taxableValue * rate) : 0;
+
+    return {
+      ...line,
+      grossAmount,
+      discount: lineDiscount,
+      taxableValue,
+      cgst,
+      sgst,
+      igst,
+      total: round2(taxableValue + cgst + sgst + igst),
+    };
+  });
+
+  const summary = new Map<string, HsnSummaryRow>();
+  lines.forEach(line => {
+    const key = `${line.hsn}|${line.gstRate}`;
+    const row = summary.get(key) || { hsn: line.hsn, gstRate: line.gstRate, taxableValue: 0, taxAmount: 0 };
+    row.taxableValue = round2(row.taxableValue + line.taxableValue);
+    row.taxAmount = round2(row.taxAmount + line.cgst + line.sgst + line.igst);
+    summary.set(key, row);
+  });
+
+  const sum = (pick: (line: InvoiceLine) => number) => round2(lines.reduce((total, line) => total + pick(line), 0));
+
+  return {
+    lines,
+    isInterState: options.isInterState,
+    taxableTotal: sum(line => line.taxableValue),
+    cgstTotal: sum(line => line.cgst),
+    sgstTotal: sum(line => line.sgst),
+    igstTotal: sum(line => line.igst),
+    discountTotal: sum(line => line.discount),
+    grandTotal: sum(line => line.total),
+    hsnSummary: Array.from(summary.values()),
+  };
+}
+
+// Place of supply: if the shipping address doesn't mention the seller's state, treat it as inter-state
+export function isInterStateSupply(shippingAddress: string | undefined, sellerState: string): boolean {
+  if (!shippingAddress || !sellerState) return false;
+  return !shippingAddress.toLowerCase().includes(sellerState.toLowerCase());
+}
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+function belowHundred(n: number): string {
+  if (n < 20) return ONES[n];
+  return [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(' ');
+}
+
+function belowThousand(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', rest ? belowHundred(rest) : ''].filter(Boolean).join(' ');
+}
+
+// Indian numbering: crore, lakh, thousand
+function integerInWords(n: number): string {
+  if (n === 0) return 'Zero';
+
+  const parts: string[] = [];
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor((n % 10000000) / 100000);
+  const thousand = Math.floor((n % 100000) / 1000);
+  const rest = n % 1000;
+
+  if (crore) parts.push(`${integerInWords(crore)} Crore`);
+  if (lakh) parts.push(`${belowHundred(lakh)} Lakh`);
+  if (thousand) parts.push(`${belowHundred(thousand)} Thousand`);
+  if (rest) parts.push(belowThousand(rest));
+
+  return parts.join(' ');
+}
+
+// e.g. 1250.5 -> "Rupees One Thousand Two Hundred Fifty and Fifty Paise Only"
+export function amountInWords(amount: number): string {
+  const rupees = Math.floor(Math.abs(amount));
+  const paise = Math.round((Math.abs(amount) - rupees) * 100);
+  const words = `Rupees ${integerInWords(rupees)}`;
+  return paise > 0
+    ? `${words} and ${belowHundred(paise)} Paise Only`
+    : `${words} Only`;
+}
@@ -0,0 +1,318 @@
+import { z } from 'zod';
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { BaseRecord, CreateProductData, RazorpaySettlement } from '@/types/schema';
+import { CreateUserData } from '@/hooks/useUsers';
+import { setStockLevel } from '@/lib/inventory';
+
+export type DuplicateStrategy = 'skip' | 'update' | 'create';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  // Alternative spreadsheet headers recognised when auto-mapping columns
+  aliases?: string[];
+}
+
+// Maps an import field key to the spreadsheet header it is read from
+export type ColumnMapping = Record<string, string>;
+
+export interface ImportRowError {
+  row: number;
+  field?: string;
+  message: string;
+  values: Record<string, string>;
+}
+
+export interface ValidImportRow<T> {
+  row: number;
+  data: T;
+  label: string;
+  // Id of the existing record with the same duplicate key, if any
+  existingId?: string;
+}
+
+export interface DryRunResult<T> {
+  totalRows: number;
+  valid: ValidImportRow<T>[];
+  errors: ImportRowError[];
+  duplicates: number;
+}
+
+export interface ImportConfig<T> {
+  entity: string;
+  fields: ImportField[];
+  // Parses a row of raw cell strings into T
+  schema: z.ZodTypeAny;
+  duplicateKeyLabel: string;
+  // Whether "create anyway" makes sense; unique fields such as user emails rule it out
+  allowDuplicateCreate: boolean;
+  duplicateKey: (data: T) => string;
+  rowLabel: (data: T) => string;
+  loadExistingKeys: () => Promise<Map<string, string>>;
+  create: (data: T) => Promise<void>;
+  update: (id: string, data: T) => Promise<void>;
+}
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Spreadsheet booleans arrive as "yes", "TRUE", "1", etc.
+const booleanCell = z.preprocess((value) => {
+  if (typeof value !== 'string' || value === '') return undefined;
+  const normalized = value.trim().toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(normalized)) return true;
+  if (['false', 'no', 'n', '0'].includes(normalized)) return false;
+  return value;
+}, z.boolean({ invalid_type_error: 'Expected yes/no or true/false' }).optional());
+
+const optionalText = z.preprocess(
+  (value) => (value === '' ? undefined : value),
+  z.string().optional()
+);
+
+const numberCell = <S extends z.ZodTypeAny>(schema: S) => z.preprocess(
+  (value) => (value === '' || value === undefined ? undefined : Number(String(value).replace(/[₹,\s]/g, ''))),
+  schema
+);
+
+export function autoMapColumns(headers: string[], fields: ImportField[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  fields.forEach(field => {
+    const candidates = [field.key, field.label, ...(field.aliases || [])].map(normalizeHeader);
+    const header = headers.find(h => candidates.includes(normalizeHeader(h)));
+    if (header) mapping[field.key] = header;
+  });
+  return mapping;
+}
+
+// Validate every row without writing anything, and flag rows that match existing records
+export async function dryRunImport<T>(
+  config: ImportConfig<T>,
+  rows: Record<string, string>[],
+  mapping: ColumnMapping
+): Promise<DryRunResult<T>> {
+  const existingKeys = await config.loadExistingKeys();
+  const seenInFile = new Set<string>();
+  const valid: ValidImportRow<T>[] = [];
+  const errors: ImportRowError[] = [];
+  let duplicates = 0;
+
+  rows.forEach((values, index) => {
+    // +2: one for the header row, one because spreadsheets count from 1
+    const row = index + 2;
+    const mapped: Record<string, string> = {};
+    config.fields.forEach(field => {
+      const header = mapping[field.key];
+      mapped[field.key] = header ? values[header] ?? '' : '';
+    });
+
+    const parsed = config.schema.safeParse(mapped);
+    if (!parsed.success) {
+      parsed.error.issues.forEach(issue => {
+        errors.push({ row, field: issue.path.join('.'), message: issue.message, values });
+      });
+      return;
+    }
+
+    const data = parsed.data as T;
+    const key = config.duplicateKey(data);
+    if (seenInFile.has(key)) {
+      errors.push({
+        row,
+        field: config.duplicateKeyLabel,
+        message: `Duplicate ${config.duplicateKeyLabel} appears earlier in the file`,
+        values,
+      });
+      return;
+    }
+    seenInFile.add(key);
+
+    const existingId = existingKeys.get(key);
+    if (existingId) duplicates++;
+
+    valid.push({ row, data, label: config.rowLabel(data), existingId });
+  });
+
+  return { totalRows: rows.length, valid, errors, duplicates };
+}
+
+export const productImportSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: optionalText,
+  price: numberCell(z.number({ required_error: 'Price is required', invalid_type_error: 'Price must be a number' }).min(0, 'Price cannot be negative')),
+  stock: numberCell(z.number({ invalid_type_error: 'Stock must be a number' }).int('Stock must be a whole number').min(0).optional()),
+  category: optionalText,
+  status: z.preprocess(
+    (value) => (value === '' ? 'active' : String(value).toLowerCase()),
+    z.enum(['active', 'inactive'], { errorMap: () => ({ message: 'Status must be active or inactive' }) })
+  ),
+  image: optionalText,
+  images: z.preprocess(
+    (value) => (typeof value === 'string' && value ? value.split(',').map(v => v.trim()).filter(Boolean) : undefined),
+    z.array(z.string()).optional()
+  ),
+  colors: optionalText,
+  tags: optionalText,
+  material: optionalText,
+  dimensions: optionalText,
+  features: optionalText,
+  care: optionalText,
+  hsn_code: optionalText,
+  gst_rate: numberCell(z.number({ invalid_type_error: 'GST rate must be a number' }).min(0).max(28).optional()),
+  bestseller: booleanCell,
+  new: booleanCell,
+  inStock: booleanCell,
+});
+
+export const productImportConfig: ImportConfig<CreateProductData> = {
+  entity: 'products',
+  fields: [
+    { key: 'name', label: 'Name', required: true, aliases: ['product', 'product name', 'title'] },
+    { key: 'description', label: 'Description' },
+    { key: 'price', label: 'Price', required: true, aliases: ['mrp', 'selling price'] },
+    { key: 'stock', label: 'Stock', aliases: ['qty', 'quantity', 'inventory'] },
+    { key: 'category', label: 'Category' },
+    { key: 'status', label: 'Status' },
+    { key: 'image', label: 'Image', aliases: ['image url', 'main image'] },
+    { key: 'images', label: 'Images', aliases: ['gallery'] },
+    { key: 'colors', label: 'Colors', aliases: ['colours', 'color'] },
+    { key: 'tags', label: 'Tags' },
+    { key: 'material', label: 'Material' },
+    { key: 'dimensions', label: 'Dimensions', aliases: ['size'] },
+    { key: 'features', label: 'Features' },
+    { key: 'care', label: 'Care' },
+    { key: 'hsn_code', label: 'HSN Code', aliases: ['hsn', 'hsn/sac'] },
+    { key: 'gst_rate', label: 'GST Rate', aliases: ['gst', 'gst %', 'tax rate'] },
+    { key: 'bestseller', label: 'Bestseller' },
+    { key: 'new', label: 'New' },
+    { key: 'inStock', label: 'In Stock' },
+  ],
+  schema: productImportSchema,
+  duplicateKeyLabel: 'name',
+  allowDuplicateCreate: true,
+  duplicateKey: (data) => data.name.trim().toLowerCase(),
+  rowLabel: (data) => data.name,
+  loadExistingKeys: async () => {
+    await ensureAdminAuth();
+    const records = await pb.collection('products').getFullList({ fields: 'id,name' });
+    return new Map(records.map(record => [String(record.name).trim().toLowerCase(), record.id]));
+  },
+  create: async (data) => {
+    await pb.collection('products').create(data);
+  },
+  // Stock on existing products goes through the ledger, as an adjustment to the imported count
+  update: async (id, { stock, ...data }) => {
+    await pb.collection('products').update(id, data);
+    if (stock !== undefined) {
+      await setStockLevel(id, stock, 'Spreadsheet import');
+    }
+  },
+};
+
+export type CustomerImportData = Pick<CreateUserData, 'name' | 'email' | 'emailVisibility' | 'verified'>;
+
+export const customerImportSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100),
+  email: z.string().trim().toLowerCase().email('Invalid email address'),
+  emailVisibility: booleanCell,
+  verified: booleanCell,
+});
+
+// Imported customers never log in with a password we know, so give them a random one
+const randomPassword = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(18)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const customerImportConfig: ImportConfig<CustomerImportData> = {
+  entity: 'customers',
+  fields: [
+    { key: 'name', label: 'Name', required: true, aliases: ['full name', 'customer name', 'customer'] },
+    { key: 'email', label: 'Email', required: true, aliases: ['email address', 'e-mail'] },
+    { key: 'emailVisibility', label: 'Email Visibility' },
+    { key: 'verified', label: 'Verified' },
+  ],
+  schema: customerImportSchema,
+  duplicateKeyLabel: 'email',
+  allowDuplicateCreate: false,
+  duplicateKey: (data) => data.email,
+  rowLabel: (data) => `${data.name} <${data.email}>`,
+  loadExistingKeys: async () => {
+    await ensureAdminAuth();
+    const records = await pb.collection('users').getFullList({ fields: 'id,email' });
+    return new Map(records.map(record => [String(record.email).toLowerCase(), record.id]));
+  },
+  create: async (data) => {
+    const password = randomPassword();
+    const payload: CreateUserData = {
+      ...data,
+      password,
+      passwordConfirm: password,
+      emailVisibility: data.emailVisibility ?? true,
+      verified: data.verified ?? false,
+    };
+    await pb.collection('users').create(payload);
+  },
+  update: async (id, data) => {
+    await pb.collection('users').update(id, data);
+  },
+};
+
+export type SettlementImportData = Omit<RazorpaySettlement, keyof BaseRecord>;
+
+// Razorpay reports amounts in rupees (refunds as debits); they are stored in paise like razorpay_orders
+const paiseCell = (label: string, required = false) => numberCell(
+  (required
+    ? z.number({ required_error: `${label} is required`, invalid_type_error: `${label} must be a number` })
+    : z.number({ invalid_type_error: `${label} must be a number` }).optional()
+  ).transform(value => Math.round(Math.abs(value || 0) * 100))
+);
+
+export const settlementImportSchema = z.object({
+  entity_id: z.string().trim().min(1, 'Entity ID is required'),
+  // Transfers, adjustments and other line types don't affect order reconciliation
+  type: z.preprocess(
+    (value) => {
+      const normalized = String(value || '').trim().toLowerCase();
+      return normalized === 'payment' || normalized === 'refund' ? normalized : 'adjustment';
+    },
+    z.enum(['payment', 'refund', 'adjustment'])
+  ),
+  payment_id: optionalText,
+  razorpay_order_id: optionalText,
+  amount: paiseCell('Amount', true),
+  fee: paiseCell('Fee'),
+  tax: paiseCell('Tax'),
+  settlement_id: optionalText,
+  settled_at: optionalText,
+});
+
+// Lines from Razorpay's settlement report (Settlements > Download recon report)
+export const settlementImportConfig: ImportConfig<SettlementImportData> = {
+  entity: 'settlements',
+  fields: [
+    { key: 'entity_id', label: 'Entity ID', required: true, aliases: ['id', 'transaction id'] },
+    { key: 'type', label: 'Type', required: true, aliases: ['entity type'] },
+    { key: 'amount', label: 'Amount', required: true },
+    { key: 'fee', label: 'Fee', aliases: ['fees'] },
+    { key: 'tax', label: 'Tax', aliases: ['gst'] },
+    { key: 'payment_id', label: 'Payment ID' },
+    { key: 'razorpay_order_id', label: 'Razorpay Order ID', aliases: ['order id'] },
+    { key: 'settlement_id', label: 'Settlement ID' },
+    { key: 'settled_at', label: 'Settled At', aliases: ['settlement date', 'settled on'] },
+  ],
+  schema: settlementImportSchema,
+  duplicateKeyLabel: 'entity ID',
+  allowDuplicateCreate: false,
+  duplicateKey: (data) => data.entity_id,
+  rowLabel: (data) => `${data.type} ${data.entity_id}`,
+  loadExistingKeys: async () => {
+    await ensureAdminAuth();
+    const records = await pb.collection('razorpay_settlements').getFullList({ fields: 'id,entity_id' });
+    return new Map(records.map(record => [String(record.entity_id), record.id]));
+  },
+  create: async (data) => {
+    await pb.collection('razorpay_settlements').create(data);
+  },
+  update: async (id, data) => {
+    await pb.collection('razorpay_settlements').update(id, data);
+  },
+};
@@ -0,0 +1,165 @@
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { SessionUser } from '@/lib/auth';
+import { isStaffRole } from '@/lib/permissions';
+import { WhatsAppApiResponse, sendWhatsAppImageMessage, sendWhatsAppMessage } from '@/lib/whatsapp';
+import { WhatsAppConversation, WhatsAppMessage, WhatsAppMessageDirection } from '@/types/schema';
+
+// Outbound messages sent from the inbox are logged as activities under this template name
+export const INBOX_REPLY_TEMPLATE = 'inbox_reply';
+
+// One bubble in a conversation: an inbox message, or an automated message such as an order update
+export interface ThreadEntry {
+  id: string;
+  direction: WhatsAppMessageDirection;
+  body: string;
+  mediaUrl?: string;
+  timestamp: string;
+  // received, queued, sent, delivered, read, failed or cancelled
+  status: string;
+  sentBy?: string;
+  // Set for automated messages, e.g. "order_shipped"
+  templateName?: string;
+}
+
+export interface Agent {
+  id: string;
+  name: string;
+}
+
+export interface InboxReply {
+  conversation: WhatsAppConversation;
+  text: string;
+  imageUrl?: string;
+  user: SessionUser | null;
+}
+
+interface ActivitySummary {
+  id: string;
+  queue_id?: string;
+  template_name: string;
+  status: string;
+  message_content: unknown;
+  timestamp: string;
+}
+
+// Activity content is the queue's JSON description of the message, or plain text on older records
+export function parseActivityContent(content: unknown): { text: string; mediaUrl?: string } {
+  if (content && typeof content === 'object') {
+    const value = content as { message?: string; mediaUrl?: string };
+    return { text: value.message || '', mediaUrl: value.mediaUrl };
+  }
+  try {
+    const value = JSON.parse(String(content || ''));
+    return { text: value.message || '', mediaUrl: value.mediaUrl };
+  } catch {
+    return { text: String(content || '') };
+  }
+}
+
+/**
+ * Merge a conversation's inbox messages with the other WhatsApp messages we sent the number.
+ * Replies sent from the inbox take their delivery status from the matching activity.
+ */
+export function buildThread(messages: WhatsAppMessage[], activities: ActivitySummary[]): ThreadEntry[] {
+  const activityByQueueId = new Map(activities.filter(activity => activity.queue_id).map(activity => [activity.queue_id!, activity]));
+  const inboxQueueIds = new Set(messages.map(message => message.queue_id).filter(Boolean));
+
+  const entries: ThreadEntry[] = messages.map(message => ({
+    id: message.id,
+    direction: message.direction,
+    body: message.body,
+    mediaUrl: message.media_url || undefined,
+    timestamp: message.timestamp,
+    status: (message.queue_id && activityByQueueId.get(message.queue_id)?.status) || message.status,
+    sentBy: message.sent_by,
+  }));
+
+  activities
+    .filter(activity => !activity.queue_id || !inboxQueueIds.has(activity.queue_id))
+    .forEach(activity => {
+      const content = parseActivityContent(activity.message_content);
+      entries.push({
+        id: activity.id,
+        direction: 'outbound',
+        body: content.text,
+        mediaUrl: content.mediaUrl,
+        timestamp: activity.timestamp,
+        status: activity.status,
+        templateName: activity.template_name,
+      });
+    });
+
+  return entries.sort((a, b) => (a.timestamp || '').localeCompare(b.timestamp || ''));
+}
+
+export async function fetchThread(conversation: WhatsAppConversation): Promise<ThreadEntry[]> {
+  await ensureAdminAuth();
+  const [messages, activities] = await Promise.all([
+    pb.collection('whatsapp_messages').getFullList({
+      filter: pb.filter('conversation_id = {:id}', { id: conversation.id }),
+      sort: 'timestamp',
+    }),
+    pb.collection('whatsapp_activities').getFullList({
+      filter: pb.filter('recipient = {:phone}', { phone: conversation.phone }),
+      fields: 'id,queue_id,template_name,status,message_content,timestamp',
+    }),
+  ]);
+  return buildThread(messages as unknown as WhatsAppMessage[], activities as unknown as ActivitySummary[]);
+}
+
+// Staff accounts that conversations can be assigned to
+export async function fetchAgents(): Promise<Agent[]> {
+  await ensureAdminAuth();
+  const users = await pb.collection('users').getFullList({
+    filter: 'role != ""',
+    fields: 'id,name,email,role',
+    sort: 'name',
+  });
+  return users
+    .filter(user => isStaffRole(user.role))
+    .map(user => ({ id: user.id, name: user.name || user.email }));
+}
+
+/**
+ * Send a reply through the outbound queue and add it to the thread. The reply is linked
+ * to the conversation's latest order so it also shows in that order's WhatsApp history.
+ */
+export async function sendInboxReply({ conversation, text, imageUrl, user }: InboxReply): Promise<WhatsAppMessage> {
+  const options = {
+    orderId: conversation.order_id || undefined,
+    templateName: INBOX_REPLY_TEMPLATE,
+    // Every reply is its own message, even for the same order
+    idempotencyKey: `whatsapp:inbox:${conversation.id}:${Date.now()}`,
+  };
+
+  const result: WhatsAppApiResponse = imageUrl
+    ? await sendWhatsAppImageMessage(conversation.phone, imageUrl, text || undefined, undefined, options)
+    : await sendWhatsAppMessage(conversation.phone, text, undefined, options);
+  if (!result.success) {
+    throw new Error(result.message);
+  }
+
+  await ensureAdminAuth();
+  const timestamp = new Date().toISOString();
+  const message = await pb.collection('whatsapp_messages').create({
+    conversation_id: conversation.id,
+    phone: conversation.phone,
+    direction: 'outbound',
+    kind: imageUrl ? 'image' : 'text',
+    body: text,
+    media_url: imageUrl || '',
+    queue_id: result.messageId || '',
+    status: 'queued',
+    sent_by: user?.name || 'System',
+    timestamp,
+  });
+
+  await pb.collection('whatsapp_conversations').update(conversation.id, {
+    last_message_at: timestamp,
+    last_message_preview: (text || '[image]').slice(0, 200),
+    last_direction: 'outbound',
+    unread_count: 0,
+  });
+
+  return message as unknown as WhatsAppMessage;
+}
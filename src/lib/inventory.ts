@@ -0,0 +1,341 @@
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { getSessionUser } from '@/lib/auth';
+import { itemVariantLabel, parseOrderProducts } from '@/lib/orderItems';
+import { BaseRecord, InventoryMovement, InventoryMovementType, Order, Product, ProductVariant } from '@/types/schema';
+
+export const MOVEMENT_LABELS: Record<InventoryMovementType, string> = {
+  order_placed: 'Order placed',
+  order_cancelled: 'Order cancelled',
+  refund: 'Refund',
+  adjustment: 'Adjustment',
+  restock: 'Restock',
+};
+
+// Used for products whose low_stock_threshold is empty or 0
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+export function lowStockThreshold(product: Pick<Product, 'low_stock_threshold'>): number {
+  return Number(product.low_stock_threshold) || DEFAULT_LOW_STOCK_THRESHOLD;
+}
+
+export function isLowStock(product: Pick<Product, 'stock' | 'low_stock_threshold'>): boolean {
+  return (Number(product.stock) || 0) <= lowStockThreshold(product);
+}
+
+export interface StockShortage {
+  productId: string;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+export class InsufficientStockError extends Error {
+  shortages: StockShortage[];
+
+  constructor(shortages: StockShortage[]) {
+    super(describeShortages(shortages));
+    this.name = 'InsufficientStockError';
+    this.shortages = shortages;
+  }
+}
+
+export function describeShortages(shortages: StockShortage[]): string {
+  return shortages
+    .map(shortage => `${shortage.name}: ${shortage.requested} ordered, ${Math.max(0, shortage.available)} in stock`)
+    .join('; ');
+}
+
+export interface MovementInput {
+  productId: string;
+  // Required for products with variants, whose stock is held per variant
+  variantId?: string;
+  type: InventoryMovementType;
+  quantity: number;
+  orderId?: string;
+  refundId?: string;
+  reason?: string;
+}
+
+async function createMovement(data: Omit<InventoryMovement, keyof BaseRecord>) {
+  return await pb.collection('inventory_movements').create(data) as unknown as InventoryMovement;
+}
+
+async function countVariants(productId: string): Promise<number> {
+  const result = await pb.collection('product_variants').getList(1, 1, {
+    filter: pb.filter('product_id = {:productId}', { productId }),
+    fields: 'id',
+  });
+  return result.totalItems;
+}
+
+// A product with variants stocks the sum of its variants
+export async function syncProductStock(productId: string): Promise<void> {
+  const variants = await pb.collection('product_variants').getFullList({
+    filter: pb.filter('product_id = {:productId}', { productId }),
+    fields: 'stock',
+  });
+  if (variants.length === 0) return;
+
+  const stock = variants.reduce((sum, record) => sum + (Number(record.stock) || 0), 0);
+  await pb.collection('products').update(productId, { stock, inStock: stock > 0 });
+}
+
+// Number of movements on a product's (or variant's) ledger and the stock they add up to
+async function loadLedger(productId: string, variantId: string): Promise<{ count: number; onHand: number }> {
+  const history = await pb.collection('inventory_movements').getFullList({
+    filter: pb.filter('product_id = {:productId} && variant_id = {:variantId}', { productId, variantId }),
+    fields: 'quantity',
+  });
+  return {
+    count: history.length,
+    onHand: history.reduce((sum, movement) => sum + (Number(movement.quantity) || 0), 0),
+  };
+}
+
+/**
+ * Add a movement to a product's (or variant's) ledger and write the new running
+ * total back to its stock. The ledger is the source of truth: stock on a product
+ * with no movements yet is booked as its opening balance, but once it has some,
+ * a stock field that disagrees with their sum is reported and overwritten.
+ */
+export async function recordMovement(input: MovementInput): Promise<InventoryMovement> {
+  await ensureAdminAuth();
+  const user = getSessionUser();
+  const actor = { actor: user?.name || 'System', actor_id: user?.id || '' };
+  const variantId = input.variantId || '';
+
+  const record = variantId
+    ? await pb.collection('product_variants').getOne(variantId) as unknown as ProductVariant
+    : await pb.collection('products').getOne(input.productId) as unknown as Product;
+  if (!variantId && await countVariants(input.productId) > 0) {
+    throw new Error(`${(record as Product).name} has variants; choose one to change its stock`);
+  }
+
+  const ledger = await loadLedger(input.productId, variantId);
+  const recorded = Number(record.stock) || 0;
+  let onHand = ledger.onHand;
+  if (ledger.count === 0) {
+    // Stock set when the product was created, or before the ledger existed
+    if (recorded !== 0) {
+      await createMovement({
+        product_id: input.productId,
+        variant_id: variantId,
+        type: 'adjustment',
+        quantity: recorded,
+        stock_after: recorded,
+        reason: 'Opening balance',
+        ...actor,
+      });
+    }
+    onHand = recorded;
+  } else if (recorded !== onHand) {
+    console.error(
+      `Stock of product ${input.productId}${variantId ? ` variant ${variantId}` : ''} is ${recorded} ` +
+      `but its movements add up to ${onHand}; correcting it from the ledger`
+    );
+  }
+
+  const stockAfter = onHand + input.quantity;
+  const movement = await createMovement({
+    product_id: input.productId,
+    variant_id: variantId,
+    type: input.type,
+    quantity: input.quantity,
+    stock_after: stockAfter,
+    order_id: input.orderId || '',
+    refund_id: input.refundId || '',
+    reason: input.reason?.trim() || '',
+    ...actor,
+  });
+
+  if (variantId) {
+    await pb.collection('product_variants').update(variantId, { stock: stockAfter });
+    await syncProductStock(input.productId);
+  } else {
+    await pb.collection('products').update(input.productId, { stock: stockAfter, inStock: stockAfter > 0 });
+  }
+  return movement;
+}
+
+/**
+ * Bring a product's stock to a counted level with one adjustment, e.g. a stock
+ * column in a spreadsheet import. Does nothing when the count already matches.
+ */
+export async function setStockLevel(productId: string, stock: number, reason: string): Promise<void> {
+  await ensureAdminAuth();
+  const product = await pb.collection('products').getOne(productId, { fields: 'id,stock' });
+  const ledger = await loadLedger(productId, '');
+  const onHand = ledger.count === 0 ? Number(product.stock) || 0 : ledger.onHand;
+  if (stock === onHand) return;
+
+  await recordMovement({ productId, type: 'adjustment', quantity: stock - onHand, reason });
+}
+
+interface StockLine {
+  productId: string;
+  variantId: string;
+  name: string;
+  quantity: number;
+}
+
+const stockKey = (productId: string, variantId?: string) => `${productId}:${variantId || ''}`;
+
+// Units of each product (or variant) on an order, merging lines for the same one
+function orderQuantities(order: Pick<Order, 'products'>): StockLine[] {
+  const lines = new Map<string, StockLine>();
+  parseOrderProducts(order).forEach(item => {
+    const productId = item.productId || item.product?.id;
+    if (!productId || !(item.quantity > 0)) return;
+    const key = stockKey(productId, item.variantId);
+    const label = itemVariantLabel(item);
+    const current = lines.get(key);
+    lines.set(key, {
+      productId,
+      variantId: item.variantId || '',
+      name: current?.name || `${item.product?.name || 'Unknown Product'}${label ? ` (${label})` : ''}`,
+      quantity: (current?.quantity || 0) + item.quantity,
+    });
+  });
+  return [...lines.values()];
+}
+
+// Lines on the order that don't have enough stock. Products or variants that no longer exist aren't tracked.
+export async function findStockShortages(order: Pick<Order, 'products'>): Promise<StockShortage[]> {
+  await ensureAdminAuth();
+  const shortages: StockShortage[] = [];
+
+  for (const line of orderQuantities(order)) {
+    const record = await pb.collection(line.variantId ? 'product_variants' : 'products')
+      .getOne(line.variantId || line.productId, { fields: 'id,stock' })
+      .catch(() => null);
+    if (!record) continue;
+
+    const available = Number(record.stock) || 0;
+    if (line.quantity > available) {
+      shortages.push({ productId: line.productId, name: line.name, requested: line.quantity, available });
+    }
+  }
+
+  return shortages;
+}
+
+/**
+ * Take an order's units out of stock. Returns the products that are now at or
+ * below their low-stock threshold so the caller can raise an alert.
+ */
+export async function reserveOrderStock(order: Order): Promise<Product[]> {
+  const lowStock = new Map<string, Product>();
+
+  for (const line of orderQuantities(order)) {
+    const exists = await pb.collection(line.variantId ? 'product_variants' : 'products')
+      .getOne(line.variantId || line.productId, { fields: 'id' })
+      .catch(() => null);
+    if (!exists) continue;
+
+    await recordMovement({
+      productId: line.productId,
+      variantId: line.variantId,
+      type: 'order_placed',
+      quantity: -line.quantity,
+      orderId: order.id,
+    });
+    const product = await pb.collection('products').getOne(line.productId) as unknown as Product;
+    if (isLowStock(product)) lowStock.set(product.id, product);
+  }
+
+  return [...lowStock.values()];
+}
+
+// Units of each product (or variant) an order still holds: what it took out less what has come back
+async function heldByOrder(orderId: string): Promise<Map<string, number> | null> {
+  const movements = await pb.collection('inventory_movements').getFullList({
+    filter: pb.filter('order_id = {:orderId}', { orderId }),
+    fields: 'product_id,variant_id,quantity',
+  });
+  // Orders placed before the ledger existed never took stock out through it
+  if (movements.length === 0) return null;
+
+  const held = new Map<string, number>();
+  movements.forEach(movement => {
+    const key = stockKey(movement.product_id, movement.variant_id);
+    held.set(key, (held.get(key) || 0) - (Number(movement.quantity) || 0));
+  });
+  return held;
+}
+
+// Put back everything a cancelled order still holds
+export async function releaseOrderStock(order: Pick<Order, 'id'>): Promise<void> {
+  await ensureAdminAuth();
+  const held = await heldByOrder(order.id);
+  if (!held) return;
+
+  for (const [key, quantity] of held) {
+    if (quantity <= 0) continue;
+    const [productId, variantId] = key.split(':');
+    await recordMovement({ productId, variantId, type: 'order_cancelled', quantity, orderId: order.id });
+  }
+}
+
+/**
+ * Return refunded units to stock. Orders tracked by the ledger never get back more
+ * than they took out, so refunding a cancelled order doesn't count the units twice.
+ * Returns how many units were restocked for each item.
+ */
+export async function restockRefundItems(
+  orderId: string,
+  refundId: string,
+  items: { product_id: string; variant_id?: string; quantity: number }[]
+): Promise<number[]> {
+  await ensureAdminAuth();
+  const held = await heldByOrder(orderId);
+  const restocked: number[] = [];
+
+  for (const item of items) {
+    const key = stockKey(item.product_id, item.variant_id);
+    const quantity = held ? Math.min(item.quantity, Math.max(0, held.get(key) || 0)) : item.quantity;
+    if (quantity <= 0) {
+      restocked.push(0);
+      continue;
+    }
+
+    try {
+      await recordMovement({
+        productId: item.product_id,
+        variantId: item.variant_id,
+        type: 'refund',
+        quantity,
+        orderId,
+        refundId,
+      });
+      held?.set(key, (held.get(key) || 0) - quantity);
+      restocked.push(quantity);
+    } catch (error) {
+      // The refund stands even if a product has since been deleted
+      console.error(`Error restocking product ${item.product_id}:`, error);
+      restocked.push(0);
+    }
+  }
+
+  return restocked;
+}
+
+export async function fetchMovements(productId: string, limit = 50): Promise<InventoryMovement[]> {
+  await ensureAdminAuth();
+  const result = await pb.collection('inventory_movements').getList(1, limit, {
+    filter: pb.filter('product_id = {:productId}', { productId }),
+    sort: '-created',
+  });
+  return result.items as unknown as InventoryMovement[];
+}
+
+// Active products at or below their threshold, lowest stock first
+export async function fetchLowStockProducts(): Promise<Product[]> {
+  await ensureAdminAuth();
+  const records = await pb.collection('products').getFullList({
+    filter: 'status = "active"',
+    fields: 'id,name,category,stock,low_stock_threshold,status',
+  });
+  return (records as unknown as Product[])
+    .filter(isLowStock)
+    .sort((a, b) => (Number(a.stock) || 0) - (Number(b.stock) || 0));
+}
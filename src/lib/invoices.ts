@@ -0,0 +1,154 @@
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { Invoice, Order, OrderItem, Product } from '@/types/schema';
+import { itemVariantLabel, parseOrderProducts } from '@/lib/orderItems';
+import { variantLabel } from '@/lib/productVariants';
+import { InvoiceLineInput } from '@/lib/gst';
+import { StoreSettingsValues, getStoreSettings } from '@/lib/storeSettings';
+import { frontendConfig } from '../../frontend.config';
+
+// Seller details printed on tax invoices
+export interface InvoiceSettings {
+  sellerName: string;
+  gstin: string;
+  address: string;
+  state: string;
+  stateCode: string;
+  email: string;
+  phone: string;
+  invoicePrefix: string;
+  defaultHsn: string;
+  defaultGstRate: number;
+  pricesIncludeTax: boolean;
+  logoUrl: string;
+}
+
+export const DEFAULT_INVOICE_SETTINGS: InvoiceSettings = {
+  sellerName: frontendConfig.site.title,
+  gstin: '',
+  address: '',
+  state: '',
+  stateCode: '',
+  email: '',
+  phone: '',
+  invoicePrefix: 'INV',
+  defaultHsn: '',
+  defaultGstRate: 18,
+  pricesIncludeTax: true,
+  logoUrl: frontendConfig.site.logo,
+};
+
+// Map the saved store settings onto the seller details printed on invoices
+export function toInvoiceSettings(settings: StoreSettingsValues): InvoiceSettings {
+  return {
+    ...DEFAULT_INVOICE_SETTINGS,
+    sellerName: settings.store_name || DEFAULT_INVOICE_SETTINGS.sellerName,
+    gstin: settings.gstin,
+    address: settings.address,
+    state: settings.state,
+    stateCode: settings.state_code,
+    email: settings.support_email || settings.email,
+    phone: settings.phone,
+    invoicePrefix: settings.invoice_prefix || DEFAULT_INVOICE_SETTINGS.invoicePrefix,
+    defaultHsn: settings.default_hsn,
+    defaultGstRate: settings.default_gst_rate,
+    pricesIncludeTax: settings.prices_include_tax,
+  };
+}
+
+// Invoice settings from the saved store settings
+export async function getInvoiceSettings(): Promise<InvoiceSettings> {
+  return toInvoiceSettings(await getStoreSettings());
+}
+
+// Indian financial year (April to March) as "25-26"
+export function getFinancialYear(date: Date = new Date()): string {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  const short = (year: number) => String(year % 100).padStart(2, '0');
+  return `${short(startYear)}-${short(startYear + 1)}`;
+}
+
+// GST rules cap invoice numbers at 16 characters, e.g. "INV/25-26/0042"
+export function formatInvoiceNumber(prefix: string, financialYear: string, sequence: number): string {
+  return `${prefix}/${financialYear}/${String(sequence).padStart(4, '0')}`;
+}
+
+/**
+ * Get the invoice issued for an order, allocating the next number in the
+ * current financial year's series on first use. The number never changes
+ * once issued, so re-downloading an invoice always shows the same one.
+ */
+export async function getOrCreateInvoice(order: Order, settings: InvoiceSettings = DEFAULT_INVOICE_SETTINGS): Promise<Invoice> {
+  try {
+    await ensureAdminAuth();
+
+    const existing = await pb.collection('invoices').getList(1, 1, {
+      filter: pb.filter('order_id = {:orderId}', { orderId: order.id }),
+    });
+    if (existing.items.length > 0) {
+      return existing.items[0] as unknown as Invoice;
+    }
+
+    const financialYear = getFinancialYear();
+    const latest = await pb.collection('invoices').getList(1, 1, {
+      filter: pb.filter('financial_year = {:fy}', { fy: financialYear }),
+      sort: '-sequence',
+    });
+    const sequence = latest.items.length > 0 ? Number(latest.items[0].sequence) + 1 : 1;
+
+    const record = await pb.collection('invoices').create({
+      order_id: order.id,
+      financial_year: financialYear,
+      sequence,
+      invoice_number: formatInvoiceNumber(settings.invoicePrefix, financialYear, sequence),
+      total: order.total,
+    });
+    return record as unknown as Invoice;
+  } catch (error) {
+    console.error('Error issuing invoice:', error);
+    throw error;
+  }
+}
+
+// Build invoice lines from the order_items collection, falling back to the order's products JSON
+export async function loadInvoiceLines(order: Order, settings: InvoiceSettings = DEFAULT_INVOICE_SETTINGS): Promise<InvoiceLineInput[]> {
+  await ensureAdminAuth();
+
+  const toLine = (name: string, quantity: number, unitPrice: number, product?: Partial<Product>): InvoiceLineInput => ({
+    description: name,
+    hsn: product?.hsn_code || settings.defaultHsn,
+    quantity,
+    unitPrice,
+    gstRate: product?.gst_rate ?? settings.defaultGstRate,
+  });
+
+  const orderItems = await pb.collection('order_items').getFullList({
+    filter: pb.filter('order_id = {:orderId}', { orderId: order.id }),
+    expand: 'product_id',
+  }) as unknown as OrderItem[];
+
+  if (orderItems.length > 0) {
+    return orderItems.map(item => {
+      const product = item.expand?.product_id;
+      const name = product?.name || 'Item';
+      const label = variantLabel(item.variant_options);
+      return toLine(label ? `${name} (${label})` : name, item.quantity, item.price, product);
+    });
+  }
+
+  const items = parseOrderProducts(order);
+  const productIds = items.map(item => item.productId || item.product?.id).filter(Boolean);
+  const products = productIds.length > 0
+    ? await pb.collection('products').getFullList({
+        filter: productIds.map((id, index) => pb.filter(`id = {:id${index}}`, { [`id${index}`]: id })).join(' || '),
+      }) as unknown as Product[]
+    : [];
+  const productsById = new Map(products.map(product => [product.id, product]));
+
+  return items.map(item => {
+    const id = item.productId || item.product?.id;
+    const product = productsById.get(id);
+    const name = item.product?.name || product?.name || 'Item';
+    const label = itemVariantLabel(item);
+    return toLine(label ? `${name} (${label})` : name, item.quantity, item.product?.price ?? product?.price ?? 0, product);
+  });
+}
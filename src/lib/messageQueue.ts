@@ -0,0 +1,152 @@
+import axios from 'axios';
+import { pb } from '@/lib/pocketbase';
+import { MessageQueueChannel } from '@/types/schema';
+
+export interface EnqueueOptions {
+  orderId?: string;
+  templateName?: string;
+  // Defaults to a fresh key, so every call queues a message
+  idempotencyKey?: string;
+}
+
+export interface QueuedMessageResponse {
+  success: boolean;
+  message: string;
+  messageId?: string;
+  status?: string;
+  timestamp?: string;
+  // The same message was already queued or sent
+  duplicate?: boolean;
+  [key: string]: unknown;
+}
+
+export type WhatsAppMessageKind = 'text' | 'image' | 'video' | 'document';
+
+export interface WhatsAppSendRequest {
+  kind: WhatsAppMessageKind;
+  to: string;
+  message?: string;
+  caption?: string;
+  mediaUrl?: string;
+  filename?: string;
+  variables?: Record<string, string>;
+}
+
+export interface EmailSendRequest {
+  to: string;
+  subject: string;
+  message: string;
+  // Plain-text alternative to the HTML message
+  text?: string;
+  variables?: Record<string, string>;
+  attachments?: Array<{ filename: string; content: string; contentType: string }>;
+}
+
+// Authorization header for the Node server's admin routes: the operator's own PocketBase token
+export function authHeaders(): Record<string, string> {
+  return pb.authStore.token ? { Authorization: `Bearer ${pb.authStore.token}` } : {};
+}
+
+// Sending goes through the Node server (src/api/messages.ts), which holds the
+// WhatsApp and SMTP credentials and owns the outbound queue
+const messagesApi = axios.create({
+  baseURL: '/api/messages',
+  timeout: 20000,
+  headers: { 'Content-Type': 'application/json' },
+});
+
+messagesApi.interceptors.request.use((config) => {
+  Object.entries(authHeaders()).forEach(([key, value]) => config.headers.set(key, value));
+  return config;
+});
+
+function toFailure(error: unknown, fallback: string): QueuedMessageResponse {
+  console.error(fallback + ':', error);
+  const message = axios.isAxiosError(error)
+    ? error.response?.data?.message || error.message
+    : error instanceof Error ? error.message : fallback;
+  return {
+    success: false,
+    message,
+    status: 'failed',
+    timestamp: new Date().toISOString(),
+  };
+}
+
+async function post(path: string, body: object, fallback: string): Promise<QueuedMessageResponse> {
+  try {
+    const response = await messagesApi.post<QueuedMessageResponse>(path, body);
+    return response.data;
+  } catch (error) {
+    return toFailure(error, fallback);
+  }
+}
+
+/**
+ * Queue a WhatsApp message. The server worker sends it, retrying with backoff,
+ * and updates the activity record it logs.
+ */
+export function queueWhatsAppMessage(request: WhatsAppSendRequest, options: EnqueueOptions = {}) {
+  return post('/whatsapp/send', { ...request, ...options }, 'Failed to queue WhatsApp message');
+}
+
+// Queue an email; the server adds the store's sender details
+export function queueEmail(request: EmailSendRequest, options: EnqueueOptions = {}) {
+  return post('/email/send', { ...request, ...options }, 'Failed to queue email');
+}
+
+// Render a saved template for an order on the server and queue it
+export function queueTemplateMessage(channel: MessageQueueChannel, orderId: string, templateName: string) {
+  return post(`/${channel}/template`, { orderId, templateName }, 'Failed to queue template message');
+}
+
+// Send a dead-lettered or failed message again straight away
+export async function retryQueuedMessage(channel: MessageQueueChannel, queueId: string): Promise<void> {
+  try {
+    await messagesApi.post(`/${channel}/queue/${queueId}/retry`);
+  } catch (error) {
+    throw new Error(toFailure(error, 'Failed to retry message').message);
+  }
+}
+
+// Stop a message that hasn't been sent yet
+export async function cancelQueuedMessage(channel: MessageQueueChannel, queueId: string): Promise<void> {
+  try {
+    await messagesApi.post(`/${channel}/queue/${queueId}/cancel`);
+  } catch (error) {
+    throw new Error(toFailure(error, 'Failed to cancel message').message);
+  }
+}
+
+// Queue every message of a WhatsApp campaign; large audiences take a while, hence the longer timeout
+export async function launchCampaign(campaignId: string): Promise<{ queued: number; skipped: number; failed: number }> {
+  try {
+    const response = await messagesApi.post(`/whatsapp/campaigns/${campaignId}/launch`, {}, { timeout: 10 * 60 * 1000 });
+    return response.data;
+  } catch (error) {
+    throw new Error(toFailure(error, 'Failed to launch campaign').message);
+  }
+}
+
+// Cancel the campaign's messages that haven't been sent yet
+export async function cancelCampaign(campaignId: string): Promise<{ cancelled: number }> {
+  try {
+    const response = await messagesApi.post(`/whatsapp/campaigns/${campaignId}/cancel`);
+    return response.data;
+  } catch (error) {
+    throw new Error(toFailure(error, 'Failed to cancel campaign').message);
+  }
+}
+
+export async function checkWhatsAppStatus(): Promise<{ connected: boolean; status?: string; message?: string }> {
+  try {
+    const response = await messagesApi.get('/whatsapp/status');
+    return response.data;
+  } catch (error) {
+    return {
+      connected: false,
+      status: 'disconnected',
+      message: toFailure(error, 'Unable to reach the messaging server').message,
+    };
+  }
+}
@@ -0,0 +1,139 @@
+// Which order notifications may go out, and when. Shared by the admin app's dispatcher in
+// src/lib/notifications.ts and the Node server's notification worker, so imports stay relative.
+import type {
+  NotificationChannel,
+  NotificationChannelSetting,
+  NotificationEvent,
+  OptOutReason,
+  StoreSettings,
+} from '../types/schema';
+
+type SettingsToggle = 'order_confirmations' | 'payment_notifications' | 'shipping_updates';
+
+// The store settings the rules below read
+export type NotificationSettings = Pick<
+  StoreSettings,
+  | SettingsToggle
+  | 'email_notifications'
+  | 'whatsapp_notifications'
+  | 'notification_channels'
+  | 'quiet_hours_enabled'
+  | 'quiet_hours_start'
+  | 'quiet_hours_end'
+  | 'timezone'
+>;
+
+interface NotificationEventConfig {
+  label: string;
+  // Global switch on the Settings page that covers this event
+  toggle: SettingsToggle;
+}
+
+export const NOTIFICATION_EVENTS: Record<NotificationEvent, NotificationEventConfig> = {
+  order_confirmation: { label: 'Order confirmation', toggle: 'order_confirmations' },
+  payment_success: { label: 'Payment received', toggle: 'payment_notifications' },
+  payment_failed: { label: 'Payment failed', toggle: 'payment_notifications' },
+  order_shipped: { label: 'Order shipped', toggle: 'shipping_updates' },
+  out_for_delivery: { label: 'Out for delivery', toggle: 'shipping_updates' },
+  order_delivered: { label: 'Order delivered', toggle: 'shipping_updates' },
+  refund_confirmation: { label: 'Refund confirmation', toggle: 'payment_notifications' },
+};
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['whatsapp', 'email'];
+
+export const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  whatsapp: 'WhatsApp',
+  email: 'Email',
+};
+
+export const CHANNEL_SETTING_LABELS: Record<NotificationChannelSetting, string> = {
+  whatsapp: 'WhatsApp only',
+  email: 'Email only',
+  both: 'WhatsApp and email',
+  none: "Don't send",
+};
+
+export const OPT_OUT_REASON_LABELS: Record<OptOutReason, string> = {
+  stop_reply: 'Replied STOP',
+  dnd: 'DND registry',
+  customer_request: 'Customer request',
+};
+
+// Order updates have always gone out on WhatsApp only
+export const DEFAULT_CHANNEL_SETTING: NotificationChannelSetting = 'whatsapp';
+
+export function getChannelSetting(settings: NotificationSettings, event: NotificationEvent): NotificationChannelSetting {
+  return settings.notification_channels?.[event] || DEFAULT_CHANNEL_SETTING;
+}
+
+const channelSelected = (setting: NotificationChannelSetting, channel: NotificationChannel) =>
+  setting === 'both' || setting === channel;
+
+// Why the store settings keep one channel of an event from going out, or null when they allow it
+export function settingsSkipReason(
+  event: NotificationEvent,
+  channel: NotificationChannel,
+  settings: NotificationSettings
+): string | null {
+  const eventConfig = NOTIFICATION_EVENTS[event];
+  const channelSetting = getChannelSetting(settings, event);
+
+  if (!channelSelected(channelSetting, channel)) {
+    return `${eventConfig.label} is set to "${CHANNEL_SETTING_LABELS[channelSetting]}"`;
+  }
+  if (!settings[eventConfig.toggle]) {
+    return `${eventConfig.label} notifications are turned off in settings`;
+  }
+  if (channel === 'whatsapp' && !settings.whatsapp_notifications) {
+    return 'WhatsApp notifications are turned off in settings';
+  }
+  if (channel === 'email' && !settings.email_notifications) {
+    return 'Email notifications are turned off in settings';
+  }
+  return null;
+}
+
+const parseTime = (value: string) => {
+  const [hours, minutes] = (value || '').split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+function minutesOfDay(date: Date, timeZone: string): number {
+  const format = (zone: string) =>
+    new Intl.DateTimeFormat('en-GB', { timeZone: zone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+      .formatToParts(date);
+
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = format(timeZone);
+  } catch {
+    // Unknown time zone saved in settings
+    parts = format('Asia/Kolkata');
+  }
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value || 0);
+  return value('hour') * 60 + value('minute');
+}
+
+/**
+ * When `now` falls inside the configured quiet hours, return the moment they end.
+ * Windows may wrap past midnight (e.g. 21:00 to 08:00).
+ */
+export function getQuietHoursEnd(settings: NotificationSettings, now: Date = new Date()): Date | null {
+  if (!settings.quiet_hours_enabled) return null;
+
+  const start = parseTime(settings.quiet_hours_start);
+  const end = parseTime(settings.quiet_hours_end);
+  if (Number.isNaN(start) || Number.isNaN(end) || start === end) return null;
+
+  const current = minutesOfDay(now, settings.timezone);
+  const inside = start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+  if (!inside) return null;
+
+  const minutesLeft = (end - current + 24 * 60) % (24 * 60);
+  const resumeAt = new Date(now.getTime() + minutesLeft * 60 * 1000);
+  resumeAt.setSeconds(0, 0);
+  return resumeAt;
+}
@@ -0,0 +1,253 @@
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import {
+  NotificationChannel,
+  NotificationContext,
+  NotificationDecision,
+  NotificationEvent,
+  NotificationLog,
+  NotificationOptOut,
+  OptOutReason,
+  Order,
+  Product,
+} from '@/types/schema';
+import { StoreSettingsValues, getStoreSettings } from '@/lib/storeSettings';
+import {
+  formatPhoneNumber,
+  sendOrderConfirmation,
+  sendPaymentSuccess,
+  sendPaymentFailed,
+  sendOrderShipped,
+  sendOutForDelivery,
+  sendOrderDelivered,
+  sendRefundConfirmation,
+} from '@/lib/whatsapp';
+import {
+  sendOrderConfirmationEmail,
+  sendPaymentSuccessEmail,
+  sendPaymentFailedEmail,
+  sendOrderShippedEmail,
+  sendOutForDeliveryEmail,
+  sendOrderDeliveredEmail,
+  sendRefundConfirmationEmail,
+} from '@/lib/email';
+import {
+  getQuietHoursEnd,
+  NOTIFICATION_CHANNELS,
+  OPT_OUT_REASON_LABELS,
+  settingsSkipReason,
+} from '@/lib/notificationRules';
+
+export {
+  CHANNEL_LABELS,
+  CHANNEL_SETTING_LABELS,
+  NOTIFICATION_EVENTS,
+  OPT_OUT_REASON_LABELS,
+  getChannelSetting,
+  getQuietHoursEnd,
+} from '@/lib/notificationRules';
+
+// Replies that mean "stop messaging me". Only the explicit keywords: a reply like "cancel" is
+// usually about an order, so it stays in the inbox thread for staff to answer.
+const STOP_KEYWORDS = ['stop', 'unsubscribe'];
+
+export function isStopKeyword(text: string): boolean {
+  return STOP_KEYWORDS.includes(text.trim().toLowerCase());
+}
+
+// Opt-outs are matched on the same normalised form the senders use
+export function normalizeContact(channel: NotificationChannel, value: string): string {
+  if (!value) return '';
+  return channel === 'whatsapp' ? formatPhoneNumber(value) : value.trim().toLowerCase();
+}
+
+const recipientFor = (order: Order, channel: NotificationChannel) =>
+  normalizeContact(channel, channel === 'whatsapp' ? order.customer_phone : order.customer_email);
+
+export async function findOptOut(channel: NotificationChannel, contact: string): Promise<NotificationOptOut | null> {
+  if (!contact) return null;
+
+  await ensureAdminAuth();
+  const result = await pb.collection('notification_opt_outs').getList(1, 1, {
+    filter: pb.filter('contact = {:contact} && (channel = {:channel} || channel = "all")', { contact, channel }),
+  });
+  return (result.items[0] as unknown as NotificationOptOut) || null;
+}
+
+export async function recordOptOut(
+  channel: NotificationChannel | 'all',
+  contact: string,
+  reason: OptOutReason,
+  note?: string,
+  createdBy?: string
+): Promise<NotificationOptOut> {
+  const contactChannel: NotificationChannel = contact.includes('@') ? 'email' : 'whatsapp';
+  const normalized = normalizeContact(contactChannel, contact);
+  if (!normalized) throw new Error('A phone number or email address is required');
+
+  await ensureAdminAuth();
+  const record = await pb.collection('notification_opt_outs').create({
+    contact: normalized,
+    channel,
+    reason,
+    note: note || '',
+    created_by: createdBy || '',
+  });
+  return record as unknown as NotificationOptOut;
+}
+
+// Items for the order confirmation, looked up when the message is actually sent
+async function loadConfirmationItems(order: Order) {
+  const itemsData = await pb.collection('order_items').getList(1, 100, {
+    filter: pb.filter('order_id = {:orderId}', { orderId: order.id }),
+    expand: 'product_id',
+  });
+
+  return itemsData.items.map(item => {
+    const product = item.expand?.product_id as unknown as Product;
+    return {
+      id: item.id,
+      name: product ? product.name : 'Unknown Product',
+      price: typeof item.price === 'number' ? item.price : parseFloat(item.price as string) || 0,
+      quantity: typeof item.quantity === 'number' ? item.quantity : parseInt(item.quantity as string) || 1,
+      image: product && product.images && product.images.length > 0 ? product.images[0] : undefined,
+    };
+  });
+}
+
+type ChannelSender = (
+  order: Order,
+  recipient: string,
+  context: NotificationContext
+) => Promise<{ success: boolean; message?: string }>;
+
+const refundAmountFor = (order: Order, context: NotificationContext) =>
+  context.refundAmount || order.refund_amount || order.totalAmount;
+
+const SENDERS: Record<NotificationEvent, Record<NotificationChannel, ChannelSender>> = {
+  order_confirmation: {
+    whatsapp: async (order, to) => sendOrderConfirmation(order, await loadConfirmationItems(order), to),
+    email: async (order, to) => sendOrderConfirmationEmail(order, await loadConfirmationItems(order), to),
+  },
+  payment_success: {
+    whatsapp: (order, to) => sendPaymentSuccess(order, to),
+    email: (order, to) => sendPaymentSuccessEmail(order, to),
+  },
+  payment_failed: {
+    whatsapp: (order, to, context) => sendPaymentFailed(order, to, context.retryUrl || ''),
+    email: (order, to, context) => sendPaymentFailedEmail(order, to, context.retryUrl || ''),
+  },
+  order_shipped: {
+    whatsapp: (order, to, context) => sendOrderShipped(order, to, context.trackingLink || '', context.carrier || ''),
+    email: (order, to, context) => sendOrderShippedEmail(order, to, context.trackingLink || '', context.carrier || ''),
+  },
+  out_for_delivery: {
+    whatsapp: (order, to) => sendOutForDelivery(order, to),
+    email: (order, to) => sendOutForDeliveryEmail(order, to),
+  },
+  order_delivered: {
+    whatsapp: (order, to, context) => sendOrderDelivered(order, to, context.feedbackLink || ''),
+    email: (order, to, context) => sendOrderDeliveredEmail(order, to, context.feedbackLink || ''),
+  },
+  refund_confirmation: {
+    whatsapp: (order, to, context) => sendRefundConfirmation(order, to, refundAmountFor(order, context), context.refundId),
+    email: (order, to, context) => sendRefundConfirmationEmail(order, to, refundAmountFor(order, context), context.refundId),
+  },
+};
+
+export interface NotificationOutcome {
+  channel: NotificationChannel;
+  decision: NotificationDecision;
+  reason: string;
+}
+
+type LogEntry = Omit<NotificationLog, 'id' | 'created' | 'updated' | 'collectionId' | 'collectionName'>;
+
+async function recordDecision(entry: LogEntry) {
+  try {
+    await ensureAdminAuth();
+    await pb.collection('notification_log').create(entry);
+  } catch (error) {
+    // A missing log entry must never block the message itself
+    console.error('Error recording notification decision:', error);
+  }
+}
+
+/**
+ * Decide whether one channel of an event goes out, then send it, hold it for
+ * quiet hours or skip it. Every outcome is written to `notification_log`; the Node
+ * server's notification worker sends the held ones once quiet hours end.
+ */
+async function dispatchToChannel(
+  event: NotificationEvent,
+  order: Order,
+  channel: NotificationChannel,
+  context: NotificationContext,
+  settings: StoreSettingsValues
+): Promise<NotificationOutcome> {
+  const recipient = recipientFor(order, channel);
+  const outcome = async (decision: NotificationDecision, reason: string, scheduledFor?: Date) => {
+    await recordDecision({
+      order_id: order.id,
+      event,
+      channel,
+      recipient,
+      decision,
+      reason,
+      context,
+      scheduled_for: scheduledFor ? scheduledFor.toISOString() : '',
+      processed_at: '',
+    });
+    return { channel, decision, reason };
+  };
+
+  const settingsReason = settingsSkipReason(event, channel, settings);
+  if (settingsReason) {
+    return outcome('skipped', settingsReason);
+  }
+  if (!recipient) {
+    return outcome('skipped', channel === 'whatsapp' ? 'Order has no phone number' : 'Order has no email address');
+  }
+
+  try {
+    const optOut = await findOptOut(channel, recipient);
+    if (optOut) {
+      return outcome('skipped', `Customer opted out: ${OPT_OUT_REASON_LABELS[optOut.reason] || optOut.reason}`);
+    }
+  } catch (error) {
+    // Without the opt-out list we can't prove consent, so hold back
+    console.error('Error checking notification opt-outs:', error);
+    return outcome('skipped', 'Could not check customer opt-outs');
+  }
+
+  const resumeAt = getQuietHoursEnd(settings);
+  if (resumeAt) {
+    return outcome('deferred', `Quiet hours (${settings.quiet_hours_start}–${settings.quiet_hours_end})`, resumeAt);
+  }
+
+  try {
+    const response = await SENDERS[event][channel](order, recipient, context);
+    return response.success
+      ? outcome('sent', 'Sent')
+      : outcome('failed', response.message || 'Send failed');
+  } catch (error) {
+    console.error(`Error sending ${event} via ${channel}:`, error);
+    return outcome('failed', error instanceof Error ? error.message : 'Send failed');
+  }
+}
+
+/**
+ * Send an order notification on whichever channels the store settings,
+ * customer opt-outs and quiet hours allow.
+ */
+export async function dispatchOrderNotification(
+  event: NotificationEvent,
+  order: Order,
+  context: NotificationContext = {}
+): Promise<NotificationOutcome[]> {
+  const settings = await getStoreSettings();
+  const outcomes: NotificationOutcome[] = [];
+  for (const channel of NOTIFICATION_CHANNELS) {
+    outcomes.push(await dispatchToChannel(event, order, channel, context, settings));
+  }
+  return outcomes;
+}
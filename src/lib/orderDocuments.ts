@@ -0,0 +1,269 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Invoice, Order } from '@/types/schema';
+import { itemVariantLabel, parseOrderProducts } from '@/lib/orderItems';
+import { amountInWords, computeTaxBreakdown, isInterStateSupply } from '@/lib/gst';
+import {
+  InvoiceSettings,
+  getInvoiceSettings,
+  getOrCreateInvoice,
+  loadInvoiceLines,
+} from '@/lib/invoices';
+
+export type OrderDocumentKind = 'invoice' | 'packing_slip';
+
+export interface OrderDocument {
+  kind: OrderDocumentKind;
+  blob: Blob;
+  filename: string;
+}
+
+const PAGE_MARGIN = 14;
+
+// The built-in PDF fonts have no ₹ glyph, so amounts are printed as "Rs."
+const formatAmount = (value: number) =>
+  value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDocumentDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+// Fetch the logo as a data URL; a missing or CORS-blocked logo just leaves the space empty
+async function loadLogo(url: string): Promise<{ dataUrl: string; format: 'PNG' | 'JPEG' } | null> {
+  if (!url) return null;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    const format = blob.type.includes('png') ? 'PNG' : blob.type.includes('jpeg') || blob.type.includes('jpg') ? 'JPEG' : null;
+    if (!format) return null;
+
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+    return { dataUrl, format };
+  } catch (error) {
+    console.warn('Could not load logo for PDF:', error);
+    return null;
+  }
+}
+
+// Draw the logo and seller block; returns the y position below it
+async function drawHeader(doc: jsPDF, settings: InvoiceSettings, title: string, meta: string[]): Promise<number> {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let y = PAGE_MARGIN;
+
+  const logo = await loadLogo(settings.logoUrl);
+  if (logo) {
+    const { width, height } = doc.getImageProperties(logo.dataUrl);
+    const logoHeight = 14;
+    doc.addImage(logo.dataUrl, logo.format, PAGE_MARGIN, y, (width / height) * logoHeight, logoHeight);
+    y += logoHeight + 4;
+  }
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.text(settings.sellerName, PAGE_MARGIN, y + 4);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+
+  const sellerLines = [
+    ...doc.splitTextToSize(settings.address, 90),
+    settings.gstin ? `GSTIN: ${settings.gstin}` : '',
+    settings.state ? `State: ${settings.state}${settings.stateCode ? ` (${settings.stateCode})` : ''}` : '',
+    [settings.phone, settings.email].filter(Boolean).join(' | '),
+  ].filter(Boolean);
+  doc.text(sellerLines, PAGE_MARGIN, y + 9);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(15);
+  doc.text(title, pageWidth - PAGE_MARGIN, PAGE_MARGIN + 4, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(meta, pageWidth - PAGE_MARGIN, PAGE_MARGIN + 10, { align: 'right' });
+
+  const bottom = Math.max(y + 9 + sellerLines.length * 4, PAGE_MARGIN + 10 + meta.length * 4);
+  doc.setDrawColor(180);
+  doc.line(PAGE_MARGIN, bottom, pageWidth - PAGE_MARGIN, bottom);
+  return bottom + 6;
+}
+
+function drawCustomer(doc: jsPDF, order: Order, y: number, heading: string): number {
+  doc.setFont('helvetica', 'bold');
+  doc.text(heading, PAGE_MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  const lines = [
+    order.customer_name,
+    ...doc.splitTextToSize(order.shipping_address_text || 'No address provided', 100),
+    order.customer_phone ? `Phone: ${order.customer_phone}` : '',
+    order.customer_email ? `Email: ${order.customer_email}` : '',
+  ].filter(Boolean);
+  doc.text(lines, PAGE_MARGIN, y + 5);
+  return y + 5 + lines.length * 4 + 4;
+}
+
+const lastTableY = (doc: jsPDF) => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+/**
+ * Build a GST tax invoice PDF for an order. The invoice number is allocated
+ * (or looked up) in the `invoices` collection so it stays stable across downloads.
+ */
+export async function generateInvoicePdf(
+  order: Order,
+  overrides?: InvoiceSettings
+): Promise<OrderDocument & { invoice: Invoice }> {
+  const settings = overrides ?? await getInvoiceSettings();
+  const [invoice, lineInputs] = await Promise.all([
+    getOrCreateInvoice(order, settings),
+    loadInvoiceLines(order, settings),
+  ]);
+
+  const isInterState = isInterStateSupply(order.shipping_address_text, settings.state);
+  const breakdown = computeTaxBreakdown(lineInputs, {
+    discount: order.discount_amount,
+    isInterState,
+    pricesIncludeTax: settings.pricesIncludeTax,
+  });
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  let y = await drawHeader(doc, settings, 'TAX INVOICE', [
+    `Invoice No: ${invoice.invoice_number}`,
+    `Invoice Date: ${formatDocumentDate(invoice.created || new Date())}`,
+    `Order: #${order.id}`,
+    `Order Date: ${formatDocumentDate(order.created)}`,
+    `Place of Supply: ${isInterState ? 'Inter-state' : settings.state || 'Intra-state'}`,
+  ]);
+  y = drawCustomer(doc, order, y, 'Bill To / Ship To');
+
+  const taxHead = isInterState ? ['IGST'] : ['CGST', 'SGST'];
+  autoTable(doc, {
+    startY: y,
+    head: [['#', 'Description', 'HSN', 'Qty', 'Rate', 'Discount', 'Taxable', 'GST %', ...taxHead, 'Total']],
+    body: breakdown.lines.map((line, index) => [
+      index + 1,
+      line.description,
+      line.hsn || '-',
+      line.quantity,
+      formatAmount(line.unitPrice),
+      formatAmount(line.discount),
+      formatAmount(line.taxableValue),
+      `${line.gstRate}%`,
+      ...(isInterState ? [formatAmount(line.igst)] : [formatAmount(line.cgst), formatAmount(line.sgst)]),
+      formatAmount(line.total),
+    ]),
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [40, 40, 40] },
+    columnStyles: { 1: { cellWidth: 45 } },
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+  });
+
+  y = lastTableY(doc) + 6;
+  const totals: Array<[string, number]> = [
+    ['Taxable Value', breakdown.taxableTotal],
+    ...(isInterState
+      ? [['IGST', breakdown.igstTotal] as [string, number]]
+      : [['CGST', breakdown.cgstTotal] as [string, number], ['SGST', breakdown.sgstTotal] as [string, number]]),
+    ['Discount (incl.)', breakdown.discountTotal],
+  ];
+  doc.setFontSize(9);
+  totals.forEach(([label, value]) => {
+    doc.text(label, pageWidth - 70, y);
+    doc.text(`Rs. ${formatAmount(value)}`, pageWidth - PAGE_MARGIN, y, { align: 'right' });
+    y += 5;
+  });
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text('Grand Total', pageWidth - 70, y + 1);
+  doc.text(`Rs. ${formatAmount(breakdown.grandTotal)}`, pageWidth - PAGE_MARGIN, y + 1, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  y += 8;
+  doc.text(doc.splitTextToSize(`Amount in words: ${amountInWords(breakdown.grandTotal)}`, pageWidth - 2 * PAGE_MARGIN), PAGE_MARGIN, y);
+
+  autoTable(doc, {
+    startY: y + 6,
+    head: [['HSN/SAC', 'GST %', 'Taxable Value', 'Tax Amount']],
+    body: breakdown.hsnSummary.map(row => [
+      row.hsn || '-',
+      `${row.gstRate}%`,
+      formatAmount(row.taxableValue),
+      formatAmount(row.taxAmount),
+    ]),
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [90, 90, 90] },
+    tableWidth: 110,
+    margin: { left: PAGE_MARGIN },
+  });
+
+  y = lastTableY(doc) + 12;
+  doc.setFontSize(8);
+  doc.text('This is a computer-generated invoice and does not require a signature.', PAGE_MARGIN, y);
+  doc.text(`For ${settings.sellerName}`, pageWidth - PAGE_MARGIN, y, { align: 'right' });
+  doc.text('Authorised Signatory', pageWidth - PAGE_MARGIN, y + 12, { align: 'right' });
+
+  return {
+    kind: 'invoice',
+    invoice,
+    blob: doc.output('blob'),
+    filename: `invoice-${invoice.invoice_number.replace(/\//g, '-')}.pdf`,
+  };
+}
+
+// Packing slip for the warehouse: items and quantities only, no prices
+export async function generatePackingSlipPdf(
+  order: Order,
+  overrides?: InvoiceSettings
+): Promise<OrderDocument> {
+  const settings = overrides ?? await getInvoiceSettings();
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+
+  let y = await drawHeader(doc, settings, 'PACKING SLIP', [
+    `Order: #${order.id}`,
+    `Order Date: ${formatDocumentDate(order.created)}`,
+    order.shipping_carrier ? `Carrier: ${order.shipping_carrier}` : '',
+  ].filter(Boolean));
+  y = drawCustomer(doc, order, y, 'Ship To');
+
+  const items = parseOrderProducts(order);
+  autoTable(doc, {
+    startY: y,
+    head: [['#', 'Item', 'Qty', 'Packed']],
+    body: items.length > 0
+      ? items.map((item, index) => [
+          index + 1,
+          `${item.product?.name || 'Unknown Product'}${itemVariantLabel(item) ? ` (${itemVariantLabel(item)})` : ''}`,
+          item.quantity,
+          '',
+        ])
+      : [['', 'No product information available', '', '']],
+    styles: { fontSize: 10 },
+    headStyles: { fillColor: [40, 40, 40] },
+    columnStyles: { 0: { cellWidth: 10 }, 2: { cellWidth: 18, halign: 'center' }, 3: { cellWidth: 22 } },
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+  });
+
+  if (order.notes) {
+    y = lastTableY(doc) + 8;
+    doc.setFontSize(9);
+    doc.text(doc.splitTextToSize(`Notes: ${order.notes}`, doc.internal.pageSize.getWidth() - 2 * PAGE_MARGIN), PAGE_MARGIN, y);
+  }
+
+  return {
+    kind: 'packing_slip',
+    blob: doc.output('blob'),
+    filename: `packing-slip-${order.id}.pdf`,
+  };
+}
+
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
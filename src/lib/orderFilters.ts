@@ -0,0 +1,162 @@
+import { pb } from '@/lib/pocketbase';
+
+// Filters supported by the orders list. Every field maps to a PocketBase
+// filter expression and to a query-string parameter so views can be shared.
+export interface OrderFilters {
+  search?: string;
+  status?: string;
+  payment_status?: string;
+  date_from?: string; // yyyy-MM-dd
+  date_to?: string; // yyyy-MM-dd
+  amount_min?: number;
+  amount_max?: number;
+  coupon?: string;
+  carrier?: string;
+}
+
+export type OrderSortField = 'created' | 'total' | 'customer_name' | 'status' | 'payment_status';
+
+export interface OrderSort {
+  field: OrderSortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface OrderListParams {
+  page: number;
+  perPage: number;
+  filters: OrderFilters;
+  sort: OrderSort;
+}
+
+export const DEFAULT_ORDER_SORT: OrderSort = { field: 'created', direction: 'desc' };
+export const DEFAULT_ORDERS_PER_PAGE = 20;
+// per_page comes from the URL, so a shared link can't make the list fetch an unbounded page
+export const MAX_ORDERS_PER_PAGE = 100;
+
+const SORT_FIELDS: OrderSortField[] = ['created', 'total', 'customer_name', 'status', 'payment_status'];
+
+// Query-string keys for each filter
+const PARAM_KEYS: Record<keyof OrderFilters, string> = {
+  search: 'q',
+  status: 'status',
+  payment_status: 'payment',
+  date_from: 'from',
+  date_to: 'to',
+  amount_min: 'min',
+  amount_max: 'max',
+  coupon: 'coupon',
+  carrier: 'carrier',
+};
+
+// Build a PocketBase filter expression; values are bound through pb.filter so they are escaped
+export function buildOrderFilter(filters: OrderFilters): string {
+  const clauses: string[] = [];
+
+  if (filters.search) {
+    clauses.push(pb.filter(
+      '(id ~ {:q} || customer_name ~ {:q} || customer_email ~ {:q} || customer_phone ~ {:q})',
+      { q: filters.search }
+    ));
+  }
+
+  if (filters.status) {
+    clauses.push(pb.filter('status = {:status}', { status: filters.status }));
+  }
+
+  if (filters.payment_status) {
+    clauses.push(pb.filter('payment_status = {:payment}', { payment: filters.payment_status }));
+  }
+
+  if (filters.date_from) {
+    const from = new Date(`${filters.date_from}T00:00:00`);
+    if (!isNaN(from.getTime())) {
+      clauses.push(pb.filter('created >= {:from}', { from }));
+    }
+  }
+
+  if (filters.date_to) {
+    const to = new Date(`${filters.date_to}T23:59:59.999`);
+    if (!isNaN(to.getTime())) {
+      clauses.push(pb.filter('created <= {:to}', { to }));
+    }
+  }
+
+  if (typeof filters.amount_min === 'number') {
+    clauses.push(pb.filter('total >= {:min}', { min: filters.amount_min }));
+  }
+
+  if (typeof filters.amount_max === 'number') {
+    clauses.push(pb.filter('total <= {:max}', { max: filters.amount_max }));
+  }
+
+  if (filters.coupon) {
+    clauses.push(pb.filter('coupon_code ~ {:coupon}', { coupon: filters.coupon }));
+  }
+
+  if (filters.carrier) {
+    clauses.push(pb.filter('shipping_carrier ~ {:carrier}', { carrier: filters.carrier }));
+  }
+
+  return clauses.join(' && ');
+}
+
+export function buildOrderSort(sort: OrderSort): string {
+  return `${sort.direction === 'desc' ? '-' : ''}${sort.field}`;
+}
+
+export function hasActiveFilters(filters: OrderFilters): boolean {
+  return Object.values(filters).some((value) => value !== undefined && value !== '');
+}
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+// Read list params from the URL, falling back to defaults for anything missing or invalid
+export function parseOrderListParams(searchParams: URLSearchParams): OrderListParams {
+  const filters: OrderFilters = {};
+
+  (Object.keys(PARAM_KEYS) as (keyof OrderFilters)[]).forEach((key) => {
+    const raw = searchParams.get(PARAM_KEYS[key]);
+    if (key === 'amount_min' || key === 'amount_max') {
+      const value = parseNumber(raw);
+      if (value !== undefined) filters[key] = value;
+    } else if (raw) {
+      filters[key] = raw;
+    }
+  });
+
+  const rawSort = searchParams.get('sort') || '';
+  const direction = rawSort.startsWith('-') ? 'desc' : 'asc';
+  const field = rawSort.replace(/^-/, '') as OrderSortField;
+  const sort = SORT_FIELDS.includes(field) ? { field, direction } as OrderSort : DEFAULT_ORDER_SORT;
+
+  const page = Math.max(1, parseNumber(searchParams.get('page')) || 1);
+  const requestedPerPage = Math.floor(parseNumber(searchParams.get('per_page')) || 0);
+  const perPage = requestedPerPage > 0 ? Math.min(requestedPerPage, MAX_ORDERS_PER_PAGE) : DEFAULT_ORDERS_PER_PAGE;
+
+  return { page, perPage, filters, sort };
+}
+
+// Serialize list params back into a query string, omitting defaults to keep URLs short
+export function toOrderSearchParams(params: OrderListParams): URLSearchParams {
+  const searchParams = new URLSearchParams();
+
+  (Object.keys(PARAM_KEYS) as (keyof OrderFilters)[]).forEach((key) => {
+    const value = params.filters[key];
+    if (value !== undefined && value !== '') {
+      searchParams.set(PARAM_KEYS[key], String(value));
+    }
+  });
+
+  if (params.sort.field !== DEFAULT_ORDER_SORT.field || params.sort.direction !== DEFAULT_ORDER_SORT.direction) {
+    searchParams.set('sort', buildOrderSort(params.sort));
+  }
+
+  if (params.page > 1) searchParams.set('page', String(params.page));
+  if (params.perPage !== DEFAULT_ORDERS_PER_PAGE) searchParams.set('per_page', String(params.perPage));
+
+  return searchParams;
+}
@@ -0,0 +1,49 @@
+import { Order } from '@/types/schema';
+import { variantLabel } from '@/lib/productVariants';
+
+// Shape of each entry in the `orders.products` JSON field
+export interface OrderProductItem {
+  productId: string;
+  quantity: number;
+  // Set when a variant was picked; `options` holds its option values, e.g. { Colour: 'Red' }
+  variantId?: string;
+  sku?: string;
+  options?: Record<string, string>;
+  // Orders placed before variants only recorded a colour name
+  color?: string;
+  product: {
+    id: string;
+    name: string;
+    price: number;
+    images?: string[];
+    description?: string;
+    category?: string;
+  };
+}
+
+// `orders.products` may arrive as a JSON string, an array or a single object
+export function parseOrderProducts(order: Pick<Order, 'products'>): OrderProductItem[] {
+  const raw = order.products as unknown;
+
+  try {
+    if (typeof raw === 'string') {
+      // A literal "[object Object]" string is a known bad write, not JSON
+      if (raw === '[object Object]' || raw.trim() === '') return [];
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [parsed];
+    }
+
+    if (Array.isArray(raw)) return raw as OrderProductItem[];
+
+    if (typeof raw === 'object' && raw !== null) return [raw as OrderProductItem];
+  } catch (error) {
+    console.error('Failed to parse products data:', error);
+  }
+
+  return [];
+}
+
+// "Colour: Red / Size: M" for variant lines, or the colour on older orders
+export function itemVariantLabel(item: Pick<OrderProductItem, 'options' | 'color'>): string {
+  return variantLabel(item.options) || (item.color ? `Colour: ${item.color}` : '');
+}
@@ -0,0 +1,187 @@
+// Built-in order messages for WhatsApp and email, sent from the admin app and by the Node
+// server's notification worker. The server imports this file, so it has no imports of its own.
+
+// Template names based on the WhatsApp setup document
+export enum WhatsAppTemplate {
+  ABANDONED_CART = 'abandoned_cart_reminder',
+  ORDER_CONFIRMATION = 'order_confirmation',
+  PAYMENT_SUCCESS = 'payment_success',
+  PAYMENT_FAILED = 'payment_failed',
+  ORDER_SHIPPED = 'order_shipped',
+  OUT_FOR_DELIVERY = 'out_for_delivery',
+  ORDER_DELIVERED = 'order_delivered',
+  REQUEST_REVIEW = 'request_review',
+  REFUND_CONFIRMATION = 'refund_confirmation',
+  REORDER_REMINDER = 'reorder_reminder'
+}
+
+// Text of the order messages, filled in by renderOrderMessage in src/lib/whatsapp.ts
+export const WHATSAPP_MESSAGES: Partial<Record<WhatsAppTemplate, string>> = {
+  [WhatsAppTemplate.ORDER_CONFIRMATION]: '🎉 *Order Confirmation* 🎉\n\nHi {{customerName}},\n\nYour order #{{orderId}} has been confirmed!\n\n*Order Details:*\n{{#each items}}{{quantity}}x {{name}} - {{price | currency}}\n{{/each}}\n*Total: {{amount | currency}}*\n\nThank you for your order! We\'ll notify you when it ships.',
+  [WhatsAppTemplate.PAYMENT_SUCCESS]: '✅ Payment received for Order #{{orderId}}, {{customerName}}! 💸\n\nWe\'re now preparing your order for shipping. You\'ll get updates soon.\n\nTrack it here: {{orderUrl}}',
+  [WhatsAppTemplate.PAYMENT_FAILED]: '⚠️ Hi {{customerName}}, your payment for Order #{{orderId}} was unsuccessful.\n\n{{#if retryUrl}}You can retry your payment here: {{retryUrl}}\n\n{{/if}}Let us know if you need help.',
+  [WhatsAppTemplate.ORDER_SHIPPED]: '🚚 Great news, {{customerName}}! Your {{storeName}} order (#{{orderId}}) is on its way. 🎁\n\n{{#if trackingLink}}📦 Tracking: {{trackingLink}}\n{{/if}}{{#if carrier}}Carrier: {{carrier}}\n{{/if}}\nThanks again for shopping with us! 💫',
+  [WhatsAppTemplate.OUT_FOR_DELIVERY]: '📬 Your {{storeName}} order (#{{orderId}}) is out for delivery today, {{customerName}}! 🛵\n\nPlease keep your phone nearby. You\'ll receive a confirmation once it\'s delivered.',
+  [WhatsAppTemplate.ORDER_DELIVERED]: '✅ Yay {{customerName}}, your {{storeName}} order (#{{orderId}}) was delivered!\n\nWe hope you love it ❤️{{#if feedbackLink}} Let us know how your experience was: {{feedbackLink}}{{/if}}\n\nHappy unboxing! 🎁',
+  [WhatsAppTemplate.REQUEST_REVIEW]: 'Hi {{customerName}}, we\'d love to hear your thoughts on your recent {{storeName}} order (#{{orderId}})! 📝\n\nLeave a quick review here: {{reviewLink}}\n\nThanks for being part of our journey ❤️',
+  [WhatsAppTemplate.REFUND_CONFIRMATION]: '💸 Refund alert, {{customerName}}!\n\nYour refund for Order #{{orderId}} has been processed. Amount: {{refundAmount | currency}}\nExpected in your account within 5–7 business days.\n\nHave questions? Just reply here.',
+  [WhatsAppTemplate.REORDER_REMINDER]: 'Hey {{customerName}}, ready to restock your favorite items from {{storeName}}? 🛍️\n\nYour last order (#{{orderId}}) was delivered {{daysSinceDelivery}} days ago. Here\'s a quick reorder link: {{reorderLink}}\n\nWe\'re here when you\'re ready! ❤️',
+};
+
+// Orders get one message per template, but every partial refund has its own confirmation
+export const refundConfirmationKey = (channel: 'whatsapp' | 'email', orderId: string, refundId: string) =>
+  `${channel}:${orderId}:refund_confirmation:${refundId}`;
+
+// Template names for email templates
+export enum EmailTemplate {
+  ABANDONED_CART = 'abandoned_cart',
+  ORDER_CONFIRMATION = 'order_confirmation',
+  PAYMENT_SUCCESS = 'payment_success',
+  PAYMENT_FAILED = 'payment_failed',
+  ORDER_SHIPPED = 'order_shipped',
+  OUT_FOR_DELIVERY = 'out_for_delivery',
+  ORDER_DELIVERED = 'order_delivered',
+  REQUEST_REVIEW = 'request_review',
+  REFUND_CONFIRMATION = 'refund_confirmation',
+  REORDER_REMINDER = 'reorder_reminder',
+  INVOICE = 'invoice',
+  PACKING_SLIP = 'packing_slip'
+}
+
+const DOCUMENT_EMAIL = {
+  subject: '{{documentLabel}} for Order #{{orderId}}',
+  html: `
+      <p>Dear {{customerName}},</p>
+      <p>Please find attached the {{documentLabel | lower}} for your order #{{orderId}}.</p>
+      <p>Thank you for shopping with {{storeName}}!</p>
+    `,
+};
+
+// Subject and HTML of the order emails, filled in by renderOrderEmail in src/lib/email.ts
+export const EMAIL_MESSAGES: Partial<Record<EmailTemplate, { subject: string; html: string }>> = {
+  [EmailTemplate.ORDER_CONFIRMATION]: {
+    subject: 'Order Confirmation - #{{orderId}}',
+    html: `
+      <h1>Order Confirmation</h1>
+      <p>Dear {{customerName}},</p>
+      <p>Thank you for your order! We're pleased to confirm that we've received your order.</p>
+      <h2>Order Details:</h2>
+      <p><strong>Order ID:</strong> {{orderId}}</p>
+      <p><strong>Order Date:</strong> {{orderDate | date}}</p>
+      <h3>Items:</h3>
+      <p>{{#each items}}{{quantity}}x {{name}} - {{price | currency}}<br>{{/each}}</p>
+      <p><strong>Total: {{amount | currency}}</strong></p>
+      <p>We'll notify you when your order has been shipped.</p>
+      <p>Thank you for shopping with {{storeName}}!</p>
+    `,
+  },
+  [EmailTemplate.PAYMENT_SUCCESS]: {
+    subject: 'Payment Successful - Order #{{orderId}}',
+    html: `
+      <h1>Payment Successful</h1>
+      <p>Dear {{customerName}},</p>
+      <p>Great news! Your payment for order #{{orderId}} has been successfully processed.</p>
+      <p><strong>Order ID:</strong> {{orderId}}</p>
+      <p><strong>Amount:</strong> {{amount | currency}}</p>
+      <p><strong>Date:</strong> {{orderDate | date}}</p>
+      <p>We're now preparing your order for shipment. You'll receive another email once your order has been shipped.</p>
+      <p>Thank you for shopping with {{storeName}}!</p>
+    `,
+  },
+  [EmailTemplate.PAYMENT_FAILED]: {
+    subject: 'Payment Failed - Order #{{orderId}}',
+    html: `
+      <h1>Payment Failed</h1>
+      <p>Dear {{customerName}},</p>
+      <p>We're sorry, but your payment for order #{{orderId}} could not be processed.</p>
+      <p><strong>Order ID:</strong> {{orderId}}</p>
+      <p><strong>Amount:</strong> {{amount | currency}}</p>
+      {{#if retryUrl}}
+      <p>Please click the link below to retry your payment:</p>
+      <p><a href="{{retryUrl}}">Retry Payment</a></p>
+      {{/if}}
+      <p>If you continue to experience issues, please contact our customer support team for assistance.</p>
+      <p>Thank you for your patience.</p>
+    `,
+  },
+  [EmailTemplate.ORDER_SHIPPED]: {
+    subject: 'Your Order Has Been Shipped - Order #{{orderId}}',
+    html: `
+      <h1>Your Order Has Been Shipped</h1>
+      <p>Dear {{customerName}},</p>
+      <p>Good news! Your order #{{orderId}} has been shipped and is on its way to you.</p>
+      <p><strong>Shipping Details:</strong></p>
+      {{#if carrier}}<p><strong>Carrier:</strong> {{carrier}}</p>{{/if}}
+      <p><strong>Estimated Delivery Date:</strong> {{estimatedDelivery | date}}</p>
+      {{#if trackingLink}}
+      <p><strong>Tracking Link:</strong> <a href="{{trackingLink}}">Track Your Order</a></p>
+      <p>You can use the tracking link above to monitor the progress of your delivery.</p>
+      {{/if}}
+      <p>Thank you for shopping with {{storeName}}!</p>
+    `,
+  },
+  [EmailTemplate.OUT_FOR_DELIVERY]: {
+    subject: 'Your Order Is Out For Delivery - Order #{{orderId}}',
+    html: `
+      <h1>Your Order Is Out For Delivery</h1>
+      <p>Dear {{customerName}},</p>
+      <p>Exciting news! Your order #{{orderId}} is out for delivery and should arrive today.</p>
+      <p>Please ensure someone is available to receive the package.</p>
+      <p>If you have any special delivery instructions, please contact the carrier directly.</p>
+      <p>Thank you for shopping with {{storeName}}!</p>
+    `,
+  },
+  [EmailTemplate.ORDER_DELIVERED]: {
+    subject: 'Your Order Has Been Delivered - Order #{{orderId}}',
+    html: `
+      <h1>Your Order Has Been Delivered</h1>
+      <p>Dear {{customerName}},</p>
+      <p>We're happy to inform you that your order #{{orderId}} has been delivered.</p>
+      {{#if feedbackLink}}
+      <p>We hope you're satisfied with your purchase. If you have a moment, we'd appreciate your feedback:</p>
+      <p><a href="{{feedbackLink}}">Share Your Feedback</a></p>
+      {{/if}}
+      <p>If you have any questions or concerns about your order, please don't hesitate to contact our customer support team.</p>
+      <p>Thank you for shopping with {{storeName}}!</p>
+    `,
+  },
+  [EmailTemplate.REQUEST_REVIEW]: {
+    subject: 'Please Review Your Recent Purchase - Order #{{orderId}}',
+    html: `
+      <h1>How Was Your Experience?</h1>
+      <p>Dear {{customerName}},</p>
+      <p>Thank you for your recent purchase (Order #{{orderId}}). We hope you're enjoying your new items!</p>
+      <p>We'd love to hear your thoughts on your purchase. Your feedback helps us improve and assists other customers in making informed decisions.</p>
+      <p><a href="{{reviewLink}}">Leave a Review</a></p>
+      <p>It only takes a minute, and your input is valuable to us.</p>
+      <p>Thank you for your support!</p>
+    `,
+  },
+  [EmailTemplate.REFUND_CONFIRMATION]: {
+    subject: 'Refund Confirmation - Order #{{orderId}}',
+    html: `
+      <h1>Refund Confirmation</h1>
+      <p>Dear {{customerName}},</p>
+      <p>We're writing to confirm that we've processed a refund for your order #{{orderId}}.</p>
+      <p><strong>Refund Details:</strong></p>
+      <p><strong>Amount:</strong> {{refundAmount | currency}}</p>
+      <p><strong>Date:</strong> {{today | date}}</p>
+      <p>The refunded amount should appear in your account within 5-7 business days, depending on your payment provider.</p>
+      <p>If you have any questions about your refund, please contact our customer support team.</p>
+      <p>Thank you for your understanding.</p>
+    `,
+  },
+  [EmailTemplate.REORDER_REMINDER]: {
+    subject: 'Time to Restock? - Order #{{orderId}}',
+    html: `
+      <h1>Time to Restock?</h1>
+      <p>Dear {{customerName}},</p>
+      <p>It's been {{daysSinceDelivery}} days since your last order (#{{orderId}}). We thought you might be running low on your items.</p>
+      <p>Ready to reorder? It's easy! Just click the link below:</p>
+      <p><a href="{{reorderLink}}">Reorder Now</a></p>
+      <p>Thank you for being a valued customer!</p>
+    `,
+  },
+  [EmailTemplate.INVOICE]: DOCUMENT_EMAIL,
+  [EmailTemplate.PACKING_SLIP]: DOCUMENT_EMAIL,
+};
@@ -0,0 +1,104 @@
+import { pb } from '@/lib/pocketbase';
+import { getSessionUser } from '@/lib/auth';
+import { Order, OrderStatusValue } from '@/types/schema';
+
+// Allowed order status transitions. Statuses with no outgoing
+// transitions (delivered, cancelled) are terminal.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatusValue, OrderStatusValue[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['out_for_delivery', 'delivered'],
+  out_for_delivery: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatusValue, string> = {
+  pending: 'Pending',
+  processing: 'Processing',
+  shipped: 'Shipped',
+  out_for_delivery: 'Out for Delivery',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+export class OrderStatusTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrderStatusTransitionError';
+  }
+}
+
+export function isTerminalStatus(status: string): boolean {
+  return (ORDER_STATUS_TRANSITIONS[status as OrderStatusValue] || []).length === 0;
+}
+
+export function canTransition(from: string, to: string): boolean {
+  if (from === to) return true;
+  return (ORDER_STATUS_TRANSITIONS[from as OrderStatusValue] || []).includes(to as OrderStatusValue);
+}
+
+// Statuses an order can be moved to from its current status, including staying put
+export function getAllowedStatuses(from: string): OrderStatusValue[] {
+  const next = ORDER_STATUS_TRANSITIONS[from as OrderStatusValue];
+  if (!next) return Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatusValue[];
+  return [from as OrderStatusValue, ...next];
+}
+
+// Returns a human-readable reason the transition is not allowed, or null if it is
+export function getTransitionError(
+  order: Pick<Order, 'status' | 'tracking_link' | 'shipping_carrier'>,
+  to: string
+): string | null {
+  const from = order.status;
+  if (from === to) return null;
+
+  if (isTerminalStatus(from)) {
+    return `Order is ${ORDER_STATUS_LABELS[from] || from} and can no longer change status`;
+  }
+
+  if (!canTransition(from, to)) {
+    return `Cannot move order from ${ORDER_STATUS_LABELS[from] || from} to ${ORDER_STATUS_LABELS[to as OrderStatusValue] || to}`;
+  }
+
+  if (to === 'shipped' && (!order.tracking_link || !order.shipping_carrier)) {
+    return 'Tracking link and shipping carrier are required to mark an order as shipped';
+  }
+
+  return null;
+}
+
+export function assertStatusTransition(
+  order: Pick<Order, 'status' | 'tracking_link' | 'shipping_carrier'>,
+  to: string
+) {
+  const error = getTransitionError(order, to);
+  if (error) {
+    throw new OrderStatusTransitionError(error);
+  }
+}
+
+// Write an entry to the order_status_history collection for the signed-in operator
+export const recordStatusChange = async (
+  orderId: string,
+  fromStatus: string,
+  toStatus: string,
+  note?: string
+) => {
+  const user = getSessionUser();
+
+  try {
+    return await pb.collection('order_status_history').create({
+      order_id: orderId,
+      from_status: fromStatus || '',
+      to_status: toStatus,
+      changed_by: user?.id || '',
+      changed_by_name: user?.name || 'System',
+      note: note || '',
+    });
+  } catch (error) {
+    // History is an audit trail; never block the status change itself
+    console.error(`Error recording status change for order ${orderId}:`, error);
+    return null;
+  }
+};
@@ -0,0 +1,84 @@
+import { Order } from '@/types/schema';
+import { itemVariantLabel, parseOrderProducts } from '@/lib/orderItems';
+import { frontendConfig } from '../../frontend.config';
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// One packing slip per order: who, where and what to pack. Prices are deliberately left out.
+function renderPackingSlip(order: Order): string {
+  const items = parseOrderProducts(order);
+  const rows = items.length > 0
+    ? items.map(item => `
+        <tr>
+          <td>${escapeHtml(item.product?.name || 'Unknown Product')}${itemVariantLabel(item) ? ` <small>(${escapeHtml(itemVariantLabel(item))})</small>` : ''}</td>
+          <td class="qty">${item.quantity}</td>
+          <td class="check"></td>
+        </tr>`).join('')
+    : '<tr><td colspan="3">No product information available</td></tr>';
+
+  return `
+    <section class="slip">
+      <header>
+        <h1>${escapeHtml(frontendConfig.site.title)}</h1>
+        <div>
+          <strong>Packing Slip</strong><br />
+          Order #${escapeHtml(order.id)}<br />
+          ${new Date(order.created).toLocaleDateString('en-IN')}
+        </div>
+      </header>
+      <div class="address">
+        <strong>Ship to</strong><br />
+        ${escapeHtml(order.customer_name || '')}<br />
+        ${escapeHtml(order.shipping_address_text || 'No address provided').replace(/\n/g, '<br />')}<br />
+        ${escapeHtml(order.customer_phone || '')}
+      </div>
+      <table>
+        <thead><tr><th>Item</th><th class="qty">Qty</th><th class="check">Packed</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+      ${order.notes ? `<p class="notes"><strong>Notes:</strong> ${escapeHtml(order.notes)}</p>` : ''}
+    </section>`;
+}
+
+export function buildPackingSlipsHtml(orders: Order[]): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Packing slips</title>
+  <style>
+    body { font-family: Arial, sans-serif; color: #111; margin: 0; }
+    .slip { padding: 32px; page-break-after: always; }
+    .slip:last-child { page-break-after: auto; }
+    header { display: flex; justify-content: space-between; border-bottom: 2px solid #111; padding-bottom: 12px; }
+    h1 { font-size: 20px; margin: 0; }
+    .address { margin: 16px 0; line-height: 1.5; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border: 1px solid #ccc; padding: 8px; text-align: left; }
+    .qty { width: 60px; text-align: center; }
+    .check { width: 80px; }
+    .notes { margin-top: 16px; }
+  </style>
+</head>
+<body>${orders.map(renderPackingSlip).join('')}</body>
+</html>`;
+}
+
+// Open the slips in a new window and bring up the browser print dialog
+export function printPackingSlips(orders: Order[]) {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Pop-up blocked. Allow pop-ups to print packing slips.');
+  }
+
+  printWindow.document.open();
+  printWindow.document.write(buildPackingSlipsHtml(orders));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
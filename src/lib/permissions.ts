@@ -0,0 +1,113 @@
+// Role-based access control for the admin area.
+// Roles are stored on the PocketBase `users` record in the `role` field.
+// PocketBase superusers are always treated as owners.
+
+export type StaffRole = 'owner' | 'fulfilment' | 'support' | 'analyst';
+
+export type Permission =
+  | 'dashboard.view'
+  | 'orders.view'
+  | 'orders.create'
+  | 'orders.edit'
+  | 'orders.delete'
+  | 'orders.refund'
+  | 'customers.view'
+  | 'customers.edit'
+  | 'customers.delete'
+  | 'customers.merge'
+  | 'products.view'
+  | 'products.edit'
+  | 'products.delete'
+  | 'payments.view'
+  | 'payments.edit'
+  | 'coupons.view'
+  | 'coupons.edit'
+  | 'messages.view'
+  | 'messages.send'
+  | 'campaigns.manage'
+  | 'templates.view'
+  | 'templates.edit'
+  | 'settings.view'
+  | 'settings.edit';
+
+export const STAFF_ROLES: StaffRole[] = ['owner', 'fulfilment', 'support', 'analyst'];
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  fulfilment: 'Fulfilment Staff',
+  support: 'Support',
+  analyst: 'Read-only Analyst',
+};
+
+const ALL_PERMISSIONS: Permission[] = [
+  'dashboard.view',
+  'orders.view',
+  'orders.create',
+  'orders.edit',
+  'orders.delete',
+  'orders.refund',
+  'customers.view',
+  'customers.edit',
+  'customers.delete',
+  'customers.merge',
+  'products.view',
+  'products.edit',
+  'products.delete',
+  'payments.view',
+  'payments.edit',
+  'coupons.view',
+  'coupons.edit',
+  'messages.view',
+  'messages.send',
+  'campaigns.manage',
+  'templates.view',
+  'templates.edit',
+  'settings.view',
+  'settings.edit',
+];
+
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  // Packing and dispatch: move orders along, nothing financial or destructive
+  fulfilment: [
+    'dashboard.view',
+    'orders.view',
+    'orders.edit',
+    'products.view',
+    'messages.view',
+    'messages.send',
+  ],
+  // Customer care: talk to customers and fix order details
+  support: [
+    'dashboard.view',
+    'orders.view',
+    'orders.edit',
+    'customers.view',
+    'customers.edit',
+    'customers.merge',
+    'products.view',
+    'messages.view',
+    'messages.send',
+    'templates.view',
+  ],
+  // Reporting only: can look at everything except settings, change nothing
+  analyst: [
+    'dashboard.view',
+    'orders.view',
+    'customers.view',
+    'products.view',
+    'payments.view',
+    'coupons.view',
+    'messages.view',
+    'templates.view',
+  ],
+};
+
+export function isStaffRole(value: unknown): value is StaffRole {
+  return typeof value === 'string' && (STAFF_ROLES as string[]).includes(value);
+}
+
+export function hasPermission(role: StaffRole | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
@@ -1,4 +1,7 @@
-import PocketBase from 'pocketbase';
+import PocketBase, { LocalAuthStore } from 'pocketbase';
+import { Order } from '@/types/schema';
+import { assertStatusTransition, recordStatusChange } from '@/lib/orderStatus';
+import { releaseOrderStock } from '@/lib/inventory';
 
 // Get PocketBase URL from environment variables or use a default
 function getPocketBaseUrl() {
@@ -23,8 +26,9 @@ function getPocketBaseUrl() {
   return envUrl;
 }
 
-// Initialize PocketBase with the URL from environment variables
-export const pb = new PocketBase(getPocketBaseUrl());
+// Initialize PocketBase with the URL from environment variables. Requests carry the
+// signed-in operator's token; collection API rules decide what each role may do.
+export const pb = new PocketBase(getPocketBaseUrl(), new LocalAuthStore('konipai_session'));
 
 // PocketBase Service class for components to use
 export class PocketBaseService {
@@ -57,99 +61,14 @@ export class PocketBaseService {
   }
 }
 
-// Add a timeout to PocketBase requests
-const AUTH_TIMEOUT = 10000; // 10 seconds
-const MAX_RETRIES = 3;
-
-// Helper to get admin credentials from environment
-function getAdminCredentials() {
-  // Default fallback credentials
-  const defaultEmail = 'nnirmal7107@gmail.com';
-  const defaultPassword = 'Kamala@7107';
-  
-  // Try to get from environment variables
-  const email = typeof import.meta !== 'undefined' && import.meta.env && import.meta.env.POCKETBASE_ADMIN_EMAIL;
-  const password = typeof import.meta !== 'undefined' && import.meta.env && import.meta.env.POCKETBASE_ADMIN_PASSWORD;
-  
-  return {
-    email: email || defaultEmail,
-    password: password || defaultPassword
-  };
-}
-
-// Auto authenticate with admin credentials
-export const initAdmin = async (retryCount = 0) => {
-  try {
-    if (retryCount > MAX_RETRIES) {
-      console.error('Max authentication retries reached');
-      throw new Error('Failed to authenticate after multiple attempts');
-    }
-    
-    const { email, password } = getAdminCredentials();
-    console.log('Attempting admin authentication with:', email);
-    
-    // Set a timeout for the authentication request
-    const authPromise = pb.admins.authWithPassword(email, password);
-    
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('Authentication timed out')), AUTH_TIMEOUT);
-    });
-    
-    const authData = await Promise.race([authPromise, timeoutPromise]);
-    console.log('Admin authenticated successfully');
-    return authData;
-  } catch (error) {
-    console.error(`Admin authentication failed (attempt ${retryCount + 1}):`, error);
-    
-    // Check if it's a network error (status 0) and retry
-    if (error?.status === 0 && retryCount < MAX_RETRIES) {
-      console.log(`Retrying authentication in ${(retryCount + 1) * 1000}ms...`);
-      await new Promise(resolve => setTimeout(resolve, (retryCount + 1) * 1000));
-      return initAdmin(retryCount + 1);
-    }
-    
-    // If it's not a network error or we've exceeded retries, throw the error
-    throw error;
-  }
-};
-
-// Initialize admin authentication with a more graceful failure approach
-let authInitialized = false;
-initAdmin()
-  .then(() => {
-    authInitialized = true;
-    console.log('Initial admin authentication successful');
-  })
-  .catch(error => {
-    console.error('Initial admin authentication failed, will retry on demand:', error);
-  });
-
-// Helper function to ensure admin authentication
+// Data access runs as the signed-in operator. No service credentials ship to the
+// browser; anything that needs them goes through the Node server (src/api).
 export const ensureAdminAuth = async () => {
-  try {
-    // If auth is valid, return the model
-    if (pb.authStore.isValid && pb.authStore.model?.admin) {
-      return pb.authStore.model;
-    }
-    
-    // Otherwise try to authenticate
-    return await initAdmin();
-  } catch (error) {
-    console.error('Failed to ensure admin authentication:', error);
-    throw error;
-  }
-};
-
-// Helper function for admin login
-export const authenticateAdmin = async (email: string, password: string) => {
-  try {
-    const authData = await pb.admins.authWithPassword(email, password);
-    console.log('Admin authenticated with credentials');
-    return authData;
-  } catch (error) {
-    console.error('Authentication error:', error);
-    throw error;
+  if (!pb.authStore.isValid) {
+    console.warn('No signed-in operator, PocketBase request will run unauthenticated');
+    return null;
   }
+  return pb.authStore.record;
 };
 
 // Helper functions for orders
@@ -183,7 +102,15 @@ export const getOrderById = async (id: string) => {
 export const updateOrderStatus = async (id: string, status: string) => {
   try {
     await ensureAdminAuth();
+    const current = await pb.collection('orders').getOne(id);
+    assertStatusTransition(current as unknown as Order, status);
     const record = await pb.collection('orders').update(id, { status });
+    if (current.status !== status) {
+      await recordStatusChange(id, current.status, status);
+    }
+    if (status === 'cancelled' && current.status !== 'cancelled') {
+      await releaseOrderStock(record).catch(err => console.error(`Error returning stock for order ${id}:`, err));
+    }
     return record;
   } catch (error) {
     console.error(`Error updating order ${id}:`, error);
@@ -0,0 +1,119 @@
+import type { Product, ProductOption, ProductVariant } from '@/types/schema';
+
+export const COLOUR_OPTION = 'Colour';
+
+// A variant being edited; `id` is empty until it is saved
+export interface VariantDraft {
+  id: string;
+  sku: string;
+  options: Record<string, string>;
+  price: number;
+  stock: number;
+  images: string[];
+  active: boolean;
+}
+
+/**
+ * Colour names from the legacy `products.colors` field, which holds
+ * comma-separated names, a JSON array, or `{ "available": [...], "primary": "..." }`.
+ * The primary colour comes first.
+ */
+export function parseLegacyColors(value: unknown): string[] {
+  if (!value) return [];
+
+  let parsed: unknown = value;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (!trimmed) return [];
+    try {
+      parsed = trimmed.startsWith('{') || trimmed.startsWith('[') ? JSON.parse(trimmed) : trimmed.split(',');
+    } catch {
+      parsed = trimmed.split(',');
+    }
+  }
+
+  let colours: unknown[] = [];
+  if (Array.isArray(parsed)) {
+    colours = parsed;
+  } else if (typeof parsed === 'object' && parsed !== null) {
+    const { available, primary } = parsed as { available?: unknown[]; primary?: unknown };
+    colours = [primary, ...(Array.isArray(available) ? available : [])];
+  }
+
+  const names = colours
+    .filter((colour): colour is string => typeof colour === 'string')
+    .map(colour => colour.trim())
+    .filter(Boolean);
+  return [...new Set(names)];
+}
+
+// Options with their blank names and values dropped
+export function cleanOptions(options: ProductOption[] = []): ProductOption[] {
+  return options
+    .map(option => ({
+      name: option.name.trim(),
+      values: [...new Set(option.values.map(value => value.trim()).filter(Boolean))],
+    }))
+    .filter(option => option.name && option.values.length > 0);
+}
+
+// Every combination of option values, e.g. Colour × Size
+export function optionCombinations(options: ProductOption[]): Record<string, string>[] {
+  return cleanOptions(options).reduce<Record<string, string>[]>(
+    (combinations, option) =>
+      combinations.flatMap(combination => option.values.map(value => ({ ...combination, [option.name]: value }))),
+    [{}]
+  ).filter(combination => Object.keys(combination).length > 0);
+}
+
+export function sameOptions(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+}
+
+// "Colour: Red / Size: M"
+export function variantLabel(options?: Record<string, string>): string {
+  return Object.entries(options || {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join(' / ');
+}
+
+const skuPart = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export function buildVariantSku(productName: string, options: Record<string, string>): string {
+  return [productName.slice(0, 12), ...Object.values(options)].map(skuPart).filter(Boolean).join('-');
+}
+
+export function variantPrice(product: Pick<Product, 'price'>, variant?: Pick<ProductVariant, 'price'> | null): number {
+  return variant && Number(variant.price) > 0 ? Number(variant.price) : Number(product.price) || 0;
+}
+
+/**
+ * Bring drafts in line with the options: keep existing variants whose
+ * combination still exists and add a draft for each new combination.
+ */
+export function syncVariantDrafts(productName: string, options: ProductOption[], drafts: VariantDraft[]): VariantDraft[] {
+  return optionCombinations(options).map(combination =>
+    drafts.find(draft => sameOptions(draft.options, combination)) || {
+      id: '',
+      sku: buildVariantSku(productName, combination),
+      options: combination,
+      price: 0,
+      stock: 0,
+      images: [],
+      active: true,
+    }
+  );
+}
+
+// The Colour option written back to `products.colors` for the storefront
+export function legacyColorsFromOptions(options: ProductOption[]): string | undefined {
+  const colour = options.find(option => option.name.toLowerCase() === COLOUR_OPTION.toLowerCase() || option.name.toLowerCase() === 'color');
+  if (!colour || colour.values.length === 0) return undefined;
+  return JSON.stringify({ available: colour.values, primary: colour.values[0] });
+}
+
+export function optionsFromLegacyColors(colors: unknown): ProductOption[] {
+  const values = parseLegacyColors(colors);
+  return values.length > 0 ? [{ name: COLOUR_OPTION, values }] : [];
+}
@@ -0,0 +1,207 @@
+import {
+  DiscrepancyType,
+  Order,
+  PaymentDiscrepancyResolution,
+  RazorpayOrder,
+  RazorpaySettlement,
+} from '@/types/schema';
+import { formatCurrency } from '@/lib/utils';
+
+export const DISCREPANCY_LABELS: Record<DiscrepancyType, string> = {
+  paid_without_capture: 'Paid, no capture',
+  capture_without_order: 'Capture without order',
+  amount_mismatch: 'Amount mismatch',
+  partial_refund: 'Partial refund',
+};
+
+export const DISCREPANCY_TYPES = Object.keys(DISCREPANCY_LABELS) as DiscrepancyType[];
+
+// One Razorpay payment, merged from webhook records and settlement lines. Amounts are in paise.
+export interface CapturedPayment {
+  paymentId: string;
+  razorpayOrderId: string;
+  orderId: string;
+  captured: number;
+  settled: number;
+  refunded: number;
+  settlementId: string;
+}
+
+export interface Discrepancy {
+  // Stable id used to record a resolution, e.g. amount_mismatch:<order id>
+  key: string;
+  type: DiscrepancyType;
+  orderId: string;
+  customerName: string;
+  paymentIds: string[];
+  // Amounts in paise; orderTotal is null for captures with no order
+  orderTotal: number | null;
+  captured: number;
+  settled: number;
+  refunded: number;
+  details: string;
+  resolution?: PaymentDiscrepancyResolution;
+}
+
+export interface ReconciliationData {
+  orders: Order[];
+  razorpayOrders: RazorpayOrder[];
+  settlements: RazorpaySettlement[];
+  resolutions: PaymentDiscrepancyResolution[];
+}
+
+// Order totals are stored in rupees, Razorpay amounts in paise
+export const toPaise = (rupees: number) => Math.round((Number(rupees) || 0) * 100);
+
+export const formatPaise = (paise: number) => formatCurrency(paise / 100);
+
+/**
+ * Merge captured payments from `razorpay_orders` with the uploaded settlement lines.
+ * Refund lines are added up against the payment they were made on.
+ */
+export function collectPayments(razorpayOrders: RazorpayOrder[], settlements: RazorpaySettlement[]): CapturedPayment[] {
+  const payments = new Map<string, CapturedPayment>();
+  const paymentFor = (paymentId: string) => {
+    if (!payments.has(paymentId)) {
+      payments.set(paymentId, {
+        paymentId,
+        razorpayOrderId: '',
+        orderId: '',
+        captured: 0,
+        settled: 0,
+        refunded: 0,
+        settlementId: '',
+      });
+    }
+    return payments.get(paymentId)!;
+  };
+
+  razorpayOrders
+    .filter(record => record.status === 'paid' && record.payment_id)
+    .forEach(record => {
+      const payment = paymentFor(record.payment_id!);
+      payment.razorpayOrderId = payment.razorpayOrderId || record.razorpay_order_id;
+      payment.orderId = payment.orderId || record.order_id || '';
+      payment.captured = record.amount;
+      payment.refunded = Math.max(payment.refunded, record.refunded_amount || 0);
+    });
+
+  const settledRefunds = new Map<string, number>();
+  settlements.forEach(line => {
+    if (line.type === 'payment') {
+      const payment = paymentFor(line.entity_id);
+      payment.razorpayOrderId = payment.razorpayOrderId || line.razorpay_order_id || '';
+      payment.settled = line.amount;
+      payment.captured = payment.captured || line.amount;
+      payment.settlementId = line.settlement_id || '';
+    } else if (line.type === 'refund' && line.payment_id) {
+      settledRefunds.set(line.payment_id, (settledRefunds.get(line.payment_id) || 0) + line.amount);
+    }
+  });
+
+  settledRefunds.forEach((amount, paymentId) => {
+    const payment = payments.get(paymentId);
+    if (payment) payment.refunded = Math.max(payment.refunded, amount);
+  });
+
+  return [...payments.values()];
+}
+
+/**
+ * Match every captured payment to its order and list what doesn't add up:
+ * paid orders with no capture, captures with no order, totals that differ
+ * from what was captured or settled, and partially refunded orders.
+ */
+export function buildReconciliation({ orders, razorpayOrders, settlements, resolutions }: ReconciliationData): Discrepancy[] {
+  const resolutionsByKey = new Map(resolutions.map(resolution => [resolution.discrepancy_key, resolution]));
+  const ordersById = new Map(orders.map(order => [order.id, order]));
+  const ordersByPaymentId = new Map(orders.filter(order => order.razorpay_payment_id).map(order => [order.razorpay_payment_id!, order]));
+  const ordersByRazorpayOrderId = new Map(orders.filter(order => order.razorpay_order_id).map(order => [order.razorpay_order_id!, order]));
+
+  const discrepancies: Discrepancy[] = [];
+  const add = (discrepancy: Omit<Discrepancy, 'resolution'>) => {
+    discrepancies.push({ ...discrepancy, resolution: resolutionsByKey.get(discrepancy.key) });
+  };
+
+  const paymentsByOrder = new Map<string, CapturedPayment[]>();
+  collectPayments(razorpayOrders, settlements).forEach(payment => {
+    const order = ordersById.get(payment.orderId)
+      || ordersByPaymentId.get(payment.paymentId)
+      || ordersByRazorpayOrderId.get(payment.razorpayOrderId);
+
+    if (!order) {
+      add({
+        key: `capture_without_order:${payment.paymentId}`,
+        type: 'capture_without_order',
+        orderId: '',
+        customerName: '',
+        paymentIds: [payment.paymentId],
+        orderTotal: null,
+        captured: payment.captured,
+        settled: payment.settled,
+        refunded: payment.refunded,
+        details: payment.razorpayOrderId
+          ? `No order references Razorpay order ${payment.razorpayOrderId}`
+          : 'Payment is not linked to any order',
+      });
+      return;
+    }
+
+    paymentsByOrder.set(order.id, [...(paymentsByOrder.get(order.id) || []), payment]);
+  });
+
+  orders.forEach(order => {
+    const payments = paymentsByOrder.get(order.id) || [];
+    const sum = (field: 'captured' | 'settled' | 'refunded') =>
+      payments.reduce((total, payment) => total + payment[field], 0);
+
+    const orderTotal = toPaise(order.total);
+    const captured = sum('captured');
+    const settled = sum('settled');
+    const refunded = Math.max(sum('refunded'), toPaise(order.refund_amount || 0));
+    const base = {
+      orderId: order.id,
+      customerName: order.customer_name,
+      paymentIds: payments.map(payment => payment.paymentId),
+      orderTotal,
+      captured,
+      settled,
+      refunded,
+    };
+
+    if (payments.length === 0) {
+      if (order.payment_status !== 'pending' && order.payment_status !== 'failed') {
+        add({
+          ...base,
+          key: `paid_without_capture:${order.id}`,
+          type: 'paid_without_capture',
+          details: `Order is marked ${order.payment_status.replace(/_/g, ' ')} but Razorpay has no captured payment for it`,
+        });
+      }
+      return;
+    }
+
+    const settledDiffers = settled > 0 && settled !== captured;
+    if (captured !== orderTotal || settledDiffers) {
+      add({
+        ...base,
+        key: `amount_mismatch:${order.id}`,
+        type: 'amount_mismatch',
+        details: captured !== orderTotal
+          ? `Captured ${formatPaise(captured)} against an order total of ${formatPaise(orderTotal)}`
+          : `Settled ${formatPaise(settled)} against ${formatPaise(captured)} captured`,
+      });
+    }
+
+    if (refunded > 0 && refunded < captured) {
+      add({
+        ...base,
+        key: `partial_refund:${order.id}`,
+        type: 'partial_refund',
+        details: `${formatPaise(refunded)} of ${formatPaise(captured)} refunded`,
+      });
+    }
+  });
+
+  return discrepancies;
+}
@@ -0,0 +1,212 @@
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { getSessionUser } from '@/lib/auth';
+import { itemVariantLabel, parseOrderProducts } from '@/lib/orderItems';
+import { dispatchOrderNotification } from '@/lib/notifications';
+import { restockRefundItems } from '@/lib/inventory';
+import { Order, PaymentStatusValue, Refund, RefundLineItem, RefundMethod } from '@/types/schema';
+
+export const REFUND_METHOD_LABELS: Record<RefundMethod, string> = {
+  razorpay: 'Razorpay',
+  bank_transfer: 'Bank transfer',
+  cash: 'Cash',
+  store_credit: 'Store credit',
+};
+
+// Only money that was actually collected can be refunded
+const REFUNDABLE_STATUSES: PaymentStatusValue[] = ['paid', 'partially_refunded'];
+
+// Same actor as handleRefundProcessed in src/server/razorpay.ts, for refunds issued in the Razorpay dashboard
+const RAZORPAY_WEBHOOK_ACTOR = 'Razorpay webhook';
+
+// Refunds are in rupees; compare in paise to avoid floating point drift
+const toPaise = (amount: number) => Math.round((Number(amount) || 0) * 100);
+
+export function canRefund(order: Order): boolean {
+  return REFUNDABLE_STATUSES.includes(order.payment_status);
+}
+
+export function totalRefunded(refunds: Refund[]): number {
+  return toPaise(refunds.reduce((total, refund) => total + (Number(refund.amount) || 0), 0)) / 100;
+}
+
+export function refundableAmount(order: Order, refunds: Refund[]): number {
+  return Math.max(0, toPaise(order.total) - toPaise(totalRefunded(refunds))) / 100;
+}
+
+// Quantity already refunded for each order line
+export function refundedQuantities(refunds: Refund[]): Map<number, number> {
+  const quantities = new Map<number, number>();
+  refunds.forEach(refund => {
+    (refund.items || []).forEach(item => {
+      quantities.set(item.line, (quantities.get(item.line) || 0) + item.quantity);
+    });
+  });
+  return quantities;
+}
+
+export interface RefundableLine {
+  line: number;
+  productId: string;
+  variantId: string;
+  name: string;
+  ordered: number;
+  remaining: number;
+  unitAmount: number;
+}
+
+/**
+ * Order lines that still have units to refund. Unit amounts are scaled by
+ * total / subtotal so an order-level discount is shared across the lines.
+ */
+export function refundableLines(order: Order, refunds: Refund[]): RefundableLine[] {
+  const refunded = refundedQuantities(refunds);
+  const products = parseOrderProducts(order);
+  const subtotal = products.reduce((sum, item) => sum + (item.product?.price || 0) * item.quantity, 0);
+  const ratio = subtotal > 0 && order.total > 0 ? Math.min(1, order.total / subtotal) : 1;
+
+  return products.map((item, line) => ({
+    line,
+    productId: item.productId || item.product?.id || '',
+    variantId: item.variantId || '',
+    name: [item.product?.name || 'Unknown Product', itemVariantLabel(item)].filter(Boolean).join(' · '),
+    ordered: item.quantity,
+    remaining: Math.max(0, item.quantity - (refunded.get(line) || 0)),
+    unitAmount: toPaise((item.product?.price || 0) * ratio) / 100,
+  }));
+}
+
+export interface RefundRequest {
+  order: Order;
+  amount: number;
+  reason: string;
+  method: RefundMethod;
+  razorpayRefundId?: string;
+  items: Omit<RefundLineItem, 'restocked'>[];
+  restock: boolean;
+  notifyCustomer: boolean;
+}
+
+async function findRazorpayRefund(razorpayRefundId: string): Promise<Refund | null> {
+  const record = await pb.collection('refunds')
+    .getFirstListItem(pb.filter('razorpay_refund_id = {:id}', { id: razorpayRefundId }))
+    .catch(() => null);
+  return record as unknown as Refund | null;
+}
+
+/**
+ * Fill in a refund the Razorpay webhook already recorded: the reason and returned units
+ * come from the operator, while the amount, order totals and customer message were
+ * already taken care of when Razorpay reported it.
+ */
+async function completeWebhookRefund(recorded: Refund, request: RefundRequest): Promise<Refund> {
+  const { order, amount, reason, items, restock } = request;
+  if (recorded.order_id !== order.id) {
+    throw new Error(`Razorpay refund ${recorded.razorpay_refund_id} belongs to another order`);
+  }
+  if (recorded.actor !== RAZORPAY_WEBHOOK_ACTOR) {
+    throw new Error(`Razorpay refund ${recorded.razorpay_refund_id} is already recorded on this order`);
+  }
+  if (toPaise(amount) !== toPaise(recorded.amount)) {
+    throw new Error(`Razorpay refunded ₹${Number(recorded.amount).toFixed(2)} for ${recorded.razorpay_refund_id}`);
+  }
+  if (!reason.trim()) {
+    throw new Error('A reason is required');
+  }
+
+  const user = getSessionUser();
+  let refund = await pb.collection('refunds').update(recorded.id, {
+    reason: reason.trim(),
+    items: items.map(item => ({ ...item, restocked: false })),
+    actor: user?.name || 'System',
+    actor_id: user?.id || '',
+  }) as unknown as Refund;
+
+  if (restock && items.length > 0) {
+    const restocked = await restockRefundItems(order.id, refund.id, items);
+    refund = await pb.collection('refunds').update(refund.id, {
+      items: items.map((item, index) => ({ ...item, restocked: restocked[index] > 0 })),
+    }) as unknown as Refund;
+  }
+  return refund;
+}
+
+/**
+ * Record a refund, capped at what the customer paid less earlier refunds.
+ * Returned units go back into stock, the order's refund total and payment
+ * status are updated, and the customer is sent a refund confirmation.
+ * A Razorpay refund the webhook already recorded is completed rather than counted again.
+ */
+export async function recordRefund(request: RefundRequest): Promise<Refund> {
+  const { order, amount, reason, method, razorpayRefundId, items, restock, notifyCustomer } = request;
+
+  try {
+    await ensureAdminAuth();
+    const razorpayId = razorpayRefundId?.trim() || '';
+    const recorded = razorpayId ? await findRazorpayRefund(razorpayId) : null;
+    if (recorded) {
+      return await completeWebhookRefund(recorded, request);
+    }
+
+    const current = await pb.collection('orders').getOne(order.id) as unknown as Order;
+    if (!canRefund(current)) {
+      throw new Error(`Orders with payment status "${current.payment_status}" can't be refunded`);
+    }
+
+    const existing = await fetchRefunds(order.id);
+    const remaining = refundableAmount(current, existing);
+    if (toPaise(amount) <= 0) {
+      throw new Error('Refund amount must be greater than zero');
+    }
+    if (toPaise(amount) > toPaise(remaining)) {
+      throw new Error(`Only ₹${remaining.toFixed(2)} is left to refund on this order`);
+    }
+    if (!reason.trim()) {
+      throw new Error('A reason is required');
+    }
+
+    const user = getSessionUser();
+    let refund = await pb.collection('refunds').create({
+      order_id: order.id,
+      amount,
+      reason: reason.trim(),
+      method,
+      razorpay_refund_id: razorpayId,
+      items: items.map(item => ({ ...item, restocked: false })),
+      actor: user?.name || 'System',
+      actor_id: user?.id || '',
+    }) as unknown as Refund;
+
+    // Restock only once the refund is on record, so a failed save never inflates stock
+    if (restock && items.length > 0) {
+      const restocked = await restockRefundItems(order.id, refund.id, items);
+      refund = await pb.collection('refunds').update(refund.id, {
+        items: items.map((item, index) => ({ ...item, restocked: restocked[index] > 0 })),
+      }) as unknown as Refund;
+    }
+
+    const refundedTotal = totalRefunded([...existing, refund]);
+    const updated = await pb.collection('orders').update(order.id, {
+      refund_amount: refundedTotal,
+      payment_status: toPaise(refundedTotal) >= toPaise(current.total) ? 'refunded' : 'partially_refunded',
+    }) as unknown as Order;
+
+    if (notifyCustomer) {
+      dispatchOrderNotification('refund_confirmation', updated, { refundAmount: amount, refundId: refund.id })
+        .catch(err => console.error('Failed to dispatch refund confirmation:', err));
+    }
+
+    return refund;
+  } catch (error) {
+    console.error('Error recording refund:', error);
+    throw error;
+  }
+}
+
+export async function fetchRefunds(orderId: string): Promise<Refund[]> {
+  await ensureAdminAuth();
+  const records = await pb.collection('refunds').getFullList({
+    filter: pb.filter('order_id = {:orderId}', { orderId }),
+    sort: 'created',
+  });
+  return records as unknown as Refund[];
+}
@@ -0,0 +1,291 @@
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { normalizeEmail, normalizePhone } from '@/lib/customers';
+import { isSentStatus } from '@/lib/deliveryStatus';
+import { parseOrderProducts } from '@/lib/orderItems';
+import { NotificationChannel, Order, RfmTier, Segment, SegmentRules } from '@/types/schema';
+
+// Everything the segment rules look at for one customer, built from their orders
+export interface CustomerSummary {
+  key: string;
+  userId?: string;
+  name: string;
+  email: string;
+  // Normalized with formatPhoneNumber
+  phone: string;
+  orderCount: number;
+  // Non-cancelled order totals less refunds, in rupees
+  totalSpend: number;
+  firstOrderDate: string;
+  lastOrderDate: string;
+  daysSinceLastOrder: number;
+  productIds: string[];
+  categories: string[];
+  // Saved address cities and order shipping addresses, lower-cased
+  places: string[];
+  couponCodes: string[];
+  lastMessageStatus: 'sent' | 'failed' | 'queued' | 'none';
+  rfm: { recency: number; frequency: number; monetary: number };
+  tier: RfmTier;
+}
+
+export const RFM_TIER_LABELS: Record<RfmTier, string> = {
+  champions: 'Champions',
+  loyal: 'Loyal',
+  new: 'New',
+  needs_attention: 'Needs attention',
+  at_risk: 'At risk',
+  lost: 'Lost',
+};
+
+export const RFM_TIER_DESCRIPTIONS: Record<RfmTier, string> = {
+  champions: 'Bought recently, often and spend the most',
+  loyal: 'Buy regularly',
+  new: 'Bought recently for the first time or two',
+  needs_attention: 'Middle of the pack on recency and frequency',
+  at_risk: 'Used to buy often but not lately',
+  lost: 'Bought once or twice, a long time ago',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type OrderSummary = Pick<Order,
+  'id' | 'user' | 'customer_name' | 'customer_email' | 'customer_phone' | 'products' | 'total' |
+  'refund_amount' | 'coupon_code' | 'shipping_address_text' | 'created'>;
+
+interface ActivitySummary {
+  recipient: string;
+  status: string;
+  timestamp: string;
+}
+
+/**
+ * Score values 1-5 by where they fall among all customers (5 is best). Ties share a score,
+ * so when most customers have one order they all score 1 on frequency.
+ */
+export function quintileScores(values: number[], higherIsBetter = true): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  // Number of customers strictly below each value
+  const firstIndex = new Map<number, number>();
+  sorted.forEach((value, index) => {
+    if (!firstIndex.has(value)) firstIndex.set(value, index);
+  });
+  return values.map(value => {
+    const below = firstIndex.get(value)!;
+    const score = 1 + Math.floor((below / values.length) * 5);
+    return higherIsBetter ? score : 6 - score;
+  });
+}
+
+export function rfmTier(recency: number, frequency: number): RfmTier {
+  if (recency >= 4 && frequency >= 4) return 'champions';
+  if (recency >= 3 && frequency >= 3) return 'loyal';
+  if (recency >= 4) return 'new';
+  if (recency <= 2 && frequency >= 3) return 'at_risk';
+  if (recency === 1) return 'lost';
+  return 'needs_attention';
+}
+
+function latestMessageStatus(activities: ActivitySummary[]): CustomerSummary['lastMessageStatus'] {
+  const latest = [...activities].sort((a, b) => (b.timestamp || '').localeCompare(a.timestamp || ''))[0];
+  if (!latest) return 'none';
+  if (isSentStatus(latest.status)) return 'sent';
+  return latest.status === 'failed' ? 'failed' : 'queued';
+}
+
+/**
+ * One summary per customer. Orders are joined on account, normalized phone number or email,
+ * so guest orders placed as "+91 98..." and "98..." count as the same person.
+ */
+export function buildCustomerSummaries(
+  orders: OrderSummary[],
+  addressCities: Record<string, string[]>,
+  activities: ActivitySummary[],
+  now = new Date(),
+): CustomerSummary[] {
+  const byIdentity = new Map<string, CustomerSummary>();
+  const summaries: CustomerSummary[] = [];
+
+  [...orders].sort((a, b) => a.created.localeCompare(b.created)).forEach(order => {
+    const userId = order.user?.[0];
+    const phone = normalizePhone(order.customer_phone);
+    const email = normalizeEmail(order.customer_email);
+    const identities = [userId && `user:${userId}`, phone && `phone:${phone}`, email && `email:${email}`].filter(Boolean) as string[];
+    if (identities.length === 0) return;
+
+    let summary = identities.map(identity => byIdentity.get(identity)).find(Boolean);
+    if (!summary) {
+      summary = {
+        key: identities[0],
+        name: '',
+        email: '',
+        phone: '',
+        orderCount: 0,
+        totalSpend: 0,
+        firstOrderDate: order.created,
+        lastOrderDate: order.created,
+        daysSinceLastOrder: 0,
+        productIds: [],
+        categories: [],
+        places: [],
+        couponCodes: [],
+        lastMessageStatus: 'none',
+        rfm: { recency: 0, frequency: 0, monetary: 0 },
+        tier: 'needs_attention',
+      };
+      summaries.push(summary);
+    }
+    identities.forEach(identity => byIdentity.set(identity, summary!));
+
+    // Later orders overwrite contact details, so the summary has the most recent ones
+    summary.userId = userId || summary.userId;
+    summary.name = order.customer_name || summary.name;
+    summary.email = email || summary.email;
+    summary.phone = phone || summary.phone;
+    summary.orderCount += 1;
+    summary.totalSpend = Math.round((summary.totalSpend + (Number(order.total) || 0) - (Number(order.refund_amount) || 0)) * 100) / 100;
+    summary.lastOrderDate = order.created;
+    parseOrderProducts(order).forEach(item => {
+      if (!summary!.productIds.includes(item.productId)) summary!.productIds.push(item.productId);
+      const category = item.product.category?.toLowerCase();
+      if (category && !summary!.categories.includes(category)) summary!.categories.push(category);
+    });
+    if (order.shipping_address_text) summary.places.push(order.shipping_address_text.toLowerCase());
+    if (order.coupon_code) summary.couponCodes.push(order.coupon_code.toUpperCase());
+  });
+
+  const activitiesByRecipient = new Map<string, ActivitySummary[]>();
+  activities.forEach(activity => {
+    const recipient = (activity.recipient || '').includes('@') ? normalizeEmail(activity.recipient) : normalizePhone(activity.recipient);
+    if (!recipient) return;
+    if (!activitiesByRecipient.has(recipient)) activitiesByRecipient.set(recipient, []);
+    activitiesByRecipient.get(recipient)!.push(activity);
+  });
+
+  summaries.forEach(summary => {
+    summary.daysSinceLastOrder = Math.floor((now.getTime() - new Date(summary.lastOrderDate).getTime()) / DAY_MS);
+    if (summary.userId) summary.places.push(...(addressCities[summary.userId] || []));
+    summary.lastMessageStatus = latestMessageStatus([
+      ...(activitiesByRecipient.get(summary.phone) || []),
+      ...(activitiesByRecipient.get(summary.email) || []),
+    ]);
+  });
+
+  const recency = quintileScores(summaries.map(summary => summary.daysSinceLastOrder), false);
+  const frequency = quintileScores(summaries.map(summary => summary.orderCount));
+  const monetary = quintileScores(summaries.map(summary => summary.totalSpend));
+  summaries.forEach((summary, index) => {
+    summary.rfm = { recency: recency[index], frequency: frequency[index], monetary: monetary[index] };
+    summary.tier = rfmTier(recency[index], frequency[index]);
+  });
+
+  return summaries;
+}
+
+export function matchesSegment(customer: CustomerSummary, rules: SegmentRules): boolean {
+  const set = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+  if (set(rules.min_orders) && customer.orderCount < Number(rules.min_orders)) return false;
+  if (set(rules.max_orders) && customer.orderCount > Number(rules.max_orders)) return false;
+  if (set(rules.ordered_within_days) && customer.daysSinceLastOrder > Number(rules.ordered_within_days)) return false;
+  if (set(rules.inactive_for_days) && customer.daysSinceLastOrder < Number(rules.inactive_for_days)) return false;
+  if (set(rules.min_spend) && customer.totalSpend < Number(rules.min_spend)) return false;
+  if (set(rules.max_spend) && customer.totalSpend > Number(rules.max_spend)) return false;
+
+  const products = rules.product_ids || [];
+  const categories = (rules.categories || []).map(category => category.toLowerCase());
+  if (products.length > 0 || categories.length > 0) {
+    const bought = products.some(id => customer.productIds.includes(id)) ||
+      categories.some(category => customer.categories.includes(category));
+    if (!bought) return false;
+  }
+
+  if (rules.city && !customer.places.some(place => place.includes(rules.city!.trim().toLowerCase()))) return false;
+
+  if (rules.coupon === 'any' && customer.couponCodes.length === 0) return false;
+  if (rules.coupon === 'none' && customer.couponCodes.length > 0) return false;
+  if (rules.coupon && rules.coupon !== 'any' && rules.coupon !== 'none' &&
+    !customer.couponCodes.includes(rules.coupon.toUpperCase())) return false;
+
+  if (rules.last_message_status && customer.lastMessageStatus !== rules.last_message_status) return false;
+  if ((rules.rfm_tiers || []).length > 0 && !rules.rfm_tiers!.includes(customer.tier)) return false;
+
+  return true;
+}
+
+// Plain-language summary of a segment's rules, e.g. "2+ orders · no order in 90 days"
+export function describeSegmentRules(rules: SegmentRules): string {
+  const parts = [
+    rules.min_orders && rules.max_orders ? `${rules.min_orders}-${rules.max_orders} orders`
+      : rules.min_orders ? `${rules.min_orders}+ orders`
+      : rules.max_orders ? `at most ${rules.max_orders} orders` : '',
+    rules.ordered_within_days ? `ordered in the last ${rules.ordered_within_days} days` : '',
+    rules.inactive_for_days ? `no order in ${rules.inactive_for_days} days` : '',
+    rules.min_spend ? `spent ₹${rules.min_spend}+` : '',
+    rules.max_spend ? `spent at most ₹${rules.max_spend}` : '',
+    (rules.product_ids || []).length ? `bought one of ${rules.product_ids!.length} products` : '',
+    (rules.categories || []).length ? `bought ${rules.categories!.join(' or ')}` : '',
+    rules.city ? `in ${rules.city}` : '',
+    rules.coupon === 'any' ? 'used a coupon' : rules.coupon === 'none' ? 'never used a coupon' : rules.coupon ? `used ${rules.coupon}` : '',
+    rules.last_message_status ? `last message ${rules.last_message_status === 'none' ? 'never sent' : rules.last_message_status}` : '',
+    (rules.rfm_tiers || []).length ? rules.rfm_tiers!.map(tier => RFM_TIER_LABELS[tier]).join(' or ') : '',
+  ];
+  return parts.filter(Boolean).join(' · ') || 'All customers';
+}
+
+export async function fetchCustomerSummaries(): Promise<CustomerSummary[]> {
+  await ensureAdminAuth();
+  const ignoreMissing = (collection: string) => (error: unknown) => {
+    console.error(`Error fetching ${collection}:`, error);
+    return [];
+  };
+
+  const [orders, addresses, whatsapp, email] = await Promise.all([
+    pb.collection('orders').getFullList({
+      filter: 'status != "cancelled"',
+      fields: 'id,user,customer_name,customer_email,customer_phone,products,total,refund_amount,coupon_code,shipping_address_text,created',
+    }),
+    pb.collection('addresses').getFullList({ fields: 'user_id,city' }).catch(ignoreMissing('addresses')),
+    pb.collection('whatsapp_activities').getFullList({ fields: 'recipient,status,timestamp' }).catch(ignoreMissing('whatsapp_activities')),
+    pb.collection('email_activities').getFullList({ fields: 'recipient,status,timestamp' }).catch(ignoreMissing('email_activities')),
+  ]);
+
+  const addressCities: Record<string, string[]> = {};
+  (addresses as unknown as { user_id: string; city: string }[]).forEach(address => {
+    if (address.city) addressCities[address.user_id] = [...(addressCities[address.user_id] || []), address.city.toLowerCase()];
+  });
+
+  return buildCustomerSummaries(
+    orders as unknown as OrderSummary[],
+    addressCities,
+    [...whatsapp, ...email] as unknown as ActivitySummary[],
+  );
+}
+
+export interface AudienceMember {
+  name: string;
+  contact: string;
+  customer: CustomerSummary;
+}
+
+/**
+ * The customers in a segment who can be reached on a channel: they need a phone number for
+ * WhatsApp or an email address for email, and must not have opted out of it.
+ */
+export async function fetchSegmentAudience(rules: SegmentRules, channel: NotificationChannel): Promise<AudienceMember[]> {
+  const customers = (await fetchCustomerSummaries()).filter(customer => matchesSegment(customer, rules));
+  const optOuts = await pb.collection('notification_opt_outs').getFullList({
+    filter: pb.filter('channel = {:channel} || channel = "all"', { channel }),
+    fields: 'contact',
+  });
+  const optedOut = new Set(optOuts.map(optOut => optOut.contact as string));
+
+  return customers
+    .map(customer => ({ name: customer.name, contact: channel === 'whatsapp' ? customer.phone : customer.email, customer }))
+    .filter(member => member.contact && !optedOut.has(member.contact));
+}
+
+// Store the latest count on the segment, for lists that don't evaluate segments themselves
+export async function recordSegmentCount(segment: Segment, count: number) {
+  if (segment.customer_count === count) return;
+  await pb.collection('segments').update(segment.id, { customer_count: count, counted_at: new Date().toISOString() });
+}
@@ -0,0 +1,58 @@
+import * as XLSX from 'xlsx';
+import { ExportColumn, downloadCsv } from '@/lib/csv';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export function downloadXlsx<T>(rows: T[], columns: ExportColumn<T>[], filename: string, sheetName = 'Sheet1') {
+  const data = [
+    columns.map(column => column.header),
+    ...rows.map(row => columns.map(column => column.value(row) ?? '')),
+  ];
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(data), sheetName);
+  XLSX.writeFile(workbook, filename);
+}
+
+// Download rows in the chosen format, e.g. exportRows(orders, columns, 'xlsx', 'orders')
+export function exportRows<T>(rows: T[], columns: ExportColumn<T>[], format: ExportFormat, baseName: string) {
+  const filename = `${baseName}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  if (format === 'xlsx') {
+    downloadXlsx(rows, columns, filename, baseName.slice(0, 31));
+  } else {
+    downloadCsv(rows, columns, filename);
+  }
+}
+
+// Read the first sheet of a CSV or Excel file. Every cell comes back as a trimmed string
+// so phone numbers and SKUs keep their leading zeros.
+export async function readSpreadsheet(file: File): Promise<ParsedSheet> {
+  const isCsv = file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+  const workbook = isCsv
+    ? XLSX.read(await file.text(), { type: 'string', raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: 'array' });
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new Error('The file does not contain any sheets');
+  }
+
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: false, blankrows: false });
+  const [headerRow = [], ...body] = matrix;
+  const headers = headerRow.map(cell => String(cell).trim());
+
+  const rows = body.map(cells => {
+    // Headers come from the file, so a column named "__proto__" must not reach Object.prototype
+    const row: Record<string, string> = Object.create(null);
+    headers.forEach((header, index) => {
+      if (header) row[header] = String(cells[index] ?? '').trim();
+    });
+    return row;
+  });
+
+  return { headers: headers.filter(Boolean), rows };
+}
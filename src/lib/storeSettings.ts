@@ -0,0 +1,89 @@
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { StoreSettings, UpdateStoreSettingsData } from '@/types/schema';
+import { frontendConfig } from '../../frontend.config';
+
+export type StoreSettingsValues = Required<UpdateStoreSettingsData>;
+
+// Used until the store_settings record has been saved for the first time
+export const DEFAULT_STORE_SETTINGS: StoreSettingsValues = {
+  store_name: frontendConfig.site.title,
+  email: '',
+  support_email: '',
+  phone: '',
+  address: '',
+  currency: 'INR',
+  email_notifications: true,
+  whatsapp_notifications: true,
+  order_confirmations: true,
+  payment_notifications: true,
+  shipping_updates: true,
+  stock_alerts: true,
+  notification_channels: {},
+  quiet_hours_enabled: false,
+  quiet_hours_start: '21:00',
+  quiet_hours_end: '08:00',
+  timezone: 'Asia/Kolkata',
+  gstin: '',
+  state: '',
+  state_code: '',
+  invoice_prefix: 'INV',
+  default_hsn: '',
+  default_gst_rate: 18,
+  prices_include_tax: true,
+};
+
+// Cached for code paths outside React (notifications, emails, invoices)
+let cachedSettings: Promise<StoreSettingsValues> | null = null;
+
+async function loadSettingsRecord(): Promise<StoreSettings | null> {
+  await ensureAdminAuth();
+  const result = await pb.collection('store_settings').getList(1, 1, { sort: 'created' });
+  return (result.items[0] as unknown as StoreSettings) || null;
+}
+
+export async function fetchStoreSettings(): Promise<StoreSettingsValues> {
+  try {
+    const record = await loadSettingsRecord();
+    const settings = { ...DEFAULT_STORE_SETTINGS };
+    if (record) {
+      (Object.keys(DEFAULT_STORE_SETTINGS) as (keyof StoreSettingsValues)[]).forEach(key => {
+        if (record[key] !== undefined && record[key] !== null) {
+          (settings as Record<string, unknown>)[key] = record[key];
+        }
+      });
+    }
+    return settings;
+  } catch (error) {
+    console.error('Error fetching store settings:', error);
+    throw error;
+  }
+}
+
+// Settings for non-React callers. Falls back to defaults so a PocketBase hiccup never blocks an order flow.
+export function getStoreSettings(): Promise<StoreSettingsValues> {
+  if (!cachedSettings) {
+    cachedSettings = fetchStoreSettings().catch(() => {
+      cachedSettings = null;
+      return DEFAULT_STORE_SETTINGS;
+    });
+  }
+  return cachedSettings;
+}
+
+// Update the singleton record, creating it on first save
+export async function saveStoreSettings(data: UpdateStoreSettingsData): Promise<StoreSettingsValues> {
+  try {
+    const record = await loadSettingsRecord();
+    if (record) {
+      await pb.collection('store_settings').update(record.id, data);
+    } else {
+      await pb.collection('store_settings').create({ ...DEFAULT_STORE_SETTINGS, ...data });
+    }
+
+    cachedSettings = null;
+    return await getStoreSettings();
+  } catch (error) {
+    console.error('Error saving store settings:', error);
+    throw error;
+  }
+}
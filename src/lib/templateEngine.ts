@@ -0,0 +1,382 @@
+// One template language for every WhatsApp and email message, rendered the same way in the
+// admin app and on the server. The server imports this file directly, so imports stay relative.
+//
+//   {{customerName}}                            a variable; dotted paths reach into objects
+//   {{amount | currency}}                       formatters: currency, date, number, upper, lower
+//   {{#if trackingLink}}...{{else}}...{{/if}}   also {{#unless ...}}
+//   {{#each items}}{{quantity}}x {{name}}{{/each}}
+//
+// Email is rendered as HTML, so values are escaped there. A variable the context doesn't
+// define is an error, not an empty gap in a customer's message.
+import type { Order } from '../types/schema';
+
+export type TemplateFormat = 'text' | 'html';
+
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | undefined
+  | TemplateValue[]
+  | { [key: string]: TemplateValue };
+
+export type TemplateScope = Record<string, TemplateValue>;
+
+export type TemplateLineItem = {
+  name: string;
+  quantity: number;
+  price: number;
+  // price × quantity
+  total: number;
+  // "Colour: Red / Size: M", empty for products without variants
+  variant: string;
+  sku: string;
+};
+
+// Everything an order message can use. Callers add their own values (links, amounts) on top.
+export type OrderTemplateContext = TemplateScope & {
+  storeName: string;
+  // ISO code the currency formatter uses
+  currency: string;
+  customerName: string;
+  firstName: string;
+  phone: string;
+  email: string;
+  address: string;
+  orderId: string;
+  orderDate: Date;
+  status: string;
+  paymentStatus: string;
+  amount: number;
+  subtotal: number;
+  discount: number;
+  couponCode: string;
+  trackingLink: string;
+  carrier: string;
+  refundAmount: number;
+  items: TemplateLineItem[];
+  itemCount: number;
+  // The items as "2x Name - ₹100.00" lines, for templates written before {{#each items}}
+  productDetails: string;
+  today: Date;
+};
+
+export interface TemplateStore {
+  storeName: string;
+  currency?: string;
+}
+
+export interface RenderOptions {
+  format?: TemplateFormat;
+  // Text to put in place of an unknown variable instead of failing, e.g. to mark it in a preview
+  onUnknown?: (name: string) => string;
+}
+
+export class TemplateRenderError extends Error {
+  constructor(message: string, public unknownVariables: string[] = []) {
+    super(message);
+    this.name = 'TemplateRenderError';
+  }
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; path: string; formatters: string[] }
+  | { type: 'if'; path: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { type: 'if' | 'each' }>;
+
+const TAG = /{{\s*([\s\S]*?)\s*}}/g;
+const PATH = /^[A-Za-z_]\w*(\.\w+)*$/;
+
+// Same fallback as formatCurrency in src/lib/utils.ts
+function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-IN', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+function toNumber(value: TemplateValue): number {
+  return typeof value === 'number' ? value : parseFloat(String(value ?? '')) || 0;
+}
+
+function toText(value: TemplateValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toLocaleDateString('en-IN');
+  if (Array.isArray(value)) return value.map(toText).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value);
+}
+
+const FORMATTERS: Record<string, (value: TemplateValue, currency: string) => string> = {
+  currency: (value, currency) => formatMoney(toNumber(value), currency),
+  number: value => toNumber(value).toLocaleString('en-IN'),
+  date: value => {
+    const date = value instanceof Date ? value : new Date(toText(value));
+    return Number.isNaN(date.getTime())
+      ? toText(value)
+      : date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+  },
+  upper: value => toText(value).toUpperCase(),
+  lower: value => toText(value).toLowerCase(),
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function checkPath(path: string, tag: string) {
+  if (!PATH.test(path)) {
+    throw new TemplateRenderError(`Invalid placeholder ${tag}`);
+  }
+}
+
+function parse(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last, with the node list each one was opened in
+  const open: Array<{ node: BlockNode; keyword: string; tag: string; parent: TemplateNode[] }> = [];
+  let nodes = root;
+  let last = 0;
+
+  for (const match of template.matchAll(TAG)) {
+    if (match.index! > last) nodes.push({ type: 'text', text: template.slice(last, match.index) });
+    last = match.index! + match[0].length;
+    const tag = match[1];
+
+    const start = /^#(if|unless|each)\s+(.+)$/.exec(tag);
+    if (start) {
+      const [, keyword, path] = start;
+      checkPath(path, match[0]);
+      const node: BlockNode = keyword === 'each'
+        ? { type: 'each', path, body: [] }
+        : { type: 'if', path, negate: keyword === 'unless', then: [], otherwise: [] };
+      nodes.push(node);
+      open.push({ node, keyword, tag: match[0], parent: nodes });
+      nodes = node.type === 'each' ? node.body : node.then;
+      continue;
+    }
+
+    if (tag === 'else') {
+      const block = open[open.length - 1];
+      if (!block || block.node.type !== 'if') {
+        throw new TemplateRenderError('{{else}} is only allowed inside {{#if}} or {{#unless}}');
+      }
+      nodes = block.node.otherwise;
+      continue;
+    }
+
+    const end = /^\/(if|unless|each)$/.exec(tag);
+    if (end) {
+      const block = open.pop();
+      if (!block || block.keyword !== end[1]) {
+        throw new TemplateRenderError(`${match[0]} has no matching {{#${end[1]}}}`);
+      }
+      nodes = block.parent;
+      continue;
+    }
+
+    const [path, ...formatters] = tag.split('|').map(part => part.trim());
+    checkPath(path, match[0]);
+    const unknownFormatter = formatters.find(name => !(name in FORMATTERS));
+    if (unknownFormatter !== undefined) {
+      throw new TemplateRenderError(`Unknown formatter "${unknownFormatter}" in ${match[0]}`);
+    }
+    nodes.push({ type: 'variable', path, formatters });
+  }
+
+  if (last < template.length) nodes.push({ type: 'text', text: template.slice(last) });
+  if (open.length > 0) {
+    throw new TemplateRenderError(`${open[open.length - 1].tag} is never closed`);
+  }
+  return root;
+}
+
+const hasOwn = (value: object, key: string) => Object.prototype.hasOwnProperty.call(value, key);
+
+// Inner scopes (loop items) shadow outer ones. `undefined` counts as not defined.
+function lookup(scopes: TemplateScope[], path: string): { found: boolean; value?: TemplateValue } {
+  const [head, ...rest] = path.split('.');
+  const scope = [...scopes].reverse().find(candidate => hasOwn(candidate, head));
+  if (!scope) return { found: false };
+
+  let value = scope[head];
+  for (const key of rest) {
+    if (value === null || typeof value !== 'object' || !hasOwn(value, key)) return { found: false };
+    value = (value as Record<string, TemplateValue>)[key];
+  }
+  return value === undefined ? { found: false } : { found: true, value };
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+interface RenderState {
+  format: TemplateFormat;
+  unknown: Set<string>;
+  onUnknown?: (name: string) => string;
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateScope[], state: RenderState): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.text;
+      continue;
+    }
+
+    const { found, value } = lookup(scopes, node.path);
+    if (!found && !state.onUnknown) state.unknown.add(node.path);
+
+    if (node.type === 'variable') {
+      if (!found) {
+        output += state.onUnknown ? state.onUnknown(node.path) : '';
+        continue;
+      }
+      const currency = lookup(scopes, 'currency').value;
+      const formatted = node.formatters.reduce<TemplateValue>(
+        (current, name) => FORMATTERS[name](current, typeof currency === 'string' ? currency : 'INR'),
+        value
+      );
+      const text = toText(formatted);
+      // Multi-line values (addresses, item lists) would otherwise run together in an email
+      output += state.format === 'html' ? escapeHtml(text).replace(/\n/g, '<br>') : text;
+    } else if (node.type === 'if') {
+      const branch = isTruthy(value) !== node.negate ? node.then : node.otherwise;
+      output += renderNodes(branch, scopes, state);
+    } else if (Array.isArray(value)) {
+      for (const item of value) {
+        const scope = item !== null && typeof item === 'object' && !Array.isArray(item) && !(item instanceof Date)
+          ? { ...item, this: item }
+          : { this: item };
+        output += renderNodes(node.body, [...scopes, scope], state);
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Fill a template from a context. Throws TemplateRenderError for syntax mistakes and,
+ * unless `onUnknown` is given, for variables the context doesn't define.
+ */
+export function renderTemplate(template: string, context: TemplateScope, options: RenderOptions = {}): string {
+  const state: RenderState = { format: options.format || 'text', unknown: new Set(), onUnknown: options.onUnknown };
+  const output = renderNodes(parse(template), [context], state);
+
+  if (state.unknown.size > 0) {
+    const names = [...state.unknown];
+    throw new TemplateRenderError(
+      `Unknown template variable${names.length > 1 ? 's' : ''}: ${names.map(name => `{{${name}}}`).join(', ')}`,
+      names
+    );
+  }
+  return output;
+}
+
+// Throws TemplateRenderError when a template can't be parsed, so a broken one is never saved
+export function checkTemplateSyntax(template: string): void {
+  parse(template);
+}
+
+// Top-level variables a template uses, in order of first use. Names inside {{#each}} belong to its items.
+export function templateVariables(template: string): string[] {
+  const names = new Set<string>();
+  const visit = (nodes: TemplateNode[]) => nodes.forEach(node => {
+    if (node.type === 'text') return;
+    names.add(node.path.split('.')[0]);
+    if (node.type === 'if') {
+      visit(node.then);
+      visit(node.otherwise);
+    }
+  });
+  visit(parse(template));
+  return [...names];
+}
+
+export function toLineItem(item: { name: string; quantity: number; price: number; variant?: string; sku?: string }): TemplateLineItem {
+  return {
+    name: item.name,
+    quantity: item.quantity,
+    price: item.price,
+    total: item.price * item.quantity,
+    variant: item.variant || '',
+    sku: item.sku || '',
+  };
+}
+
+// Same parsing as parseOrderProducts in src/lib/orderItems.ts, which the server can't import
+export function orderLineItems(order: Pick<Order, 'products'>): TemplateLineItem[] {
+  let raw: unknown = order.products;
+  if (typeof raw === 'string') {
+    if (raw === '[object Object]' || raw.trim() === '') return [];
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return [];
+    }
+  }
+
+  const entries = (Array.isArray(raw) ? raw : raw && typeof raw === 'object' ? [raw] : []) as Array<Record<string, any>>;
+  return entries.map(entry => toLineItem({
+    name: entry.product?.name || entry.name || 'Product',
+    quantity: Number(entry.quantity) || 1,
+    price: Number(entry.price ?? entry.product?.price) || 0,
+    variant: Object.entries((entry.options || {}) as Record<string, string>)
+      .map(([name, value]) => `${name}: ${value}`)
+      .join(' / ') || (entry.color ? `Colour: ${entry.color}` : ''),
+    sku: entry.sku,
+  }));
+}
+
+/**
+ * The variables every order message can use. Items come from the order's products unless the
+ * caller has better ones (e.g. `order_items` records); `extra` adds or overrides values.
+ */
+export function buildOrderContext(
+  order: Order,
+  store: TemplateStore,
+  options: { items?: TemplateLineItem[]; extra?: TemplateScope } = {}
+): OrderTemplateContext {
+  const currency = store.currency || 'INR';
+  const items = options.items || orderLineItems(order);
+  const customerName = order.customer_name || '';
+
+  return {
+    storeName: store.storeName,
+    currency,
+    customerName,
+    firstName: customerName.split(' ')[0] || '',
+    phone: order.customer_phone || '',
+    email: order.customer_email || '',
+    address: order.shipping_address_text || '',
+    orderId: order.id || '',
+    orderDate: new Date(order.created || Date.now()),
+    status: order.status || '',
+    paymentStatus: order.payment_status || '',
+    amount: order.total ?? order.totalAmount ?? 0,
+    subtotal: order.subtotal ?? 0,
+    discount: order.discount_amount ?? 0,
+    couponCode: order.coupon_code || '',
+    trackingLink: order.tracking_link || '',
+    carrier: order.shipping_carrier || '',
+    refundAmount: order.refund_amount ?? 0,
+    items,
+    itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+    productDetails: items
+      .map(item => `${item.quantity}x ${item.name} - ${formatMoney(item.price, currency)}`)
+      .join('\n'),
+    today: new Date(),
+    ...options.extra,
+  };
+}
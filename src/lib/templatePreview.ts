@@ -0,0 +1,52 @@
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { buildOrderContext, renderTemplate, TemplateScope } from '@/lib/templateEngine';
+import { Order } from '@/types/schema';
+
+// A run of rendered text, or a {{placeholder}} with no value for the chosen order
+export interface PreviewSegment {
+  text: string;
+  placeholder?: string;
+  unresolved?: boolean;
+}
+
+export interface PreviewOrderOption {
+  id: string;
+  customer_name: string;
+  total: number;
+  created: string;
+}
+
+// Stands in for an unknown variable in the rendered text; no template typed into a form contains it
+const UNKNOWN_MARK = '\u0000';
+
+// The template variables for an order, as renderTemplate gets them when the message is sent
+export function previewContext(order: Order, settings: { store_name: string; currency: string }): TemplateScope {
+  const context = buildOrderContext(order, { storeName: settings.store_name, currency: settings.currency });
+  // An empty field sends an empty string, which is as broken as a missing variable
+  return Object.fromEntries(Object.entries(context).filter(([, value]) => value !== ''));
+}
+
+// The rendered template, with unknown variables split out so they can be marked. Throws on syntax errors.
+export function renderPreviewSegments(content: string, context: TemplateScope): PreviewSegment[] {
+  const rendered = renderTemplate(content, context, { onUnknown: name => `${UNKNOWN_MARK}${name}${UNKNOWN_MARK}` });
+  return rendered
+    .split(UNKNOWN_MARK)
+    .map((text, index): PreviewSegment => (index % 2 === 1
+      ? { text: `{{${text}}}`, placeholder: text, unresolved: true }
+      : { text }))
+    .filter(segment => segment.text !== '');
+}
+
+export function unresolvedPlaceholders(segments: PreviewSegment[]): string[] {
+  return [...new Set(segments.filter(segment => segment.unresolved).map(segment => segment.placeholder!))];
+}
+
+// Recent orders to preview templates against
+export async function fetchPreviewOrders(): Promise<PreviewOrderOption[]> {
+  await ensureAdminAuth();
+  const result = await pb.collection('orders').getList(1, 50, {
+    sort: '-created',
+    fields: 'id,customer_name,total,created',
+  });
+  return result.items as unknown as PreviewOrderOption[];
+}
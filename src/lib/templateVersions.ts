@@ -0,0 +1,157 @@
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { EmailBlock, TemplateChannel, TemplateVersion } from '@/types/schema';
+
+// The parts of a template that are versioned
+export interface VersionedTemplate {
+  id: string;
+  name: string;
+  content: string;
+  subject?: string;
+  blocks?: EmailBlock[] | null;
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+  // Line numbers in the old and new text
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+// One row of a side-by-side diff; either side is missing where a line was added or removed
+export interface DiffRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Author of the snapshot taken of a template's text from before versioning existed
+const BASELINE_AUTHOR = 'Before version history';
+
+/**
+ * Line diff of two texts, from their longest common subsequence of lines.
+ * Templates are a few dozen lines, so the quadratic table is fine.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+  const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i], oldNumber: i + 1, newNumber: j + 1 });
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || common[i][j + 1] > common[i + 1][j])) {
+      lines.push({ type: 'added', text: b[j], newNumber: j + 1 });
+      j++;
+    } else {
+      lines.push({ type: 'removed', text: a[i], oldNumber: i + 1 });
+      i++;
+    }
+  }
+  return lines;
+}
+
+// Pair each run of removed lines with the added lines that replaced it
+export function sideBySide(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === 'same') {
+      rows.push({ left: lines[index], right: lines[index] });
+      index++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type !== 'same') {
+      (lines[index].type === 'removed' ? removed : added).push(lines[index]);
+      index++;
+    }
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      rows.push({ left: removed[row], right: added[row] });
+    }
+  }
+  return rows;
+}
+
+export function summarizeChange(before: { content: string; subject?: string } | null, after: { content: string; subject?: string }): string {
+  if (!before) return 'First version';
+  const lines = diffLines(before.content, after.content);
+  const added = lines.filter(line => line.type === 'added').length;
+  const removed = lines.filter(line => line.type === 'removed').length;
+  const parts: string[] = [];
+  if (added || removed) parts.push(`+${added} −${removed} lines`);
+  if ((before.subject || '') !== (after.subject || '')) parts.push('subject changed');
+  return parts.join(', ') || 'No text changes';
+}
+
+const isUnchanged = (version: { content: string; subject?: string }, template: VersionedTemplate) =>
+  version.content === template.content && (version.subject || '') === (template.subject || '');
+
+export async function fetchTemplateVersions(channel: TemplateChannel, templateId: string): Promise<TemplateVersion[]> {
+  await ensureAdminAuth();
+  const records = await pb.collection('template_versions').getFullList({
+    filter: pb.filter('channel = {:channel} && template_id = {:templateId}', { channel, templateId }),
+    sort: '-version',
+  });
+  return records as unknown as TemplateVersion[];
+}
+
+/**
+ * Snapshot a template after a save. Templates saved before versioning existed first get a
+ * snapshot of their old text, so the very first edit can be rolled back too. Saves that don't
+ * touch the content or subject (toggling "Active", say) add no version.
+ */
+export async function recordTemplateVersion(
+  channel: TemplateChannel,
+  saved: VersionedTemplate,
+  previous: VersionedTemplate | null,
+  author: { id?: string; name: string } | null,
+  restoredFrom?: number
+): Promise<TemplateVersion | null> {
+  await ensureAdminAuth();
+  const result = await pb.collection('template_versions').getList(1, 1, {
+    filter: pb.filter('channel = {:channel} && template_id = {:id}', { channel, id: saved.id }),
+    sort: '-version',
+  });
+  let latest = (result.items[0] as unknown as TemplateVersion) || null;
+
+  if (!latest && previous) {
+    latest = await pb.collection('template_versions').create({
+      channel,
+      template_id: saved.id,
+      template_name: previous.name,
+      version: 1,
+      subject: previous.subject || '',
+      content: previous.content,
+      blocks: previous.blocks || null,
+      author: BASELINE_AUTHOR,
+      summary: 'First version',
+    }) as unknown as TemplateVersion;
+  }
+
+  if (latest && isUnchanged(latest, saved)) return null;
+
+  return await pb.collection('template_versions').create({
+    channel,
+    template_id: saved.id,
+    template_name: saved.name,
+    version: (latest?.version || 0) + 1,
+    subject: saved.subject || '',
+    content: saved.content,
+    blocks: saved.blocks || null,
+    author: author?.name || 'System',
+    author_id: author?.id || '',
+    summary: restoredFrom ? `Restored version ${restoredFrom}` : summarizeChange(latest, saved),
+    restored_from: restoredFrom || null,
+  }) as unknown as TemplateVersion;
+}
@@ -43,6 +43,7 @@ export type OrderStatus =
   | 'pending' 
   | 'processing' 
   | 'shipped' 
+  | 'out_for_delivery' 
   | 'delivered' 
   | 'cancelled';
 
@@ -50,7 +51,8 @@ export type PaymentStatus =
   | 'pending' 
   | 'paid' 
   | 'failed' 
-  | 'refunded';
+  | 'refunded'
+  | 'partially_refunded';
 
 export interface Order {
   id: string;
@@ -15,3 +15,15 @@ export function formatDate(dateString: string): string {
     minute: '2-digit',
   }).format(date);
 }
+
+export function formatCurrency(amount: number, currency: string = 'INR'): string {
+  try {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency,
+    }).format(amount);
+  } catch {
+    // Unknown currency code saved in settings
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
@@ -1,46 +1,43 @@
 import axios, { AxiosResponse } from 'axios';
 import { Order, OrderItem, Product, User } from '@/types/schema';
-import { 
-  checkWhatsAppStatus as checkWhatsAppStatusDirect, 
-  sendWhatsAppMessage as sendWhatsAppMessageDirect, 
-  sendWhatsAppTemplate as sendWhatsAppTemplateDirect 
-} from './whatsapp-client';
-import { createCorsProxyUrl, isProduction } from './cors-proxy';
+import {
+  checkWhatsAppStatus,
+  EnqueueOptions,
+  queueTemplateMessage,
+  queueWhatsAppMessage
+} from './messageQueue';
+import { getStoreSettings } from '@/lib/storeSettings';
+import {
+  buildOrderContext,
+  renderTemplate,
+  TemplateLineItem,
+  TemplateScope,
+  toLineItem
+} from '@/lib/templateEngine';
+import { refundConfirmationKey, WhatsAppTemplate, WHATSAPP_MESSAGES } from '@/lib/orderMessages';
 
-/**
- * Gets the WhatsApp API URL from environment or direct API URL
- * @returns The URL to use for WhatsApp API calls
- */
-export function getWhatsAppApiUrl(): string {
-  // Get the API URL from the environment variables
-  const envUrl = typeof import.meta !== 'undefined' && import.meta.env && import.meta.env.VITE_WHATSAPP_API_URL;
-  
-  // Default WhatsApp API URL if environment variable is not set
-  const defaultApiUrl = 'https://backend-whatsappapi.7za6uc.easypanel.host';
-  
-  const baseUrl = envUrl || defaultApiUrl;
-  
-  // Always return the base URL as we'll use createCorsProxyUrl when making requests
-  return baseUrl;
-}
-
-/**
- * Creates a CORS-friendly URL for a WhatsApp API endpoint
- * @param endpoint The API endpoint (e.g., /status)
- * @returns The full URL with CORS handling
- */
-export function getWhatsAppApiEndpoint(endpoint: string): string {
-  return createCorsProxyUrl(getWhatsAppApiUrl(), endpoint);
-}
+// The message catalogue is shared with the Node server
+export { WhatsAppTemplate, WHATSAPP_MESSAGES };
 
 // Interface for WhatsApp message activity logging
 export interface WhatsAppActivity {
   order_id: string;
   template_name: string;
   recipient: string;
-  status: 'sent' | 'failed';
+  status: 'queued' | 'sent' | 'delivered' | 'read' | 'failed' | 'cancelled';
   message_content: string;
   timestamp: string;
+  // Set when the message went through the outbound queue
+  queue_id?: string;
+  error_message?: string;
+  // The WhatsApp API's id for the message, matched against its status callbacks
+  provider_message_id?: string;
+  delivered_at?: string;
+  read_at?: string;
+  // Set for messages sent by a broadcast campaign
+  campaign_id?: string;
+  // When the recipient replied to this message
+  replied_at?: string;
 }
 
 // Interface for WhatsApp API responses
@@ -53,27 +50,43 @@ export interface WhatsAppApiResponse {
   [key: string]: unknown;
 }
 
-// Template names based on the WhatsApp setup document
-export enum WhatsAppTemplate {
-  ABANDONED_CART = 'abandoned_cart_reminder',
-  ORDER_CONFIRMATION = 'order_confirmation',
-  PAYMENT_SUCCESS = 'payment_success',
-  PAYMENT_FAILED = 'payment_failed',
-  ORDER_SHIPPED = 'order_shipped',
-  OUT_FOR_DELIVERY = 'out_for_delivery',
-  ORDER_DELIVERED = 'order_delivered',
-  REQUEST_REVIEW = 'request_review',
-  REFUND_CONFIRMATION = 'refund_confirmation',
-  REORDER_REMINDER = 'reorder_reminder'
+/**
+ * Fill one of WHATSAPP_MESSAGES for an order. Throws TemplateRenderError if it
+ * uses a variable that neither the order nor `extra` provides.
+ * @param templateName - Which message to render
+ * @param order - The order the message is about
+ * @param extra - Values the order doesn't have, e.g. a review link
+ * @param items - Line items, when the caller has fresher ones than the order's products
+ */
+export async function renderOrderMessage(
+  templateName: WhatsAppTemplate,
+  order: Order,
+  extra: TemplateScope = {},
+  items?: TemplateLineItem[]
+): Promise<string> {
+  const template = WHATSAPP_MESSAGES[templateName];
+  if (!template) {
+    throw new Error(`No built-in message for template "${templateName}"`);
+  }
+  const settings = await getStoreSettings();
+  const context = buildOrderContext(order, { storeName: settings.store_name, currency: settings.currency }, { items, extra });
+  return renderTemplate(template, context);
 }
 
 /**
- * Check WhatsApp API status - using direct client
+ * Check WhatsApp API status through the server
  */
-export const checkStatus = checkWhatsAppStatusDirect;
+export async function checkStatus(): Promise<WhatsAppApiResponse> {
+  const result = await checkWhatsAppStatus();
+  return {
+    success: result.connected,
+    message: result.message || '',
+    status: result.status
+  };
+}
 
 /**
- * Send a WhatsApp text message - using direct client
+ * Send a WhatsApp text message
  * @param to - Recipient phone number
  * @param message - Message content
  * @param variables - Optional variables for template messages
@@ -81,9 +94,10 @@ export const checkStatus = checkWhatsAppStatusDirect;
 export async function sendWhatsAppTextMessage(
   to: string,
   message: string,
-  variables?: Record<string, string>
+  variables?: Record<string, string>,
+  options?: EnqueueOptions
 ): Promise<WhatsAppApiResponse> {
-  return sendWhatsAppMessageDirect(to, message, variables);
+  return sendWhatsAppMessage(to, message, variables, options);
 }
 
 /**
@@ -138,7 +152,8 @@ export async function sendWhatsAppImageMessage(
   to: string,
   imageUrl: string,
   caption?: string,
-  variables?: Record<string, string>
+  variables?: Record<string, string>,
+  options?: EnqueueOptions
 ): Promise<WhatsAppApiResponse> {
   try {
     // Format the phone number
@@ -198,61 +213,15 @@ export async function sendWhatsAppImageMessage(
     console.log('Original image URL:', imageUrl);
     console.log('Validated image URL type:', validatedImageUrl.startsWith('data:') ? 'data:URL (base64)' : validatedImageUrl);
     
-    // Prepare the request data with proper typing
-    const data: {
-      number: string;
-      imageUrl: string;
-      caption?: string;
-      variables?: Record<string, string>;
-    } = {
-      number: formattedPhone,
-      imageUrl: validatedImageUrl
-    };
-    
-    // Add caption if provided
-    if (caption) {
-      data.caption = caption;
-    }
-    
-    // Add variables if provided
-    if (variables) {
-      data.variables = variables;
-    }
-    
-    // Make the API request through the proxy configured in vite.config.js
-    console.log('Sending WhatsApp image message to:', formattedPhone);
-    console.log('Request data:', JSON.stringify({
-      ...data,
-      imageUrl: data.imageUrl.startsWith('data:') ? '[BASE64_DATA_URL]' : data.imageUrl
-    }, null, 2));
-    
-    try {
-      // Use CORS proxy endpoint
-      const endpoint = getWhatsAppApiEndpoint('/send-image-url');
-      console.log('Sending to endpoint:', endpoint);
-      
-      const response = await axios.post(endpoint, data, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        },
-        timeout: 10000
-      });
-      
-      console.log('WhatsApp API response:', response.data);
-      
-      // Return a standardized response
-      return {
-        success: true,
-        message: 'Image message sent',
-        messageId: response.data.messageId || response.data.id,
-        status: response.data.status || 'sent',
-        timestamp: response.data.timestamp || new Date().toISOString()
-      };
-    } catch (apiError) {
-      console.error('WhatsApp API error response:', apiError.response?.data || apiError.message);
-      throw apiError;
-    }
+    // Hand the message to the server, which queues it and sends it with retries
+    console.log('Queueing WhatsApp image message to:', formattedPhone);
+    return await queueWhatsAppMessage({
+      kind: 'image',
+      to: formattedPhone,
+      mediaUrl: validatedImageUrl,
+      caption,
+      variables
+    }, options);
   } catch (error) {
     console.error('Error sending WhatsApp image message:', error);
     
@@ -296,7 +265,8 @@ export async function sendWhatsAppVideoMessage(
   to: string,
   videoUrl: string,
   caption?: string,
-  variables?: Record<string, string>
+  variables?: Record<string, string>,
+  options?: EnqueueOptions
 ): Promise<WhatsAppApiResponse> {
   try {
     // Format the phone number
@@ -325,40 +295,15 @@ export async function sendWhatsAppVideoMessage(
     console.log('Original video URL:', videoUrl);
     console.log('Validated video URL:', validatedVideoUrl);
     
-    // Prepare the request data with proper typing
-    const data: {
-      number: string;
-      videoUrl: string;
-      caption?: string;
-      variables?: Record<string, string>;
-    } = {
-      number: formattedPhone,
-      videoUrl: validatedVideoUrl
-    };
-    
-    // Add caption if provided
-    if (caption) {
-      data.caption = caption;
-    }
-    
-    // Add variables if provided
-    if (variables) {
-      data.variables = variables;
-    }
-    
-    // Make the API request through the proxy configured in vite.config.js
-    console.log('Sending WhatsApp video message to:', formattedPhone);
-    const response = await axios.post(`${getWhatsAppApiUrl()}/send-video-url`, data);
-    console.log('WhatsApp API response:', response.data);
-    
-    // Return a standardized response
-    return {
-      success: true,
-      message: 'Video message sent',
-      messageId: response.data.messageId || response.data.id,
-      status: response.data.status || 'sent',
-      timestamp: response.data.timestamp || new Date().toISOString()
-    };
+    // Hand the message to the server, which queues it and sends it with retries
+    console.log('Queueing WhatsApp video message to:', formattedPhone);
+    return await queueWhatsAppMessage({
+      kind: 'video',
+      to: formattedPhone,
+      mediaUrl: validatedVideoUrl,
+      caption,
+      variables
+    }, options);
   } catch (error) {
     console.error('Error sending WhatsApp video message:', error);
     
@@ -391,7 +336,8 @@ export async function sendWhatsAppDocumentMessage(
   documentUrl: string,
   filename: string,
   caption?: string,
-  variables?: Record<string, string>
+  variables?: Record<string, string>,
+  options?: EnqueueOptions
 ): Promise<WhatsAppApiResponse> {
   try {
     // Format the phone number
@@ -424,42 +370,16 @@ export async function sendWhatsAppDocumentMessage(
     console.log('Original document URL:', documentUrl);
     console.log('Validated document URL:', validatedDocumentUrl);
     
-    // Prepare the request data with proper typing
-    const data: {
-      number: string;
-      documentUrl: string;
-      filename: string;
-      caption?: string;
-      variables?: Record<string, string>;
-    } = {
-      number: formattedPhone,
-      documentUrl: validatedDocumentUrl,
-      filename: filename
-    };
-    
-    // Add caption if provided
-    if (caption) {
-      data.caption = caption;
-    }
-    
-    // Add variables if provided
-    if (variables) {
-      data.variables = variables;
-    }
-    
-    // Make the API request through the proxy configured in vite.config.js
-    console.log('Sending WhatsApp document message to:', formattedPhone);
-    const response = await axios.post(`${getWhatsAppApiUrl()}/send-document-url`, data);
-    console.log('WhatsApp API response:', response.data);
-    
-    // Return a standardized response
-    return {
-      success: true,
-      message: 'Document message sent',
-      messageId: response.data.messageId || response.data.id,
-      status: response.data.status || 'sent',
-      timestamp: response.data.timestamp || new Date().toISOString()
-    };
+    // Hand the message to the server, which queues it and sends it with retries
+    console.log('Queueing WhatsApp document message to:', formattedPhone);
+    return await queueWhatsAppMessage({
+      kind: 'document',
+      to: formattedPhone,
+      mediaUrl: validatedDocumentUrl,
+      filename,
+      caption,
+      variables
+    }, options);
   } catch (error) {
     console.error('Error sending WhatsApp document message:', error);
     
@@ -488,50 +408,21 @@ export async function sendWhatsAppDocumentMessage(
 export async function sendWhatsAppMessage(
   to: string,
   message: string,
-  variables?: Record<string, string>
+  variables?: Record<string, string>,
+  options?: EnqueueOptions
 ): Promise<WhatsAppApiResponse> {
   try {
     // Format phone number (ensure it has country code and no special chars)
     const formattedPhone = formatPhoneNumber(to);
     
-    // Prepare the request data
-    const data: {
-      number: string;
-      message: string;
-      variables?: Record<string, string>;
-    } = {
-      number: formattedPhone,
-      message
-    };
-    
-    // Add variables if provided
-    if (variables) {
-      data.variables = variables;
-    }
-    
-    // Use CORS proxy URL
-    const endpoint = getWhatsAppApiEndpoint('/send-message');
-    console.log('Sending WhatsApp message to:', formattedPhone, 'via:', endpoint);
-    
-    // Make the API request through our CORS proxy
-    const response = await axios.post(endpoint, data, {
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      },
-      timeout: 10000
-    });
-    
-    console.log('WhatsApp API response:', response.data);
-    
-    // Return a standardized response
-    return {
-      success: true,
-      message: 'Message sent',
-      messageId: response.data.messageId || response.data.id,
-      status: response.data.status || 'sent',
-      timestamp: response.data.timestamp || new Date().toISOString()
-    };
+    // Hand the message to the server, which queues it and sends it with retries
+    console.log('Queueing WhatsApp message to:', formattedPhone);
+    return await queueWhatsAppMessage({
+      kind: 'text',
+      to: formattedPhone,
+      message,
+      variables
+    }, options);
   } catch (error) {
     console.error('Error sending WhatsApp message:', error);
     
@@ -566,26 +457,22 @@ export async function sendWhatsAppImage(
 ): Promise<WhatsAppApiResponse> {
   try {
     const formattedPhone = formatPhoneNumber(phoneNumber);
-    
-    // Use CORS proxy endpoint
-    const endpoint = getWhatsAppApiEndpoint('/send-image-url');
-    console.log('Sending WhatsApp image via:', endpoint);
-    
-    const response = await axios.post<WhatsAppApiResponse>(endpoint, {
-      number: formattedPhone,
-      imageUrl,
+    const stringVariables = variables
+      ? Object.fromEntries(Object.entries(variables).map(([key, value]) => [key, String(value)]))
+      : undefined;
+    
+    const response = await queueWhatsAppMessage({
+      kind: 'image',
+      to: formattedPhone,
+      mediaUrl: imageUrl,
       caption,
-      variables
-    }, {
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      },
-      timeout: 10000
+      variables: stringVariables
     });
     
-    console.log('WhatsApp image sent successfully:', response.data);
-    return response.data;
+    if (!response.success) {
+      throw new Error(response.message);
+    }
+    return response;
   } catch (error) {
     console.error('Error sending WhatsApp image:', error);
     throw error;
@@ -605,19 +492,18 @@ export async function sendOrderConfirmation(
   to: string
 ): Promise<WhatsAppApiResponse> {
   try {
-    // Format the order items for the message
-    const formattedItems = orderItems
-      .map((item) => `${item.quantity}x ${item.name} - ₹${item.price}`)
-      .join('\n');
-
-    // Calculate the total
-    const total = orderItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
-
-    // Create the message
-    const message = `🎉 *Order Confirmation* 🎉\n\nHi ${order.customer_name},\n\nYour order #${order.id} has been confirmed!\n\n*Order Details:*\n${formattedItems}\n\n*Total: ₹${total}*\n\nThank you for your order! We'll notify you when it ships.`;
+    const message = await renderOrderMessage(
+      WhatsAppTemplate.ORDER_CONFIRMATION,
+      order,
+      {},
+      orderItems.map(toLineItem)
+    );
 
     // Send the message
-    return await sendWhatsAppTextMessage(to, message);
+    return await sendWhatsAppTextMessage(to, message, undefined, {
+      orderId: order.id,
+      templateName: WhatsAppTemplate.ORDER_CONFIRMATION
+    });
   } catch (error) {
     console.error('Error sending order confirmation:', error);
     return {
@@ -638,30 +524,14 @@ export async function sendPaymentSuccess(
 ): Promise<WhatsAppApiResponse> {
   try {
     const formattedPhone = formatPhoneNumber(customerPhone);
-    const orderUrl = `${window.location.origin}/orders/${order.id}`;
-    
-    // Create a message with the actual order data instead of template variables
-    const message = `✅ Payment received for Order #${order.id}, ${order.customer_name}! 💸\n\nWe're now preparing your order for shipping. You'll get updates soon.\n\nTrack it here: ${orderUrl}`;
-    
-    // Send the message without variables
-    const response = await sendWhatsAppMessage(formattedPhone, message);
+    const message = await renderOrderMessage(WhatsAppTemplate.PAYMENT_SUCCESS, order, {
+      orderUrl: `${window.location.origin}/orders/${order.id}`
+    });
     
-    // Log the activity with the actual message sent
-    await logWhatsAppActivity({
-      order_id: order.id,
-      template_name: WhatsAppTemplate.PAYMENT_SUCCESS,
-      recipient: formattedPhone,
-      status: response.success ? 'sent' : 'failed',
-      message_content: JSON.stringify({
-        message: message,
-        response: {
-          success: response.success,
-          message: response.message || '',
-          status: response.success ? 'success' : 'failed',
-          timestamp: new Date().toISOString()
-        }
-      }),
-      timestamp: new Date().toISOString()
+    // The queue logs the activity
+    const response = await sendWhatsAppMessage(formattedPhone, message, undefined, {
+      orderId: order.id,
+      templateName: WhatsAppTemplate.PAYMENT_SUCCESS
     });
     
     return response;
@@ -706,24 +576,12 @@ export async function sendPaymentFailed(
   try {
     const formattedPhone = formatPhoneNumber(customerPhone);
     
-    const message = `⚠️ Hi {{1}}, your payment for Order #{{2}} was unsuccessful.\n\nYou can retry your payment here: {{3}}\n\nLet us know if you need help.`;
-    
-    const variables = {
-      '1': order.customer_name,
-      '2': order.id,
-      '3': retryUrl
-    };
+    const message = await renderOrderMessage(WhatsAppTemplate.PAYMENT_FAILED, order, { retryUrl });
     
-    const response = await sendWhatsAppMessage(formattedPhone, message, variables);
-    
-    // Log the activity
-    await logWhatsAppActivity({
-      order_id: order.id,
-      template_name: WhatsAppTemplate.PAYMENT_FAILED,
-      recipient: formattedPhone,
-      status: 'sent',
-      message_content: JSON.stringify({ message, variables }),
-      timestamp: new Date().toISOString()
+    // The queue logs the activity and keeps one message per order and template
+    const response = await sendWhatsAppMessage(formattedPhone, message, undefined, {
+      orderId: order.id,
+      templateName: WhatsAppTemplate.PAYMENT_FAILED
     });
     
     return response;
@@ -764,25 +622,16 @@ export async function sendOrderShipped(
   try {
     const formattedPhone = formatPhoneNumber(customerPhone);
     
-    const message = `🚚 Great news, {{1}}! Your Konipai order (#{{2}}) is on its way. 🎁\n\n📦 Tracking: {{3}}\nCarrier: {{4}}\n\nThanks again for shopping with us! 💫`;
-    
-    const variables = {
-      '1': order.customer_name,
-      '2': order.id,
-      '3': trackingLink,
-      '4': carrier
-    };
-    
-    const response = await sendWhatsAppMessage(formattedPhone, message, variables);
+    const message = await renderOrderMessage(WhatsAppTemplate.ORDER_SHIPPED, order, {
+      // Fall back to what is saved on the order
+      trackingLink: trackingLink || order.tracking_link || '',
+      carrier: carrier || order.shipping_carrier || ''
+    });
     
-    // Log the activity
-    await logWhatsAppActivity({
-      order_id: order.id,
-      template_name: WhatsAppTemplate.ORDER_SHIPPED,
-      recipient: formattedPhone,
-      status: 'sent',
-      message_content: JSON.stringify({ message, variables }),
-      timestamp: new Date().toISOString()
+    // The queue logs the activity and keeps one message per order and template
+    const response = await sendWhatsAppMessage(formattedPhone, message, undefined, {
+      orderId: order.id,
+      templateName: WhatsAppTemplate.ORDER_SHIPPED
     });
     
     return response;
@@ -819,23 +668,12 @@ export async function sendOutForDelivery(
   try {
     const formattedPhone = formatPhoneNumber(customerPhone);
     
-    const message = `📬 Your Konipai order (#{{1}}) is out for delivery today, {{2}}! 🛵\n\nPlease keep your phone nearby. You'll receive a confirmation once it's delivered.`;
-    
-    const variables = {
-      '1': order.id,
-      '2': order.customer_name
-    };
-    
-    const response = await sendWhatsAppMessage(formattedPhone, message, variables);
+    const message = await renderOrderMessage(WhatsAppTemplate.OUT_FOR_DELIVERY, order);
     
-    // Log the activity
-    await logWhatsAppActivity({
-      order_id: order.id,
-      template_name: WhatsAppTemplate.OUT_FOR_DELIVERY,
-      recipient: formattedPhone,
-      status: 'sent',
-      message_content: JSON.stringify({ message, variables }),
-      timestamp: new Date().toISOString()
+    // The queue logs the activity and keeps one message per order and template
+    const response = await sendWhatsAppMessage(formattedPhone, message, undefined, {
+      orderId: order.id,
+      templateName: WhatsAppTemplate.OUT_FOR_DELIVERY
     });
     
     return response;
@@ -874,24 +712,12 @@ export async function sendOrderDelivered(
   try {
     const formattedPhone = formatPhoneNumber(customerPhone);
     
-    const message = `✅ Yay {{1}}, your Konipai order (#{{2}}) was delivered!\n\nWe hope you love it ❤️ Let us know how your experience was: {{3}}\n\nHappy unboxing! 🎁`;
-    
-    const variables = {
-      '1': order.customer_name,
-      '2': order.id,
-      '3': feedbackLink
-    };
-    
-    const response = await sendWhatsAppMessage(formattedPhone, message, variables);
+    const message = await renderOrderMessage(WhatsAppTemplate.ORDER_DELIVERED, order, { feedbackLink });
     
-    // Log the activity
-    await logWhatsAppActivity({
-      order_id: order.id,
-      template_name: WhatsAppTemplate.ORDER_DELIVERED,
-      recipient: formattedPhone,
-      status: 'sent',
-      message_content: JSON.stringify({ message, variables }),
-      timestamp: new Date().toISOString()
+    // The queue logs the activity and keeps one message per order and template
+    const response = await sendWhatsAppMessage(formattedPhone, message, undefined, {
+      orderId: order.id,
+      templateName: WhatsAppTemplate.ORDER_DELIVERED
     });
     
     return response;
@@ -930,24 +756,12 @@ export async function sendRequestReview(
   try {
     const formattedPhone = formatPhoneNumber(customerPhone);
     
-    const message = `Hi {{1}}, we'd love to hear your thoughts on your recent Konipai order (#{{2}})! 📝\n\nLeave a quick review here: {{3}}\n\nThanks for being part of our journey ❤️`;
-    
-    const variables = {
-      '1': order.customer_name,
-      '2': order.id,
-      '3': reviewLink
-    };
+    const message = await renderOrderMessage(WhatsAppTemplate.REQUEST_REVIEW, order, { reviewLink });
     
-    const response = await sendWhatsAppMessage(formattedPhone, message, variables);
-    
-    // Log the activity
-    await logWhatsAppActivity({
-      order_id: order.id,
-      template_name: WhatsAppTemplate.REQUEST_REVIEW,
-      recipient: formattedPhone,
-      status: 'sent',
-      message_content: JSON.stringify({ message, variables }),
-      timestamp: new Date().toISOString()
+    // The queue logs the activity and keeps one message per order and template
+    const response = await sendWhatsAppMessage(formattedPhone, message, undefined, {
+      orderId: order.id,
+      templateName: WhatsAppTemplate.REQUEST_REVIEW
     });
     
     return response;
@@ -977,33 +791,24 @@ export async function sendRequestReview(
  * @param order - The order object
  * @param customerPhone - Customer's phone number
  * @param refundAmount - Amount refunded
+ * @param refundId - The refund record, so each partial refund is confirmed separately
  */
 export async function sendRefundConfirmation(
   order: Order,
   customerPhone: string,
-  refundAmount: number
+  refundAmount: number,
+  refundId?: string
 ): Promise<WhatsAppApiResponse> {
   try {
     const formattedPhone = formatPhoneNumber(customerPhone);
     
-    const message = `💸 Refund alert, {{1}}!\n\nYour refund for Order #{{2}} has been processed. Amount: ₹{{3}}\nExpected in your account within 5–7 business days.\n\nHave questions? Just reply here.`;
+    const message = await renderOrderMessage(WhatsAppTemplate.REFUND_CONFIRMATION, order, { refundAmount });
     
-    const variables = {
-      '1': order.customer_name,
-      '2': order.id,
-      '3': refundAmount.toString()
-    };
-    
-    const response = await sendWhatsAppMessage(formattedPhone, message, variables);
-    
-    // Log the activity
-    await logWhatsAppActivity({
-      order_id: order.id,
-      template_name: WhatsAppTemplate.REFUND_CONFIRMATION,
-      recipient: formattedPhone,
-      status: 'sent',
-      message_content: JSON.stringify({ message, variables }),
-      timestamp: new Date().toISOString()
+    // The queue logs the activity and keeps one message per refund
+    const response = await sendWhatsAppMessage(formattedPhone, message, undefined, {
+      orderId: order.id,
+      templateName: WhatsAppTemplate.REFUND_CONFIRMATION,
+      idempotencyKey: refundId ? refundConfirmationKey('whatsapp', order.id, refundId) : undefined
     });
     
     return response;
@@ -1044,25 +849,12 @@ export async function sendReorderReminder(
   try {
     const formattedPhone = formatPhoneNumber(customerPhone);
     
-    const message = `Hey {{1}}, ready to restock your favorite items from Konipai? 🛍️\n\nYour last order (#{{2}}) was delivered {{3}} days ago. Here's a quick reorder link: {{4}}\n\nWe're here when you're ready! ❤️`;
-    
-    const variables = {
-      '1': order.customer_name,
-      '2': order.id,
-      '3': daysSinceDelivery.toString(),
-      '4': reorderLink
-    };
-    
-    const response = await sendWhatsAppMessage(formattedPhone, message, variables);
+    const message = await renderOrderMessage(WhatsAppTemplate.REORDER_REMINDER, order, { daysSinceDelivery, reorderLink });
     
-    // Log the activity
-    await logWhatsAppActivity({
-      order_id: order.id,
-      template_name: WhatsAppTemplate.REORDER_REMINDER,
-      recipient: formattedPhone,
-      status: 'sent',
-      message_content: JSON.stringify({ message, variables }),
-      timestamp: new Date().toISOString()
+    // The queue logs the activity and keeps one message per order and template
+    const response = await sendWhatsAppMessage(formattedPhone, message, undefined, {
+      orderId: order.id,
+      templateName: WhatsAppTemplate.REORDER_REMINDER
     });
     
     return response;
@@ -1087,6 +879,65 @@ export async function sendReorderReminder(
   }
 }
 
+/**
+ * Send a saved WhatsApp template (from the whatsapp_templates collection) for an order.
+ * The server fills in the order placeholders and queues the message.
+ * @param order - The order object
+ * @param templateName - Name of the template
+ */
+export async function sendTemplateMessage(
+  order: Order,
+  templateName: string
+): Promise<WhatsAppApiResponse> {
+  return queueTemplateMessage('whatsapp', order.id, templateName);
+}
+
+/**
+ * Upload a generated order document (invoice or packing slip) and send it via WhatsApp
+ * @param order - The order object
+ * @param file - The PDF to send
+ * @param customerPhone - Customer's phone number
+ * @param templateName - Name used for activity logging, e.g. 'invoice'
+ * @param caption - Optional caption shown with the document
+ */
+export async function sendOrderDocument(
+  order: Order,
+  file: File,
+  customerPhone: string,
+  templateName: string,
+  caption?: string
+): Promise<WhatsAppApiResponse> {
+  const formattedPhone = formatPhoneNumber(customerPhone);
+  
+  try {
+    const { url } = await uploadFileToPocketBase(file);
+    // Documents are sent on request, so every upload gets its own queue entry
+    return await sendWhatsAppDocumentMessage(formattedPhone, url, file.name, caption, undefined, {
+      orderId: order.id,
+      templateName,
+      idempotencyKey: `whatsapp:${order.id}:${templateName}:${url}`
+    });
+  } catch (error) {
+    console.error('Error sending order document via WhatsApp:', error);
+    
+    await logWhatsAppActivity({
+      order_id: order.id,
+      template_name: templateName,
+      recipient: formattedPhone,
+      status: 'failed',
+      message_content: JSON.stringify({
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      timestamp: new Date().toISOString()
+    });
+    
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
 /**
  * Log WhatsApp message activity
  * @param activity - WhatsApp activity details
@@ -1183,85 +1034,5 @@ export async function checkWhatsAppConnection(): Promise<{
   status?: string;
   message?: string;
 }> {
-  try {
-    // Make a request to the status endpoint using the CORS proxy
-    const statusUrl = getWhatsAppApiEndpoint('/status');
-    console.log('Checking WhatsApp connection at:', statusUrl);
-    
-    // Add more detailed request options
-    const response = await axios.get(statusUrl, {
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'Cache-Control': 'no-cache'
-      },
-      // Increase timeout for slower connections
-      timeout: 10000
-    });
-    
-    console.log('WhatsApp connection response:', response.data);
-    
-    // Return the connection status
-    return {
-      connected: true,
-      status: response.data.status || 'connected',
-      message: response.data.message || 'WhatsApp API is connected'
-    };
-  } catch (error) {
-    console.error('Primary WhatsApp connection check failed, trying fallback...');
-    
-    try {
-      // Try using our fallback direct endpoint
-      const fallbackUrl = '/whatsapp-status';
-      console.log('Using fallback endpoint:', fallbackUrl);
-      
-      const fallbackResponse = await axios.get(fallbackUrl, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        },
-        timeout: 5000
-      });
-      
-      console.log('Fallback endpoint response:', fallbackResponse.data);
-      
-      if (fallbackResponse.data.success) {
-        return {
-          connected: true,
-          status: fallbackResponse.data.status || 'connected',
-          message: fallbackResponse.data.message || 'WhatsApp API is connected via fallback'
-        };
-      }
-      
-      throw new Error(fallbackResponse.data.message || 'Fallback also failed');
-    } catch (fallbackError) {
-      console.error('Fallback WhatsApp check also failed:', fallbackError);
-      
-      // More detailed error logging for the original error
-      if (axios.isAxiosError(error)) {
-        console.error('Original WhatsApp API connection error:', {
-          message: error.message,
-          status: error.response?.status,
-          statusText: error.response?.statusText,
-          data: error.response?.data,
-          config: {
-            url: error.config?.url,
-            method: error.config?.method,
-            headers: error.config?.headers
-          }
-        });
-      } else {
-        console.error('Unknown WhatsApp connection error:', error);
-      }
-      
-      // Return disconnected status with more informative message
-      return {
-        connected: false,
-        status: 'disconnected',
-        message: axios.isAxiosError(error) 
-          ? `WhatsApp API connection failed: ${error.message}` 
-          : 'Unable to connect to WhatsApp API'
-      };
-    }
-  }
+  return checkWhatsAppStatus();
 }
@@ -1,12 +1,12 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
 import { LockKeyhole, Mail, Loader2 } from 'lucide-react';
-import { authenticateAdmin, pb } from '@/lib/pocketbase';
+import { signIn, AccessDeniedError } from '@/lib/auth';
 import { frontendConfig } from '../../frontend.config';
 
 const LoginPage: React.FC = () => {
@@ -15,37 +15,29 @@ const LoginPage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
+  const location = useLocation();
+  const redirectTo = (location.state as { from?: string } | null)?.from || '/admin';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     
     try {
-      // Try to authenticate with PocketBase admin API
-      await authenticateAdmin(email, password);
+      const user = await signIn(email, password);
       
       toast({
         title: 'Login Successful',
-        description: 'Welcome to Konipai CRM',
+        description: `Welcome to Konipai CRM, ${user.name}`,
       });
-      navigate('/admin');
+      navigate(redirectTo, { replace: true });
     } catch (error) {
       console.error('Login error:', error);
       
-      // Fallback to demo credentials for testing
-      if (email === 'admin@konipai.com' && password === 'admin') {
-        toast({
-          title: 'Demo Login Successful',
-          description: 'Using demo credentials',
-        });
-        navigate('/admin');
-      } else {
-        toast({
-          title: 'Login Failed',
-          description: 'Invalid email or password',
-          variant: 'destructive',
-        });
-      }
+      toast({
+        title: 'Login Failed',
+        description: error instanceof AccessDeniedError ? error.message : 'Invalid email or password',
+        variant: 'destructive',
+      });
     } finally {
       setIsLoading(false);
     }
@@ -141,21 +133,6 @@ const LoginPage: React.FC = () => {
             </form>
           </CardContent>
           
-          <CardFooter className="pt-2 pb-6 border-t border-gray-100 dark:border-gray-800">
-            <div className="w-full text-center">
-              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
-                Demo credentials
-              </p>
-              <div className="flex items-center justify-center gap-4 text-xs">
-                <div className="px-3 py-1.5 bg-gray-100 dark:bg-gray-800 rounded-md font-mono">
-                  admin@konipai.com
-                </div>
-                <div className="px-3 py-1.5 bg-gray-100 dark:bg-gray-800 rounded-md font-mono">
-                  admin
-                </div>
-              </div>
-            </div>
-          </CardFooter>
         </Card>
       </div>
     </div>
@@ -0,0 +1,249 @@
+import React, { useMemo, useState } from 'react';
+import { AdminLayout } from '@/components/layout/AdminLayout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Ban, Plus, Send, Trash2 } from 'lucide-react';
+import { CampaignDialog, CampaignDraft } from '@/components/campaigns/CampaignDialog';
+import { DeliveryStatusBadge } from '@/components/orders/DeliveryStatusBadge';
+import { useCampaignActivities, useCampaigns } from '@/hooks/useCampaigns';
+import { useAuth } from '@/hooks/useAuth';
+import { CampaignStats, EMPTY_CAMPAIGN_STATS, campaignProgress } from '@/lib/campaigns';
+import { formatDate } from '@/lib/utils';
+import { Campaign } from '@/types/schema';
+
+const PROGRESS_VARIANTS: Record<string, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  Draft: 'outline',
+  Scheduled: 'secondary',
+  Sending: 'default',
+  Completed: 'secondary',
+  Cancelled: 'destructive',
+};
+
+function CampaignReportDialog({ campaign, onOpenChange }: { campaign: Campaign | null; onOpenChange: (open: boolean) => void }) {
+  const { activities, isLoading } = useCampaignActivities(campaign?.id);
+
+  return (
+    <Dialog open={!!campaign} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{campaign?.name}</DialogTitle>
+          <DialogDescription>
+            {campaign?.template_name} to {campaign?.audience_label}
+            {campaign?.launched_by && ` · scheduled by ${campaign.launched_by}`}
+          </DialogDescription>
+        </DialogHeader>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Recipient</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Updated</TableHead>
+              <TableHead>Replied</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-6">Loading messages...</TableCell>
+              </TableRow>
+            ) : activities.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">No messages queued yet</TableCell>
+              </TableRow>
+            ) : (
+              activities.map(activity => (
+                <TableRow key={activity.id}>
+                  <TableCell>+{activity.recipient}</TableCell>
+                  <TableCell>
+                    <DeliveryStatusBadge status={activity.status} error={activity.error_message} at={activity.read_at || activity.delivered_at} />
+                    {activity.error_message && <div className="text-xs text-destructive">{activity.error_message}</div>}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{formatDate(activity.timestamp)}</TableCell>
+                  <TableCell className="whitespace-nowrap">{activity.replied_at ? formatDate(activity.replied_at) : '—'}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const CampaignsPage = () => {
+  const { campaigns, stats, isLoading, error, createCampaign, deleteCampaign, launch, cancel } = useCampaigns();
+  const { user, can } = useAuth();
+  const canManage = can('campaigns.manage');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [reportCampaign, setReportCampaign] = useState<Campaign | null>(null);
+
+  const totals = useMemo(() => Object.values(stats).reduce<CampaignStats>((sum, current) => ({
+    total: sum.total + current.total,
+    queued: sum.queued + current.queued,
+    sent: sum.sent + current.sent,
+    delivered: sum.delivered + current.delivered,
+    read: sum.read + current.read,
+    failed: sum.failed + current.failed,
+    cancelled: sum.cancelled + current.cancelled,
+    replied: sum.replied + current.replied,
+  }), { ...EMPTY_CAMPAIGN_STATS }), [stats]);
+
+  const handleCreate = async (data: CampaignDraft, launchNow: boolean) => {
+    const campaign = await createCampaign.mutateAsync({ ...data, actor: user?.name || 'System', actor_id: user?.id || '' });
+    if (launchNow) {
+      // A failed launch leaves the campaign as a draft that can be scheduled from the list
+      await launch.mutateAsync(campaign.id).catch(() => undefined);
+    }
+  };
+
+  const handleLaunch = (campaign: Campaign) => {
+    if (!window.confirm(`Schedule "${campaign.name}" for ${formatDate(campaign.send_at)}?`)) return;
+    launch.mutate(campaign.id);
+  };
+
+  const handleCancel = (campaign: Campaign) => {
+    if (!window.confirm(`Cancel "${campaign.name}"? Messages that haven't been sent yet are stopped.`)) return;
+    cancel.mutate(campaign.id);
+  };
+
+  const handleDelete = (campaign: Campaign) => {
+    if (!window.confirm(`Delete the draft "${campaign.name}"?`)) return;
+    deleteCampaign.mutate(campaign.id);
+  };
+
+  const statCards = [
+    { title: 'Sent', value: totals.sent },
+    { title: 'Delivered', value: totals.delivered },
+    { title: 'Read', value: totals.read },
+    { title: 'Waiting to send', value: totals.queued },
+    { title: 'Failed', value: totals.failed },
+    { title: 'Replied', value: totals.replied },
+  ];
+
+  return (
+    <AdminLayout>
+      <div className="flex flex-col gap-4 p-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Campaigns</h1>
+          {canManage && (
+            <Button onClick={() => setDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New campaign
+            </Button>
+          )}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
+          {statCards.map(card => (
+            <Card key={card.title}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{card.value}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Campaign</TableHead>
+                  <TableHead>Audience</TableHead>
+                  <TableHead>Send at</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Sent</TableHead>
+                  <TableHead className="text-right">Read</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead className="text-right">Replied</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-6">Loading campaigns...</TableCell>
+                  </TableRow>
+                ) : error ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-6 text-destructive">Error loading campaigns: {error.message}</TableCell>
+                  </TableRow>
+                ) : campaigns.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-6 text-muted-foreground">No campaigns yet</TableCell>
+                  </TableRow>
+                ) : (
+                  campaigns.map(campaign => {
+                    const campaignStats = stats[campaign.id] || EMPTY_CAMPAIGN_STATS;
+                    const progress = campaignProgress(campaign, campaignStats);
+                    return (
+                      <TableRow key={campaign.id} className="cursor-pointer" onClick={() => setReportCampaign(campaign)}>
+                        <TableCell>
+                          <div className="font-medium">{campaign.name}</div>
+                          <div className="text-xs text-muted-foreground">{campaign.template_name}</div>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {campaign.audience_label}
+                          {campaign.queued_count !== undefined && campaign.status !== 'draft' && (
+                            <div className="text-xs text-muted-foreground">
+                              {campaign.queued_count} queued{campaign.skipped_count ? `, ${campaign.skipped_count} skipped` : ''}{campaign.failed_count ? `, ${campaign.failed_count} failed` : ''}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {formatDate(campaign.send_at)}
+                          <div className="text-xs text-muted-foreground">{campaign.throttle_per_minute}/min</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={PROGRESS_VARIANTS[progress]}>{progress}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{campaignStats.sent}</TableCell>
+                        <TableCell className="text-right">{campaignStats.read}</TableCell>
+                        <TableCell className="text-right">{campaignStats.failed}</TableCell>
+                        <TableCell className="text-right">{campaignStats.replied}</TableCell>
+                        <TableCell onClick={(e) => e.stopPropagation()}>
+                          {canManage && (
+                            <div className="flex justify-end gap-1">
+                              {campaign.status !== 'scheduled' && (
+                                <Button variant="ghost" size="icon" title="Schedule" onClick={() => handleLaunch(campaign)} disabled={launch.isPending}>
+                                  <Send className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {campaign.status === 'scheduled' && progress !== 'Completed' && (
+                                <Button variant="ghost" size="icon" title="Cancel" onClick={() => handleCancel(campaign)} disabled={cancel.isPending}>
+                                  <Ban className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {campaign.status === 'draft' && (
+                                <Button variant="ghost" size="icon" title="Delete" onClick={() => handleDelete(campaign)}>
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {dialogOpen && (
+          <CampaignDialog open={dialogOpen} onOpenChange={setDialogOpen} onSubmit={handleCreate} />
+        )}
+        <CampaignReportDialog campaign={reportCampaign} onOpenChange={(open) => !open && setReportCampaign(null)} />
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default CampaignsPage;
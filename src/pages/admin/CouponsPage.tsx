@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { AdminLayout } from '@/components/layout/AdminLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Pencil, PlusIcon, Search, Trash2 } from 'lucide-react';
+import { CouponDialog } from '@/components/dialogs/CouponDialog';
+import { useCoupons } from '@/hooks/useCoupons';
+import { useAuth } from '@/hooks/useAuth';
+import { describeCouponDiscount, isCouponExpired } from '@/lib/coupons';
+import { Coupon, CreateCouponData } from '@/types/schema';
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+function couponStatus(coupon: Coupon): { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' } {
+  if (!coupon.active) return { label: 'Off', variant: 'secondary' };
+  if (isCouponExpired(coupon)) return { label: 'Expired', variant: 'outline' };
+  if (Number(coupon.max_uses) > 0 && (Number(coupon.used_count) || 0) >= Number(coupon.max_uses)) {
+    return { label: 'Used up', variant: 'outline' };
+  }
+  return { label: 'Active', variant: 'default' };
+}
+
+// Restrictions shown under the code, e.g. "Min ₹500 · 1 per customer · Totes"
+function describeRules(coupon: Coupon): string {
+  return [
+    Number(coupon.min_order_value) > 0 && `Min ${formatAmount(Number(coupon.min_order_value))}`,
+    Number(coupon.max_uses_per_customer) > 0 && `${coupon.max_uses_per_customer} per customer`,
+    (coupon.categories || []).length > 0 && (coupon.categories || []).join(', '),
+    (coupon.product_ids || []).length > 0 && `${coupon.product_ids!.length} products`,
+  ].filter(Boolean).join(' · ');
+}
+
+const CouponsPage = () => {
+  const { coupons, usage, isLoading, error, createCoupon, updateCoupon, deleteCoupon } = useCoupons();
+  const { can } = useAuth();
+  const canEdit = can('coupons.edit');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+
+  if (error) {
+    return <div className="p-4">Error loading coupons: {error.message}</div>;
+  }
+
+  const filteredCoupons = coupons.filter(coupon =>
+    !searchQuery ||
+    coupon.code.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    coupon.description?.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const totals = Object.values(usage).reduce(
+    (sum, entry) => ({
+      orders: sum.orders + entry.orders,
+      discountGiven: sum.discountGiven + entry.discountGiven,
+      revenue: sum.revenue + entry.revenue,
+    }),
+    { orders: 0, discountGiven: 0, revenue: 0 }
+  );
+  const activeCount = coupons.filter(coupon => couponStatus(coupon).label === 'Active').length;
+
+  const openDialog = (coupon: Coupon | null) => {
+    setEditingCoupon(coupon);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = (data: CreateCouponData) =>
+    editingCoupon
+      ? updateCoupon.mutateAsync({ id: editingCoupon.id, data })
+      : createCoupon.mutateAsync(data);
+
+  const handleDelete = (coupon: Coupon) => {
+    const uses = usage[coupon.id]?.orders ?? 0;
+    const warning = uses > 0 ? `\n\n${uses} orders used it; they keep their discount but lose the link to the coupon.` : '';
+    if (!window.confirm(`Delete coupon ${coupon.code}?${warning}`)) return;
+    deleteCoupon.mutate(coupon.id);
+  };
+
+  return (
+    <AdminLayout>
+      <div className="flex flex-col gap-4 p-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Coupons</h1>
+          {canEdit && (
+            <Button onClick={() => openDialog(null)}>
+              <PlusIcon className="mr-2 h-4 w-4" />
+              Add Coupon
+            </Button>
+          )}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Active coupons</CardDescription>
+              <CardTitle className="text-2xl">{activeCount}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Orders with a coupon</CardDescription>
+              <CardTitle className="text-2xl">{totals.orders}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Discount given</CardDescription>
+              <CardTitle className="text-2xl">{formatAmount(totals.discountGiven)}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">
+              on {formatAmount(totals.revenue)} of orders
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="relative max-w-sm">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search coupons..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Discount</TableHead>
+                  <TableHead>Valid until</TableHead>
+                  <TableHead className="text-right">Uses</TableHead>
+                  <TableHead className="text-right">Discount given</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canEdit && <TableHead className="w-[100px]" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-6">Loading coupons...</TableCell>
+                  </TableRow>
+                ) : filteredCoupons.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">No coupons found</TableCell>
+                  </TableRow>
+                ) : (
+                  filteredCoupons.map(coupon => {
+                    const status = couponStatus(coupon);
+                    const stats = usage[coupon.id];
+                    return (
+                      <TableRow key={coupon.id}>
+                        <TableCell>
+                          <div className="font-mono font-medium">{coupon.code}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {[coupon.description, describeRules(coupon)].filter(Boolean).join(' · ')}
+                          </div>
+                        </TableCell>
+                        <TableCell>{describeCouponDiscount(coupon)}</TableCell>
+                        <TableCell>{coupon.valid_until ? new Date(coupon.valid_until).toLocaleDateString('en-IN') : '—'}</TableCell>
+                        <TableCell className="text-right">
+                          {coupon.used_count || 0}{Number(coupon.max_uses) > 0 ? ` / ${coupon.max_uses}` : ''}
+                        </TableCell>
+                        <TableCell className="text-right">{formatAmount(stats?.discountGiven ?? 0)}</TableCell>
+                        <TableCell>
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                        </TableCell>
+                        {canEdit && (
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Button variant="ghost" size="icon" onClick={() => openDialog(coupon)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" onClick={() => handleDelete(coupon)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <CouponDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          coupon={editingCoupon}
+          onSubmit={handleSubmit}
+        />
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default CouponsPage;
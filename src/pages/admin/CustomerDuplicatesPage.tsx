@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AdminLayout } from '@/components/layout/AdminLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, Merge, Undo2 } from 'lucide-react';
+import { MergeCustomersDialog } from '@/components/customers/MergeCustomersDialog';
+import { useCustomerMerges } from '@/hooks/useCustomerMerges';
+import { useAuth } from '@/hooks/useAuth';
+import { DuplicateGroup, describeCandidate } from '@/lib/customerMerge';
+import { formatDate } from '@/lib/utils';
+import { CustomerMerge } from '@/types/schema';
+
+const CustomerDuplicatesPage = () => {
+  const { groups, isLoading, error, merges, merge, undo } = useCustomerMerges();
+  const { can } = useAuth();
+  const canMerge = can('customers.merge');
+  const [mergingGroup, setMergingGroup] = useState<DuplicateGroup | null>(null);
+
+  const handleUndo = (record: CustomerMerge) => {
+    if (!window.confirm(`Undo merging ${record.merged.join(', ')}? Orders, addresses and reviews go back to how they were.`)) return;
+    undo.mutate(record);
+  };
+
+  return (
+    <AdminLayout>
+      <div className="flex flex-col gap-4 p-4">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/admin/customers"><ArrowLeft className="h-4 w-4" /></Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Duplicate customers</h1>
+        </div>
+
+        <Tabs defaultValue="duplicates">
+          <TabsList>
+            <TabsTrigger value="duplicates">Possible duplicates ({groups.length})</TabsTrigger>
+            <TabsTrigger value="history">Merge history</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="duplicates" className="space-y-4">
+            {isLoading ? (
+              <div className="p-4">Looking for duplicates...</div>
+            ) : error ? (
+              <div className="p-4 text-destructive">Error finding duplicates: {error.message}</div>
+            ) : groups.length === 0 ? (
+              <div className="p-4 text-muted-foreground">No likely duplicates found</div>
+            ) : (
+              groups.map(group => (
+                <Card key={group.key}>
+                  <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                    <div>
+                      <CardTitle className="text-base">{group.candidates.length} customers</CardTitle>
+                      <CardDescription>{group.reasons.join(' · ')}</CardDescription>
+                    </div>
+                    {canMerge && (
+                      <Button size="sm" onClick={() => setMergingGroup(group)}>
+                        <Merge className="mr-2 h-4 w-4" />
+                        Merge
+                      </Button>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Name</TableHead>
+                          <TableHead>Email</TableHead>
+                          <TableHead>Phone</TableHead>
+                          <TableHead className="text-right">Orders</TableHead>
+                          <TableHead>Last order</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {group.candidates.map(candidate => (
+                          <TableRow key={candidate.key}>
+                            <TableCell>
+                              {candidate.userId ? (
+                                <Link to={`/admin/customers/${candidate.userId}`} className="hover:underline">
+                                  {candidate.name || 'Unnamed'}
+                                </Link>
+                              ) : (
+                                candidate.name || 'Unnamed'
+                              )}
+                              {!candidate.userId && <Badge variant="outline" className="ml-2">Guest</Badge>}
+                            </TableCell>
+                            <TableCell>{candidate.email}</TableCell>
+                            <TableCell>{candidate.phone}</TableCell>
+                            <TableCell className="text-right">{candidate.orderIds.length}</TableCell>
+                            <TableCell>{candidate.lastOrderDate ? formatDate(candidate.lastOrderDate) : '—'}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="history">
+            <Card>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Merged</TableHead>
+                      <TableHead>Into</TableHead>
+                      <TableHead className="text-right">Records changed</TableHead>
+                      <TableHead>By</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {merges.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">No merges yet</TableCell>
+                      </TableRow>
+                    ) : (
+                      merges.map(record => (
+                        <TableRow key={record.id}>
+                          <TableCell className="whitespace-nowrap">{formatDate(record.created)}</TableCell>
+                          <TableCell className="text-sm">{record.merged.join(', ')}</TableCell>
+                          <TableCell className="text-sm">
+                            {describeCandidate({ key: '', name: record.name, email: record.email, phone: record.phone, orderIds: [] })}
+                          </TableCell>
+                          <TableCell className="text-right">{record.changes.length}</TableCell>
+                          <TableCell className="text-sm">
+                            {record.actor}
+                            {record.status === 'undone' && (
+                              <div className="text-xs text-muted-foreground">
+                                Undone by {record.undone_by}{record.undone_at ? ` on ${formatDate(record.undone_at)}` : ''}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {record.status === 'merged' && canMerge && (
+                              <Button variant="outline" size="sm" onClick={() => handleUndo(record)} disabled={undo.isPending}>
+                                <Undo2 className="mr-2 h-4 w-4" />
+                                Undo
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        <MergeCustomersDialog
+          group={mergingGroup}
+          onOpenChange={(open) => !open && setMergingGroup(null)}
+          onMerge={(candidates, selection) => merge.mutateAsync({ candidates, selection })}
+          isMerging={merge.isPending}
+        />
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default CustomerDuplicatesPage;
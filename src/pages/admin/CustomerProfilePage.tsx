@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { AdminLayout } from '@/components/layout/AdminLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { StarRating } from '@/components/ui/star-rating';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, Mail, MessageSquare, Phone } from 'lucide-react';
+import { ViewOrderDialog } from '@/components/dialogs/ViewOrderDialog';
+import { useCustomerProfile } from '@/hooks/useCustomerProfile';
+import { ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { formatDate } from '@/lib/utils';
+import { Order } from '@/types/schema';
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const formatDay = (date?: string) => (date ? new Date(date).toLocaleDateString('en-IN') : '—');
+
+type TimelineEntry = {
+  id: string;
+  channel: 'WhatsApp' | 'Email';
+  template: string;
+  recipient: string;
+  status: string;
+  content: string;
+  timestamp: string;
+};
+
+const CustomerProfilePage = () => {
+  const { id } = useParams<{ id: string }>();
+  const { profile, isLoading, error } = useCustomerProfile(id);
+  const [viewingOrder, setViewingOrder] = useState<Order | null>(null);
+
+  if (isLoading) {
+    return <AdminLayout><div className="p-4">Loading customer...</div></AdminLayout>;
+  }
+
+  if (error || !profile) {
+    return <AdminLayout><div className="p-4">Error loading customer: {error?.message ?? 'not found'}</div></AdminLayout>;
+  }
+
+  const { user, stats } = profile;
+  const messages: TimelineEntry[] = [
+    ...profile.whatsappActivities.map(activity => ({
+      id: activity.id,
+      channel: 'WhatsApp' as const,
+      template: activity.template_name,
+      recipient: activity.recipient,
+      status: activity.status,
+      content: activity.message_content,
+      timestamp: activity.timestamp || activity.created,
+    })),
+    ...profile.emailActivities.map(activity => ({
+      id: activity.id,
+      channel: 'Email' as const,
+      template: activity.subject || activity.template_name,
+      recipient: activity.recipient,
+      status: activity.status,
+      content: activity.message_content,
+      timestamp: activity.timestamp || activity.created,
+    })),
+  ].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  return (
+    <AdminLayout>
+      <div className="flex flex-col gap-4 p-4">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/admin/customers"><ArrowLeft className="h-4 w-4" /></Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">{user.name || user.email}</h1>
+            <div className="flex flex-wrap gap-x-4 text-sm text-muted-foreground">
+              {profile.emails.map(email => (
+                <span key={email} className="flex items-center gap-1"><Mail className="h-3 w-3" />{email}</span>
+              ))}
+              {profile.phones.map(phone => (
+                <span key={phone} className="flex items-center gap-1"><Phone className="h-3 w-3" />+{phone}</span>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Lifetime value</CardDescription>
+              <CardTitle className="text-2xl">{formatAmount(stats.totalSpend)}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">after refunds</CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Orders</CardDescription>
+              <CardTitle className="text-2xl">{stats.orderCount}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">
+              {profile.orders.length - stats.orderCount} cancelled
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Average order value</CardDescription>
+              <CardTitle className="text-2xl">{formatAmount(stats.averageOrderValue)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>First / last order</CardDescription>
+              <CardTitle className="text-lg">
+                {formatDay(stats.firstOrderDate)} / {formatDay(stats.lastOrderDate)}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <Tabs defaultValue="orders">
+          <TabsList>
+            <TabsTrigger value="orders">Orders ({profile.orders.length})</TabsTrigger>
+            <TabsTrigger value="messages">Messages ({messages.length})</TabsTrigger>
+            <TabsTrigger value="feedback">Feedback & reviews ({profile.feedback.length + profile.reviews.length})</TabsTrigger>
+            <TabsTrigger value="addresses">Addresses ({profile.addresses.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="orders">
+            <Card>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Order</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Placed as</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Payment</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {profile.orders.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">No orders yet</TableCell>
+                      </TableRow>
+                    ) : (
+                      profile.orders.map(order => (
+                        <TableRow key={order.id} className="cursor-pointer" onClick={() => setViewingOrder(order)}>
+                          <TableCell className="font-mono">#{order.id}</TableCell>
+                          <TableCell>{formatDate(order.created)}</TableCell>
+                          <TableCell className="text-sm">
+                            {order.user?.includes(user.id) ? 'Account' : 'Guest'}
+                            <div className="text-xs text-muted-foreground">{order.customer_email || order.customer_phone}</div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={order.status === 'cancelled' ? 'destructive' : 'outline'}>
+                              {ORDER_STATUS_LABELS[order.status] || order.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="capitalize">{order.payment_status.replace('_', ' ')}</TableCell>
+                          <TableCell className="text-right">
+                            {formatAmount(Number(order.total) || 0)}
+                            {Number(order.refund_amount) > 0 && (
+                              <div className="text-xs text-muted-foreground">
+                                {formatAmount(Number(order.refund_amount))} refunded
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="messages">
+            <Card>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Channel</TableHead>
+                      <TableHead>Message</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {messages.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">No messages sent</TableCell>
+                      </TableRow>
+                    ) : (
+                      messages.map(message => (
+                        <TableRow key={`${message.channel}-${message.id}`}>
+                          <TableCell className="whitespace-nowrap">{formatDate(message.timestamp)}</TableCell>
+                          <TableCell>
+                            <span className="flex items-center gap-1">
+                              {message.channel === 'WhatsApp' ? <MessageSquare className="h-4 w-4" /> : <Mail className="h-4 w-4" />}
+                              {message.channel}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">{message.template}</div>
+                            <div className="text-xs text-muted-foreground line-clamp-2">{message.content}</div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={message.status === 'failed' ? 'destructive' : 'outline'}>{message.status}</Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="feedback" className="space-y-4">
+            {profile.reviews.length === 0 && profile.feedback.length === 0 && (
+              <div className="text-center py-6 text-muted-foreground">No feedback or reviews</div>
+            )}
+            {profile.reviews.map(review => (
+              <Card key={review.id}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base">{review.expand?.product?.name || 'Product review'}</CardTitle>
+                    <StarRating value={review.rating} size={16} readOnly />
+                  </div>
+                  <CardDescription>{formatDate(review.created)}</CardDescription>
+                </CardHeader>
+                <CardContent className="text-sm">
+                  {review.title && <div className="font-medium">{review.title}</div>}
+                  {review.content}
+                </CardContent>
+              </Card>
+            ))}
+            {profile.feedback.map(entry => (
+              <Card key={entry.id}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base capitalize">{entry.type}</CardTitle>
+                    <Badge variant="outline">{entry.status}</Badge>
+                  </div>
+                  <CardDescription>{formatDate(entry.created)}</CardDescription>
+                </CardHeader>
+                <CardContent className="text-sm whitespace-pre-wrap">{entry.message}</CardContent>
+              </Card>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="addresses">
+            <div className="grid gap-4 md:grid-cols-2">
+              {profile.addresses.length === 0 && (
+                <div className="text-muted-foreground py-6">No saved addresses</div>
+              )}
+              {profile.addresses.map(address => (
+                <Card key={address.id}>
+                  <CardContent className="pt-6 text-sm">
+                    {address.is_default && <Badge className="mb-2">Default</Badge>}
+                    <div>{address.street}</div>
+                    <div>{[address.city, address.state, address.postal_code].filter(Boolean).join(', ')}</div>
+                    <div>{address.country}</div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <ViewOrderDialog
+          open={!!viewingOrder}
+          onOpenChange={(open) => !open && setViewingOrder(null)}
+          order={viewingOrder}
+        />
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default CustomerProfilePage;
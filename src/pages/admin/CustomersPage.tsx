@@ -1,16 +1,23 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { AdminLayout } from '@/components/layout/AdminLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Search, UserPlus, Pencil, Trash2 } from 'lucide-react';
+import { Search, UserPlus, Pencil, Trash2, Upload, Users } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { useUsers, CreateUserData } from '@/hooks/useUsers';
+import { useUsers, CreateUserData, fetchAllUsers } from '@/hooks/useUsers';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Checkbox } from '@/components/ui/checkbox';
+import { useAuth } from '@/hooks/useAuth';
+import { useQueryClient } from '@tanstack/react-query';
+import { ExportMenu } from '@/components/import-export/ExportMenu';
+import { ImportWizardDialog } from '@/components/import-export/ImportWizardDialog';
+import { customerExportColumns } from '@/lib/exportColumns';
+import { customerImportConfig } from '@/lib/importers';
 
 const userFormSchema = z.object({
   name: z.string().min(2).max(100),
@@ -27,7 +34,10 @@ const userFormSchema = z.object({
 const CustomersPage = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const queryClient = useQueryClient();
   const { users, totalUsers, isLoading, error, createUser, deleteUser } = useUsers();
+  const { can } = useAuth();
 
   const form = useForm<z.infer<typeof userFormSchema>>({
     resolver: zodResolver(userFormSchema),
@@ -75,13 +85,32 @@ const CustomersPage = () => {
                 onChange={(e) => setSearchQuery(e.target.value)}
               />
             </div>
+            <Button variant="outline" asChild>
+              <Link to="/admin/customers/duplicates">
+                <Users className="mr-2 h-4 w-4" />
+                Duplicates
+              </Link>
+            </Button>
+            <ExportMenu
+              fetchRows={() => fetchAllUsers(searchQuery)}
+              columns={customerExportColumns}
+              baseName="customers"
+            />
+            {can('customers.edit') && (
+              <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+                <Upload className="mr-2 h-4 w-4" />
+                Import
+              </Button>
+            )}
             <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-              <DialogTrigger asChild>
-                <Button>
-                  <UserPlus className="mr-2 h-4 w-4" />
-                  Add User
-                </Button>
-              </DialogTrigger>
+              {can('customers.edit') && (
+                <DialogTrigger asChild>
+                  <Button>
+                    <UserPlus className="mr-2 h-4 w-4" />
+                    Add User
+                  </Button>
+                </DialogTrigger>
+              )}
               <DialogContent>
                 <DialogHeader>
                   <DialogTitle>Add New User</DialogTitle>
@@ -186,6 +215,14 @@ const CustomersPage = () => {
           </div>
         </div>
 
+        <ImportWizardDialog
+          open={isImportDialogOpen}
+          onOpenChange={setIsImportDialogOpen}
+          config={customerImportConfig}
+          title="Import customers"
+          onComplete={() => queryClient.invalidateQueries({ queryKey: ['users'] })}
+        />
+
         <Card>
           <CardHeader>
             <CardTitle>User List</CardTitle>
@@ -213,10 +250,16 @@ const CustomersPage = () => {
                   <tbody>
                     {filteredUsers.map((user) => (
                       <tr key={user.id} className="border-b hover:bg-muted/50">
-                        <td className="p-2">{user.name}</td>
+                        <td className="p-2">
+                          <Link to={`/admin/customers/${user.id}`} className="font-medium hover:underline">
+                            {user.name || user.email}
+                          </Link>
+                        </td>
                         <td className="p-2">{user.email}</td>
                         <td className="p-2">
-                          {user.verified ? (
+                          {user.merged_into ? (
+                            <span className="text-muted-foreground">Merged</span>
+                          ) : user.verified ? (
                             <span className="text-green-600">Verified</span>
                           ) : (
                             <span className="text-yellow-600">Pending</span>
@@ -226,17 +269,21 @@ const CustomersPage = () => {
                           {new Date(user.created).toLocaleDateString()}
                         </td>
                         <td className="p-2 text-right space-x-2">
-                          <Button variant="ghost" size="sm">
-                            <Pencil className="h-4 w-4" />
-                          </Button>
-                          <Button 
-                            variant="ghost" 
-                            size="sm"
-                            onClick={() => handleDelete(user.id)}
-                            disabled={deleteUser.isPending}
-                          >
-                            <Trash2 className="h-4 w-4 text-destructive" />
-                          </Button>
+                          {can('customers.edit') && (
+                            <Button variant="ghost" size="sm">
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {can('customers.delete') && (
+                            <Button 
+                              variant="ghost" 
+                              size="sm"
+                              onClick={() => handleDelete(user.id)}
+                              disabled={deleteUser.isPending}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
                         </td>
                       </tr>
                     ))}
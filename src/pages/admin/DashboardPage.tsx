@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { AdminLayout } from '@/components/layout/AdminLayout';
 import { MetricsGrid } from '@/components/dashboard/DashboardMetrics';
+import { LowStockWidget } from '@/components/dashboard/LowStockWidget';
 import { OrdersTable } from '@/components/orders/OrdersTable';
 import { OrderDetailsModal } from '@/components/orders/OrderDetailsModal';
 import { DashboardMetrics, Order, OrderStatus } from '@/lib/types';
@@ -134,6 +135,9 @@ const DashboardPage: React.FC = () => {
           </CardContent>
         </Card>
         
+        {/* Products to reorder */}
+        <LowStockWidget />
+        
         {/* Recent Orders */}
         <div>
           <h2 className="text-xl font-semibold mb-4">Recent Orders</h2>
@@ -8,7 +8,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Mail, Edit, Trash2, Plus, Save, X, CheckCircle2 } from 'lucide-react';
+import { Mail, Edit, Trash2, Plus, Save, X, CheckCircle2, History, Code, LayoutTemplate } from 'lucide-react';
 import { EmailTemplate } from '@/lib/email';
 import { useEmailTemplates, EmailTemplateType } from '@/hooks/useEmailTemplates';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
@@ -17,17 +17,37 @@ import { toast } from 'sonner';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
 import { generateTemplateContent, generateTemplateDescription } from '@/lib/gemini';
+import { useAuth } from '@/hooks/useAuth';
+import { TemplateHistoryDialog } from '@/components/templates/TemplateHistoryDialog';
+import { TemplateOrderPreview } from '@/components/templates/TemplateOrderPreview';
+import { EmailBlockEditor } from '@/components/templates/EmailBlockEditor';
+import { EmailDevicePreview } from '@/components/templates/EmailDevicePreview';
+import { compileEmailBlocks, defaultEmailBlocks } from '@/lib/emailBlocks';
+import { EmailBlock, TemplateVersion } from '@/types/schema';
+
+type TemplateDraft = Pick<EmailTemplateType, 'content'> & { blocks?: EmailBlock[] | null };
+
+const usesBlocks = (template: TemplateDraft) => Array.isArray(template.blocks);
+
+// The HTML the template sends, and the text it is previewed against an order with
+function compiledContent(template: TemplateDraft) {
+  return usesBlocks(template) ? compileEmailBlocks(template.blocks!) : { html: template.content, text: template.content };
+}
 
 export default function EmailTemplatesPage() {
-  const { templates, isLoading, updateTemplate, createTemplate, deleteTemplate } = useEmailTemplates();
+  const { templates, isLoading, updateTemplate, createTemplate, deleteTemplate, restoreVersion } = useEmailTemplates();
+  const { can } = useAuth();
+  const canEditTemplates = can('templates.edit');
   const [searchTerm, setSearchTerm] = useState('');
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [currentTemplate, setCurrentTemplate] = useState<EmailTemplateType | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
   const [newTemplate, setNewTemplate] = useState({
     name: '',
     subject: '',
     content: '',
+    blocks: null as EmailBlock[] | null,
     requiresAdditionalInfo: false,
     additionalInfoLabel: '',
     additionalInfoPlaceholder: '',
@@ -51,6 +71,10 @@ export default function EmailTemplatesPage() {
 
   const handleUpdateTemplate = async () => {
     if (!currentTemplate) return;
+    if (currentTemplate.blocks?.length === 0) {
+      toast.error('Add at least one block');
+      return;
+    }
     
     try {
       await updateTemplate(currentTemplate.id, currentTemplate);
@@ -58,12 +82,12 @@ export default function EmailTemplatesPage() {
       setEditDialogOpen(false);
     } catch (error) {
       console.error('Error updating template:', error);
-      toast.error('Failed to update template');
+      toast.error('Failed to update template: ' + (error as Error).message);
     }
   };
 
   const handleCreateTemplate = async () => {
-    if (!newTemplate.name || !newTemplate.content || !newTemplate.subject) {
+    if (!newTemplate.name || !newTemplate.subject || !(newTemplate.blocks ? newTemplate.blocks.length : newTemplate.content)) {
       toast.error('Name, subject, and content are required');
       return;
     }
@@ -76,6 +100,7 @@ export default function EmailTemplatesPage() {
         name: '',
         subject: '',
         content: '',
+        blocks: null,
         requiresAdditionalInfo: false,
         additionalInfoLabel: '',
         additionalInfoPlaceholder: '',
@@ -84,7 +109,18 @@ export default function EmailTemplatesPage() {
       });
     } catch (error) {
       console.error('Error creating template:', error);
-      toast.error('Failed to create template');
+      toast.error('Failed to create template: ' + (error as Error).message);
+    }
+  };
+
+  const handleRestoreVersion = async (version: TemplateVersion) => {
+    try {
+      await restoreVersion(version);
+      toast.success(`Restored version ${version.version}`);
+    } catch (error) {
+      console.error('Error restoring template version:', error);
+      toast.error('Failed to restore version: ' + (error as Error).message);
+      throw error;
     }
   };
 
@@ -115,6 +151,9 @@ export default function EmailTemplatesPage() {
     { value: '{{orderDate}}', label: 'Order Date', description: 'The date when the order was placed' },
     { value: '{{amount}}', label: 'Order Amount', description: 'The total amount of the order' },
     { value: '{{productDetails}}', label: 'Product Details', description: 'List of products in the order' },
+    { value: '{{#each items}}{{quantity}} x {{name}} - {{total | currency}}\n{{/each}}', label: 'Each Product', description: 'One line per product, formatted as you like' },
+    { value: '{{amount | currency}}', label: 'Order Amount (formatted)', description: 'The order total in the store currency' },
+    { value: '{{storeName}}', label: 'Store Name', description: 'The store name from settings' },
     { value: '{{trackingLink}}', label: 'Tracking Link', description: 'Link to track the shipment' },
     { value: '{{carrier}}', label: 'Shipping Carrier', description: 'Name of the shipping carrier' },
     { value: '{{estimatedDelivery}}', label: 'Estimated Delivery', description: 'Estimated delivery date' },
@@ -127,6 +166,26 @@ export default function EmailTemplatesPage() {
     { value: '{{retryUrl}}', label: 'Payment Retry URL', description: 'Link to retry a failed payment' },
   ];
 
+  // Switching to blocks starts from the default layout; switching back keeps the compiled HTML to edit by hand
+  const toggleBlockEditor = (target: 'edit' | 'new') => {
+    const template = target === 'edit' ? currentTemplate : newTemplate;
+    if (!template) return;
+
+    let patch: TemplateDraft;
+    if (usesBlocks(template)) {
+      patch = { blocks: null, content: compileEmailBlocks(template.blocks!).html };
+    } else {
+      if (template.content.trim() && !window.confirm('Start from a block layout? The current content will be replaced.')) return;
+      patch = { blocks: defaultEmailBlocks(), content: '' };
+    }
+
+    if (target === 'edit' && currentTemplate) {
+      setCurrentTemplate({ ...currentTemplate, ...patch });
+    } else {
+      setNewTemplate({ ...newTemplate, ...patch });
+    }
+  };
+
   // Insert variable at cursor position in textarea
   const insertVariable = (variable: string, target: 'edit' | 'new') => {
     const textarea = document.getElementById(target === 'edit' ? 'edit-content' : 'new-content') as HTMLTextAreaElement;
@@ -219,13 +278,15 @@ export default function EmailTemplatesPage() {
           </div>
           
           <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                New Template
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-2xl">
+            {canEditTemplates && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Template
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Create New Email Template</DialogTitle>
                 <DialogDescription>
@@ -259,44 +320,63 @@ export default function EmailTemplatesPage() {
                 <div className="grid gap-2">
                   <div className="flex justify-between items-center">
                     <Label htmlFor="new-content">Template Content</Label>
-                    <Popover>
-                      <PopoverTrigger asChild>
-                        <Button variant="outline" size="sm">
-                          Insert Variable
-                        </Button>
-                      </PopoverTrigger>
-                      <PopoverContent className="p-0" align="end">
-                        <Command>
-                          <CommandInput placeholder="Search variables..." />
-                          <CommandList>
-                            <CommandEmpty>No variables found.</CommandEmpty>
-                            <CommandGroup>
-                              {variableOptions.map((variable) => (
-                                <CommandItem
-                                  key={variable.value}
-                                  onSelect={() => insertVariable(variable.value, 'new')}
-                                >
-                                  <span className="font-medium">{variable.label}</span>
-                                  <span className="text-xs text-muted-foreground ml-2">
-                                    {variable.value}
-                                  </span>
-                                </CommandItem>
-                              ))}
-                            </CommandGroup>
-                          </CommandList>
-                        </Command>
-                      </PopoverContent>
-                    </Popover>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" type="button" onClick={() => toggleBlockEditor('new')}>
+                        {newTemplate.blocks ? (
+                          <><Code className="mr-2 h-4 w-4" />Edit as HTML</>
+                        ) : (
+                          <><LayoutTemplate className="mr-2 h-4 w-4" />Use block editor</>
+                        )}
+                      </Button>
+                      {!newTemplate.blocks && (
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <Button variant="outline" size="sm">
+                              Insert Variable
+                            </Button>
+                          </PopoverTrigger>
+                          <PopoverContent className="p-0" align="end">
+                            <Command>
+                              <CommandInput placeholder="Search variables..." />
+                              <CommandList>
+                                <CommandEmpty>No variables found.</CommandEmpty>
+                                <CommandGroup>
+                                  {variableOptions.map((variable) => (
+                                    <CommandItem
+                                      key={variable.value}
+                                      onSelect={() => insertVariable(variable.value, 'new')}
+                                    >
+                                      <span className="font-medium">{variable.label}</span>
+                                      <span className="text-xs text-muted-foreground ml-2">
+                                        {variable.value}
+                                      </span>
+                                    </CommandItem>
+                                  ))}
+                                </CommandGroup>
+                              </CommandList>
+                            </Command>
+                          </PopoverContent>
+                        </Popover>
+                      )}
+                    </div>
                   </div>
-                  <Textarea
-                    id="new-content"
-                    value={newTemplate.content}
-                    onChange={(e) => setNewTemplate({ ...newTemplate, content: e.target.value })}
-                    placeholder="Dear {{customerName}},\n\nThank you for your order..."
-                    className="min-h-[200px] font-mono text-sm"
-                  />
+                  {newTemplate.blocks ? (
+                    <EmailBlockEditor blocks={newTemplate.blocks} onChange={(blocks) => setNewTemplate({ ...newTemplate, blocks })} />
+                  ) : (
+                    <Textarea
+                      id="new-content"
+                      value={newTemplate.content}
+                      onChange={(e) => setNewTemplate({ ...newTemplate, content: e.target.value })}
+                      placeholder="Dear {{customerName}},\n\nThank you for your order..."
+                      className="min-h-[200px] font-mono text-sm"
+                    />
+                  )}
                 </div>
                 
+                {!!(newTemplate.blocks?.length || newTemplate.content) && (
+                  <EmailDevicePreview html={compiledContent(newTemplate).html} />
+                )}
+                
                 <div className="grid gap-2">
                   <Label htmlFor="new-description">Description</Label>
                   <Input
@@ -358,7 +438,7 @@ export default function EmailTemplatesPage() {
                 <Button
                   variant="outline"
                   onClick={() => generateTemplate(newTemplate.name, 'new')}
-                  disabled={isGenerating || !newTemplate.name}
+                  disabled={isGenerating || !newTemplate.name || !!newTemplate.blocks}
                 >
                   {isGenerating ? 'Generating...' : 'Generate with AI'}
                 </Button>
@@ -398,17 +478,29 @@ export default function EmailTemplatesPage() {
                       <Button
                         variant="ghost"
                         size="icon"
-                        onClick={() => handleEditTemplate(template)}
+                        title="History"
+                        onClick={() => setHistoryId(template.id)}
                       >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => handleDeleteTemplate(template.id)}
-                      >
-                        <Trash2 className="h-4 w-4" />
+                        <History className="h-4 w-4" />
                       </Button>
+                      {canEditTemplates && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleEditTemplate(template)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDeleteTemplate(template.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
                     </div>
                   </div>
                   <div className="text-sm text-muted-foreground mt-1">
@@ -417,6 +509,9 @@ export default function EmailTemplatesPage() {
                   {!template.isActive && (
                     <div className="text-xs text-amber-600 mt-1">Inactive</div>
                   )}
+                  {!!template.blocks?.length && (
+                    <div className="text-xs text-muted-foreground mt-1">Built with blocks</div>
+                  )}
                 </CardHeader>
                 <CardContent className="pb-2">
                   <Tabs defaultValue="content">
@@ -432,7 +527,7 @@ export default function EmailTemplatesPage() {
                     <TabsContent value="preview">
                       <ScrollArea className="h-[150px] w-full rounded-md border p-2">
                         <div className="text-sm">
-                          {renderTemplatePreview(template.content)}
+                          {renderTemplatePreview(template.text_content || template.content)}
                         </div>
                       </ScrollArea>
                     </TabsContent>
@@ -456,7 +551,7 @@ export default function EmailTemplatesPage() {
       
       {currentTemplate && (
         <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
-          <DialogContent className="sm:max-w-2xl">
+          <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Edit Email Template</DialogTitle>
               <DialogDescription>
@@ -490,44 +585,63 @@ export default function EmailTemplatesPage() {
               <div className="grid gap-2">
                 <div className="flex justify-between items-center">
                   <Label htmlFor="edit-content">Template Content</Label>
-                  <Popover>
-                    <PopoverTrigger asChild>
-                      <Button variant="outline" size="sm">
-                        Insert Variable
-                      </Button>
-                    </PopoverTrigger>
-                    <PopoverContent className="p-0" align="end">
-                      <Command>
-                        <CommandInput placeholder="Search variables..." />
-                        <CommandList>
-                          <CommandEmpty>No variables found.</CommandEmpty>
-                          <CommandGroup>
-                            {variableOptions.map((variable) => (
-                              <CommandItem
-                                key={variable.value}
-                                onSelect={() => insertVariable(variable.value, 'edit')}
-                              >
-                                <span className="font-medium">{variable.label}</span>
-                                <span className="text-xs text-muted-foreground ml-2">
-                                  {variable.value}
-                                </span>
-                              </CommandItem>
-                            ))}
-                          </CommandGroup>
-                        </CommandList>
-                      </Command>
-                    </PopoverContent>
-                  </Popover>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" type="button" onClick={() => toggleBlockEditor('edit')}>
+                      {currentTemplate.blocks ? (
+                        <><Code className="mr-2 h-4 w-4" />Edit as HTML</>
+                      ) : (
+                        <><LayoutTemplate className="mr-2 h-4 w-4" />Use block editor</>
+                      )}
+                    </Button>
+                    {!currentTemplate.blocks && (
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <Button variant="outline" size="sm">
+                            Insert Variable
+                          </Button>
+                        </PopoverTrigger>
+                        <PopoverContent className="p-0" align="end">
+                          <Command>
+                            <CommandInput placeholder="Search variables..." />
+                            <CommandList>
+                              <CommandEmpty>No variables found.</CommandEmpty>
+                              <CommandGroup>
+                                {variableOptions.map((variable) => (
+                                  <CommandItem
+                                    key={variable.value}
+                                    onSelect={() => insertVariable(variable.value, 'edit')}
+                                  >
+                                    <span className="font-medium">{variable.label}</span>
+                                    <span className="text-xs text-muted-foreground ml-2">
+                                      {variable.value}
+                                    </span>
+                                  </CommandItem>
+                                ))}
+                              </CommandGroup>
+                            </CommandList>
+                          </Command>
+                        </PopoverContent>
+                      </Popover>
+                    )}
+                  </div>
                 </div>
-                <Textarea
-                  id="edit-content"
-                  value={currentTemplate.content}
-                  onChange={(e) => setCurrentTemplate({ ...currentTemplate, content: e.target.value })}
-                  placeholder="Dear {{customerName}},\n\nThank you for your order..."
-                  className="min-h-[200px] font-mono text-sm"
-                />
+                {currentTemplate.blocks ? (
+                  <EmailBlockEditor blocks={currentTemplate.blocks} onChange={(blocks) => setCurrentTemplate({ ...currentTemplate, blocks })} />
+                ) : (
+                  <Textarea
+                    id="edit-content"
+                    value={currentTemplate.content}
+                    onChange={(e) => setCurrentTemplate({ ...currentTemplate, content: e.target.value })}
+                    placeholder="Dear {{customerName}},\n\nThank you for your order..."
+                    className="min-h-[200px] font-mono text-sm"
+                  />
+                )}
               </div>
               
+              {!!(currentTemplate.blocks?.length || currentTemplate.content) && (
+                <EmailDevicePreview html={compiledContent(currentTemplate).html} />
+              )}
+              
               <div className="grid gap-2">
                 <Label htmlFor="edit-description">Description</Label>
                 <Input
@@ -579,6 +693,8 @@ export default function EmailTemplatesPage() {
                 />
                 <Label htmlFor="edit-is-active">Active</Label>
               </div>
+
+              <TemplateOrderPreview channel="email" content={compiledContent(currentTemplate).text} subject={currentTemplate.subject} />
               
               {generationError && (
                 <div className="text-red-500 text-sm">{generationError}</div>
@@ -589,7 +705,7 @@ export default function EmailTemplatesPage() {
               <Button
                 variant="outline"
                 onClick={() => generateTemplate(currentTemplate.name, 'edit')}
-                disabled={isGenerating}
+                disabled={isGenerating || !!currentTemplate.blocks}
               >
                 {isGenerating ? 'Generating...' : 'Generate with AI'}
               </Button>
@@ -605,6 +721,13 @@ export default function EmailTemplatesPage() {
           </DialogContent>
         </Dialog>
       )}
+
+      <TemplateHistoryDialog
+        channel="email"
+        template={templates.find(template => template.id === historyId) || null}
+        onOpenChange={(open) => !open && setHistoryId(null)}
+        onRestore={canEditTemplates ? handleRestoreVersion : undefined}
+      />
     </AdminLayout>
   );
 }
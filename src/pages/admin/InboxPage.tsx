@@ -0,0 +1,270 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { AdminLayout } from '@/components/layout/AdminLayout';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { ImageIcon, Loader2, Send } from 'lucide-react';
+import { ViewOrderDialog } from '@/components/dialogs/ViewOrderDialog';
+import { useConversationThread, useInbox } from '@/hooks/useInbox';
+import { useAuth } from '@/hooks/useAuth';
+import { INBOX_REPLY_TEMPLATE } from '@/lib/inbox';
+import { pb, ensureAdminAuth } from '@/lib/pocketbase';
+import { cn, formatDate } from '@/lib/utils';
+import { Order, WhatsAppConversation } from '@/types/schema';
+
+type InboxFilter = 'all' | 'unread' | 'mine';
+
+const UNASSIGNED = 'unassigned';
+
+const conversationTitle = (conversation: WhatsAppConversation) => conversation.customer_name || `+${conversation.phone}`;
+
+const InboxPage = () => {
+  const { conversations, agents, isLoading, error, markRead, assign, reply } = useInbox();
+  const { user, can } = useAuth();
+  const canReply = can('messages.send');
+  const [filter, setFilter] = useState<InboxFilter>('all');
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [text, setText] = useState('');
+  const [imageUrl, setImageUrl] = useState('');
+  const [showImage, setShowImage] = useState(false);
+  const [orderOpen, setOrderOpen] = useState(false);
+  const threadEnd = useRef<HTMLDivElement>(null);
+
+  const visible = useMemo(() => conversations.filter(conversation => {
+    if (filter === 'unread' && conversation.unread_count === 0) return false;
+    if (filter === 'mine' && conversation.assigned_to !== user?.id) return false;
+    if (!search) return true;
+    const query = search.toLowerCase();
+    return conversation.phone.includes(query.replace(/\D/g, '') || query)
+      || (conversation.customer_name || '').toLowerCase().includes(query);
+  }), [conversations, filter, search, user]);
+
+  const selected = conversations.find(conversation => conversation.id === selectedId) || null;
+  const { entries, isLoading: threadLoading } = useConversationThread(selected);
+  // Superusers aren't `users` records, so the signed-in operator is added when missing
+  const assignable = user && !agents.some(agent => agent.id === user.id) ? [...agents, { id: user.id, name: user.name }] : agents;
+  const unreadTotal = conversations.reduce((sum, conversation) => sum + (conversation.unread_count || 0), 0);
+
+  const { data: order } = useQuery<Order>({
+    queryKey: ['orders', 'detail', selected?.order_id],
+    queryFn: async () => {
+      await ensureAdminAuth();
+      return await pb.collection('orders').getOne(selected!.order_id!) as unknown as Order;
+    },
+    enabled: !!selected?.order_id,
+  });
+
+  // Opening a conversation reads it
+  useEffect(() => {
+    if (selected && selected.unread_count > 0 && !markRead.isPending) {
+      markRead.mutate(selected.id);
+    }
+  }, [selected?.id, selected?.unread_count]);
+
+  useEffect(() => {
+    threadEnd.current?.scrollIntoView({ block: 'end' });
+  }, [entries.length, selectedId]);
+
+  const selectConversation = (id: string) => {
+    setSelectedId(id);
+    setText('');
+    setImageUrl('');
+    setShowImage(false);
+  };
+
+  const handleAssign = (value: string) => {
+    if (!selected) return;
+    assign.mutate({ id: selected.id, agent: assignable.find(agent => agent.id === value) || null });
+  };
+
+  const handleSend = async () => {
+    if (!selected || (!text.trim() && !imageUrl.trim())) return;
+    try {
+      await reply.mutateAsync({ conversation: selected, text: text.trim(), imageUrl: imageUrl.trim() || undefined, user });
+      setText('');
+      setImageUrl('');
+      setShowImage(false);
+    } catch (error) {
+      // The mutation has already reported it
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="flex flex-col gap-4 p-4">
+        <div className="flex items-center gap-2">
+          <h1 className="text-2xl font-bold">Inbox</h1>
+          {unreadTotal > 0 && <Badge>{unreadTotal} unread</Badge>}
+        </div>
+
+        <Card className="grid h-[calc(100vh-10rem)] grid-cols-1 overflow-hidden md:grid-cols-[20rem_1fr]">
+          <div className="flex min-h-0 flex-col border-r">
+            <div className="space-y-2 border-b p-3">
+              <Input placeholder="Search name or number" value={search} onChange={(e) => setSearch(e.target.value)} />
+              <Tabs value={filter} onValueChange={(value) => setFilter(value as InboxFilter)}>
+                <TabsList className="w-full">
+                  <TabsTrigger value="all" className="flex-1">All</TabsTrigger>
+                  <TabsTrigger value="unread" className="flex-1">Unread</TabsTrigger>
+                  <TabsTrigger value="mine" className="flex-1">Mine</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+            <ScrollArea className="flex-1">
+              {isLoading ? (
+                <div className="p-4">Loading conversations...</div>
+              ) : error ? (
+                <div className="p-4 text-destructive">Error loading conversations: {error.message}</div>
+              ) : visible.length === 0 ? (
+                <div className="p-4 text-muted-foreground">No conversations</div>
+              ) : (
+                visible.map(conversation => (
+                  <button
+                    key={conversation.id}
+                    type="button"
+                    onClick={() => selectConversation(conversation.id)}
+                    className={cn(
+                      'flex w-full flex-col gap-1 border-b p-3 text-left hover:bg-muted',
+                      conversation.id === selectedId && 'bg-muted'
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={cn('truncate', conversation.unread_count > 0 && 'font-semibold')}>
+                        {conversationTitle(conversation)}
+                      </span>
+                      {conversation.unread_count > 0 && <Badge className="shrink-0">{conversation.unread_count}</Badge>}
+                    </div>
+                    <span className="truncate text-sm text-muted-foreground">
+                      {conversation.last_direction === 'outbound' ? 'You: ' : ''}{conversation.last_message_preview}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {conversation.last_message_at && formatDistanceToNow(new Date(conversation.last_message_at), { addSuffix: true })}
+                      {conversation.assigned_name && ` · ${conversation.assigned_name}`}
+                    </span>
+                  </button>
+                ))
+              )}
+            </ScrollArea>
+          </div>
+
+          {selected ? (
+            <div className="flex min-h-0 flex-col">
+              <div className="flex flex-wrap items-center justify-between gap-2 border-b p-3">
+                <div>
+                  <div className="font-medium">
+                    {selected.user_id ? (
+                      <Link to={`/admin/customers/${selected.user_id}`} className="hover:underline">{conversationTitle(selected)}</Link>
+                    ) : (
+                      conversationTitle(selected)
+                    )}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    +{selected.phone}
+                    {order && (
+                      <>
+                        {' · '}
+                        <button type="button" className="hover:underline" onClick={() => setOrderOpen(true)}>
+                          Latest order #{order.id.slice(0, 8)} ({order.status})
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                <Select value={selected.assigned_to || UNASSIGNED} onValueChange={handleAssign} disabled={!canReply}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                    {assignable.map(agent => (
+                      <SelectItem key={agent.id} value={agent.id}>{agent.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <ScrollArea className="flex-1 p-4">
+                {threadLoading ? (
+                  <div>Loading messages...</div>
+                ) : (
+                  <div className="space-y-3">
+                    {entries.map(entry => (
+                      <div key={entry.id} className={cn('flex', entry.direction === 'outbound' ? 'justify-end' : 'justify-start')}>
+                        <div
+                          className={cn(
+                            'max-w-[75%] rounded-lg px-3 py-2 text-sm',
+                            entry.direction === 'outbound' ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                          )}
+                        >
+                          {entry.templateName && entry.templateName !== INBOX_REPLY_TEMPLATE && (
+                            <div className="mb-1 text-xs opacity-70">{entry.templateName}</div>
+                          )}
+                          {entry.mediaUrl && (
+                            <a href={entry.mediaUrl} target="_blank" rel="noreferrer" className="mb-1 block underline">
+                              View attachment
+                            </a>
+                          )}
+                          <div className="whitespace-pre-wrap">{entry.body}</div>
+                          <div className="mt-1 text-right text-xs opacity-70">
+                            {formatDate(entry.timestamp)}
+                            {entry.direction === 'outbound' && ` · ${entry.status}`}
+                            {entry.sentBy && ` · ${entry.sentBy}`}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                    <div ref={threadEnd} />
+                  </div>
+                )}
+              </ScrollArea>
+
+              {canReply && (
+                <div className="space-y-2 border-t p-3">
+                  {showImage && (
+                    <Input placeholder="Image URL" value={imageUrl} onChange={(e) => setImageUrl(e.target.value)} />
+                  )}
+                  <div className="flex items-end gap-2">
+                    <Button variant="ghost" size="icon" title="Attach image" onClick={() => setShowImage(!showImage)}>
+                      <ImageIcon className="h-4 w-4" />
+                    </Button>
+                    <Textarea
+                      rows={2}
+                      placeholder={showImage ? 'Caption' : 'Type a reply'}
+                      value={text}
+                      onChange={(e) => setText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          handleSend();
+                        }
+                      }}
+                    />
+                    <Button onClick={handleSend} disabled={reply.isPending || (!text.trim() && !imageUrl.trim())}>
+                      {reply.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="hidden items-center justify-center text-muted-foreground md:flex">
+              Select a conversation
+            </div>
+          )}
+        </Card>
+
+        <ViewOrderDialog open={orderOpen} onOpenChange={setOrderOpen} order={order ?? null} />
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default InboxPage;
@@ -1,6 +1,6 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { AdminLayout } from '@/components/layout/AdminLayout';
-import { useOrders } from '@/hooks/useOrders';
+import { useOrders, fetchAllOrders } from '@/hooks/useOrders';
 import { Button } from '@/components/ui/button';
 import { PlusIcon } from 'lucide-react';
 import { CreateOrderDialog } from '@/components/dialogs/CreateOrderDialog';
@@ -9,13 +9,41 @@ import { EditOrderDialog } from '@/components/dialogs/EditOrderDialog';
 import { UpdateOrderData } from '@/types/schema';
 import { Order } from '@/lib/types';
 import { OrdersTable } from '@/components/orders/OrdersTable';
+import { useAuth } from '@/hooks/useAuth';
+import { useOrderListParams } from '@/hooks/useOrderListParams';
+import { CustomPagination } from '@/components/ui/custom-pagination';
+import { OrdersBulkActions } from '@/components/orders/OrdersBulkActions';
+import { useQueryClient } from '@tanstack/react-query';
+import { ExportMenu } from '@/components/import-export/ExportMenu';
+import { orderExportColumns } from '@/lib/exportColumns';
+import { InsufficientStockError, describeShortages } from '@/lib/inventory';
 
 const OrdersPage: React.FC = () => {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
-  const { orders, isLoading, error, createOrder, updateOrder } = useOrders();
+  const { page, perPage, filters, sort, setFilters, setSort, setPage } = useOrderListParams();
+  const {
+    orders,
+    totalItems,
+    totalPages,
+    isLoading,
+    error,
+    createOrder,
+    updateOrder,
+    deleteOrder,
+  } = useOrders({ page, perPage, filters, sort });
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Selection only spans the rows currently on screen
+  useEffect(() => {
+    setSelectedIds([]);
+  }, [page, perPage, filters, sort]);
+
+  const selectedOrders = orders.filter(order => selectedIds.includes(order.id));
 
   const handleViewOrder = (order: Order) => {
     const schemaOrder = {
@@ -84,11 +112,30 @@ const OrdersPage: React.FC = () => {
     }
   };
 
+  const handleDeleteOrder = async (order: Order) => {
+    if (!window.confirm(`Are you sure you want to delete order #${order.id}?`)) return;
+    
+    try {
+      await deleteOrder.mutateAsync(order.id);
+    } catch (error) {
+      console.error('Error deleting order:', error);
+    }
+  };
+
   const handleCreateOrder = async (data: any) => {
     try {
       await createOrder.mutateAsync(data);
     } catch (error) {
-      console.error('Error creating order:', error);
+      if (!(error instanceof InsufficientStockError)) {
+        console.error('Error creating order:', error);
+        return;
+      }
+      if (!window.confirm(`Not enough stock for this order:\n${describeShortages(error.shortages)}\n\nCreate it anyway?`)) {
+        // Keep the dialog open so the order can be changed
+        throw error;
+      }
+      await createOrder.mutateAsync({ ...data, allowInsufficientStock: true })
+        .catch(retryError => console.error('Error creating order:', retryError));
     }
   };
 
@@ -136,21 +183,54 @@ const OrdersPage: React.FC = () => {
     <AdminLayout>
       <div className="flex flex-col gap-4 p-4">
         <div className="flex items-center justify-between">
-          <h1 className="text-2xl font-bold">Orders</h1>
-          <Button onClick={() => setIsCreateDialogOpen(true)}>
-            <PlusIcon className="mr-2 h-4 w-4" />
-            Add Order
-          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Orders</h1>
+            <p className="text-sm text-muted-foreground">{totalItems} orders</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <ExportMenu
+              fetchRows={() => fetchAllOrders(filters, sort)}
+              columns={orderExportColumns}
+              baseName="orders"
+            />
+            {can('orders.create') && (
+              <Button onClick={() => setIsCreateDialogOpen(true)}>
+                <PlusIcon className="mr-2 h-4 w-4" />
+                Add Order
+              </Button>
+            )}
+          </div>
         </div>
 
+        {selectedOrders.length > 0 && (
+          <OrdersBulkActions
+            selectedOrders={selectedOrders}
+            onClearSelection={() => setSelectedIds([])}
+            onComplete={() => queryClient.invalidateQueries({ queryKey: ['orders'] })}
+          />
+        )}
+
         <OrdersTable
           orders={ordersForTable as any}
           isLoading={isLoading}
           onViewOrder={handleViewOrder}
-          onEditOrder={handleEditOrder}
+          onEditOrder={can('orders.edit') ? handleEditOrder : undefined}
+          onDeleteOrder={can('orders.delete') ? handleDeleteOrder : undefined}
           onUpdateStatus={(orderId, status) => {
             handleUpdateOrder(orderId, { status });
           }}
+          filters={filters}
+          onFiltersChange={setFilters}
+          sort={sort}
+          onSortChange={setSort}
+          selectedIds={selectedIds}
+          onSelectionChange={setSelectedIds}
+        />
+
+        <CustomPagination
+          currentPage={page}
+          totalPages={totalPages}
+          onPageChange={setPage}
         />
 
         <CreateOrderDialog
@@ -7,10 +7,14 @@ import { Button } from '@/components/ui/button';
 import { PlusIcon } from 'lucide-react';
 import { useState } from 'react';
 import { CreatePaymentDialog } from '@/components/dialogs/CreatePaymentDialog';
+import { useAuth } from '@/hooks/useAuth';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ReconciliationReport } from '@/components/payments/ReconciliationReport';
 
 const PaymentsPage = () => {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const { razorpayOrders, isLoading, error, createRazorpayOrder } = useRazorpayOrders();
+  const { can } = useAuth();
 
   // Debug the data
   console.log('Payments page - razorpayOrders:', razorpayOrders);
@@ -36,18 +40,31 @@ const PaymentsPage = () => {
       <div className="flex flex-col gap-4 p-4">
         <div className="flex items-center justify-between">
           <h1 className="text-2xl font-bold">Payments</h1>
-          <Button onClick={() => setIsCreateDialogOpen(true)}>
-            <PlusIcon className="mr-2 h-4 w-4" />
-            Add Payment
-          </Button>
+          {can('payments.edit') && (
+            <Button onClick={() => setIsCreateDialogOpen(true)}>
+              <PlusIcon className="mr-2 h-4 w-4" />
+              Add Payment
+            </Button>
+          )}
         </div>
 
-        <DataTable
-          columns={columns}
-          data={tableData}
-          isLoading={isLoading}
-          searchField="razorpay_order_id"
-        />
+        <Tabs defaultValue="payments">
+          <TabsList>
+            <TabsTrigger value="payments">Payments</TabsTrigger>
+            <TabsTrigger value="reconciliation">Reconciliation</TabsTrigger>
+          </TabsList>
+          <TabsContent value="payments">
+            <DataTable
+              columns={columns}
+              data={tableData}
+              isLoading={isLoading}
+              searchField="razorpay_order_id"
+            />
+          </TabsContent>
+          <TabsContent value="reconciliation">
+            <ReconciliationReport />
+          </TabsContent>
+        </Tabs>
 
         <CreatePaymentDialog
           open={isCreateDialogOpen}
@@ -2,18 +2,24 @@ import React from 'react';
 import { AdminLayout } from '@/components/layout/AdminLayout';
 import { DataTable } from '@/components/ui/data-table';
 import { columns } from '@/components/tables/products/columns';
-import { useProducts } from '@/hooks/useProducts';
+import { useProducts, fetchAllProducts } from '@/hooks/useProducts';
 import { Button } from '@/components/ui/button';
-import { PlusIcon, LayoutGrid, LayoutList } from 'lucide-react';
+import { PlusIcon, LayoutGrid, LayoutList, Upload } from 'lucide-react';
 import { useState } from 'react';
 import { CreateProductDialog } from '@/components/dialogs/CreateProductDialog';
 import { ViewProductDialog } from '@/components/dialogs/ViewProductDialog';
 import { EditProductDialog } from '@/components/dialogs/EditProductDialog';
+import { StockAdjustmentDialog } from '@/components/dialogs/StockAdjustmentDialog';
 import { Product } from '@/types/schema';
 import { Input } from '@/components/ui/input';
 import { CustomPagination } from '@/components/ui/custom-pagination';
 import { ProductCardGrid } from '@/components/cards/ProductCardGrid';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useAuth } from '@/hooks/useAuth';
+import { ExportMenu } from '@/components/import-export/ExportMenu';
+import { ImportWizardDialog } from '@/components/import-export/ImportWizardDialog';
+import { productExportColumns } from '@/lib/exportColumns';
+import { productImportConfig } from '@/lib/importers';
 
 type ViewMode = 'table' | 'card';
 
@@ -21,11 +27,15 @@ const ProductsPage = () => {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isStockDialogOpen, setIsStockDialogOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [page, setPage] = useState(1);
   const [viewMode, setViewMode] = useState<ViewMode>('card'); 
   const perPage = 10;
+  const { can } = useAuth();
+  const canEditProducts = can('products.edit');
 
   const { 
     products, 
@@ -52,6 +62,11 @@ const ProductsPage = () => {
     setIsEditDialogOpen(true);
   };
 
+  const handleAdjustStock = (product: Product) => {
+    setSelectedProduct(product);
+    setIsStockDialogOpen(true);
+  };
+
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchTerm(e.target.value);
     setPage(1); // Reset to first page on new search
@@ -76,10 +91,25 @@ const ProductsPage = () => {
       <div className="space-y-4 p-4">
         <div className="flex items-center justify-between">
           <h1 className="text-2xl font-bold tracking-tight">Products</h1>
-          <Button onClick={() => setIsCreateDialogOpen(true)}>
-            <PlusIcon className="mr-2 h-4 w-4" />
-            Add Product
-          </Button>
+          <div className="flex items-center gap-2">
+            <ExportMenu
+              fetchRows={() => fetchAllProducts(searchTerm)}
+              columns={productExportColumns}
+              baseName="products"
+            />
+            {canEditProducts && (
+              <>
+                <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Import
+                </Button>
+                <Button onClick={() => setIsCreateDialogOpen(true)}>
+                  <PlusIcon className="mr-2 h-4 w-4" />
+                  Add Product
+                </Button>
+              </>
+            )}
+          </div>
         </div>
 
         <div className="flex items-center justify-between space-x-2 pb-4">
@@ -102,7 +132,11 @@ const ProductsPage = () => {
 
         {viewMode === 'table' ? (
           <DataTable
-            columns={columns(handleViewProduct, handleEditProduct)}
+            columns={columns(
+              handleViewProduct,
+              canEditProducts ? handleEditProduct : undefined,
+              canEditProducts ? handleAdjustStock : undefined
+            )}
             data={products}
             isLoading={isLoading}
             searchField="name"
@@ -111,7 +145,8 @@ const ProductsPage = () => {
           <ProductCardGrid
             products={products}
             onView={handleViewProduct}
-            onEdit={handleEditProduct}
+            onEdit={canEditProducts ? handleEditProduct : undefined}
+            onAdjustStock={canEditProducts ? handleAdjustStock : undefined}
             isLoading={isLoading}
           />
         )}
@@ -142,6 +177,20 @@ const ProductsPage = () => {
           product={selectedProduct}
           onSubmit={updateProduct.mutateAsync}
         />
+
+        <StockAdjustmentDialog
+          open={isStockDialogOpen}
+          onOpenChange={setIsStockDialogOpen}
+          product={selectedProduct}
+        />
+
+        <ImportWizardDialog
+          open={isImportDialogOpen}
+          onOpenChange={setIsImportDialogOpen}
+          config={productImportConfig}
+          title="Import products"
+          onComplete={() => refetch()}
+        />
       </div>
     </AdminLayout>
   );
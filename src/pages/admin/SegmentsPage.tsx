@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { AdminLayout } from '@/components/layout/AdminLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Edit, Mail, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { SegmentBuilderDialog } from '@/components/segments/SegmentBuilderDialog';
+import { SegmentEmailDialog } from '@/components/segments/SegmentEmailDialog';
+import { useSegments } from '@/hooks/useSegments';
+import { useAuth } from '@/hooks/useAuth';
+import { downloadCsv } from '@/lib/csv';
+import {
+  AudienceMember,
+  RFM_TIER_DESCRIPTIONS,
+  RFM_TIER_LABELS,
+  describeSegmentRules,
+  fetchSegmentAudience,
+} from '@/lib/segments';
+import { formatDate } from '@/lib/utils';
+import { NotificationChannel, RfmTier, Segment, SegmentRules } from '@/types/schema';
+
+const SegmentsPage = () => {
+  const { segments, customers, liveCounts, tierCounts, isLoading, error, createSegment, updateSegment, deleteSegment } = useSegments();
+  const { can } = useAuth();
+  const canEdit = can('customers.edit');
+  const canSend = can('campaigns.manage');
+  const [builderOpen, setBuilderOpen] = useState(false);
+  const [editingSegment, setEditingSegment] = useState<Segment | null>(null);
+  const [initialRules, setInitialRules] = useState<SegmentRules | undefined>();
+  const [emailAudience, setEmailAudience] = useState<{ key: string; name: string; rules: SegmentRules } | null>(null);
+
+  const openBuilder = (segment: Segment | null, rules?: SegmentRules) => {
+    setEditingSegment(segment);
+    setInitialRules(rules);
+    setBuilderOpen(true);
+  };
+
+  const handleDelete = (segment: Segment) => {
+    if (!window.confirm(`Delete the segment "${segment.name}"?`)) return;
+    deleteSegment.mutate(segment.id);
+  };
+
+  const handleExport = async (name: string, rules: SegmentRules, channel: NotificationChannel) => {
+    try {
+      const audience = await fetchSegmentAudience(rules, channel);
+      if (audience.length === 0) {
+        toast.error(`No one in ${name} can be reached by ${channel === 'whatsapp' ? 'WhatsApp' : 'email'}`);
+        return;
+      }
+      downloadCsv<AudienceMember>(audience, [
+        { header: 'Name', value: member => member.name },
+        { header: channel === 'whatsapp' ? 'Phone' : 'Email', value: member => member.contact },
+        { header: 'Orders', value: member => member.customer.orderCount },
+        { header: 'Total spend', value: member => member.customer.totalSpend },
+        { header: 'Last order', value: member => member.customer.lastOrderDate },
+        { header: 'Tier', value: member => RFM_TIER_LABELS[member.customer.tier] },
+      ], `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${channel}.csv`);
+      toast.success(`Exported ${audience.length} contacts`);
+    } catch (error) {
+      console.error('Error exporting segment audience:', error);
+      toast.error('Failed to export audience: ' + (error as Error).message);
+    }
+  };
+
+  const audienceActions = (key: string, name: string, rules: SegmentRules) => (
+    <>
+      {canSend && (
+        <Button variant="ghost" size="icon" title="Send email" onClick={() => setEmailAudience({ key, name, rules })}>
+          <Mail className="h-4 w-4" />
+        </Button>
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" title="Export audience">
+            <Download className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => handleExport(name, rules, 'whatsapp')}>WhatsApp audience</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport(name, rules, 'email')}>Email audience</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+
+  return (
+    <AdminLayout>
+      <div className="flex flex-col gap-4 p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Segments</h1>
+            <p className="text-sm text-muted-foreground">{customers.length} customers with orders</p>
+          </div>
+          {canEdit && (
+            <Button onClick={() => openBuilder(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New segment
+            </Button>
+          )}
+        </div>
+
+        {error && <div className="p-4 text-destructive">Error loading segments: {error.message}</div>}
+
+        <div className="grid gap-4 md:grid-cols-3">
+          {(Object.keys(RFM_TIER_LABELS) as RfmTier[]).map(tier => (
+            <Card key={tier}>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                <div>
+                  <CardTitle className="text-sm font-medium">{RFM_TIER_LABELS[tier]}</CardTitle>
+                  <CardDescription>{RFM_TIER_DESCRIPTIONS[tier]}</CardDescription>
+                </div>
+                <div className="flex">
+                  {audienceActions(tier, RFM_TIER_LABELS[tier], { rfm_tiers: [tier] })}
+                </div>
+              </CardHeader>
+              <CardContent className="flex items-end justify-between">
+                <div className="text-2xl font-bold">{isLoading ? '…' : tierCounts[tier] || 0}</div>
+                {canEdit && (
+                  <Button variant="link" size="sm" className="px-0" onClick={() => openBuilder(null, { rfm_tiers: [tier] })}>
+                    Refine
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Saved segments</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Rules</TableHead>
+                  <TableHead className="text-right">Customers</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-6">Loading segments...</TableCell>
+                  </TableRow>
+                ) : segments.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">No saved segments yet</TableCell>
+                  </TableRow>
+                ) : (
+                  segments.map(segment => (
+                    <TableRow key={segment.id}>
+                      <TableCell>
+                        <div className="font-medium">{segment.name}</div>
+                        {segment.description && <div className="text-xs text-muted-foreground">{segment.description}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm">{describeSegmentRules(segment.rules || {})}</TableCell>
+                      <TableCell className="text-right">{liveCounts[segment.id] ?? segment.customer_count}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDate(segment.updated)}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          {audienceActions(segment.id, segment.name, segment.rules || {})}
+                          {canEdit && (
+                            <>
+                              <Button variant="ghost" size="icon" title="Edit" onClick={() => openBuilder(segment)}>
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" title="Delete" onClick={() => handleDelete(segment)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <SegmentBuilderDialog
+          open={builderOpen}
+          onOpenChange={setBuilderOpen}
+          segment={editingSegment}
+          initialRules={initialRules}
+          customers={customers}
+          onSubmit={(data) => editingSegment
+            ? updateSegment.mutateAsync({ id: editingSegment.id, data })
+            : createSegment.mutateAsync(data)}
+        />
+
+        {emailAudience && (
+          <SegmentEmailDialog
+            open={!!emailAudience}
+            onOpenChange={(open) => !open && setEmailAudience(null)}
+            audienceKey={emailAudience.key}
+            name={emailAudience.name}
+            rules={emailAudience.rules}
+          />
+        )}
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default SegmentsPage;
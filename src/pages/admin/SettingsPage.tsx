@@ -1,5 +1,5 @@
 
-import React from 'react';
+import React, { useEffect } from 'react';
 import { AdminLayout } from '@/components/layout/AdminLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -11,15 +11,25 @@ import { Switch } from '@/components/ui/switch';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
 import * as z from 'zod';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import { useStoreSettings } from '@/hooks/useStoreSettings';
+import { useAuth } from '@/hooks/useAuth';
+import { changePassword } from '@/lib/auth';
+import { StoreSettingsValues } from '@/lib/storeSettings';
+import { CHANNEL_SETTING_LABELS, NOTIFICATION_EVENTS, getChannelSetting } from '@/lib/notifications';
+import { NotificationChannelSetting, NotificationEvent } from '@/types/schema';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { NotificationOptOuts } from '@/components/settings/NotificationOptOuts';
 
 const generalFormSchema = z.object({
-  storeName: z.string().min(2, {
+  store_name: z.string().min(2, {
     message: "Store name must be at least 2 characters.",
   }),
   email: z.string().email({
     message: "Please enter a valid email address.",
   }),
-  supportEmail: z.string().email({
+  support_email: z.string().email({
     message: "Please enter a valid email address.",
   }),
   phone: z.string().min(10, {
@@ -28,18 +38,84 @@ const generalFormSchema = z.object({
   address: z.string().min(5, {
     message: "Address must be at least 5 characters.",
   }),
-  currency: z.string().min(1, {
-    message: "Please select a currency.",
-  }),
+  currency: z.string().length(3, {
+    message: "Use a 3-letter ISO currency code, e.g. INR.",
+  }).transform((value) => value.toUpperCase()),
 });
 
 const notificationFormSchema = z.object({
-  emailNotifications: z.boolean().default(true),
-  orderConfirmations: z.boolean().default(true),
-  stockAlerts: z.boolean().default(true),
-  paymentNotifications: z.boolean().default(true),
+  email_notifications: z.boolean().default(true),
+  whatsapp_notifications: z.boolean().default(true),
+  order_confirmations: z.boolean().default(true),
+  payment_notifications: z.boolean().default(true),
+  shipping_updates: z.boolean().default(true),
+  stock_alerts: z.boolean().default(true),
+});
+
+const channelSettingSchema = z.enum(['whatsapp', 'email', 'both', 'none']);
+const timeSchema = z.string().regex(/^([01][0-9]|2[0-3]):[0-5][0-9]$/, { message: "Use HH:mm, e.g. 21:00." });
+
+const deliveryFormSchema = z.object({
+  notification_channels: z.object(
+    Object.fromEntries(
+      (Object.keys(NOTIFICATION_EVENTS) as NotificationEvent[]).map((event) => [event, channelSettingSchema])
+    ) as Record<NotificationEvent, typeof channelSettingSchema>
+  ),
+  quiet_hours_enabled: z.boolean().default(false),
+  quiet_hours_start: timeSchema,
+  quiet_hours_end: timeSchema,
+  timezone: z.string().min(1, { message: "Time zone is required." }),
+});
+
+const invoicingFormSchema = z.object({
+  gstin: z.string().regex(/^$|^[0-9]{2}[A-Z0-9]{13}$/, {
+    message: "GSTIN must be 15 characters, starting with the state code.",
+  }),
+  state: z.string(),
+  state_code: z.string().regex(/^$|^[0-9]{2}$/, {
+    message: "State code must be 2 digits.",
+  }),
+  invoice_prefix: z.string().min(1, { message: "Invoice prefix is required." }),
+  default_hsn: z.string(),
+  default_gst_rate: z.coerce.number().min(0).max(28),
+  prices_include_tax: z.boolean().default(true),
 });
 
+type NotificationField = keyof z.infer<typeof notificationFormSchema>;
+
+const NOTIFICATION_TOGGLES: { name: NotificationField; label: string; description: string }[] = [
+  {
+    name: 'email_notifications',
+    label: 'Email Notifications',
+    description: 'Send order updates to customers by email.',
+  },
+  {
+    name: 'whatsapp_notifications',
+    label: 'WhatsApp Notifications',
+    description: 'Send order updates to customers on WhatsApp.',
+  },
+  {
+    name: 'order_confirmations',
+    label: 'Order Confirmations',
+    description: 'Confirm new orders to the customer when they are placed.',
+  },
+  {
+    name: 'payment_notifications',
+    label: 'Payment Notifications',
+    description: 'Notify customers when a payment succeeds or fails, or a refund is processed.',
+  },
+  {
+    name: 'shipping_updates',
+    label: 'Shipping Updates',
+    description: 'Notify customers when an order ships, is out for delivery or is delivered.',
+  },
+  {
+    name: 'stock_alerts',
+    label: 'Stock Alerts',
+    description: 'Warn when an order leaves a product at or below its reorder level and list low-stock products on the dashboard.',
+  },
+];
+
 const securityFormSchema = z.object({
   currentPassword: z.string().min(1, { message: "Current password is required" }),
   newPassword: z.string().min(8, { message: "Password must be at least 8 characters" }),
@@ -49,26 +125,60 @@ const securityFormSchema = z.object({
   path: ["confirmPassword"],
 });
 
+const deliveryDefaults = (settings: StoreSettingsValues): z.infer<typeof deliveryFormSchema> => ({
+  notification_channels: Object.fromEntries(
+    (Object.keys(NOTIFICATION_EVENTS) as NotificationEvent[]).map((event) => [event, getChannelSetting(settings, event)])
+  ) as Record<NotificationEvent, NotificationChannelSetting>,
+  quiet_hours_enabled: settings.quiet_hours_enabled,
+  quiet_hours_start: settings.quiet_hours_start,
+  quiet_hours_end: settings.quiet_hours_end,
+  timezone: settings.timezone,
+});
+
 const SettingsPage = () => {
+  const { settings, isLoading, updateSettings } = useStoreSettings();
+  const { can } = useAuth();
+  const canEdit = can('settings.edit');
+
   const generalForm = useForm<z.infer<typeof generalFormSchema>>({
     resolver: zodResolver(generalFormSchema),
     defaultValues: {
-      storeName: "Konipai Coffee Shop",
-      email: "info@konipai.com",
-      supportEmail: "support@konipai.com",
-      phone: "+1234567890",
-      address: "123 Coffee Street, Bean City, 12345",
-      currency: "USD",
+      store_name: settings.store_name,
+      email: settings.email,
+      support_email: settings.support_email,
+      phone: settings.phone,
+      address: settings.address,
+      currency: settings.currency,
     },
   });
 
   const notificationForm = useForm<z.infer<typeof notificationFormSchema>>({
     resolver: zodResolver(notificationFormSchema),
     defaultValues: {
-      emailNotifications: true,
-      orderConfirmations: true,
-      stockAlerts: true,
-      paymentNotifications: true,
+      email_notifications: settings.email_notifications,
+      whatsapp_notifications: settings.whatsapp_notifications,
+      order_confirmations: settings.order_confirmations,
+      payment_notifications: settings.payment_notifications,
+      shipping_updates: settings.shipping_updates,
+      stock_alerts: settings.stock_alerts,
+    },
+  });
+
+  const deliveryForm = useForm<z.infer<typeof deliveryFormSchema>>({
+    resolver: zodResolver(deliveryFormSchema),
+    defaultValues: deliveryDefaults(settings),
+  });
+
+  const invoicingForm = useForm<z.infer<typeof invoicingFormSchema>>({
+    resolver: zodResolver(invoicingFormSchema),
+    defaultValues: {
+      gstin: settings.gstin,
+      state: settings.state,
+      state_code: settings.state_code,
+      invoice_prefix: settings.invoice_prefix,
+      default_hsn: settings.default_hsn,
+      default_gst_rate: settings.default_gst_rate,
+      prices_include_tax: settings.prices_include_tax,
     },
   });
   
@@ -81,21 +191,74 @@ const SettingsPage = () => {
     },
   });
 
+  // Populate the forms once the saved settings have loaded
+  useEffect(() => {
+    if (isLoading) return;
+    generalForm.reset({
+      store_name: settings.store_name,
+      email: settings.email,
+      support_email: settings.support_email,
+      phone: settings.phone,
+      address: settings.address,
+      currency: settings.currency,
+    });
+    notificationForm.reset({
+      email_notifications: settings.email_notifications,
+      whatsapp_notifications: settings.whatsapp_notifications,
+      order_confirmations: settings.order_confirmations,
+      payment_notifications: settings.payment_notifications,
+      shipping_updates: settings.shipping_updates,
+      stock_alerts: settings.stock_alerts,
+    });
+    deliveryForm.reset(deliveryDefaults(settings));
+    invoicingForm.reset({
+      gstin: settings.gstin,
+      state: settings.state,
+      state_code: settings.state_code,
+      invoice_prefix: settings.invoice_prefix,
+      default_hsn: settings.default_hsn,
+      default_gst_rate: settings.default_gst_rate,
+      prices_include_tax: settings.prices_include_tax,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoading, settings]);
+
   const onGeneralSubmit = (data: z.infer<typeof generalFormSchema>) => {
-    console.log("General settings updated:", data);
-    // Here you would update the settings via API
+    updateSettings.mutate(data);
   };
 
   const onNotificationSubmit = (data: z.infer<typeof notificationFormSchema>) => {
-    console.log("Notification settings updated:", data);
-    // Here you would update the settings via API
+    updateSettings.mutate(data);
+  };
+
+  const onDeliverySubmit = (data: z.infer<typeof deliveryFormSchema>) => {
+    updateSettings.mutate(data);
+  };
+
+  const onInvoicingSubmit = (data: z.infer<typeof invoicingFormSchema>) => {
+    updateSettings.mutate({ ...data, gstin: data.gstin.toUpperCase() });
   };
   
-  const onSecuritySubmit = (data: z.infer<typeof securityFormSchema>) => {
-    console.log("Security settings updated:", data);
-    // Here you would update the settings via API
+  const onSecuritySubmit = async (data: z.infer<typeof securityFormSchema>) => {
+    try {
+      await changePassword(data.currentPassword, data.newPassword);
+      securityForm.reset();
+      toast.success('Password updated');
+    } catch (error) {
+      console.error('Error changing password:', error);
+      securityForm.setError('currentPassword', {
+        message: 'Could not update the password. Check your current password and try again.',
+      });
+    }
   };
 
+  const saveButton = (label: string) => (
+    <Button type="submit" disabled={!canEdit || isLoading || updateSettings.isPending}>
+      {updateSettings.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+      {label}
+    </Button>
+  );
+
   return (
     <AdminLayout>
       <div className="space-y-4">
@@ -105,9 +268,10 @@ const SettingsPage = () => {
         </div>
 
         <Tabs defaultValue="general" className="w-full">
-          <TabsList className="grid w-full grid-cols-3 lg:w-[400px]">
+          <TabsList className="grid w-full grid-cols-4 lg:w-[520px]">
             <TabsTrigger value="general">General</TabsTrigger>
             <TabsTrigger value="notifications">Notifications</TabsTrigger>
+            <TabsTrigger value="invoicing">Invoicing</TabsTrigger>
             <TabsTrigger value="security">Security</TabsTrigger>
           </TabsList>
           
@@ -122,7 +286,7 @@ const SettingsPage = () => {
                   <form onSubmit={generalForm.handleSubmit(onGeneralSubmit)} className="space-y-4">
                     <FormField
                       control={generalForm.control}
-                      name="storeName"
+                      name="store_name"
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Store Name</FormLabel>
@@ -151,7 +315,7 @@ const SettingsPage = () => {
                       
                       <FormField
                         control={generalForm.control}
-                        name="supportEmail"
+                        name="support_email"
                         render={({ field }) => (
                           <FormItem>
                             <FormLabel>Support Email</FormLabel>
@@ -186,8 +350,9 @@ const SettingsPage = () => {
                           <FormItem>
                             <FormLabel>Currency</FormLabel>
                             <FormControl>
-                              <Input {...field} />
+                              <Input {...field} maxLength={3} />
                             </FormControl>
+                            <FormDescription>ISO code used for prices and reports, e.g. INR.</FormDescription>
                             <FormMessage />
                           </FormItem>
                         )}
@@ -208,7 +373,7 @@ const SettingsPage = () => {
                       )}
                     />
                     
-                    <Button type="submit">Save Changes</Button>
+                    {saveButton('Save Changes')}
                   </form>
                 </Form>
               </CardContent>
@@ -219,96 +384,277 @@ const SettingsPage = () => {
             <Card>
               <CardHeader>
                 <CardTitle>Notification Settings</CardTitle>
-                <CardDescription>Configure when and how you receive notifications.</CardDescription>
+                <CardDescription>Choose which messages are sent automatically when orders change.</CardDescription>
               </CardHeader>
               <CardContent>
                 <Form {...notificationForm}>
                   <form onSubmit={notificationForm.handleSubmit(onNotificationSubmit)} className="space-y-4">
-                    <FormField
-                      control={notificationForm.control}
-                      name="emailNotifications"
-                      render={({ field }) => (
-                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
-                          <div className="space-y-0.5">
-                            <FormLabel>Email Notifications</FormLabel>
-                            <FormDescription>
-                              Receive email notifications for important events.
-                            </FormDescription>
-                          </div>
-                          <FormControl>
-                            <Switch
-                              checked={field.value}
-                              onCheckedChange={field.onChange}
-                            />
-                          </FormControl>
-                        </FormItem>
-                      )}
-                    />
+                    {NOTIFICATION_TOGGLES.map((toggle) => (
+                      <FormField
+                        key={toggle.name}
+                        control={notificationForm.control}
+                        name={toggle.name}
+                        render={({ field }) => (
+                          <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                            <div className="space-y-0.5">
+                              <FormLabel>{toggle.label}</FormLabel>
+                              <FormDescription>
+                                {toggle.description}
+                              </FormDescription>
+                            </div>
+                            <FormControl>
+                              <Switch
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                                disabled={!canEdit}
+                              />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                    ))}
                     
+                    {saveButton('Save Preferences')}
+                  </form>
+                </Form>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Channels &amp; Quiet Hours</CardTitle>
+                <CardDescription>Pick the channels for each order event and when messages may go out.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...deliveryForm}>
+                  <form onSubmit={deliveryForm.handleSubmit(onDeliverySubmit)} className="space-y-4">
+                    <div className="grid gap-4 md:grid-cols-2">
+                      {(Object.keys(NOTIFICATION_EVENTS) as NotificationEvent[]).map((event) => (
+                        <FormField
+                          key={event}
+                          control={deliveryForm.control}
+                          name={`notification_channels.${event}`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{NOTIFICATION_EVENTS[event].label}</FormLabel>
+                              <Select value={field.value} onValueChange={field.onChange} disabled={!canEdit}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {(Object.keys(CHANNEL_SETTING_LABELS) as NotificationChannelSetting[]).map((value) => (
+                                    <SelectItem key={value} value={value}>
+                                      {CHANNEL_SETTING_LABELS[value]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                    </div>
+
+                    <Separator />
+
                     <FormField
-                      control={notificationForm.control}
-                      name="orderConfirmations"
+                      control={deliveryForm.control}
+                      name="quiet_hours_enabled"
                       render={({ field }) => (
                         <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
                           <div className="space-y-0.5">
-                            <FormLabel>Order Confirmations</FormLabel>
+                            <FormLabel>Quiet Hours</FormLabel>
                             <FormDescription>
-                              Receive notifications when new orders are placed.
+                              Hold customer messages during these hours and send them when the window ends.
                             </FormDescription>
                           </div>
                           <FormControl>
                             <Switch
                               checked={field.value}
                               onCheckedChange={field.onChange}
+                              disabled={!canEdit}
                             />
                           </FormControl>
                         </FormItem>
                       )}
                     />
-                    
+
+                    <div className="grid gap-4 md:grid-cols-3">
+                      <FormField
+                        control={deliveryForm.control}
+                        name="quiet_hours_start"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>From</FormLabel>
+                            <FormControl>
+                              <Input type="time" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={deliveryForm.control}
+                        name="quiet_hours_end"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Until</FormLabel>
+                            <FormControl>
+                              <Input type="time" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={deliveryForm.control}
+                        name="timezone"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Time Zone</FormLabel>
+                            <FormControl>
+                              <Input {...field} placeholder="Asia/Kolkata" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    {saveButton('Save Delivery Rules')}
+                  </form>
+                </Form>
+              </CardContent>
+            </Card>
+
+            <NotificationOptOuts canEdit={canEdit} />
+          </TabsContent>
+
+          <TabsContent value="invoicing" className="space-y-4 mt-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Invoicing</CardTitle>
+                <CardDescription>Seller details and tax defaults printed on GST invoices.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...invoicingForm}>
+                  <form onSubmit={invoicingForm.handleSubmit(onInvoicingSubmit)} className="space-y-4">
                     <FormField
-                      control={notificationForm.control}
-                      name="stockAlerts"
+                      control={invoicingForm.control}
+                      name="gstin"
                       render={({ field }) => (
-                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
-                          <div className="space-y-0.5">
-                            <FormLabel>Stock Alerts</FormLabel>
-                            <FormDescription>
-                              Get notified when product inventory is low.
-                            </FormDescription>
-                          </div>
+                        <FormItem>
+                          <FormLabel>GSTIN</FormLabel>
                           <FormControl>
-                            <Switch
-                              checked={field.value}
-                              onCheckedChange={field.onChange}
-                            />
+                            <Input {...field} maxLength={15} />
                           </FormControl>
+                          <FormMessage />
                         </FormItem>
                       )}
                     />
-                    
+
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <FormField
+                        control={invoicingForm.control}
+                        name="state"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>State</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormDescription>Orders shipped outside this state are billed IGST.</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={invoicingForm.control}
+                        name="state_code"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>State Code</FormLabel>
+                            <FormControl>
+                              <Input {...field} maxLength={2} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    <div className="grid gap-4 md:grid-cols-3">
+                      <FormField
+                        control={invoicingForm.control}
+                        name="invoice_prefix"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Invoice Prefix</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={invoicingForm.control}
+                        name="default_hsn"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Default HSN Code</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={invoicingForm.control}
+                        name="default_gst_rate"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Default GST Rate (%)</FormLabel>
+                            <FormControl>
+                              <Input type="number" min={0} max={28} step="0.01" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
                     <FormField
-                      control={notificationForm.control}
-                      name="paymentNotifications"
+                      control={invoicingForm.control}
+                      name="prices_include_tax"
                       render={({ field }) => (
                         <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
                           <div className="space-y-0.5">
-                            <FormLabel>Payment Notifications</FormLabel>
+                            <FormLabel>Prices Include GST</FormLabel>
                             <FormDescription>
-                              Receive alerts for payment confirmations and issues.
+                              Product prices already include tax, so invoices back the tax out of each line.
                             </FormDescription>
                           </div>
                           <FormControl>
                             <Switch
                               checked={field.value}
                               onCheckedChange={field.onChange}
+                              disabled={!canEdit}
                             />
                           </FormControl>
                         </FormItem>
                       )}
                     />
-                    
-                    <Button type="submit">Save Preferences</Button>
+
+                    {saveButton('Save Invoicing Settings')}
                   </form>
                 </Form>
               </CardContent>
@@ -369,7 +715,10 @@ const SettingsPage = () => {
                             )}
                           />
                         </div>
-                        <Button type="submit">Update Password</Button>
+                        <Button type="submit" disabled={securityForm.formState.isSubmitting}>
+                          {securityForm.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                          Update Password
+                        </Button>
                       </div>
                     </div>
                   </form>
@@ -8,7 +8,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { MessageSquare, Edit, Trash2, Plus, Save, X, CheckCircle2 } from 'lucide-react';
+import { MessageSquare, Edit, Trash2, Plus, Save, X, CheckCircle2, History } from 'lucide-react';
 import { WhatsAppTemplate } from '@/lib/whatsapp';
 import { useWhatsAppTemplates, Template } from '@/hooks/useWhatsAppTemplates';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
@@ -17,13 +17,20 @@ import { toast } from 'sonner';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
 import { generateTemplateContent, generateTemplateDescription } from '@/lib/gemini';
+import { useAuth } from '@/hooks/useAuth';
+import { TemplateHistoryDialog } from '@/components/templates/TemplateHistoryDialog';
+import { TemplateOrderPreview } from '@/components/templates/TemplateOrderPreview';
+import { TemplateVersion } from '@/types/schema';
 
 export default function WhatsAppTemplatesPage() {
-  const { templates, isLoading, updateTemplate, createTemplate, deleteTemplate } = useWhatsAppTemplates();
+  const { templates, isLoading, updateTemplate, createTemplate, deleteTemplate, restoreVersion } = useWhatsAppTemplates();
+  const { can } = useAuth();
+  const canEditTemplates = can('templates.edit');
   const [searchTerm, setSearchTerm] = useState('');
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [currentTemplate, setCurrentTemplate] = useState<Template | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
   const [newTemplate, setNewTemplate] = useState({
     name: '',
     content: '',
@@ -85,6 +92,17 @@ export default function WhatsAppTemplatesPage() {
     }
   };
 
+  const handleRestoreVersion = async (version: TemplateVersion) => {
+    try {
+      await restoreVersion(version);
+      toast.success(`Restored version ${version.version}`);
+    } catch (error) {
+      console.error('Error restoring template version:', error);
+      toast.error('Failed to restore version: ' + (error as Error).message);
+      throw error;
+    }
+  };
+
   const handleDeleteTemplate = async (id: string) => {
     if (!window.confirm('Are you sure you want to delete this template?')) return;
     
@@ -108,6 +126,7 @@ export default function WhatsAppTemplatesPage() {
   // Available template variables
   const templateVariables = [
     { name: 'customerName', description: 'Customer\'s full name' },
+    { name: 'storeName', description: 'Store name from settings' },
     { name: 'orderId', description: 'Order ID or reference number' },
     { name: 'amount', description: 'Payment amount' },
     { name: 'retryUrl', description: 'URL to retry payment' },
@@ -217,9 +236,11 @@ export default function WhatsAppTemplatesPage() {
             </div>
           </div>
           
-          <Button onClick={() => setCreateDialogOpen(true)}>
-            <Plus className="mr-2 h-4 w-4" /> Create Template
-          </Button>
+          {canEditTemplates && (
+            <Button onClick={() => setCreateDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" /> Create Template
+            </Button>
+          )}
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -237,12 +258,19 @@ export default function WhatsAppTemplatesPage() {
                       <CardDescription className="mt-1">{template.description}</CardDescription>
                     </div>
                     <div className="flex space-x-1">
-                      <Button variant="ghost" size="icon" onClick={() => handleEditTemplate(template)}>
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button variant="ghost" size="icon" onClick={() => handleDeleteTemplate(template.id)}>
-                        <Trash2 className="h-4 w-4" />
+                      <Button variant="ghost" size="icon" title="History" onClick={() => setHistoryId(template.id)}>
+                        <History className="h-4 w-4" />
                       </Button>
+                      {canEditTemplates && (
+                        <>
+                          <Button variant="ghost" size="icon" onClick={() => handleEditTemplate(template)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleDeleteTemplate(template.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -275,7 +303,7 @@ export default function WhatsAppTemplatesPage() {
 
         {/* Edit Template Dialog */}
         <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
-          <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Edit Template</DialogTitle>
               <DialogDescription>
@@ -389,6 +417,8 @@ export default function WhatsAppTemplatesPage() {
                     </div>
                   </div>
                 </div>
+
+                <TemplateOrderPreview channel="whatsapp" content={currentTemplate.content} />
               </div>
             )}
             <DialogFooter>
@@ -568,6 +598,13 @@ export default function WhatsAppTemplatesPage() {
             </DialogFooter>
           </DialogContent>
         </Dialog>
+
+        <TemplateHistoryDialog
+          channel="whatsapp"
+          template={templates.find(template => template.id === historyId) || null}
+          onOpenChange={(open) => !open && setHistoryId(null)}
+          onRestore={canEditTemplates ? handleRestoreVersion : undefined}
+        />
       </div>
     </AdminLayout>
   );
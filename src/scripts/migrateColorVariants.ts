@@ -0,0 +1,71 @@
+import { pb, ensureAdminAuth } from '../server/pocketbase';
+import type { Product } from '../types/schema';
+import {
+  buildVariantSku,
+  legacyColorsFromOptions,
+  optionCombinations,
+  optionsFromLegacyColors,
+  variantLabel,
+} from '../lib/productVariants';
+
+/**
+ * Turns the free-text `products.colors` values into a Colour option with one
+ * product_variants record per colour. The product's current stock goes to the
+ * first (primary) colour; the rest start at 0 and can be corrected from the Stock dialog.
+ * Products that already have variants are skipped, so the script can be re-run.
+ *
+ * Run with: npx ts-node src/scripts/migrateColorVariants.ts [--dry-run]
+ */
+async function migrateColorVariants() {
+  const dryRun = process.argv.includes('--dry-run');
+  await ensureAdminAuth();
+
+  const products = await pb.collection('products').getFullList({ filter: 'colors != ""' }) as unknown as Product[];
+  console.log(`Found ${products.length} products with colours${dryRun ? ' (dry run)' : ''}`);
+
+  let migrated = 0;
+  for (const product of products) {
+    const existing = await pb.collection('product_variants').getList(1, 1, {
+      filter: pb.filter('product_id = {:productId}', { productId: product.id }),
+    });
+    if (existing.totalItems > 0) {
+      console.log(`- ${product.name}: already has variants, skipped`);
+      continue;
+    }
+
+    const options = optionsFromLegacyColors(product.colors);
+    if (options.length === 0) {
+      console.log(`- ${product.name}: no colours could be read from ${JSON.stringify(product.colors)}, skipped`);
+      continue;
+    }
+
+    const combinations = optionCombinations(options);
+    console.log(`- ${product.name}: ${combinations.map(combination => variantLabel(combination)).join(', ')}`);
+    if (dryRun) continue;
+
+    for (const [index, combination] of combinations.entries()) {
+      await pb.collection('product_variants').create({
+        product_id: product.id,
+        sku: buildVariantSku(product.name, combination),
+        options: combination,
+        price: 0,
+        stock: index === 0 ? Number(product.stock) || 0 : 0,
+        images: [],
+        active: true,
+      });
+    }
+
+    await pb.collection('products').update(product.id, {
+      options,
+      colors: legacyColorsFromOptions(options),
+    });
+    migrated++;
+  }
+
+  console.log(dryRun ? 'Dry run finished; nothing was changed' : `Migrated ${migrated} products`);
+}
+
+migrateColorVariants().catch(error => {
+  console.error('Colour migration failed:', error);
+  process.exit(1);
+});
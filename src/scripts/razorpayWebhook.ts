@@ -0,0 +1,118 @@
+import axios from 'axios';
+import { randomUUID } from 'crypto';
+import { RazorpayWebhookBody, signRazorpayPayload } from '../server/razorpay';
+
+/**
+ * Sends a signed sample Razorpay webhook to a locally running server.
+ * Run with: npx ts-node src/scripts/razorpayWebhook.ts <event> <razorpay_order_id> [amount_in_rupees] [options]
+ *
+ *   event               payment.captured, payment.failed or refund.processed
+ *   --order <id>        CRM order id, sent as the `order_id` payment note
+ *   --payment <id>      Payment id (required for refund.processed to match an earlier capture)
+ *   --replay            Deliver the same event twice; the second delivery should be a duplicate
+ *   --bad-signature     Sign with the wrong secret; the server should answer 401
+ *
+ * Uses RAZORPAY_WEBHOOK_SECRET and posts to RAZORPAY_WEBHOOK_URL
+ * (default http://localhost:3000/api/razorpay/webhook).
+ */
+
+const EVENTS = ['payment.captured', 'payment.failed', 'refund.processed'];
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function samplePayload(event: string, razorpayOrderId: string, amount: number, orderId?: string, paymentId?: string): RazorpayWebhookBody {
+  const payment = {
+    id: paymentId || `pay_${randomUUID().replace(/-/g, '').slice(0, 14)}`,
+    entity: 'payment' as const,
+    amount,
+    currency: 'INR',
+    status: event === 'payment.failed' ? 'failed' : event === 'refund.processed' ? 'refunded' : 'captured',
+    order_id: razorpayOrderId,
+    method: 'upi',
+    amount_refunded: event === 'refund.processed' ? amount : 0,
+    ...(event === 'payment.failed'
+      ? { error_code: 'BAD_REQUEST_ERROR', error_description: 'Payment was declined by the bank' }
+      : {}),
+    notes: orderId ? { order_id: orderId } : {},
+  };
+
+  const body: RazorpayWebhookBody = {
+    entity: 'event',
+    account_id: 'acc_test',
+    event,
+    contains: event === 'refund.processed' ? ['refund', 'payment'] : ['payment'],
+    payload: { payment: { entity: payment } },
+    created_at: Math.floor(Date.now() / 1000),
+  };
+
+  if (event === 'refund.processed') {
+    body.payload.refund = {
+      entity: {
+        id: `rfnd_${randomUUID().replace(/-/g, '').slice(0, 14)}`,
+        entity: 'refund',
+        amount,
+        currency: 'INR',
+        payment_id: payment.id,
+        status: 'processed',
+      },
+    };
+  }
+
+  return body;
+}
+
+async function deliver(url: string, body: string, signature: string, eventId: string) {
+  const response = await axios.post(url, body, {
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Razorpay-Signature': signature,
+      'X-Razorpay-Event-Id': eventId,
+    },
+    validateStatus: () => true,
+  });
+  console.log(`${response.status}`, response.data);
+}
+
+async function sendSampleWebhook() {
+  const args = process.argv.slice(2);
+  const [event, razorpayOrderId, amountInRupees = '499'] = args.filter((arg, i) => !arg.startsWith('--') && !args[i - 1]?.startsWith('--'));
+
+  if (!EVENTS.includes(event) || !razorpayOrderId) {
+    console.error(`Usage: razorpayWebhook.ts <${EVENTS.join('|')}> <razorpay_order_id> [amount_in_rupees] [--order <id>] [--payment <id>] [--replay] [--bad-signature]`);
+    process.exit(1);
+  }
+
+  const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('Error: RAZORPAY_WEBHOOK_SECRET must be set to the same value the server uses');
+    process.exit(1);
+  }
+
+  const url = process.env.RAZORPAY_WEBHOOK_URL || 'http://localhost:3000/api/razorpay/webhook';
+  const payload = samplePayload(
+    event,
+    razorpayOrderId,
+    Math.round(parseFloat(amountInRupees) * 100),
+    readFlag(args, '--order'),
+    readFlag(args, '--payment')
+  );
+  const body = JSON.stringify(payload);
+  const signature = signRazorpayPayload(body, args.includes('--bad-signature') ? `${secret}-wrong` : secret);
+  const eventId = `evt_${randomUUID().replace(/-/g, '').slice(0, 14)}`;
+
+  console.log(`Sending ${event} for ${razorpayOrderId} (payment ${payload.payload.payment?.entity.id}) to ${url}`);
+  await deliver(url, body, signature, eventId);
+
+  if (args.includes('--replay')) {
+    console.log('Replaying the same event...');
+    await deliver(url, body, signature, eventId);
+  }
+}
+
+sendSampleWebhook().catch(error => {
+  console.error('Error sending sample webhook:', error);
+  process.exit(1);
+});
@@ -1,8 +1,12 @@
 const { pb } = require('../lib/pocketbase');
 const { WhatsAppTemplate } = require('../lib/whatsapp');
+const { recordTemplateVersion } = require('../lib/templateVersions');
+
+const RESET_AUTHOR = { name: 'resetWhatsAppTemplates script' };
 
 /**
- * This script resets and repopulates the WhatsApp templates in PocketBase
+ * This script resets the default WhatsApp templates in PocketBase, keeping a version of each
+ * one it changes
  * Run with: node src/scripts/resetWhatsAppTemplates.js
  */
 async function resetWhatsAppTemplates() {
@@ -59,17 +63,9 @@ async function resetWhatsAppTemplates() {
       console.log('Collection created successfully');
     }
 
-    // Delete all existing templates
-    console.log('Deleting existing templates...');
-    try {
-      const existingTemplates = await pb.collection('whatsapp_templates').getFullList();
-      for (const template of existingTemplates) {
-        await pb.collection('whatsapp_templates').delete(template.id);
-      }
-      console.log(`Deleted ${existingTemplates.length} existing templates`);
-    } catch (err) {
-      console.log('No existing templates to delete or error:', err);
-    }
+    // Templates are updated in place rather than deleted, and every change is kept in
+    // template_versions, so a reset can be rolled back from the WhatsApp templates page
+    const existingTemplates = await pb.collection('whatsapp_templates').getFullList();
 
     // Default templates based on the WhatsAppTemplate enum
     const defaultTemplates = [
@@ -159,20 +155,29 @@ async function resetWhatsAppTemplates() {
       },
     ];
 
-    // Create default templates in PocketBase
-    console.log('Creating new templates...');
+    // Reset the default templates, creating any that are missing
+    console.log('Resetting default templates...');
     let createdCount = 0;
+    let resetCount = 0;
     for (const template of defaultTemplates) {
       try {
-        await pb.collection('whatsapp_templates').create(template);
-        createdCount++;
+        const existing = existingTemplates.find(t => t.name === template.name);
+        if (existing) {
+          const saved = await pb.collection('whatsapp_templates').update(existing.id, template);
+          await recordTemplateVersion('whatsapp', saved, existing, RESET_AUTHOR);
+          resetCount++;
+        } else {
+          const created = await pb.collection('whatsapp_templates').create(template);
+          await recordTemplateVersion('whatsapp', created, null, RESET_AUTHOR);
+          createdCount++;
+        }
       } catch (err) {
-        console.error(`Error creating template ${template.name}:`, err);
+        console.error(`Error resetting template ${template.name}:`, err);
         // Continue with other templates
       }
     }
 
-    console.log(`Successfully created ${createdCount} templates`);
+    console.log(`Reset ${resetCount} and created ${createdCount} templates; other templates were left as they are`);
     console.log('WhatsApp templates reset completed successfully!');
     
   } catch (err) {
@@ -0,0 +1,62 @@
+import type { NextFunction, Request, Response } from 'express';
+import PocketBase from 'pocketbase';
+import { pb } from './pocketbase';
+import { Permission, StaffRole, hasPermission, isStaffRole } from '../lib/permissions';
+
+export interface StaffIdentity {
+  id: string;
+  email: string;
+  name: string;
+  role: StaffRole;
+}
+
+function readToken(req: Request): string {
+  const header = req.headers.authorization || '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : header.trim();
+}
+
+// Resolve the operator behind a PocketBase auth token. Superusers count as owners;
+// `users` records need a staff role, the same rule the admin app applies on sign-in.
+export async function verifyStaffToken(token: string): Promise<StaffIdentity | null> {
+  if (!token) return null;
+
+  const client = new PocketBase(pb.baseUrl);
+  client.autoCancellation(false);
+  client.authStore.save(token, null);
+
+  try {
+    const { record } = await client.admins.authRefresh();
+    return { id: record.id, email: record.email, name: record.name || record.email, role: 'owner' };
+  } catch {
+    // Not a superuser token, try the staff users collection
+  }
+
+  try {
+    const { record } = await client.collection('users').authRefresh();
+    if (!isStaffRole(record.role)) return null;
+    return { id: record.id, email: record.email, name: record.name || record.email, role: record.role };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Express middleware that only lets signed-in staff with `permission` through.
+ * The admin app sends the operator's PocketBase token as a Bearer token.
+ */
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const staff = await verifyStaffToken(readToken(req));
+
+    if (!staff) {
+      return res.status(401).json({ success: false, message: 'Sign in to the admin app to use this endpoint' });
+    }
+
+    if (!hasPermission(staff.role, permission)) {
+      return res.status(403).json({ success: false, message: `Your role does not allow ${permission}` });
+    }
+
+    res.locals.staff = staff;
+    next();
+  };
+}
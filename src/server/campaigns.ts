@@ -0,0 +1,147 @@
+import type { Campaign } from '../types/schema';
+import { pb, ensureAdminAuth } from './pocketbase';
+import { cancelQueuedMessage, enqueueMessage } from './messageQueue';
+import { loadTemplate } from './messageTemplates';
+import { renderTemplate, TemplateRenderError } from '../lib/templateEngine';
+import { claim, releaseClaim } from './claims';
+import { formatPhoneNumber } from './whatsappService';
+import type { StaffIdentity } from './auth';
+
+// The WhatsApp API starts flagging numbers well before this, so it is a hard ceiling
+export const MAX_THROTTLE_PER_MINUTE = 60;
+
+export interface CampaignLaunchResult {
+  queued: number;
+  skipped: number;
+  // Recipients whose placeholder values the template couldn't be rendered with
+  failed: number;
+}
+
+// A launch the campaign's current status doesn't allow
+export class CampaignStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CampaignStateError';
+  }
+}
+
+const launchClaimKey = (campaignId: string) => `campaign:${campaignId}:launch`;
+
+async function loadOptedOutNumbers(): Promise<Set<string>> {
+  const optOuts = await pb.collection('notification_opt_outs').getFullList({
+    filter: 'channel = "whatsapp" || channel = "all"',
+    fields: 'contact',
+  });
+  return new Set(optOuts.map(optOut => optOut.contact as string));
+}
+
+/**
+ * Queue one message per recipient of a campaign. Messages are spaced out from the campaign's
+ * send time at its throttle rate, so the queue worker hands them to the WhatsApp API gradually.
+ * Opted-out numbers are skipped, and each number gets the campaign at most once, so launching
+ * a cancelled campaign again only queues the messages that were never sent. The launch is
+ * claimed first, so two clicks or two operators can't queue the campaign side by side.
+ */
+export async function launchCampaign(campaignId: string, staff: StaffIdentity): Promise<CampaignLaunchResult> {
+  await ensureAdminAuth();
+  const claimKey = launchClaimKey(campaignId);
+  if (!(await claim(claimKey))) {
+    throw new CampaignStateError('Campaign has already been launched');
+  }
+
+  try {
+    return await queueCampaign(campaignId, staff);
+  } catch (error) {
+    await releaseClaim(claimKey).catch(releaseError => {
+      console.error(`Error releasing claim ${claimKey}:`, releaseError);
+    });
+    throw error;
+  }
+}
+
+async function queueCampaign(campaignId: string, staff: StaffIdentity): Promise<CampaignLaunchResult> {
+  const campaign = await pb.collection('campaigns').getOne(campaignId) as unknown as Campaign;
+  if (campaign.status === 'scheduled') {
+    throw new CampaignStateError('Campaign has already been launched');
+  }
+
+  const [template, optedOut] = await Promise.all([
+    loadTemplate('whatsapp_templates', campaign.template_name),
+    loadOptedOutNumbers(),
+  ]);
+
+  const rate = Math.min(Math.max(campaign.throttle_per_minute || 1, 1), MAX_THROTTLE_PER_MINUTE);
+  const intervalMs = 60 * 1000 / rate;
+  const start = Math.max(new Date(campaign.send_at).getTime() || 0, Date.now());
+
+  let queued = 0;
+  let skipped = 0;
+  let failed = 0;
+  for (const recipient of campaign.recipients || []) {
+    const number = recipient.phone ? formatPhoneNumber(recipient.phone) : '';
+    if (!number || optedOut.has(number)) {
+      skipped++;
+      continue;
+    }
+
+    let message: string;
+    try {
+      message = renderTemplate(template.content, recipient.variables || {});
+    } catch (error) {
+      // One recipient's missing value shouldn't stop the rest of the campaign
+      if (!(error instanceof TemplateRenderError)) throw error;
+      console.error(`Campaign ${campaign.id}: could not render the message for ${number}:`, error.message);
+      failed++;
+      continue;
+    }
+
+    const result = await enqueueMessage('whatsapp', 'text', number, { number, message }, {
+      templateName: campaign.template_name,
+      idempotencyKey: `whatsapp:campaign:${campaign.id}:${number}`,
+      campaignId: campaign.id,
+      sendAt: new Date(start + queued * intervalMs),
+    });
+
+    if (result.duplicate) {
+      skipped++;
+    } else {
+      queued++;
+    }
+  }
+
+  await pb.collection('campaigns').update(campaign.id, {
+    status: 'scheduled',
+    queued_count: queued,
+    skipped_count: skipped,
+    failed_count: failed,
+    launched_at: new Date().toISOString(),
+    launched_by: staff.name,
+  });
+
+  return { queued, skipped, failed };
+}
+
+// Stop a campaign's messages that haven't gone out yet. Returns how many were cancelled.
+export async function cancelCampaign(campaignId: string): Promise<number> {
+  await ensureAdminAuth();
+  const pending = await pb.collection('message_queue').getFullList({
+    filter: pb.filter('campaign_id = {:campaignId} && status = "pending"', { campaignId }),
+    fields: 'id',
+  });
+
+  let cancelled = 0;
+  for (const record of pending) {
+    try {
+      await cancelQueuedMessage(record.id);
+      cancelled++;
+    } catch (error) {
+      // Picked up by the worker in the meantime
+      console.error(`Could not cancel campaign message ${record.id}:`, error);
+    }
+  }
+
+  await pb.collection('campaigns').update(campaignId, { status: 'cancelled' });
+  // A cancelled campaign may be launched again
+  await releaseClaim(launchClaimKey(campaignId));
+  return cancelled;
+}
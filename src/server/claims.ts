@@ -0,0 +1,27 @@
+import { pb } from './pocketbase';
+
+/**
+ * Take the claim on `key` so only one worker does the job it names. PocketBase has no
+ * conditional update, so the claim is a row in `claims`, whose unique index on `key`
+ * lets exactly one create succeed. Returns false when another worker holds it.
+ */
+export async function claim(key: string): Promise<boolean> {
+  try {
+    await pb.collection('claims').create({ key });
+    return true;
+  } catch (error) {
+    // 400 is the unique index rejecting a second claim
+    if ((error as { status?: number }).status === 400) return false;
+    throw error;
+  }
+}
+
+// Give a claim back so the job can be picked up again
+export async function releaseClaim(key: string): Promise<void> {
+  const record = await pb.collection('claims')
+    .getFirstListItem(pb.filter('key = {:key}', { key }))
+    .catch(() => null);
+  if (record) {
+    await pb.collection('claims').delete(record.id);
+  }
+}
@@ -0,0 +1,172 @@
+import { pb, ensureAdminAuth } from './pocketbase';
+import { ACTIVITY_COLLECTIONS, QueueChannel } from './messageQueue';
+import { toIsoTime } from './inbox';
+import { formatPhoneNumber } from './whatsappService';
+
+// Same steps as DELIVERY_STEPS in src/lib/deliveryStatus.ts
+const DELIVERY_STEPS: Record<QueueChannel, string[]> = {
+  whatsapp: ['sent', 'delivered', 'read'],
+  email: ['sent', 'opened', 'clicked'],
+};
+
+// When the activity first reached each step
+const STEP_TIMESTAMPS: Record<string, string> = {
+  delivered: 'delivered_at',
+  read: 'read_at',
+  opened: 'opened_at',
+  clicked: 'clicked_at',
+};
+
+// A status callback that arrived while the queue worker was still sending its message
+export class StatusNotReadyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatusNotReadyError';
+  }
+}
+
+// A status callback from the WhatsApp API for a message we sent
+export interface WhatsAppStatusUpdate {
+  providerMessageId: string;
+  status: string;
+  timestamp: string;
+  // Number the message went to, when the callback says
+  recipient?: string;
+  error?: string;
+}
+
+export interface StatusUpdateResult {
+  // not_ready: the message is still being sent; failed: the update couldn't be applied
+  status: 'updated' | 'unchanged' | 'unmatched' | 'not_ready' | 'failed';
+  activityId?: string;
+}
+
+// Webhook bodies are untyped JSON from the provider
+type RawStatus = Record<string, any>;
+
+function fromRawStatus(raw: RawStatus): WhatsAppStatusUpdate {
+  const error = raw.errors?.[0];
+  return {
+    providerMessageId: String(raw.id || raw.messageId || raw.message_id || ''),
+    status: String(raw.status || '').toLowerCase(),
+    timestamp: toIsoTime(raw.timestamp),
+    recipient: raw.recipient_id || raw.to ? String(raw.recipient_id || raw.to) : undefined,
+    error: error ? error.message || error.title || error.error_data?.details : raw.error || undefined,
+  };
+}
+
+/**
+ * Read delivery status callbacks from a webhook body: Cloud API style
+ * `entry[].changes[].value.statuses[]` batches, or a flat `{ messageId, status, timestamp }` object.
+ */
+export function parseStatusUpdates(body: RawStatus): WhatsAppStatusUpdate[] {
+  if (Array.isArray(body?.entry)) {
+    return body.entry
+      .flatMap((entry: RawStatus) => (entry.changes || []).flatMap((change: RawStatus) => change.value?.statuses || []))
+      .map(fromRawStatus)
+      .filter((update: WhatsAppStatusUpdate) => update.providerMessageId && update.status);
+  }
+
+  const data = body?.data && typeof body.data === 'object' ? body.data : body;
+  // Incoming messages carry a sender; status callbacks don't
+  if (!data?.status || data.from) return [];
+  const update = fromRawStatus(data);
+  return update.providerMessageId ? [update] : [];
+}
+
+/**
+ * Move an activity forward to `status`. Callbacks arrive late, out of order and more than once
+ * (a "delivered" after its "read", the same open pixel loaded twice), so a status never moves
+ * back; earlier or repeated ones only fill in timestamps that are still missing.
+ */
+export async function advanceActivityStatus(
+  channel: QueueChannel,
+  activityId: string,
+  status: string,
+  at: string = new Date().toISOString()
+): Promise<StatusUpdateResult> {
+  const steps = DELIVERY_STEPS[channel];
+  const target = steps.indexOf(status);
+  if (target < 0) {
+    throw new Error(`Unknown ${channel} delivery status: ${status}`);
+  }
+
+  await ensureAdminAuth();
+  const collection = ACTIVITY_COLLECTIONS[channel];
+  const activity = await pb.collection(collection).getOne(activityId);
+  // Queued, failed and cancelled messages have no delivery to report
+  if (steps.indexOf(activity.status) < 0) return { status: 'unchanged', activityId };
+
+  const update: Record<string, string> = {};
+  // Reaching a step means the ones before it were reached too: a click is also an open
+  steps.slice(1, target + 1).forEach(step => {
+    const field = STEP_TIMESTAMPS[step];
+    if (!activity[field]) update[field] = at;
+  });
+  if (target > steps.indexOf(activity.status)) {
+    update.status = status;
+  }
+
+  if (Object.keys(update).length === 0) return { status: 'unchanged', activityId };
+  await pb.collection(collection).update(activityId, update);
+  return { status: 'updated', activityId };
+}
+
+/**
+ * The activity a callback is about. The queue entry gets the WhatsApp message ID a moment before
+ * its activity does, so a message sent just now is found through its queue entry.
+ */
+async function findActivity(providerMessageId: string) {
+  const result = await pb.collection('whatsapp_activities').getList(1, 1, {
+    filter: pb.filter('provider_message_id = {:id}', { id: providerMessageId }),
+  });
+  if (result.items[0]) return result.items[0];
+
+  const queued = await pb.collection('message_queue').getList(1, 1, {
+    filter: pb.filter('channel = "whatsapp" && provider_message_id = {:id}', { id: providerMessageId }),
+    fields: 'activity_id',
+  });
+  const activityId = queued.items[0]?.activity_id;
+  return activityId ? pb.collection('whatsapp_activities').getOne(activityId).catch(() => null) : null;
+}
+
+// Whether the queue worker is in the middle of sending a WhatsApp message to this number
+async function isSending(recipient?: string): Promise<boolean> {
+  const filter = recipient
+    ? pb.filter('channel = "whatsapp" && status = "processing" && recipient = {:recipient}', { recipient: formatPhoneNumber(recipient) })
+    : 'channel = "whatsapp" && status = "processing"';
+  const result = await pb.collection('message_queue').getList(1, 1, { filter, fields: 'id' });
+  return result.totalItems > 0;
+}
+
+/**
+ * Apply a WhatsApp status callback to the activity for that message. A "failed" callback means
+ * the API accepted the message but couldn't deliver it, which only counts before it was delivered.
+ * Callbacks for messages sent outside the queue (from the phone, another integration) are
+ * `unmatched`; one for a message the queue worker is still sending throws StatusNotReadyError.
+ */
+export async function recordWhatsAppStatus(update: WhatsAppStatusUpdate): Promise<StatusUpdateResult> {
+  await ensureAdminAuth();
+  const activity = await findActivity(update.providerMessageId);
+  if (!activity) {
+    if (await isSending(update.recipient)) {
+      throw new StatusNotReadyError(`WhatsApp message ${update.providerMessageId} is still being sent`);
+    }
+    return { status: 'unmatched' };
+  }
+
+  if (update.status === 'failed') {
+    if (activity.status !== 'sent') return { status: 'unchanged', activityId: activity.id };
+    await pb.collection('whatsapp_activities').update(activity.id, {
+      status: 'failed',
+      error_message: update.error || 'The WhatsApp API could not deliver the message',
+    });
+    return { status: 'updated', activityId: activity.id };
+  }
+
+  // "sent" callbacks repeat what the queue already recorded
+  if (!DELIVERY_STEPS.whatsapp.includes(update.status) || update.status === 'sent') {
+    return { status: 'unchanged', activityId: activity.id };
+  }
+  return advanceActivityStatus('whatsapp', activity.id, update.status, update.timestamp);
+}
@@ -1,6 +1,8 @@
 import nodemailer from 'nodemailer';
 import PocketBase from 'pocketbase';
 import dotenv from 'dotenv';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { renderTemplate } from '../lib/templateEngine';
 
 // Load environment variables
 dotenv.config();
@@ -17,6 +19,62 @@ interface EmailActivity {
   subject?: string;
 }
 
+// Display name and reply-to address sent by the admin app from the store settings
+export interface EmailSender {
+  name?: string;
+  replyTo?: string;
+}
+
+// Use the store name as the display name for the SMTP mailbox
+function buildFrom(sender?: EmailSender) {
+  const address = process.env.SMTP_USER || '';
+  if (!sender?.name) return address;
+  return `"${sender.name.replace(/"/g, '')}" <${address}>`;
+}
+
+// Opens and clicks are reported back to this server, so tracking needs its public address
+// and a secret to sign the links with. Without them emails go out untracked.
+function getTrackingConfig() {
+  const baseUrl = (process.env.EMAIL_TRACKING_URL || '').replace(/\/+$/, '');
+  const secret = process.env.EMAIL_TRACKING_SECRET || '';
+  return baseUrl && secret ? { baseUrl, secret } : null;
+}
+
+// Tracking links are signed so they can't be used to mark other emails opened or to redirect anywhere
+function signTrackingValue(value: string, secret: string): string {
+  return createHmac('sha256', secret).update(value).digest('hex');
+}
+
+// Check a signature from an open pixel (`activityId`) or click link (`activityId:url`)
+export function verifyTrackingSignature(value: string, signature: string): boolean {
+  const config = getTrackingConfig();
+  if (!config || !signature) return false;
+  const expected = Buffer.from(signTrackingValue(value, config.secret));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+const decodeHtmlAmpersands = (value: string) => value.replace(/&amp;/g, '&');
+
+/**
+ * Route the email's web links through /api/track/click and add an open pixel, both tied to
+ * the email's activity. mailto:, tel: and in-page links are left as they are.
+ */
+export function addEmailTracking(html: string, activityId: string): string {
+  const config = getTrackingConfig();
+  if (!config) return html;
+
+  const id = encodeURIComponent(activityId);
+  const withLinks = html.replace(/(<a\b[^>]*?\bhref\s*=\s*)(["'])(https?:\/\/[^"']+)\2/gi, (_match, prefix, quote, href) => {
+    const url = decodeHtmlAmpersands(href);
+    const sig = signTrackingValue(`${activityId}:${url}`, config.secret);
+    return `${prefix}${quote}${config.baseUrl}/api/track/click/${id}?url=${encodeURIComponent(url)}&amp;sig=${sig}${quote}`;
+  });
+
+  const pixel = `<img src="${config.baseUrl}/api/track/open/${id}.gif?sig=${signTrackingValue(activityId, config.secret)}" width="1" height="1" alt="" style="display:block;width:1px;height:1px;border:0" />`;
+  return /<\/body>/i.test(withLinks) ? withLinks.replace(/<\/body>/i, `${pixel}</body>`) : withLinks + pixel;
+}
+
 // Log SMTP configuration for debugging (without password)
 console.log('SMTP Configuration:', {
   host: process.env.SMTP_HOST,
@@ -109,28 +167,38 @@ async function logEmailActivity(activity: EmailActivity) {
 }
 
 // Send an email
-export async function sendEmail(to: string, subject: string, html: string, variables?: Record<string, string>) {
+export async function sendEmail(
+  to: string,
+  subject: string,
+  html: string,
+  variables?: Record<string, string>,
+  sender?: EmailSender,
+  // The email's activity id, when opens and clicks should be tracked
+  trackingId?: string,
+  // Plain-text alternative for clients that don't show HTML
+  text?: string
+) {
   try {
     // Verify required SMTP settings
     if (!process.env.SMTP_HOST || !process.env.SMTP_USER || !process.env.SMTP_PASSWORD) {
       throw new Error('SMTP configuration is incomplete. Please check your environment variables.');
     }
 
-    // Replace variables in the content if provided
-    let content = html;
-    if (variables) {
-      Object.entries(variables).forEach(([key, value]) => {
-        const regex = new RegExp(`{{${key}}}`, 'g');
-        content = content.replace(regex, value);
-      });
+    // Fill placeholders if values were given; a placeholder with no value fails the send
+    let content = variables ? renderTemplate(html, variables, { format: 'html' }) : html;
+    const plainText = text && variables ? renderTemplate(text, variables) : text;
+    if (trackingId) {
+      content = addEmailTracking(content, trackingId);
     }
 
     // Send the email
     const info = await transporter.sendMail({
-      from: process.env.SMTP_USER,
+      from: buildFrom(sender),
+      replyTo: sender?.replyTo,
       to,
       subject,
-      html: content
+      html: content,
+      text: plainText || undefined
     });
 
     return {
@@ -154,7 +222,12 @@ export async function sendEmailWithAttachment(
   subject: string,
   html: string,
   attachments: Array<{filename: string, content: string, contentType: string}>,
-  variables?: Record<string, string>
+  variables?: Record<string, string>,
+  sender?: EmailSender,
+  // The email's activity id, when opens and clicks should be tracked
+  trackingId?: string,
+  // Plain-text alternative for clients that don't show HTML
+  text?: string
 ) {
   try {
     // Verify required SMTP settings
@@ -162,21 +235,21 @@ export async function sendEmailWithAttachment(
       throw new Error('SMTP configuration is incomplete. Please check your environment variables.');
     }
 
-    // Replace variables in the content if provided
-    let content = html;
-    if (variables) {
-      Object.entries(variables).forEach(([key, value]) => {
-        const regex = new RegExp(`{{${key}}}`, 'g');
-        content = content.replace(regex, value);
-      });
+    // Fill placeholders if values were given; a placeholder with no value fails the send
+    let content = variables ? renderTemplate(html, variables, { format: 'html' }) : html;
+    const plainText = text && variables ? renderTemplate(text, variables) : text;
+    if (trackingId) {
+      content = addEmailTracking(content, trackingId);
     }
 
     // Send the email with attachment
     const info = await transporter.sendMail({
-      from: process.env.SMTP_USER,
+      from: buildFrom(sender),
+      replyTo: sender?.replyTo,
       to,
       subject,
       html: content,
+      text: plainText || undefined,
       attachments: attachments.map(attachment => ({
         filename: attachment.filename,
         content: Buffer.from(attachment.content, 'base64'),
@@ -0,0 +1,191 @@
+import dotenv from 'dotenv';
+import type { Order, WhatsAppConversation } from '../types/schema';
+import { pb, ensureAdminAuth } from './pocketbase';
+import { formatPhoneNumber } from './whatsappService';
+
+// Load environment variables
+dotenv.config();
+
+// An incoming message, whichever shape the WhatsApp API delivered it in
+export interface InboundWhatsAppMessage {
+  from: string;
+  name?: string;
+  kind: string;
+  body: string;
+  mediaUrl?: string;
+  providerMessageId?: string;
+  timestamp: string;
+}
+
+export interface InboundResult {
+  status: 'recorded' | 'duplicate';
+  conversationId?: string;
+}
+
+// Same keywords as isStopKeyword in src/lib/notifications.ts
+const STOP_KEYWORDS = ['stop', 'unsubscribe'];
+
+// A reply within this long of an outbound message counts as a reply to it
+const REPLY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Webhook bodies are untyped JSON from the provider
+type RawMessage = Record<string, any>;
+
+export function getWhatsAppWebhookSecret(): string {
+  return process.env.WHATSAPP_WEBHOOK_SECRET || '';
+}
+
+export const toIsoTime = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return new Date().toISOString();
+  // Unix seconds, as the Cloud API sends them
+  const numeric = Number(value);
+  const date = Number.isFinite(numeric) ? new Date(numeric < 1e12 ? numeric * 1000 : numeric) : new Date(String(value));
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+};
+
+function fromCloudMessage(message: RawMessage, name?: string): InboundWhatsAppMessage {
+  const kind = message.type || 'text';
+  const media = message[kind] || {};
+  return {
+    from: message.from,
+    name,
+    kind,
+    body: message.text?.body || media.caption || message.button?.text || message.interactive?.button_reply?.title || '',
+    mediaUrl: media.link || media.url || undefined,
+    providerMessageId: message.id,
+    timestamp: toIsoTime(message.timestamp),
+  };
+}
+
+/**
+ * Read incoming messages from a webhook body. The WhatsApp API sends a flat
+ * `{ from, message, type, mediaUrl, id, timestamp }` object; Cloud API style
+ * `entry[].changes[].value.messages[]` batches are accepted too.
+ */
+export function parseInboundMessages(body: RawMessage): InboundWhatsAppMessage[] {
+  if (Array.isArray(body?.entry)) {
+    return body.entry.flatMap((entry: RawMessage) => (entry.changes || []).flatMap((change: RawMessage) => {
+      const value = change.value || {};
+      const name = value.contacts?.[0]?.profile?.name;
+      return (value.messages || []).map((message: RawMessage) => fromCloudMessage(message, name));
+    }));
+  }
+
+  const data = body?.data && typeof body.data === 'object' ? body.data : body;
+  const from = data?.from || data?.phone || data?.sender || data?.number;
+  if (!from) return [];
+
+  return [{
+    from: String(from),
+    name: data.name || data.pushName || data.senderName || undefined,
+    kind: data.type || (data.mediaUrl || data.media_url ? 'image' : 'text'),
+    body: String(data.message ?? data.body ?? data.text ?? data.caption ?? ''),
+    mediaUrl: data.mediaUrl || data.media_url || undefined,
+    providerMessageId: data.id || data.messageId || data.message_id || undefined,
+    timestamp: toIsoTime(data.timestamp),
+  }];
+}
+
+const previewOf = (message: InboundWhatsAppMessage) => message.body || `[${message.kind}]`;
+
+// Latest order placed with this number, matched on its last 10 digits
+async function findLatestOrder(phone: string): Promise<Order | null> {
+  const result = await pb.collection('orders').getList(1, 1, {
+    filter: pb.filter('customer_phone ~ {:digits}', { digits: phone.slice(-10) }),
+    sort: '-created',
+    fields: 'id,customer_name,user',
+  });
+  return (result.items[0] as unknown as Order) || null;
+}
+
+async function upsertConversation(phone: string, message: InboundWhatsAppMessage): Promise<WhatsAppConversation> {
+  const order = await findLatestOrder(phone);
+  const existing = await pb.collection('whatsapp_conversations').getList(1, 1, {
+    filter: pb.filter('phone = {:phone}', { phone }),
+  });
+  const current = existing.items[0] as unknown as WhatsAppConversation | undefined;
+
+  const data = {
+    customer_name: order?.customer_name || current?.customer_name || message.name || '',
+    order_id: order?.id || current?.order_id || '',
+    user_id: order?.user?.[0] || current?.user_id || '',
+    last_message_at: message.timestamp,
+    last_message_preview: previewOf(message).slice(0, 200),
+    last_direction: 'inbound',
+  };
+
+  if (current) {
+    return await pb.collection('whatsapp_conversations').update(current.id, { ...data, 'unread_count+': 1 }) as unknown as WhatsAppConversation;
+  }
+  return await pb.collection('whatsapp_conversations').create({ ...data, phone, unread_count: 1 }) as unknown as WhatsAppConversation;
+}
+
+// Mark the most recent message we sent this number as replied to, for campaign reply counts
+async function markReplied(phone: string, repliedAt: string) {
+  const since = new Date(new Date(repliedAt).getTime() - REPLY_WINDOW_MS);
+  const result = await pb.collection('whatsapp_activities').getList(1, 1, {
+    filter: pb.filter('recipient = {:phone} && (status = "sent" || status = "delivered" || status = "read") && timestamp >= {:since}', { phone, since }),
+    sort: '-timestamp',
+  });
+  const latest = result.items[0];
+  if (latest && !latest.replied_at) {
+    await pb.collection('whatsapp_activities').update(latest.id, { replied_at: repliedAt });
+  }
+}
+
+async function recordStopReply(phone: string) {
+  const existing = await pb.collection('notification_opt_outs').getList(1, 1, {
+    filter: pb.filter('contact = {:phone} && (channel = "whatsapp" || channel = "all")', { phone }),
+  });
+  if (existing.totalItems > 0) return;
+
+  await pb.collection('notification_opt_outs').create({
+    contact: phone,
+    channel: 'whatsapp',
+    reason: 'stop_reply',
+    note: 'Replied STOP on WhatsApp',
+    created_by: 'WhatsApp webhook',
+  });
+}
+
+/**
+ * Store an incoming WhatsApp message in its phone number's thread, bump the thread's
+ * unread count and link it to the customer's latest order. Messages already stored
+ * (the API retries deliveries) are ignored.
+ */
+export async function recordInboundMessage(message: InboundWhatsAppMessage): Promise<InboundResult> {
+  await ensureAdminAuth();
+  const phone = formatPhoneNumber(message.from);
+
+  if (message.providerMessageId) {
+    const existing = await pb.collection('whatsapp_messages').getList(1, 1, {
+      filter: pb.filter('provider_message_id = {:id}', { id: message.providerMessageId }),
+    });
+    if (existing.totalItems > 0) return { status: 'duplicate' };
+  }
+
+  const conversation = await upsertConversation(phone, message);
+  await pb.collection('whatsapp_messages').create({
+    conversation_id: conversation.id,
+    phone,
+    direction: 'inbound',
+    kind: message.kind,
+    body: message.body,
+    media_url: message.mediaUrl || '',
+    provider_message_id: message.providerMessageId || '',
+    status: 'received',
+    timestamp: message.timestamp,
+  });
+
+  try {
+    await markReplied(phone, message.timestamp);
+    if (STOP_KEYWORDS.includes(message.body.trim().toLowerCase())) {
+      await recordStopReply(phone);
+    }
+  } catch (error) {
+    // The message itself is stored; these are best effort
+    console.error(`Error updating replies or opt-outs for ${phone}:`, error);
+  }
+
+  return { status: 'recorded', conversationId: conversation.id };
+}
@@ -3,6 +3,12 @@ import cors from 'cors';
 import bodyParser from 'body-parser';
 import dotenv from 'dotenv';
 import emailRoutes from '../api/email';
+import messageRoutes from '../api/messages';
+import razorpayRoutes from '../api/razorpay';
+import whatsappRoutes from '../api/whatsapp';
+import trackingRoutes from '../api/tracking';
+import { startMessageQueueWorker } from './messageQueue';
+import { startNotificationWorker } from './notifications';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 import { SERVER_ENV } from '../lib/env';
@@ -40,6 +46,10 @@ const PORT = process.env.PORT || 3000;
 
 // Middleware
 app.use(cors());
+
+// Razorpay webhooks are verified against the raw body, so they go before the JSON parser
+app.use('/api/razorpay', razorpayRoutes);
+
 app.use(bodyParser.json({ limit: '10mb' }));
 app.use(bodyParser.urlencoded({ extended: true }));
 
@@ -51,6 +61,15 @@ app.get('/api', (req, res) => {
 // Email API Routes
 app.use('/email-api', emailRoutes);
 
+// WhatsApp and email sending for the admin app
+app.use('/api/messages', messageRoutes);
+
+// Incoming WhatsApp messages for the inbox, and delivery and read receipts
+app.use('/api/whatsapp', whatsappRoutes);
+
+// Email open pixels and click redirects
+app.use('/api/track', trackingRoutes);
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.status(200).json({ status: 'ok' });
@@ -78,6 +97,8 @@ app.get('/debug-env', (req, res) => {
 // Start the server
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  startMessageQueueWorker();
+  startNotificationWorker();
   console.log('Environment:', process.env.NODE_ENV);
   console.log('API URL:', SERVER_ENV.VITE_API_URL);
   console.log('Email API URL:', SERVER_ENV.VITE_EMAIL_API_URL);
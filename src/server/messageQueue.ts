@@ -0,0 +1,432 @@
+import axios from 'axios';
+import { randomUUID } from 'crypto';
+import { pb, ensureAdminAuth } from './pocketbase';
+import { claim, releaseClaim } from './claims';
+import { EmailSender, sendEmail, sendEmailWithAttachment } from './emailService';
+import { isWhatsAppMessageKind, sendWhatsApp } from './whatsappService';
+
+export type QueueChannel = 'whatsapp' | 'email';
+export type QueueStatus = 'pending' | 'processing' | 'sent' | 'dead' | 'cancelled';
+
+interface QueuedMessage {
+  id: string;
+  channel: QueueChannel;
+  kind: string;
+  recipient: string;
+  payload: Record<string, unknown>;
+  order_id: string;
+  template_name: string;
+  idempotency_key: string;
+  status: QueueStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string;
+  activity_id: string;
+  campaign_id: string;
+}
+
+interface EmailPayload {
+  to: string;
+  subject: string;
+  message: string;
+  // Plain-text alternative, for templates built in the block editor
+  text?: string;
+  variables?: Record<string, string>;
+  sender?: EmailSender;
+  attachments?: Array<{ filename: string; content: string; contentType: string }>;
+}
+
+export const QUEUE_CONFIG = {
+  pollIntervalMs: 5000,
+  batchSize: 10,
+  baseDelayMs: 30 * 1000, // 30 seconds
+  maxDelayMs: 60 * 60 * 1000, // 1 hour
+  // Messages stuck in "processing" this long belong to a worker that died mid-send
+  lockTimeoutMs: 5 * 60 * 1000,
+  // How often claims of finished messages are cleared out
+  claimPruneIntervalMs: 10 * 60 * 1000,
+};
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+// A retry or cancel that the message's current status doesn't allow
+export class QueueStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueueStateError';
+  }
+}
+
+export const ACTIVITY_COLLECTIONS: Record<QueueChannel, string> = {
+  whatsapp: 'whatsapp_activities',
+  email: 'email_activities',
+};
+
+export interface EnqueueOptions {
+  orderId?: string;
+  templateName?: string;
+  // Defaults to a fresh key, so manual and bulk sends always go out; automatic sends pass their own
+  idempotencyKey?: string;
+  maxAttempts?: number;
+  campaignId?: string;
+  // Hold the message until this time; defaults to now
+  sendAt?: Date;
+}
+
+export interface EnqueueResult {
+  success: boolean;
+  message: string;
+  messageId?: string;
+  status?: string;
+  timestamp?: string;
+  // The same message was already queued or sent
+  duplicate?: boolean;
+}
+
+// Exponential backoff: 30s, 1m, 2m, 4m ... capped at an hour, plus up to 20% jitter
+// so messages that failed together during an outage don't all retry at once
+export function getBackoffDelay(attempt: number): number {
+  const delay = Math.min(QUEUE_CONFIG.baseDelayMs * 2 ** Math.max(attempt - 1, 0), QUEUE_CONFIG.maxDelayMs);
+  return Math.round(delay * (1 + Math.random() * 0.2));
+}
+
+const errorMessage = (error: unknown) => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || error.response?.data?.error || error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+// Send one message; throws when the provider rejects it so the caller can schedule a retry
+async function deliver(message: QueuedMessage): Promise<string> {
+  if (message.channel === 'whatsapp') {
+    if (!isWhatsAppMessageKind(message.kind)) throw new Error(`Unknown WhatsApp message kind: ${message.kind}`);
+    return sendWhatsApp(message.kind, message.payload);
+  }
+
+  const { to, subject, message: html, text, variables, sender, attachments } = message.payload as unknown as EmailPayload;
+  // Opens and clicks are tracked against the message's activity
+  const trackingId = message.activity_id || undefined;
+  const result = attachments && attachments.length > 0
+    ? await sendEmailWithAttachment(to, subject, html, attachments, variables, sender, trackingId, text)
+    : await sendEmail(to, subject, html, variables, sender, trackingId, text);
+  if (!result.success) {
+    throw new Error(result.message);
+  }
+  return 'messageId' in result ? result.messageId || '' : '';
+}
+
+// Keep the activity log in step with the queue. `detail` is the provider's message id once sent
+// (its status callbacks refer to it), or the error when the message failed
+async function updateActivity(message: QueuedMessage, status: 'sent' | 'failed', detail: string) {
+  if (!message.activity_id) return;
+
+  const collection = ACTIVITY_COLLECTIONS[message.channel];
+  try {
+    await pb.collection(collection).update(message.activity_id, {
+      status,
+      timestamp: new Date().toISOString(),
+      error_message: status === 'failed' ? detail : '',
+      ...(status === 'sent' ? { provider_message_id: detail } : {}),
+    });
+  } catch (error) {
+    console.error(`Error updating ${collection} record ${message.activity_id}:`, error);
+  }
+}
+
+async function processMessage(message: QueuedMessage) {
+  // Claim this attempt so a second worker that read the same batch doesn't send it too.
+  // Every retry, backoff or released lock moves next_attempt_at, which makes a new claim.
+  const claimKey = `message:${message.id}:${message.next_attempt_at}`;
+  if (!(await claim(claimKey))) return;
+
+  try {
+    await pb.collection('message_queue').update(message.id, {
+      status: 'processing',
+      locked_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    // Still pending, so give the attempt back for the next run
+    await releaseClaim(claimKey).catch(releaseError => {
+      console.error(`Error releasing claim ${claimKey}:`, releaseError);
+    });
+    throw error;
+  }
+
+  const attempts = (message.attempts || 0) + 1;
+
+  try {
+    const providerMessageId = await deliver(message);
+    await pb.collection('message_queue').update(message.id, {
+      status: 'sent',
+      attempts,
+      sent_at: new Date().toISOString(),
+      provider_message_id: providerMessageId,
+      last_error: '',
+    });
+    await updateActivity(message, 'sent', providerMessageId);
+  } catch (error) {
+    const lastError = errorMessage(error);
+
+    if (attempts >= message.max_attempts) {
+      // Dead letter: stays in the queue for a manual retry from the activities pages
+      console.error(`Message ${message.id} failed ${attempts} times, moving to dead letter:`, lastError);
+      await pb.collection('message_queue').update(message.id, {
+        status: 'dead',
+        attempts,
+        last_error: lastError,
+      });
+      await updateActivity(message, 'failed', lastError);
+      return;
+    }
+
+    const nextAttemptAt = new Date(Date.now() + getBackoffDelay(attempts));
+    console.warn(`Message ${message.id} attempt ${attempts} failed, retrying at ${nextAttemptAt.toISOString()}:`, lastError);
+    await pb.collection('message_queue').update(message.id, {
+      status: 'pending',
+      attempts,
+      last_error: lastError,
+      next_attempt_at: nextAttemptAt.toISOString(),
+    });
+  }
+}
+
+async function releaseStaleLocks() {
+  const staleBefore = new Date(Date.now() - QUEUE_CONFIG.lockTimeoutMs);
+  const stale = await pb.collection('message_queue').getFullList({
+    filter: pb.filter('status = "processing" && locked_at < {:staleBefore}', { staleBefore }),
+  });
+
+  for (const record of stale) {
+    await pb.collection('message_queue').update(record.id, {
+      status: 'pending',
+      next_attempt_at: new Date().toISOString(),
+    });
+  }
+}
+
+// Delete attempt claims no worker can need again: those of messages that are sent, dead-lettered,
+// cancelled or deleted, and of earlier attempts of messages still waiting to go out
+async function pruneMessageClaims() {
+  const claims = await pb.collection('claims').getList(1, 200, {
+    filter: 'key ~ "message:%"',
+    fields: 'id,key',
+  });
+  if (claims.items.length === 0) return;
+
+  const messageIds = [...new Set(claims.items.map(record => String(record.key).split(':')[1]))];
+  const params = Object.fromEntries(messageIds.map((id, index) => [`id${index}`, id]));
+  const messages = await pb.collection('message_queue').getFullList({
+    filter: pb.filter(messageIds.map((_, index) => `id = {:id${index}}`).join(' || '), params),
+    fields: 'id,status,next_attempt_at',
+  });
+  const current = new Set(messages
+    .filter(record => record.status === 'pending' || record.status === 'processing')
+    .map(record => `message:${record.id}:${record.next_attempt_at}`));
+
+  for (const record of claims.items) {
+    if (current.has(record.key)) continue;
+    await pb.collection('claims').delete(record.id).catch(error => {
+      console.error(`Error deleting claim ${record.key}:`, error);
+    });
+  }
+}
+
+// Send every message that is due, oldest first
+export async function drainMessageQueue(): Promise<number> {
+  const due = await pb.collection('message_queue').getList(1, QUEUE_CONFIG.batchSize, {
+    filter: pb.filter('status = "pending" && next_attempt_at <= {:now}', { now: new Date() }),
+    sort: 'next_attempt_at',
+  });
+
+  for (const record of due.items) {
+    try {
+      await processMessage(record as unknown as QueuedMessage);
+    } catch (error) {
+      console.error(`Error processing queued message ${record.id}:`, error);
+    }
+  }
+
+  return due.items.length;
+}
+
+function buildIdempotencyKey(channel: QueueChannel, options: EnqueueOptions): string {
+  if (options.idempotencyKey) return options.idempotencyKey;
+  if (options.orderId && options.templateName) {
+    return `${channel}:${options.orderId}:${options.templateName}:${randomUUID()}`;
+  }
+  return `${channel}:${randomUUID()}`;
+}
+
+// What the activity log shows for a queued message; media sent as data URLs is left out
+function describePayload(channel: QueueChannel, payload: Record<string, unknown>): string {
+  if (channel === 'email') {
+    return String(payload.message || '');
+  }
+
+  const { message, caption, variables, imageUrl, videoUrl, documentUrl, filename } = payload as Record<string, string>;
+  const mediaUrl = imageUrl || videoUrl || documentUrl;
+  return JSON.stringify({
+    message: message || caption || '',
+    variables,
+    mediaUrl: mediaUrl && !mediaUrl.startsWith('data:') ? mediaUrl : undefined,
+    filename,
+  });
+}
+
+/**
+ * Put a message on the queue and log it as a queued activity.
+ * A message whose idempotency key is already pending or sent is not queued twice.
+ */
+export async function enqueueMessage(
+  channel: QueueChannel,
+  kind: string,
+  recipient: string,
+  payload: Record<string, unknown>,
+  options: EnqueueOptions = {}
+): Promise<EnqueueResult> {
+  const idempotencyKey = buildIdempotencyKey(channel, options);
+  await ensureAdminAuth();
+
+  const existing = await pb.collection('message_queue')
+    .getFirstListItem(pb.filter('idempotency_key = {:key}', { key: idempotencyKey }))
+    .then(record => record as unknown as QueuedMessage)
+    .catch(() => null);
+
+  if (existing && existing.status !== 'cancelled' && existing.status !== 'dead') {
+    return {
+      success: true,
+      message: existing.status === 'sent' ? 'Message was already sent' : 'Message is already queued',
+      messageId: existing.id,
+      status: existing.status,
+      duplicate: true,
+    };
+  }
+
+  const activity = await pb.collection(ACTIVITY_COLLECTIONS[channel]).create({
+    order_id: options.orderId || 'N/A',
+    template_name: options.templateName || (channel === 'email' ? 'custom_email' : 'custom_message'),
+    recipient,
+    status: 'queued',
+    message_content: describePayload(channel, payload),
+    subject: channel === 'email' ? payload.subject : undefined,
+    campaign_id: options.campaignId || '',
+    timestamp: new Date().toISOString(),
+  });
+
+  const data = {
+    channel,
+    kind,
+    recipient,
+    payload,
+    order_id: options.orderId || '',
+    template_name: options.templateName || '',
+    idempotency_key: idempotencyKey,
+    status: 'pending',
+    attempts: 0,
+    max_attempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+    next_attempt_at: (options.sendAt || new Date()).toISOString(),
+    last_error: '',
+    activity_id: activity.id,
+    campaign_id: options.campaignId || '',
+  };
+
+  // A cancelled or dead-lettered message with the same key is sent again in place
+  const record = existing
+    ? await pb.collection('message_queue').update(existing.id, data)
+    : await pb.collection('message_queue').create(data);
+
+  await pb.collection(ACTIVITY_COLLECTIONS[channel]).update(activity.id, { queue_id: record.id });
+
+  return {
+    success: true,
+    message: 'Message queued',
+    messageId: record.id,
+    status: 'queued',
+    timestamp: new Date().toISOString(),
+  };
+}
+
+// Send a dead-lettered message, or one waiting out the backoff after a failed attempt, again straight away
+export async function retryQueuedMessage(queueId: string): Promise<void> {
+  await ensureAdminAuth();
+  const current = await pb.collection('message_queue').getOne(queueId) as unknown as QueuedMessage;
+  const failed = current.status === 'dead' || (current.status === 'pending' && current.attempts > 0);
+  if (!failed) {
+    throw new QueueStateError(
+      current.status === 'sent' ? 'Message has already been sent'
+        : current.status === 'processing' ? 'Message is being sent right now'
+        : current.status === 'cancelled' ? 'Message was cancelled'
+        : 'Message has not failed yet'
+    );
+  }
+
+  const record = await pb.collection('message_queue').update(queueId, {
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: new Date().toISOString(),
+    last_error: '',
+  }) as unknown as QueuedMessage;
+
+  if (record.activity_id) {
+    await pb.collection(ACTIVITY_COLLECTIONS[record.channel]).update(record.activity_id, {
+      status: 'queued',
+      error_message: '',
+    });
+  }
+}
+
+// Stop a message that hasn't been sent yet
+export async function cancelQueuedMessage(queueId: string): Promise<void> {
+  await ensureAdminAuth();
+  const current = await pb.collection('message_queue').getOne(queueId) as unknown as QueuedMessage;
+  if (current.status === 'sent' || current.status === 'processing') {
+    throw new QueueStateError(current.status === 'sent' ? 'Message has already been sent' : 'Message is being sent right now');
+  }
+
+  await pb.collection('message_queue').update(queueId, { status: 'cancelled' });
+  if (current.activity_id) {
+    await pb.collection(ACTIVITY_COLLECTIONS[current.channel]).update(current.activity_id, { status: 'cancelled' });
+  }
+}
+
+/**
+ * Poll the `message_queue` collection and send due messages.
+ * Returns a function that stops the worker.
+ */
+export function startMessageQueueWorker(): () => void {
+  let isRunning = false;
+  let lastPrunedAt = 0;
+
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+
+    try {
+      await ensureAdminAuth();
+      await releaseStaleLocks();
+
+      // Keep draining while full batches come back
+      let processed: number;
+      do {
+        processed = await drainMessageQueue();
+      } while (processed === QUEUE_CONFIG.batchSize);
+
+      if (Date.now() - lastPrunedAt >= QUEUE_CONFIG.claimPruneIntervalMs) {
+        lastPrunedAt = Date.now();
+        await pruneMessageClaims();
+      }
+    } catch (error) {
+      console.error('Message queue worker error:', error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const timer = setInterval(tick, QUEUE_CONFIG.pollIntervalMs);
+  tick();
+  console.log('Message queue worker started');
+
+  return () => clearInterval(timer);
+}
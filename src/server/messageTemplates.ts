@@ -0,0 +1,63 @@
+import type { Order } from '../types/schema';
+import { buildOrderContext, OrderTemplateContext, TemplateLineItem, TemplateScope } from '../lib/templateEngine';
+import { pb, ensureAdminAuth } from './pocketbase';
+
+interface StoredTemplate {
+  id: string;
+  name: string;
+  content: string;
+  subject?: string;
+  // Plain-text alternative of email templates built in the block editor
+  text_content?: string;
+  isActive: boolean;
+}
+
+// Load an active template by name from `whatsapp_templates` or `email_templates`
+export async function loadTemplate(
+  collection: 'whatsapp_templates' | 'email_templates',
+  name: string
+): Promise<StoredTemplate> {
+  await ensureAdminAuth();
+  const template = await pb.collection(collection)
+    .getFirstListItem(pb.filter('name = {:name}', { name })) as unknown as StoredTemplate;
+
+  if (!template.isActive) {
+    throw new Error(`Template "${name}" is inactive`);
+  }
+  return template;
+}
+
+export async function loadOrder(orderId: string): Promise<Order> {
+  await ensureAdminAuth();
+  return await pb.collection('orders').getOne(orderId) as unknown as Order;
+}
+
+async function loadStoreSettings() {
+  await ensureAdminAuth();
+  const result = await pb.collection('store_settings').getList(1, 1, { sort: 'created' });
+  const settings = result.items[0];
+  return {
+    storeName: (settings?.store_name as string) || process.env.VITE_SITE_TITLE || 'Konipai',
+    currency: (settings?.currency as string) || 'INR',
+    replyTo: (settings?.support_email || settings?.email || undefined) as string | undefined,
+  };
+}
+
+// Sender details and the {{storeName}} variable for outgoing email, from the store settings
+export async function loadEmailDefaults(): Promise<{ sender: { name: string; replyTo?: string }; variables: Record<string, string> }> {
+  const { storeName, replyTo } = await loadStoreSettings();
+
+  return {
+    sender: { name: storeName, replyTo },
+    variables: { storeName },
+  };
+}
+
+// The variables saved templates can use for an order, rendered with renderTemplate
+export async function loadOrderContext(
+  order: Order,
+  options: { items?: TemplateLineItem[]; extra?: TemplateScope } = {}
+): Promise<OrderTemplateContext> {
+  const { storeName, currency } = await loadStoreSettings();
+  return buildOrderContext(order, { storeName, currency }, options);
+}
@@ -0,0 +1,362 @@
+import type {
+  NotificationChannel,
+  NotificationContext,
+  NotificationDecision,
+  NotificationEvent,
+  NotificationLog,
+  NotificationOptOut,
+  Order,
+  Product,
+} from '../types/schema';
+import { renderTemplate, TemplateLineItem, TemplateRenderError, TemplateScope, toLineItem } from '../lib/templateEngine';
+import { EMAIL_MESSAGES, EmailTemplate, refundConfirmationKey, WHATSAPP_MESSAGES, WhatsAppTemplate } from '../lib/orderMessages';
+import {
+  getQuietHoursEnd,
+  NOTIFICATION_CHANNELS,
+  NotificationSettings,
+  OPT_OUT_REASON_LABELS,
+  settingsSkipReason,
+} from '../lib/notificationRules';
+import { claim, releaseClaim } from './claims';
+import { enqueueMessage } from './messageQueue';
+import { loadEmailDefaults, loadOrder, loadOrderContext } from './messageTemplates';
+import { pb, ensureAdminAuth } from './pocketbase';
+import { formatPhoneNumber } from './whatsappService';
+
+export const NOTIFICATION_WORKER_CONFIG = {
+  pollIntervalMs: 30 * 1000,
+  // Tries of a deferred or queued entry before it is marked failed
+  maxAttempts: 5,
+};
+
+// Same defaults as DEFAULT_STORE_SETTINGS in src/lib/storeSettings.ts, which the server can't import
+const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  email_notifications: true,
+  whatsapp_notifications: true,
+  order_confirmations: true,
+  payment_notifications: true,
+  shipping_updates: true,
+  notification_channels: {},
+  quiet_hours_enabled: false,
+  quiet_hours_start: '21:00',
+  quiet_hours_end: '08:00',
+  timezone: 'Asia/Kolkata',
+};
+
+// Built-in message each event sends on each channel
+const EVENT_TEMPLATES: Record<NotificationEvent, { whatsapp: WhatsAppTemplate; email: EmailTemplate }> = {
+  order_confirmation: { whatsapp: WhatsAppTemplate.ORDER_CONFIRMATION, email: EmailTemplate.ORDER_CONFIRMATION },
+  payment_success: { whatsapp: WhatsAppTemplate.PAYMENT_SUCCESS, email: EmailTemplate.PAYMENT_SUCCESS },
+  payment_failed: { whatsapp: WhatsAppTemplate.PAYMENT_FAILED, email: EmailTemplate.PAYMENT_FAILED },
+  order_shipped: { whatsapp: WhatsAppTemplate.ORDER_SHIPPED, email: EmailTemplate.ORDER_SHIPPED },
+  out_for_delivery: { whatsapp: WhatsAppTemplate.OUT_FOR_DELIVERY, email: EmailTemplate.OUT_FOR_DELIVERY },
+  order_delivered: { whatsapp: WhatsAppTemplate.ORDER_DELIVERED, email: EmailTemplate.ORDER_DELIVERED },
+  refund_confirmation: { whatsapp: WhatsAppTemplate.REFUND_CONFIRMATION, email: EmailTemplate.REFUND_CONFIRMATION },
+};
+
+async function loadNotificationSettings(): Promise<NotificationSettings> {
+  await ensureAdminAuth();
+  const result = await pb.collection('store_settings').getList(1, 1, { sort: 'created' });
+  const record = result.items[0];
+  const settings = { ...DEFAULT_NOTIFICATION_SETTINGS };
+  if (record) {
+    (Object.keys(settings) as (keyof NotificationSettings)[]).forEach(key => {
+      if (record[key] !== undefined && record[key] !== null) {
+        (settings as Record<string, unknown>)[key] = record[key];
+      }
+    });
+  }
+  return settings;
+}
+
+// Same normalisation as normalizeContact in src/lib/notifications.ts
+const recipientFor = (order: Order, channel: NotificationChannel) => {
+  const contact = channel === 'whatsapp' ? order.customer_phone : order.customer_email;
+  if (!contact) return '';
+  return channel === 'whatsapp' ? formatPhoneNumber(contact) : contact.trim().toLowerCase();
+};
+
+async function findOptOut(channel: NotificationChannel, contact: string): Promise<NotificationOptOut | null> {
+  const result = await pb.collection('notification_opt_outs').getList(1, 1, {
+    filter: pb.filter('contact = {:contact} && (channel = {:channel} || channel = "all")', { contact, channel }),
+  });
+  return (result.items[0] as unknown as NotificationOptOut) || null;
+}
+
+async function loadOrderItems(orderId: string): Promise<TemplateLineItem[]> {
+  const items = await pb.collection('order_items').getList(1, 100, {
+    filter: pb.filter('order_id = {:orderId}', { orderId }),
+    expand: 'product_id',
+  });
+
+  return items.items.map(item => {
+    const product = item.expand?.product_id as unknown as Product;
+    return toLineItem({
+      name: product ? product.name : 'Unknown Product',
+      price: typeof item.price === 'number' ? item.price : parseFloat(item.price as string) || 0,
+      quantity: typeof item.quantity === 'number' ? item.quantity : parseInt(item.quantity as string) || 1,
+    });
+  });
+}
+
+// Same values the send helpers in src/lib/whatsapp.ts and src/lib/email.ts fill in for each event
+function eventVariables(event: NotificationEvent, order: Order, context: NotificationContext): TemplateScope {
+  switch (event) {
+    case 'payment_success':
+      return { orderUrl: `${process.env.VITE_BASE_URL || ''}/orders/${order.id}` };
+    case 'payment_failed':
+      return { retryUrl: context.retryUrl || '' };
+    case 'order_shipped':
+      return {
+        trackingLink: context.trackingLink || order.tracking_link || '',
+        carrier: context.carrier || order.shipping_carrier || '',
+        estimatedDelivery: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      };
+    case 'order_delivered':
+      return { feedbackLink: context.feedbackLink || '' };
+    case 'refund_confirmation':
+      return { refundAmount: context.refundAmount || order.refund_amount || order.totalAmount };
+    default:
+      return {};
+  }
+}
+
+// Render the event's built-in message and put it on the outbound queue. `eventKey` keeps a retry
+// of the same event from sending twice, while the same event raised again gets its own message.
+async function queueNotification(
+  event: NotificationEvent,
+  order: Order,
+  channel: NotificationChannel,
+  recipient: string,
+  context: NotificationContext
+) {
+  const items = event === 'order_confirmation' ? await loadOrderItems(order.id) : undefined;
+  const templateContext = await loadOrderContext(order, { items, extra: eventVariables(event, order, context) });
+  const templateName = EVENT_TEMPLATES[event][channel];
+  const options = {
+    orderId: order.id,
+    templateName,
+    idempotencyKey: context.refundId
+      ? refundConfirmationKey(channel, order.id, context.refundId)
+      : `${channel}:${order.id}:${templateName}:${context.eventKey}`,
+  };
+
+  if (channel === 'whatsapp') {
+    const template = WHATSAPP_MESSAGES[templateName as WhatsAppTemplate];
+    if (!template) throw new Error(`No built-in message for template "${templateName}"`);
+    const message = renderTemplate(template, templateContext);
+    return enqueueMessage('whatsapp', 'text', recipient, { number: recipient, message }, options);
+  }
+
+  const template = EMAIL_MESSAGES[templateName as EmailTemplate];
+  if (!template) throw new Error(`No built-in email for template "${templateName}"`);
+  const defaults = await loadEmailDefaults();
+  return enqueueMessage('email', 'email', recipient, {
+    to: recipient,
+    subject: renderTemplate(template.subject, templateContext),
+    message: renderTemplate(template.html, templateContext, { format: 'html' }),
+    sender: defaults.sender,
+  }, options);
+}
+
+/**
+ * Server-side counterpart of dispatchToChannel in src/lib/notifications.ts: the same
+ * settings, opt-out and quiet-hours checks, with the decision written to `notification_log`.
+ * Throws when PocketBase can't be reached, so the caller can try again later.
+ */
+async function dispatchToChannel(
+  event: NotificationEvent,
+  order: Order,
+  channel: NotificationChannel,
+  context: NotificationContext,
+  settings: NotificationSettings,
+  afterQuietHours: boolean
+): Promise<NotificationDecision> {
+  const recipient = recipientFor(order, channel);
+  const outcome = async (decision: NotificationDecision, reason: string, scheduledFor?: Date) => {
+    await pb.collection('notification_log').create({
+      order_id: order.id,
+      event,
+      channel,
+      recipient,
+      decision,
+      reason,
+      context,
+      scheduled_for: scheduledFor ? scheduledFor.toISOString() : '',
+      processed_at: '',
+    });
+    return decision;
+  };
+
+  const settingsReason = settingsSkipReason(event, channel, settings);
+  if (settingsReason) {
+    return outcome('skipped', settingsReason);
+  }
+  if (!recipient) {
+    return outcome('skipped', channel === 'whatsapp' ? 'Order has no phone number' : 'Order has no email address');
+  }
+
+  const optOut = await findOptOut(channel, recipient);
+  if (optOut) {
+    return outcome('skipped', `Customer opted out: ${OPT_OUT_REASON_LABELS[optOut.reason] || optOut.reason}`);
+  }
+
+  const resumeAt = afterQuietHours ? null : getQuietHoursEnd(settings);
+  if (resumeAt) {
+    return outcome('deferred', `Quiet hours (${settings.quiet_hours_start}–${settings.quiet_hours_end})`, resumeAt);
+  }
+
+  let result: Awaited<ReturnType<typeof enqueueMessage>>;
+  try {
+    result = await queueNotification(event, order, channel, recipient, context);
+  } catch (error) {
+    // A message that can't be rendered won't render next time either
+    if (error instanceof TemplateRenderError) {
+      return outcome('failed', error.message);
+    }
+    throw error;
+  }
+
+  if (result.duplicate) {
+    return outcome('skipped', result.message);
+  }
+  return outcome('sent', afterQuietHours ? 'Sent after quiet hours' : 'Sent');
+}
+
+// Errors no retry can fix: the order was deleted, or PocketBase rejected the record
+const isPermanentError = (error: unknown) => {
+  const status = (error as { status?: number }).status;
+  return status === 404 || status === 400;
+};
+
+// Count a failed try of a due entry; give up on it after too many, or straight away when it can't succeed
+async function recordAttemptFailure(record: NotificationLog, claimKey: string, error: unknown) {
+  const attempts = (record.attempts || 0) + 1;
+  try {
+    if (isPermanentError(error) || attempts >= NOTIFICATION_WORKER_CONFIG.maxAttempts) {
+      // Processed, so the claim can stay where it is
+      await pb.collection('notification_log').update(record.id, {
+        decision: 'failed',
+        reason: error instanceof Error ? error.message : String(error),
+        attempts,
+        processed_at: new Date().toISOString(),
+      });
+      return;
+    }
+    await pb.collection('notification_log').update(record.id, { attempts });
+  } catch (updateError) {
+    console.error(`Error recording the failed attempt of notification ${record.id}:`, updateError);
+  }
+  await releaseClaim(claimKey).catch(releaseError => {
+    console.error(`Error releasing claim ${claimKey}:`, releaseError);
+  });
+}
+
+/**
+ * Send the notifications that are due: those held back by quiet hours and those
+ * sendOrderNotification below couldn't send. Each entry is claimed first, so two
+ * workers never send it twice, and marked processed only once its decision is
+ * recorded; an entry that fails part-way is released and tried again on the next run,
+ * up to NOTIFICATION_WORKER_CONFIG.maxAttempts times.
+ */
+export async function processDueNotifications(): Promise<number> {
+  await ensureAdminAuth();
+  const due = await pb.collection('notification_log').getFullList({
+    filter: pb.filter(
+      '(decision = "deferred" || decision = "queued") && processed_at = "" && scheduled_for <= {:now}',
+      { now: new Date() }
+    ),
+    sort: 'scheduled_for',
+  });
+  if (due.length === 0) return 0;
+
+  const settings = await loadNotificationSettings();
+  let processed = 0;
+  for (const record of due as unknown as NotificationLog[]) {
+    const claimKey = `notification:${record.id}`;
+    if (!(await claim(claimKey))) continue;
+
+    try {
+      const order = await loadOrder(record.order_id);
+      await dispatchToChannel(
+        record.event,
+        order,
+        record.channel,
+        // Entries held back by the admin app have no event key; the entry itself identifies the event
+        { eventKey: record.id, ...record.context },
+        settings,
+        record.decision === 'deferred'
+      );
+      await pb.collection('notification_log').update(record.id, { processed_at: new Date().toISOString() });
+      processed++;
+    } catch (error) {
+      console.error(`Error sending notification ${record.id}:`, error);
+      await recordAttemptFailure(record, claimKey, error);
+    }
+  }
+  return processed;
+}
+
+/**
+ * Send an order event raised on the server (Razorpay webhooks) through the same checks
+ * as the admin app, straight onto the outbound queue. A channel that can't be dispatched
+ * right now is written as a `queued` notification_log entry for the worker to retry.
+ */
+export async function sendOrderNotification(
+  event: NotificationEvent,
+  order: Order,
+  reason: string,
+  context: NotificationContext = {}
+) {
+  await ensureAdminAuth();
+  // Kept in the log entry of a channel left for the worker, so its retry has the same key
+  context = { eventKey: new Date().toISOString(), ...context };
+
+  let settings: NotificationSettings | null = null;
+  for (const channel of NOTIFICATION_CHANNELS) {
+    try {
+      settings = settings || await loadNotificationSettings();
+      await dispatchToChannel(event, order, channel, context, settings, false);
+    } catch (error) {
+      console.error(`Error sending ${event} via ${channel}, leaving it for the notification worker:`, error);
+      await pb.collection('notification_log').create({
+        order_id: order.id,
+        event,
+        channel,
+        recipient: recipientFor(order, channel),
+        decision: 'queued',
+        reason,
+        context,
+        scheduled_for: new Date().toISOString(),
+        processed_at: '',
+      });
+    }
+  }
+}
+
+/**
+ * Poll `notification_log` for due notifications and send them.
+ * Returns a function that stops the worker.
+ */
+export function startNotificationWorker(): () => void {
+  let isRunning = false;
+
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+
+    try {
+      await processDueNotifications();
+    } catch (error) {
+      console.error('Notification worker error:', error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const timer = setInterval(tick, NOTIFICATION_WORKER_CONFIG.pollIntervalMs);
+  tick();
+  console.log('Notification worker started');
+
+  return () => clearInterval(timer);
+}
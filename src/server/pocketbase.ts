@@ -0,0 +1,21 @@
+import PocketBase from 'pocketbase';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Shared PocketBase client for background jobs running in the Node server
+export const pb = new PocketBase(process.env.VITE_POCKETBASE_URL || 'https://backend-pocketbase.7za6uc.easypanel.host');
+pb.autoCancellation(false);
+
+export async function ensureAdminAuth() {
+  if (pb.authStore.isValid) {
+    return;
+  }
+
+  if (!process.env.POCKETBASE_ADMIN_EMAIL || !process.env.POCKETBASE_ADMIN_PASSWORD) {
+    throw new Error('POCKETBASE_ADMIN_EMAIL and POCKETBASE_ADMIN_PASSWORD must be set for background jobs');
+  }
+
+  await pb.admins.authWithPassword(process.env.POCKETBASE_ADMIN_EMAIL, process.env.POCKETBASE_ADMIN_PASSWORD);
+}
@@ -0,0 +1,343 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import dotenv from 'dotenv';
+import type { Order, RazorpayOrder, RazorpayWebhookEvent, RazorpayWebhookStatus } from '../types/schema';
+import { pb, ensureAdminAuth } from './pocketbase';
+import { sendOrderNotification } from './notifications';
+
+// Load environment variables
+dotenv.config();
+
+// The parts of Razorpay's payment and refund entities the webhook uses. Amounts are in paise.
+export interface RazorpayPaymentEntity {
+  id: string;
+  entity: 'payment';
+  amount: number;
+  currency: string;
+  status: string;
+  order_id?: string;
+  method?: string;
+  amount_refunded?: number;
+  error_code?: string;
+  error_description?: string;
+  notes?: Record<string, string>;
+}
+
+export interface RazorpayRefundEntity {
+  id: string;
+  entity: 'refund';
+  amount: number;
+  currency: string;
+  payment_id: string;
+  status: string;
+  notes?: Record<string, string>;
+}
+
+export interface RazorpayWebhookBody {
+  entity: 'event';
+  account_id?: string;
+  event: string;
+  contains?: string[];
+  payload: {
+    payment?: { entity: RazorpayPaymentEntity };
+    refund?: { entity: RazorpayRefundEntity };
+  };
+  created_at: number;
+}
+
+export interface WebhookResult {
+  status: RazorpayWebhookStatus | 'duplicate';
+  message: string;
+}
+
+export function getRazorpayWebhookSecret(): string {
+  return process.env.RAZORPAY_WEBHOOK_SECRET || '';
+}
+
+// Hex HMAC-SHA256 of the raw request body, as sent in X-Razorpay-Signature
+export function signRazorpayPayload(body: string | Buffer, secret: string): string {
+  return createHmac('sha256', secret).update(body).digest('hex');
+}
+
+export function verifyRazorpaySignature(body: string | Buffer, signature: string, secret: string): boolean {
+  if (!signature || !secret) return false;
+
+  const expected = Buffer.from(signRazorpayPayload(body, secret));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// Razorpay sends X-Razorpay-Event-Id; fall back to the body hash so identical replays still match
+export function webhookEventId(headerValue: string | undefined, body: Buffer): string {
+  return headerValue || `sha256:${createHash('sha256').update(body).digest('hex')}`;
+}
+
+const toRupees = (paise: number) => Math.round(paise) / 100;
+
+async function findRazorpayOrder(filter: string, params: Record<string, unknown>): Promise<RazorpayOrder | null> {
+  return pb.collection('razorpay_orders')
+    .getFirstListItem(pb.filter(filter, params))
+    .then(record => record as unknown as RazorpayOrder)
+    .catch(() => null);
+}
+
+/**
+ * Find the CRM order a payment belongs to: through an existing razorpay_orders
+ * record, the order's own razorpay_order_id, or an `order_id` note set at checkout.
+ */
+async function findLinkedOrder(payment: RazorpayPaymentEntity, razorpayOrder: RazorpayOrder | null): Promise<Order | null> {
+  const getOrder = (id: string) => pb.collection('orders').getOne(id)
+    .then(record => record as unknown as Order)
+    .catch(() => null);
+
+  if (razorpayOrder?.order_id) {
+    const order = await getOrder(razorpayOrder.order_id);
+    if (order) return order;
+  }
+
+  if (payment.order_id) {
+    const order = await pb.collection('orders')
+      .getFirstListItem(pb.filter('razorpay_order_id = {:id}', { id: payment.order_id }))
+      .then(record => record as unknown as Order)
+      .catch(() => null);
+    if (order) return order;
+  }
+
+  return payment.notes?.order_id ? getOrder(payment.notes.order_id) : null;
+}
+
+// Create or update the razorpay_orders record for a payment
+async function upsertRazorpayOrder(
+  existing: RazorpayOrder | null,
+  payment: RazorpayPaymentEntity,
+  order: Order | null,
+  data: Partial<RazorpayOrder>
+) {
+  const record = {
+    order_id: existing?.order_id || order?.id || '',
+    razorpay_order_id: payment.order_id || existing?.razorpay_order_id || '',
+    amount: payment.amount,
+    currency: payment.currency || 'INR',
+    payment_id: payment.id,
+    method: payment.method || '',
+    ...data,
+  };
+
+  return existing
+    ? pb.collection('razorpay_orders').update(existing.id, record)
+    : pb.collection('razorpay_orders').create(record);
+}
+
+const retryUrlFor = (order: Order) => `${process.env.VITE_BASE_URL || ''}/checkout/retry/${order.id}`;
+
+async function handlePaymentCaptured(payment: RazorpayPaymentEntity): Promise<WebhookResult> {
+  const existing = payment.order_id
+    ? await findRazorpayOrder('razorpay_order_id = {:id}', { id: payment.order_id })
+    : await findRazorpayOrder('payment_id = {:id}', { id: payment.id });
+  const order = await findLinkedOrder(payment, existing);
+
+  await upsertRazorpayOrder(existing, payment, order, { status: 'paid', error_description: '' });
+
+  if (!order) {
+    return { status: 'processed', message: `Payment ${payment.id} captured but no order is linked to it` };
+  }
+  // Paid or (partially) refunded orders have already been through this
+  if (order.payment_status !== 'pending' && order.payment_status !== 'failed') {
+    return { status: 'processed', message: `Order ${order.id} is already ${order.payment_status}` };
+  }
+
+  const updated = await pb.collection('orders').update(order.id, {
+    payment_status: 'paid',
+    razorpay_payment_id: payment.id,
+    razorpay_order_id: payment.order_id || order.razorpay_order_id || '',
+  }) as unknown as Order;
+
+  await sendOrderNotification('payment_success', updated, 'Payment captured (Razorpay webhook)');
+  return { status: 'processed', message: `Order ${order.id} marked paid` };
+}
+
+async function handlePaymentFailed(payment: RazorpayPaymentEntity): Promise<WebhookResult> {
+  const existing = payment.order_id
+    ? await findRazorpayOrder('razorpay_order_id = {:id}', { id: payment.order_id })
+    : await findRazorpayOrder('payment_id = {:id}', { id: payment.id });
+  const order = await findLinkedOrder(payment, existing);
+
+  // A failed retry must not undo an earlier capture on the same Razorpay order
+  if (existing?.status === 'paid') {
+    return { status: 'ignored', message: `Razorpay order ${existing.razorpay_order_id} is already paid` };
+  }
+
+  await upsertRazorpayOrder(existing, payment, order, {
+    status: 'failed',
+    error_description: payment.error_description || payment.error_code || '',
+  });
+
+  if (!order) {
+    return { status: 'processed', message: `Payment ${payment.id} failed but no order is linked to it` };
+  }
+  if (order.payment_status !== 'pending') {
+    return { status: 'processed', message: `Order ${order.id} is already ${order.payment_status}` };
+  }
+
+  const updated = await pb.collection('orders').update(order.id, {
+    payment_status: 'failed',
+    razorpay_payment_id: payment.id,
+  }) as unknown as Order;
+
+  await sendOrderNotification('payment_failed', updated, 'Payment failed (Razorpay webhook)', {
+    retryUrl: retryUrlFor(updated),
+  });
+  return { status: 'processed', message: `Order ${order.id} marked failed` };
+}
+
+async function handleRefundProcessed(refund: RazorpayRefundEntity, payment?: RazorpayPaymentEntity): Promise<WebhookResult> {
+  const existing = await findRazorpayOrder('payment_id = {:id}', { id: refund.payment_id });
+  if (!existing) {
+    return { status: 'ignored', message: `No payment record for ${refund.payment_id}` };
+  }
+
+  // The payment entity carries the running total; otherwise add this refund to what we had
+  const refundedAmount = payment?.amount_refunded ?? (existing.refunded_amount || 0) + refund.amount;
+  await pb.collection('razorpay_orders').update(existing.id, { refunded_amount: refundedAmount });
+
+  if (!existing.order_id) {
+    return { status: 'processed', message: `Refund ${refund.id} recorded; no order is linked to it` };
+  }
+
+  // Refunds recorded from the admin app already updated the order and told the customer
+  const recorded = await pb.collection('refunds')
+    .getFirstListItem(pb.filter('razorpay_refund_id = {:id}', { id: refund.id }))
+    .catch(() => null);
+  if (recorded) {
+    return { status: 'processed', message: `Refund ${refund.id} was already recorded on order ${existing.order_id}` };
+  }
+
+  // Issued from the Razorpay dashboard: add it to the order's refund audit trail
+  let refundRecord;
+  try {
+    refundRecord = await pb.collection('refunds').create({
+      order_id: existing.order_id,
+      amount: toRupees(refund.amount),
+      reason: refund.notes?.reason || 'Refunded in Razorpay',
+      method: 'razorpay',
+      razorpay_refund_id: refund.id,
+      items: [],
+      actor: 'Razorpay webhook',
+      actor_id: '',
+    });
+  } catch (error) {
+    // The unique index on razorpay_refund_id rejects a refund an operator recorded meanwhile
+    const concurrent = await pb.collection('refunds')
+      .getFirstListItem(pb.filter('razorpay_refund_id = {:id}', { id: refund.id }))
+      .catch(() => null);
+    if (concurrent) {
+      return { status: 'processed', message: `Refund ${refund.id} was recorded on order ${existing.order_id} meanwhile` };
+    }
+    throw error;
+  }
+
+  const refunds = await pb.collection('refunds').getFullList({
+    filter: pb.filter('order_id = {:orderId}', { orderId: existing.order_id }),
+    fields: 'amount',
+  });
+  const refundedTotal = Math.round(refunds.reduce((sum, record) => sum + (Number(record.amount) || 0), 0) * 100) / 100;
+  const current = await pb.collection('orders').getOne(existing.order_id) as unknown as Order;
+
+  const order = await pb.collection('orders').update(existing.order_id, {
+    refund_amount: refundedTotal,
+    payment_status: Math.round(refundedTotal * 100) >= Math.round((current.total || 0) * 100) ? 'refunded' : 'partially_refunded',
+  }) as unknown as Order;
+
+  await sendOrderNotification('refund_confirmation', order, 'Refund processed (Razorpay webhook)', {
+    refundAmount: toRupees(refund.amount),
+    refundId: refundRecord.id,
+  });
+  return { status: 'processed', message: `Refund of ${toRupees(refund.amount)} recorded on order ${order.id}` };
+}
+
+function handleEvent(body: RazorpayWebhookBody): Promise<WebhookResult> {
+  const payment = body.payload?.payment?.entity;
+  const refund = body.payload?.refund?.entity;
+
+  switch (body.event) {
+    case 'payment.captured':
+      if (payment) return handlePaymentCaptured(payment);
+      break;
+    case 'payment.failed':
+      if (payment) return handlePaymentFailed(payment);
+      break;
+    case 'refund.processed':
+      if (refund) return handleRefundProcessed(refund, payment);
+      break;
+  }
+
+  return Promise.resolve({ status: 'ignored', message: `Event ${body.event} is not handled` });
+}
+
+// An event still "received" this long after it was taken belongs to a process that died mid-way
+const RECEIVED_LEASE_MS = 5 * 60 * 1000;
+
+const canRetry = (event: RazorpayWebhookEvent) =>
+  event.status === 'failed' ||
+  (event.status === 'received' && Date.now() - new Date(event.updated).getTime() > RECEIVED_LEASE_MS);
+
+/**
+ * Apply a verified Razorpay webhook. Each event id is recorded in
+ * `razorpay_webhook_events`; replays of a processed or ignored event are no-ops,
+ * while failed ones, and received ones whose lease ran out, run again so Razorpay's
+ * retries can recover them.
+ */
+export async function processRazorpayWebhook(eventId: string, body: RazorpayWebhookBody): Promise<WebhookResult> {
+  await ensureAdminAuth();
+
+  const previous = await pb.collection('razorpay_webhook_events')
+    .getFirstListItem(pb.filter('event_id = {:eventId}', { eventId }))
+    .then(record => record as unknown as RazorpayWebhookEvent)
+    .catch(() => null);
+
+  if (previous && !canRetry(previous)) {
+    return { status: 'duplicate', message: `Event ${eventId} was already ${previous.status}` };
+  }
+
+  let eventRecordId = previous?.id;
+  if (eventRecordId) {
+    // Take a fresh lease, so a retry arriving meanwhile sees the event as in progress
+    await pb.collection('razorpay_webhook_events').update(eventRecordId, { status: 'received', result: '' });
+  } else {
+    try {
+      const created = await pb.collection('razorpay_webhook_events').create({
+        event_id: eventId,
+        event: body.event,
+        entity_id: body.payload?.refund?.entity?.id || body.payload?.payment?.entity?.id || '',
+        status: 'received',
+        payload: body,
+      });
+      eventRecordId = created.id;
+    } catch (error) {
+      // The unique index on event_id rejects a concurrent delivery of the same event
+      const concurrent = await pb.collection('razorpay_webhook_events')
+        .getFirstListItem(pb.filter('event_id = {:eventId}', { eventId }))
+        .catch(() => null);
+      if (concurrent) {
+        return { status: 'duplicate', message: `Event ${eventId} is already being processed` };
+      }
+      throw error;
+    }
+  }
+
+  try {
+    const result = await handleEvent(body);
+    await pb.collection('razorpay_webhook_events').update(eventRecordId, {
+      status: result.status,
+      result: result.message,
+      processed_at: new Date().toISOString(),
+    });
+    return result;
+  } catch (error) {
+    await pb.collection('razorpay_webhook_events').update(eventRecordId, {
+      status: 'failed',
+      result: error instanceof Error ? error.message : 'Processing failed',
+      processed_at: new Date().toISOString(),
+    }).catch(updateError => console.error('Error marking Razorpay webhook event failed:', updateError));
+    throw error;
+  }
+}
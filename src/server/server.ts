@@ -3,12 +3,25 @@
  * This server provides the email API and other backend functionalities
  */
 
+import express from 'express';
 import { createServerApp, serverConfig, logServerConfig } from '../../server.config';
 import emailRoutes from '../api/email';
+import messageRoutes from '../api/messages';
+import razorpayRoutes from '../api/razorpay';
+import whatsappRoutes from '../api/whatsapp';
+import trackingRoutes from '../api/tracking';
+import { startMessageQueueWorker } from './messageQueue';
+import { startNotificationWorker } from './notifications';
 import { checkEmailConnection } from './emailService';
 
+// Razorpay webhooks are verified against the raw body, so they are mounted ahead of the
+// body parsers createServerApp sets up
+const server = express();
+server.use('/api/razorpay', razorpayRoutes);
+
 // Create and configure the server app
 const app = createServerApp();
+server.use(app);
 const PORT = serverConfig.port;
 
 // Log server configuration
@@ -28,6 +41,15 @@ app.get('/api', (req, res) => {
 // Email API Routes
 app.use('/email-api', emailRoutes);
 
+// WhatsApp and email sending for the admin app
+app.use('/api/messages', messageRoutes);
+
+// Incoming WhatsApp messages for the inbox, and delivery and read receipts
+app.use('/api/whatsapp', whatsappRoutes);
+
+// Email open pixels and click redirects
+app.use('/api/track', trackingRoutes);
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.status(200).json({ status: 'ok' });
@@ -61,9 +83,11 @@ async function checkConnections() {
 }
 
 // Start the server
-app.listen(PORT, () => {
+server.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  startMessageQueueWorker();
+  startNotificationWorker();
   checkConnections();
 });
 
-export default app; 
\ No newline at end of file
+export default server; 
\ No newline at end of file
@@ -0,0 +1,63 @@
+import axios from 'axios';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// The WhatsApp API is only ever called from the server
+const WHATSAPP_API_URL = process.env.WHATSAPP_API_URL || process.env.VITE_WHATSAPP_API_URL || 'https://backend-whatsappapi.7za6uc.easypanel.host';
+
+export type WhatsAppMessageKind = 'text' | 'image' | 'video' | 'document';
+
+const WHATSAPP_ENDPOINTS: Record<WhatsAppMessageKind, string> = {
+  text: '/send-message',
+  image: '/send-image-url',
+  video: '/send-video-url',
+  document: '/send-document-url',
+};
+
+// Same normalisation as the admin app: digits only, Indian country code by default
+export function formatPhoneNumber(phone: string): string {
+  const cleaned = String(phone).replace(/\D/g, '');
+  return cleaned.startsWith('91') ? cleaned : `91${cleaned}`;
+}
+
+export function isWhatsAppMessageKind(value: unknown): value is WhatsAppMessageKind {
+  return typeof value === 'string' && value in WHATSAPP_ENDPOINTS;
+}
+
+// Send one message; throws when the API rejects it. Returns the provider message ID.
+export async function sendWhatsApp(kind: WhatsAppMessageKind, payload: Record<string, unknown>): Promise<string> {
+  const response = await axios.post(`${WHATSAPP_API_URL}${WHATSAPP_ENDPOINTS[kind]}`, payload, {
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    timeout: 15000,
+  });
+  if (response.data?.success === false) {
+    throw new Error(response.data.message || 'WhatsApp API rejected the message');
+  }
+  return response.data?.messageId || response.data?.id || '';
+}
+
+export async function checkWhatsAppConnection() {
+  try {
+    const response = await axios.get(`${WHATSAPP_API_URL}/status`, {
+      headers: { Accept: 'application/json' },
+      timeout: 10000,
+    });
+
+    return {
+      connected: true,
+      status: response.data?.status || 'connected',
+      message: response.data?.message || 'WhatsApp API is connected',
+    };
+  } catch (error) {
+    console.error('Error checking WhatsApp connection:', error);
+    return {
+      connected: false,
+      status: 'disconnected',
+      message: axios.isAxiosError(error)
+        ? `WhatsApp API connection failed: ${error.message}`
+        : 'Unable to connect to WhatsApp API',
+    };
+  }
+}
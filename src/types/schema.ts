@@ -1,6 +1,7 @@
 // PocketBase Schema Types
 
 import { RecordModel } from 'pocketbase';
+import { StaffRole } from '@/lib/permissions';
 
 export interface BaseRecord {
   id: string;
@@ -16,6 +17,9 @@ export interface User extends BaseRecord {
   avatar?: string;
   emailVisibility: boolean;
   verified: boolean;
+  role?: StaffRole;
+  // Set when the account was merged into another customer; cleared if the merge is undone
+  merged_into?: string;
 }
 
 export interface Product extends BaseRecord {
@@ -41,26 +45,66 @@ export interface Product extends BaseRecord {
   specifications?: string;
   care_instructions?: string;
   usage_guidelines?: string;
+  hsn_code?: string;
+  gst_rate?: number;
+  // Units at or below which the product shows up for reorder; 0 uses the store default
+  low_stock_threshold?: number;
+  // Option types shoppers choose between; each combination is a product_variants record
+  options?: ProductOption[];
+}
+
+// e.g. { name: 'Colour', values: ['Red', 'Blue'] }
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+// One buyable combination of a product's options, with its own SKU, price and stock
+export interface ProductVariant extends BaseRecord {
+  product_id: string;
+  sku: string;
+  // Chosen value for each option, e.g. { Colour: 'Red', Size: 'M' }
+  options: Record<string, string>;
+  // Overrides the product price when above 0
+  price?: number;
+  stock: number;
+  // Filenames from the product's images that show this variant
+  images?: string[];
+  active: boolean;
 }
 
 export interface Coupon extends BaseRecord {
   code: string;
+  description?: string;
   discount_percent?: number;
   discount_amount?: number;
+  // Cap on the rupee discount from a percentage coupon; 0 means no cap
+  max_discount?: number;
   valid_until: string;
   max_uses?: number;
   used_count: number;
+  min_order_value?: number;
+  max_uses_per_customer?: number;
+  // Empty lists make every product eligible
+  product_ids?: string[];
+  categories?: string[];
+  active: boolean;
 }
 
+export type OrderStatusValue = 'pending' | 'processing' | 'shipped' | 'out_for_delivery' | 'delivered' | 'cancelled';
+
+// Refund states are set by recording refunds (src/lib/refunds.ts), not edited directly
+export type PaymentStatusValue = 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded';
+
 export interface Order extends BaseRecord {
   id: string;
   user: string[];
-  status: 'pending' | 'processing' | 'shipped' | 'out_for_delivery' | 'delivered' | 'cancelled';
+  status: OrderStatusValue;
   products: string;
   totalAmount: number;
   subtotal: number;
   total: number;
-  payment_status: 'pending' | 'paid' | 'failed';
+  payment_status: PaymentStatusValue;
   customer_name: string;
   customer_email: string;
   customer_phone: string;
@@ -83,6 +127,9 @@ export interface Order extends BaseRecord {
 export interface OrderItem extends BaseRecord {
   order_id: string;
   product_id: string;
+  variant_id?: string;
+  sku?: string;
+  variant_options?: Record<string, string>;
   quantity: number;
   price: number;
   expand?: {
@@ -90,6 +137,313 @@ export interface OrderItem extends BaseRecord {
   };
 }
 
+export interface Invoice extends BaseRecord {
+  order_id: string;
+  invoice_number: string;
+  financial_year: string;
+  sequence: number;
+  total: number;
+}
+
+export type RefundMethod = 'razorpay' | 'bank_transfer' | 'cash' | 'store_credit';
+
+// A returned order line; `line` is its index in the order's products list
+export interface RefundLineItem {
+  line: number;
+  product_id: string;
+  variant_id?: string;
+  name: string;
+  quantity: number;
+  amount: number;
+  restocked: boolean;
+}
+
+// One refund against an order. Amounts are in rupees, like order totals.
+export interface Refund extends BaseRecord {
+  order_id: string;
+  amount: number;
+  reason: string;
+  method: RefundMethod;
+  razorpay_refund_id?: string;
+  // Empty for custom-amount refunds
+  items: RefundLineItem[];
+  actor: string;
+  actor_id?: string;
+}
+
+export type InventoryMovementType = 'order_placed' | 'order_cancelled' | 'refund' | 'adjustment' | 'restock';
+
+// One change to a product's stock; `products.stock` is the running sum of these
+export interface InventoryMovement extends BaseRecord {
+  product_id: string;
+  // Set for products with variants, whose stock is held per variant
+  variant_id?: string;
+  type: InventoryMovementType;
+  // Signed change in units: negative when stock goes out, positive when it comes back
+  quantity: number;
+  stock_after: number;
+  order_id?: string;
+  refund_id?: string;
+  reason?: string;
+  actor: string;
+  actor_id?: string;
+}
+
+export interface OrderStatusHistory extends BaseRecord {
+  order_id: string;
+  from_status: OrderStatusValue | '';
+  to_status: OrderStatusValue;
+  changed_by: string;
+  changed_by_name: string;
+  note?: string;
+}
+
+export type OptOutReason = 'stop_reply' | 'dnd' | 'customer_request';
+
+// A customer contact that must not receive automated notifications
+export interface NotificationOptOut extends BaseRecord {
+  // Phone number in WhatsApp format (digits with country code) or lower-cased email
+  contact: string;
+  channel: NotificationChannel | 'all';
+  reason: OptOutReason;
+  note?: string;
+  created_by?: string;
+}
+
+// `queued` entries are raised by the Node server (e.g. payment webhooks) for the admin app to dispatch
+export type NotificationDecision = 'sent' | 'failed' | 'skipped' | 'deferred' | 'queued';
+
+// Links and amounts a notification needs, kept so deferred sends can be replayed
+export interface NotificationContext {
+  trackingLink?: string;
+  carrier?: string;
+  feedbackLink?: string;
+  retryUrl?: string;
+  refundAmount?: number;
+  // refunds record the confirmation is for
+  refundId?: string;
+  // Identifies this occurrence of the event, so retries of it are sent once but a repeat goes out again
+  eventKey?: string;
+}
+
+// One dispatcher decision per order event and channel
+export interface NotificationLog extends BaseRecord {
+  order_id: string;
+  event: NotificationEvent;
+  channel: NotificationChannel;
+  recipient: string;
+  decision: NotificationDecision;
+  reason: string;
+  context?: NotificationContext;
+  scheduled_for?: string;
+  processed_at?: string;
+  // Times the notification worker has tried a deferred or queued entry
+  attempts?: number;
+}
+
+export type MessageQueueChannel = 'whatsapp' | 'email';
+export type MessageQueueStatus = 'pending' | 'processing' | 'sent' | 'dead' | 'cancelled';
+
+// Outbound message waiting to be sent by the server-side queue worker
+export interface MessageQueueItem extends BaseRecord {
+  channel: MessageQueueChannel;
+  // WhatsApp: text, image, video or document; email: email
+  kind: string;
+  recipient: string;
+  payload: Record<string, unknown>;
+  order_id?: string;
+  template_name?: string;
+  // One message per (channel, order, template) unless the caller supplies its own key
+  idempotency_key: string;
+  status: MessageQueueStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_at?: string;
+  last_error?: string;
+  sent_at?: string;
+  provider_message_id?: string;
+  activity_id?: string;
+  campaign_id?: string;
+}
+
+// One field change made by a customer merge, kept so the merge can be undone
+export interface CustomerMergeChange {
+  collection: 'orders' | 'users' | 'addresses' | 'reviews' | 'feedback' | 'whatsapp_activities' | 'email_activities';
+  record_id: string;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+export interface CustomerMerge extends BaseRecord {
+  // Account the others were merged into; empty when only guest orders were merged
+  survivor_user_id?: string;
+  name: string;
+  email: string;
+  phone: string;
+  // Labels of the merged customers, for the history list
+  merged: string[];
+  changes: CustomerMergeChange[];
+  status: 'merged' | 'undone';
+  actor: string;
+  actor_id?: string;
+  undone_at?: string;
+  undone_by?: string;
+}
+
+export type RfmTier = 'champions' | 'loyal' | 'new' | 'needs_attention' | 'at_risk' | 'lost';
+
+// Conditions a customer must all meet to be in a segment; unset conditions match everyone
+export interface SegmentRules {
+  min_orders?: number;
+  max_orders?: number;
+  // Ordered within the last N days
+  ordered_within_days?: number;
+  // No order in the last N days
+  inactive_for_days?: number;
+  min_spend?: number;
+  max_spend?: number;
+  // Bought any of these products or categories
+  product_ids?: string[];
+  categories?: string[];
+  // Matched against saved address cities and order shipping addresses
+  city?: string;
+  // 'any' for any coupon, 'none' for never used one, or a coupon code
+  coupon?: string;
+  // Status of the latest WhatsApp or email message sent to the customer
+  last_message_status?: 'sent' | 'failed' | 'queued' | 'none';
+  rfm_tiers?: RfmTier[];
+}
+
+export interface Segment extends BaseRecord {
+  name: string;
+  description?: string;
+  rules: SegmentRules;
+  // Count from the last time the segment was evaluated
+  customer_count: number;
+  counted_at?: string;
+}
+
+export type CampaignAudienceType = 'csv' | 'segment' | 'orders';
+export type CampaignStatus = 'draft' | 'scheduled' | 'cancelled';
+
+// Where a template placeholder gets its value: an audience column, or the same text for everyone
+export interface CampaignVariableMapping {
+  source: 'column' | 'text';
+  value: string;
+}
+
+export interface CampaignRecipient {
+  // Normalized with formatPhoneNumber
+  phone: string;
+  name: string;
+  // Placeholder values for this recipient, keyed by placeholder name
+  variables: Record<string, string>;
+}
+
+// WhatsApp broadcast to a list of recipients, sent through the message queue
+export interface Campaign extends BaseRecord {
+  name: string;
+  template_name: string;
+  audience_type: CampaignAudienceType;
+  // File name, segment name or order filter summary, for the campaign list
+  audience_label: string;
+  segment_id?: string;
+  variable_mapping: Record<string, CampaignVariableMapping>;
+  recipients: CampaignRecipient[];
+  send_at: string;
+  // Messages handed to the WhatsApp API per minute
+  throttle_per_minute: number;
+  status: CampaignStatus;
+  queued_count?: number;
+  // Opted out or already messaged by this campaign
+  skipped_count?: number;
+  // Recipients the template couldn't be rendered for
+  failed_count?: number;
+  launched_at?: string;
+  launched_by?: string;
+  actor: string;
+  actor_id?: string;
+}
+
+export type WhatsAppMessageDirection = 'inbound' | 'outbound';
+
+// One message in a WhatsApp inbox thread: a customer's message, or an agent's reply from the inbox
+export interface WhatsAppMessage extends BaseRecord {
+  conversation_id: string;
+  // Normalized with formatPhoneNumber; the thread key
+  phone: string;
+  direction: WhatsAppMessageDirection;
+  // text, image, video, document, ...
+  kind: string;
+  body: string;
+  media_url?: string;
+  // Inbound: the provider's message ID, used to ignore redelivered webhooks
+  provider_message_id?: string;
+  // Outbound: message_queue record that sends the reply
+  queue_id?: string;
+  status: 'received' | 'queued' | 'failed';
+  sent_by?: string;
+  timestamp: string;
+}
+
+// Inbox thread for one phone number
+export interface WhatsAppConversation extends BaseRecord {
+  phone: string;
+  customer_name: string;
+  // Latest order placed with this number
+  order_id?: string;
+  user_id?: string;
+  assigned_to?: string;
+  assigned_name?: string;
+  unread_count: number;
+  last_message_at: string;
+  last_message_preview: string;
+  last_direction: WhatsAppMessageDirection;
+}
+
+export type TemplateChannel = 'whatsapp' | 'email';
+
+// A product shown in an email's product grid block
+export interface EmailGridProduct {
+  name: string;
+  price: string;
+  imageUrl: string;
+  url: string;
+}
+
+// One block of an email template built in the block editor; src/lib/emailBlocks.ts compiles them to HTML
+export type EmailBlock =
+  | { id: string; type: 'header'; logoUrl: string; title: string; background: string }
+  | { id: string; type: 'text'; text: string; align: 'left' | 'center' }
+  | { id: string; type: 'button'; label: string; url: string; color: string }
+  | { id: string; type: 'order_items'; showTotal: boolean }
+  | { id: string; type: 'product_grid'; products: EmailGridProduct[] }
+  | { id: string; type: 'divider' }
+  | { id: string; type: 'footer'; text: string };
+
+export type EmailBlockType = EmailBlock['type'];
+
+// Snapshot of a WhatsApp or email template's text, taken each time it is saved
+export interface TemplateVersion extends BaseRecord {
+  channel: TemplateChannel;
+  template_id: string;
+  template_name: string;
+  // 1 for the first snapshot of a template, counting up
+  version: number;
+  // Email templates only
+  subject?: string;
+  content: string;
+  // Email templates built in the block editor
+  blocks?: EmailBlock[] | null;
+  author: string;
+  author_id?: string;
+  // e.g. "+3 −1 lines, subject changed"
+  summary: string;
+  // Set when the save restored an earlier version
+  restored_from?: number;
+}
+
 export interface Address extends BaseRecord {
   user_id: string;
   street: string;
@@ -106,16 +460,107 @@ export interface Address extends BaseRecord {
 export interface RazorpayOrder extends BaseRecord {
   order_id: string;
   razorpay_order_id: string;
+  // Amounts are in paise, as Razorpay reports them
   amount: number;
   currency: string;
   status: 'created' | 'paid' | 'failed';
   payment_id?: string;
   signature?: string;
+  method?: string;
+  refunded_amount?: number;
+  error_description?: string;
   expand?: {
     order_id?: Order;
   };
 }
 
+// One line of an uploaded Razorpay settlement report. Amounts are in paise.
+export interface RazorpaySettlement extends BaseRecord {
+  // Payment (pay_...) or refund (rfnd_...) id; unique
+  entity_id: string;
+  type: 'payment' | 'refund' | 'adjustment';
+  // For refunds, the payment they were made against
+  payment_id?: string;
+  razorpay_order_id?: string;
+  amount: number;
+  fee: number;
+  tax: number;
+  settlement_id?: string;
+  settled_at?: string;
+}
+
+export type DiscrepancyType = 'paid_without_capture' | 'capture_without_order' | 'amount_mismatch' | 'partial_refund';
+
+// A reconciliation discrepancy finance has looked at and signed off
+export interface PaymentDiscrepancyResolution extends BaseRecord {
+  // e.g. amount_mismatch:<order id>; unique
+  discrepancy_key: string;
+  type: DiscrepancyType;
+  order_id?: string;
+  payment_id?: string;
+  note: string;
+  resolved_by: string;
+}
+
+export type RazorpayWebhookStatus = 'received' | 'processed' | 'ignored' | 'failed';
+
+// One record per Razorpay webhook delivery, keyed by event id so replays are ignored
+export interface RazorpayWebhookEvent extends BaseRecord {
+  event_id: string;
+  event: string;
+  // Payment or refund id the event is about
+  entity_id: string;
+  status: RazorpayWebhookStatus;
+  result?: string;
+  payload: Record<string, unknown>;
+  processed_at?: string;
+}
+
+export type NotificationEvent =
+  | 'order_confirmation'
+  | 'payment_success'
+  | 'payment_failed'
+  | 'order_shipped'
+  | 'out_for_delivery'
+  | 'order_delivered'
+  | 'refund_confirmation';
+
+export type NotificationChannel = 'whatsapp' | 'email';
+
+// Which channels an event goes out on
+export type NotificationChannelSetting = NotificationChannel | 'both' | 'none';
+
+// Singleton record holding store-wide configuration
+export interface StoreSettings extends BaseRecord {
+  store_name: string;
+  email: string;
+  support_email: string;
+  phone: string;
+  address: string;
+  currency: string;
+  // Customer notification toggles
+  email_notifications: boolean;
+  whatsapp_notifications: boolean;
+  order_confirmations: boolean;
+  payment_notifications: boolean;
+  shipping_updates: boolean;
+  stock_alerts: boolean;
+  notification_channels: Partial<Record<NotificationEvent, NotificationChannelSetting>>;
+  // Messages due inside quiet hours are held until the window ends (HH:mm in `timezone`)
+  quiet_hours_enabled: boolean;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  timezone: string;
+  // Invoicing
+  gstin: string;
+  state: string;
+  state_code: string;
+  invoice_prefix: string;
+  default_hsn: string;
+  default_gst_rate: number;
+  prices_include_tax: boolean;
+}
+
 // Create data types
 export type CreateProductData = {
   name: string;
@@ -141,16 +586,20 @@ export type CreateProductData = {
   specifications?: string;
   care_instructions?: string;
   usage_guidelines?: string;
+  hsn_code?: string;
+  gst_rate?: number;
+  low_stock_threshold?: number;
+  options?: ProductOption[];
 };
 
 export type CreateOrderData = {
   user: string[];
-  status: 'pending' | 'processing' | 'shipped' | 'out_for_delivery' | 'delivered' | 'cancelled';
+  status: OrderStatusValue;
   products: string;
   totalAmount: number;
   subtotal: number;
   total: number;
-  payment_status: 'pending' | 'paid' | 'failed';
+  payment_status: PaymentStatusValue;
   customer_name: string;
   customer_email: string;
   customer_phone: string;
@@ -173,12 +622,14 @@ export type CreateRazorpayOrderData = {
   signature?: string;
 };
 
+export type CreateCouponData = Omit<Coupon, keyof BaseRecord | 'used_count'>;
+
 // Update data types
 export type UpdateProductData = Partial<Omit<Product, keyof BaseRecord>>;
 
 export type UpdateOrderData = Partial<CreateOrderData> & {
-  status?: 'pending' | 'processing' | 'shipped' | 'out_for_delivery' | 'delivered' | 'cancelled';
-  payment_status?: 'pending' | 'paid' | 'failed';
+  status?: OrderStatusValue;
+  payment_status?: PaymentStatusValue;
   tracking_link?: string;
   shipping_carrier?: string;
   refund_amount?: number;
@@ -187,4 +638,12 @@ export type UpdateOrderData = Partial<CreateOrderData> & {
   whatsapp_error_message?: string;
 };
 
+export type UpdateCouponData = Partial<CreateCouponData>;
+
+export type SegmentData = Pick<Segment, 'name' | 'description' | 'rules'>;
+
+export type CampaignData = Omit<Campaign, keyof BaseRecord | 'status' | 'queued_count' | 'skipped_count' | 'launched_at' | 'launched_by'>;
+
+export type UpdateStoreSettingsData = Partial<Omit<StoreSettings, keyof BaseRecord>>;
+
 export type UpdateRazorpayOrderData = Partial<Omit<RazorpayOrder, keyof BaseRecord>>;